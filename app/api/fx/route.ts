@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import { fetchFxRates, loadFixtureFxRates, type FxRates } from '@/lib/prices/fx';
+import { getFxRatesCacheKey } from '@/lib/utils/cache';
+
+export interface FxRatesApiResponse {
+  fx: FxRates | null; // Null only if the fixture can't be read either
+  error?: string;
+}
+
+/**
+ * How long upstream rates are served from the server cache; ECB rates change daily
+ */
+const FX_CACHE_TTL_SECONDS = 60 * 60;
+
+/**
+ * GET /api/fx
+ *
+ * Returns USD exchange rates for the display currencies. Falls back to the bundled
+ * fixture rates (source 'fixture') when the upstream is unreachable.
+ *
+ * Response: FxRatesApiResponse
+ */
+export async function GET() {
+  try {
+    const { value: fx, hit } = await withServerCache(getFxRatesCacheKey('USD'), FX_CACHE_TTL_SECONDS, fetchFxRates);
+
+    return NextResponse.json<FxRatesApiResponse>(
+      { fx },
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${FX_CACHE_TTL_SECONDS}, stale-while-revalidate=${FX_CACHE_TTL_SECONDS * 2}`,
+          'X-Cache': hit ? 'HIT' : 'MISS',
+        },
+      }
+    );
+  } catch (error) {
+    console.warn('FX rates unavailable; using fixture rates:', error);
+  }
+
+  try {
+    // Fixture rates aren't cached so the upstream is retried on the next request
+    return NextResponse.json<FxRatesApiResponse>(
+      { fx: loadFixtureFxRates() },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in /api/fx:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json<FxRatesApiResponse>({ fx: null, error: `Failed to load FX rates: ${errorMessage}` }, { status: 500 });
+  }
+}
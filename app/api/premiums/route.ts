@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerCached, setServerCached } from '@/lib/caching/serverCache';
+import { getTokenPremiums, type TokenPremium } from '@/lib/prices/premium';
+import type { PriceRequest } from '@/lib/prices/types';
+import { resolveStockTicker } from '@/lib/utils/token';
+import { getPremiumCacheKey } from '@/lib/utils/cache';
+
+/**
+ * Premium for one requested token
+ */
+export interface BatchPremiumResult {
+  chainId: number;
+  address: string;
+  premium: TokenPremium | null; // Null for tokens that aren't tokenized stocks or lack a price
+}
+
+export interface BatchPremiumApiResponse {
+  premiums: BatchPremiumResult[]; // In request order
+  error?: string;
+}
+
+/**
+ * Maximum tokens per request
+ */
+const MAX_TOKENS = 100;
+
+/**
+ * How long premiums are served from the server cache, matching the single-token premium route
+ */
+const PREMIUM_CACHE_TTL_SECONDS = 60;
+
+/**
+ * POST /api/premiums
+ *
+ * Returns tokenized stock premiums for many tokens at once, for search result badges.
+ * Tokens that aren't tokenized stocks are answered with null without upstream calls,
+ * so callers can send a whole result list. Only configured tokenized stocks and
+ * listed Ondo tokens count, recognised by address.
+ *
+ * Request body:
+ * {
+ *   tokens: Array<{ chainId: number, address: string }>  // 1 to 100
+ * }
+ *
+ * Response: BatchPremiumApiResponse
+ */
+export async function POST(request: NextRequest) {
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<BatchPremiumApiResponse>({ premiums: [], error }, { status });
+
+  const body = await request.json().catch(() => null);
+
+  // Validate request body
+  if (!body || !Array.isArray(body.tokens) || body.tokens.length === 0 || body.tokens.length > MAX_TOKENS) {
+    return errorResponse(`Invalid tokens. Must be an array of 1 to ${MAX_TOKENS} tokens.`, 400);
+  }
+
+  const isValidToken = (token: any) =>
+    token
+    && typeof token.chainId === 'number' && Number.isInteger(token.chainId)
+    && typeof token.address === 'string' && token.address.trim().length > 0;
+  if (!body.tokens.every(isValidToken)) {
+    return errorResponse('Each token must have a numeric chainId and a non-empty address.', 400);
+  }
+
+  const requests: PriceRequest[] = body.tokens.map((token: PriceRequest) => ({
+    chainId: token.chainId,
+    address: token.address.trim().toLowerCase(),
+  }));
+
+  try {
+    // Deduplicate and keep only tokenized stocks
+    const premiumsByToken = new Map<string, TokenPremium | null>();
+    const stockRequests: PriceRequest[] = [];
+    for (const premiumRequest of requests) {
+      const tokenKey = `${premiumRequest.chainId}:${premiumRequest.address}`;
+      if (premiumsByToken.has(tokenKey)) {
+        continue;
+      }
+      premiumsByToken.set(tokenKey, null);
+      if (resolveStockTicker(premiumRequest.chainId, premiumRequest.address) !== null) {
+        stockRequests.push(premiumRequest);
+      }
+    }
+
+    // Serve what the shared cache has; only the misses go upstream
+    const cached = await Promise.all(
+      stockRequests.map((premiumRequest) =>
+        getServerCached<TokenPremium>(getPremiumCacheKey(premiumRequest.chainId, premiumRequest.address))
+      )
+    );
+    stockRequests.forEach((premiumRequest, i) => {
+      premiumsByToken.set(`${premiumRequest.chainId}:${premiumRequest.address}`, cached[i]);
+    });
+
+    const misses = stockRequests.filter((_, i) => !cached[i]);
+    if (misses.length > 0) {
+      const premiums = await getTokenPremiums(misses);
+      await Promise.all(
+        misses.map(async (premiumRequest, i) => {
+          const premium = premiums[i];
+          premiumsByToken.set(`${premiumRequest.chainId}:${premiumRequest.address}`, premium);
+          // Missing premiums aren't cached so a recovering upstream is picked up on the next request
+          if (premium) {
+            await setServerCached(
+              getPremiumCacheKey(premiumRequest.chainId, premiumRequest.address),
+              premium,
+              PREMIUM_CACHE_TTL_SECONDS
+            );
+          }
+        })
+      );
+    }
+
+    return NextResponse.json<BatchPremiumApiResponse>(
+      {
+        premiums: requests.map((premiumRequest) => ({
+          chainId: premiumRequest.chainId,
+          address: premiumRequest.address,
+          premium: premiumsByToken.get(`${premiumRequest.chainId}:${premiumRequest.address}`) ?? null,
+        })),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in /api/premiums:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch premiums: ${errorMessage}`, 500);
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerCached, setServerCached } from '@/lib/caching/serverCache';
+import { PRICE_SOURCES, getDefaultPriceSources, getPriceProvider, getPriceTokenKind, parsePriceSources } from '@/lib/prices/composite';
+import type { PriceQuote, PriceRequest, PriceSource } from '@/lib/prices/types';
+import { getPriceQuoteCacheKey } from '@/lib/utils/cache';
+
+/**
+ * Price for one requested token
+ */
+export interface BatchPriceResult {
+  chainId: number;
+  address: string;
+  quote: PriceQuote | null; // Null if no source had a price
+}
+
+export interface BatchPriceApiResponse {
+  prices: BatchPriceResult[]; // In request order
+  error?: string;
+}
+
+/**
+ * Maximum tokens per request
+ */
+const MAX_TOKENS = 100;
+
+/**
+ * How long quotes are served from the server cache, matching the single-token price route
+ */
+const PRICE_CACHE_TTL_SECONDS = 30;
+
+/**
+ * POST /api/prices
+ *
+ * Returns USD prices for many tokens at once. Tokens are grouped by source order and
+ * each source is asked once per group for every token still unpriced, so a search
+ * dropdown costs a handful of upstream requests instead of one or two per token.
+ * Like the single-token route, tokens are identified by address alone since quotes
+ * are shared through the server cache.
+ *
+ * Request body:
+ * {
+ *   tokens: Array<{ chainId: number, address: string }>,  // 1 to 100
+ *   sources?: string  // Comma-separated source order, e.g. "uniswap,coingecko" (default: configured per token kind)
+ * }
+ *
+ * Response: BatchPriceApiResponse
+ */
+export async function POST(request: NextRequest) {
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<BatchPriceApiResponse>({ prices: [], error }, { status });
+
+  const body = await request.json().catch(() => null);
+
+  // Validate request body
+  if (!body || !Array.isArray(body.tokens) || body.tokens.length === 0 || body.tokens.length > MAX_TOKENS) {
+    return errorResponse(`Invalid tokens. Must be an array of 1 to ${MAX_TOKENS} tokens.`, 400);
+  }
+
+  const isValidToken = (token: any) =>
+    token
+    && typeof token.chainId === 'number' && Number.isInteger(token.chainId)
+    && typeof token.address === 'string' && token.address.trim().length > 0;
+  if (!body.tokens.every(isValidToken)) {
+    return errorResponse('Each token must have a numeric chainId and a non-empty address.', 400);
+  }
+
+  let explicitSources: PriceSource[] | null = null;
+  if (body.sources !== undefined) {
+    explicitSources = typeof body.sources === 'string' ? parsePriceSources(body.sources) : [];
+    if (explicitSources.length === 0) {
+      return errorResponse(`Invalid sources. Must be a comma-separated list of: ${PRICE_SOURCES.join(', ')}.`, 400);
+    }
+  }
+
+  // Solana addresses are case-sensitive
+  const requests: PriceRequest[] = body.tokens.map((token: PriceRequest) => ({
+    chainId: token.chainId,
+    address: token.chainId === 101 ? token.address.trim() : token.address.trim().toLowerCase(),
+  }));
+
+  try {
+    // Deduplicate, then group by source order so stocks and crypto tokens each fall back their own way
+    const quotesByToken = new Map<string, PriceQuote | null>();
+    const groups = new Map<string, { sources: PriceSource[]; requests: PriceRequest[] }>();
+    for (const priceRequest of requests) {
+      const tokenKey = `${priceRequest.chainId}:${priceRequest.address}`;
+      if (quotesByToken.has(tokenKey)) {
+        continue;
+      }
+      quotesByToken.set(tokenKey, null);
+
+      const sources = explicitSources
+        ?? getDefaultPriceSources(getPriceTokenKind(priceRequest.chainId, priceRequest.address));
+      const groupKey = sources.join(',');
+      const group = groups.get(groupKey) ?? { sources, requests: [] };
+      group.requests.push(priceRequest);
+      groups.set(groupKey, group);
+    }
+
+    await Promise.all(
+      Array.from(groups.values()).map(async ({ sources, requests: groupRequests }) => {
+        // Serve what the shared cache has; only the misses go upstream
+        const cached = await Promise.all(
+          groupRequests.map((priceRequest) =>
+            getServerCached<PriceQuote>(getPriceQuoteCacheKey(priceRequest.chainId, priceRequest.address, sources))
+          )
+        );
+        const misses = groupRequests.filter((_, i) => !cached[i]);
+        groupRequests.forEach((priceRequest, i) => {
+          quotesByToken.set(`${priceRequest.chainId}:${priceRequest.address}`, cached[i]);
+        });
+
+        if (misses.length === 0) {
+          return;
+        }
+
+        const quotes = await getPriceProvider(sources).getQuotes(misses);
+        await Promise.all(
+          misses.map(async (priceRequest, i) => {
+            const quote = quotes[i];
+            quotesByToken.set(`${priceRequest.chainId}:${priceRequest.address}`, quote);
+            // Missing prices aren't cached so a recovering upstream is picked up on the next request
+            if (quote) {
+              await setServerCached(
+                getPriceQuoteCacheKey(priceRequest.chainId, priceRequest.address, sources),
+                quote,
+                PRICE_CACHE_TTL_SECONDS
+              );
+            }
+          })
+        );
+      })
+    );
+
+    return NextResponse.json<BatchPriceApiResponse>(
+      {
+        prices: requests.map((priceRequest) => ({
+          chainId: priceRequest.chainId,
+          address: priceRequest.address,
+          quote: quotesByToken.get(`${priceRequest.chainId}:${priceRequest.address}`) ?? null,
+        })),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in /api/prices:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch prices: ${errorMessage}`, 500);
+  }
+}
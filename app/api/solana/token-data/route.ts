@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchTokenPriceByAddress } from '@/lib/api/coingecko';
-import { getTokenMetadata, getStockTicker, isTokenizedStock } from '@/lib/utils/token';
+import { withServerCache } from '@/lib/caching/serverCache';
+import { getSolanaTokenDataCacheKey } from '@/lib/utils/cache';
+import { createYahooPriceProvider } from '@/lib/prices/yahoo';
 import * as cheerio from 'cheerio';
 
 export interface SolanaTokenDataResponse {
@@ -16,6 +18,21 @@ export interface SolanaTokenDataResponse {
   error?: string;
 }
 
+/**
+ * How long token data is served from the server cache
+ */
+const TOKEN_DATA_CACHE_TTL_SECONDS = 60;
+
+const yahooPriceProvider = createYahooPriceProvider();
+
+/**
+ * Token data for a set of addresses, and whether any lookup failed
+ */
+interface SolanaTokenDataResult {
+  tokens: SolanaTokenDataResponse['tokens'];
+  failed: boolean; // Some token's data is missing because a request failed (not just unlisted); not cached
+}
+
 /**
  * Format market cap number to Jupiter's format (e.g., $472B)
  */
@@ -38,6 +55,8 @@ function formatMarketCap(value: number): string {
 /**
  * Fetch market cap from Jupiter token page HTML
  * DISABLED: Jupiter integration removed from frontend
+ * @returns The formatted market cap, or null if Jupiter has none for the token
+ * @throws Error if the request fails
  */
 async function fetchJupiterMarketCap(tokenAddress: string): Promise<string | null> {
   // Jupiter integration disabled - return null
@@ -47,6 +66,8 @@ async function fetchJupiterMarketCap(tokenAddress: string): Promise<string | nul
 /**
  * Fetch liquidity data from Jupiter API
  * DISABLED: Jupiter integration removed from frontend
+ * @returns The liquidity in USD, or null if Jupiter has none for the token
+ * @throws Error if the request fails
  */
 async function fetchJupiterLiquidity(tokenAddress: string): Promise<number | null> {
   // Jupiter integration disabled - return null
@@ -99,96 +120,91 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Fetch data for all tokens in parallel
-    const tokensWithData = await Promise.all(
-      addresses.map(async (address: string) => {
-        try {
-          // Fetch liquidity from Jupiter (primary source for TVL)
-          const jupiterLiquidity = await fetchJupiterLiquidity(address);
-          
-          // Fetch market cap from Jupiter HTML (prioritized for private tokens)
-          const jupiterMarketCapFormatted = await fetchJupiterMarketCap(address);
-          
-          // Fetch CoinGecko data for volume (24h trading volume)
-          const coingeckoData = await fetchTokenPriceByAddress(101, address);
-
-          // Build response with liquidity from Jupiter and volume from CoinGecko
-          const result: { address: string; tvlUSD?: number; volumeUSD: number; marketCap?: number; marketCapFormatted?: string; priceChange24h?: number } = {
-            address,
-            volumeUSD: coingeckoData?.total_volume || 0,
-          };
-
-          // Add liquidity from Jupiter if available
-          if (jupiterLiquidity !== null && jupiterLiquidity > 0) {
-            result.tvlUSD = jupiterLiquidity;
-          }
-
-          // Prioritize Jupiter's formatted market cap, fall back to CoinGecko
-          if (jupiterMarketCapFormatted) {
-            result.marketCapFormatted = jupiterMarketCapFormatted;
-          } else if (coingeckoData?.market_cap) {
-            result.marketCap = coingeckoData.market_cap;
-          }
-
-          // Add 24h price change from CoinGecko
-          let priceChange24h = coingeckoData?.price_change_percentage_24h;
-          
-          // Fallback to yfinance for tokenized stocks if CoinGecko didn't return a valid percentage change
-          if ((priceChange24h === undefined || priceChange24h === null || isNaN(priceChange24h)) && address) {
+    // Fetch data for all tokens in parallel, sharing results across requests for the same tokens.
+    // A result with failed tokens isn't cached, so the next request retries them.
+    const { value: tokenData, hit } = await withServerCache<SolanaTokenDataResult>(
+      getSolanaTokenDataCacheKey(addresses),
+      TOKEN_DATA_CACHE_TTL_SECONDS,
+      async () => {
+        let failed = false;
+        const tokens = await Promise.all(
+          addresses.map(async (address: string) => {
             try {
-              const tokenMetadata = getTokenMetadata(address);
-              if (tokenMetadata && isTokenizedStock(tokenMetadata.token)) {
-                const ticker = getStockTicker(tokenMetadata.token);
-                if (ticker) {
-                  // Fetch from yfinance using yahoo-finance2
-                  let yahooFinance: any;
-                  try {
-                    yahooFinance = await import('yahoo-finance2');
-                    const yf = yahooFinance.default || yahooFinance;
-                    const quote = await yf.quote(ticker);
-                    
-                    if (quote) {
-                      const yfinancePctChange = quote.regularMarketChangePercent || quote.changePercent;
-                      if (typeof yfinancePctChange === 'number' && !isNaN(yfinancePctChange)) {
-                        priceChange24h = yfinancePctChange;
-                      }
-                    }
-                  } catch (yfinanceError) {
-                    console.debug(`Failed to fetch yfinance price change for ${address} (${ticker}):`, yfinanceError);
-                    // Continue with undefined priceChange24h
+              // Fetch liquidity from Jupiter (primary source for TVL)
+              const jupiterLiquidity = await fetchJupiterLiquidity(address);
+
+              // Fetch market cap from Jupiter HTML (prioritized for private tokens)
+              const jupiterMarketCapFormatted = await fetchJupiterMarketCap(address);
+
+              // Fetch CoinGecko data for volume (24h trading volume); null only when CoinGecko doesn't
+              // list the token, a rate-limited or failed request throws and marks the result failed
+              const coingeckoData = await fetchTokenPriceByAddress(101, address);
+
+              // Build response with liquidity from Jupiter and volume from CoinGecko
+              const result: { address: string; tvlUSD?: number; volumeUSD: number; marketCap?: number; marketCapFormatted?: string; priceChange24h?: number } = {
+                address,
+                volumeUSD: coingeckoData?.total_volume || 0,
+              };
+
+              // Add liquidity from Jupiter if available
+              if (jupiterLiquidity !== null && jupiterLiquidity > 0) {
+                result.tvlUSD = jupiterLiquidity;
+              }
+
+              // Prioritize Jupiter's formatted market cap, fall back to CoinGecko
+              if (jupiterMarketCapFormatted) {
+                result.marketCapFormatted = jupiterMarketCapFormatted;
+              } else if (coingeckoData?.market_cap) {
+                result.marketCap = coingeckoData.market_cap;
+              }
+
+              // Add 24h price change from CoinGecko
+              let priceChange24h = coingeckoData?.price_change_percentage_24h;
+
+              // Fallback to Yahoo Finance for tokenized stocks if CoinGecko didn't return a valid percentage change
+              if (priceChange24h === undefined || priceChange24h === null || isNaN(priceChange24h)) {
+                try {
+                  const quote = await yahooPriceProvider.getQuote({ chainId: 101, address });
+                  if (quote && quote.change24hPercent !== null) {
+                    priceChange24h = quote.change24hPercent;
                   }
+                } catch (yfinanceError) {
+                  console.debug(`Failed to fetch yfinance price change for ${address}:`, yfinanceError);
+                  // Continue with undefined priceChange24h
+                  failed = true;
                 }
               }
+
+              if (priceChange24h !== undefined && priceChange24h !== null && !isNaN(priceChange24h)) {
+                result.priceChange24h = priceChange24h;
+              }
+
+              return result;
             } catch (error) {
-              console.debug(`Failed to check token metadata for ${address}:`, error);
-              // Continue with undefined priceChange24h
+              console.error(`Error fetching data for Solana token ${address}:`, error);
+              // Return token with zero values on error
+              failed = true;
+              return {
+                address,
+                volumeUSD: 0,
+              };
             }
-          }
-          
-          if (priceChange24h !== undefined && priceChange24h !== null && !isNaN(priceChange24h)) {
-            result.priceChange24h = priceChange24h;
-          }
-
-          return result;
-        } catch (error) {
-          console.error(`Error fetching data for Solana token ${address}:`, error);
-          // Return token with zero values on error
-          return {
-            address,
-            volumeUSD: 0,
-          };
-        }
-      })
+          })
+        );
+        return { tokens, failed };
+      },
+      (result) => !result.failed
     );
 
     return NextResponse.json<SolanaTokenDataResponse>(
       {
         chainId: 101,
-        tokens: tokensWithData,
+        tokens: tokenData.tokens,
       },
       {
         headers: {
           'Cache-Control': 'no-store, no-cache, must-revalidate',
+          'X-Cache': hit ? 'HIT' : 'MISS',
         },
       }
     );
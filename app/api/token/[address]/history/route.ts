@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import {
+  MAX_PRICE_HISTORY_DAYS,
+  PRICE_HISTORY_RANGE_DAYS,
+  getDefaultPriceHistoryInterval,
+  getPriceHistoryProvider,
+  isPriceHistoryRangeSupported,
+  type OhlcPoint,
+  type PriceHistoryInterval,
+  type PriceHistoryRange,
+  type PriceHistorySource,
+} from '@/lib/prices/history';
+import { getPriceHistoryCacheKey } from '@/lib/utils/cache';
+import { getTokenMetadata } from '@/lib/utils/token';
+
+export interface PriceHistoryApiResponse {
+  chainId: number;
+  address: string;
+  range: PriceHistoryRange;
+  interval: PriceHistoryInterval;
+  source: PriceHistorySource | null; // Null when the request was rejected
+  points: OhlcPoint[]; // Ordered by date ascending
+  error?: string;
+}
+
+/**
+ * How long series are served from the server cache; daily candles change slowly
+ */
+const HISTORY_CACHE_TTL_SECONDS: Record<PriceHistoryInterval, number> = {
+  hour: 5 * 60,
+  day: 30 * 60,
+};
+
+/**
+ * GET /api/token/[address]/history
+ *
+ * Returns a token's USD price history as OHLC candles, in the same point shape as
+ * the stock-data route's historicalData. Tokens are identified by address alone: series
+ * are shared across callers, so a caller-supplied symbol can't pick the coin.
+ *
+ * Query parameters:
+ *   chainId  - number (default: the token's configured chain, else 1)
+ *   range    - '1D' | '7D' | '30D' | '90D' | '1Y' (default: '30D')
+ *   interval - 'hour' | 'day' (default: 'hour' for 1D, else 'day'); hourly is limited to 90D and flat beyond 1D
+ *
+ * Response: PriceHistoryApiResponse
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  const { searchParams } = request.nextUrl;
+  const chainIdParam = searchParams.get('chainId');
+  const range = (searchParams.get('range') || '30D').toUpperCase() as PriceHistoryRange;
+  const chainId = chainIdParam ? parseInt(chainIdParam, 10) : getTokenMetadata(params.address)?.chainId ?? 1;
+  // Solana addresses are case-sensitive
+  const address = chainId === 101 ? params.address : params.address?.toLowerCase();
+
+  const isValidRange = range in PRICE_HISTORY_RANGE_DAYS;
+  const interval = (searchParams.get('interval')
+    || (isValidRange ? getDefaultPriceHistoryInterval(range) : 'day')) as PriceHistoryInterval;
+
+  const errorResponse = (error: string, status: number, source: PriceHistorySource | null = null) =>
+    NextResponse.json<PriceHistoryApiResponse>(
+      { chainId: isNaN(chainId) ? 0 : chainId, address: address || '', range, interval, source, points: [], error },
+      { status }
+    );
+
+  // Validate request parameters
+  if (!address) {
+    return errorResponse('Token address is required', 400);
+  }
+
+  if (isNaN(chainId)) {
+    return errorResponse('Invalid chainId. Must be a number.', 400);
+  }
+
+  if (!isValidRange) {
+    return errorResponse(`Invalid range. Must be one of: ${Object.keys(PRICE_HISTORY_RANGE_DAYS).join(', ')}.`, 400);
+  }
+
+  if (interval !== 'day' && interval !== 'hour') {
+    return errorResponse("Invalid interval. Must be 'day' or 'hour'.", 400);
+  }
+
+  if (!isPriceHistoryRangeSupported(range, interval)) {
+    return errorResponse(`Range too large. ${interval === 'day' ? 'Daily' : 'Hourly'} series are limited to ${MAX_PRICE_HISTORY_DAYS[interval]} days.`, 400);
+  }
+
+  const provider = getPriceHistoryProvider();
+
+  try {
+    // Empty series aren't cached so a token CoinGecko lists later is picked up
+    const { value: points, hit } = await withServerCache(
+      getPriceHistoryCacheKey(chainId, address, range, interval, provider.source),
+      HISTORY_CACHE_TTL_SECONDS[interval],
+      () => provider.getHistory({ chainId, address }, range, interval),
+      (value) => value !== null && value.length > 0
+    );
+
+    if (!points || points.length === 0) {
+      return errorResponse('No price history available for this token', 404, provider.source);
+    }
+
+    return NextResponse.json<PriceHistoryApiResponse>(
+      { chainId, address, range, interval, source: provider.source, points },
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${HISTORY_CACHE_TTL_SECONDS[interval]}, stale-while-revalidate=${HISTORY_CACHE_TTL_SECONDS[interval] * 2}`,
+          'X-Cache': hit ? 'HIT' : 'MISS',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in token history API route:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch price history: ${errorMessage}`, 500, provider.source);
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import { getSubgraphErrorStatus } from '@/lib/uniswap/client';
+import { getHistory } from '@/lib/uniswap/history';
+import type { SubgraphMeta } from '@/lib/uniswap/meta';
+import { getAllPoolsForToken } from '@/lib/uniswap/pools';
+import { isChainSupported } from '@/lib/uniswap/subgraphs';
+import { getTokenLiquidityCacheKey } from '@/lib/utils/cache';
+import { getTokenMetadata } from '@/lib/utils/token';
+
+/**
+ * Where the totals came from
+ */
+export type TokenLiquiditySource = 'pools' | 'token';
+
+export interface TokenLiquidityApiResponse {
+  chainId: number;
+  address: string;
+  tvlUSD: number | null; // Null if the subgraph has no data for the token
+  volume24hUSD: number | null;
+  source: TokenLiquiditySource; // 'token' when not every pool could be read and the token's own day data was used
+  poolCount: number; // Pools read by the walk
+  complete: boolean; // Whether the walk read every pool
+  meta?: SubgraphMeta; // Indexed block the totals were read at
+  error?: string; // Set when a page of the walk failed
+}
+
+/**
+ * How long totals are served from the server cache
+ */
+const LIQUIDITY_CACHE_TTL_SECONDS = 300;
+
+/**
+ * Seconds per UTC day; day rows are stamped with the day's start
+ */
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * How far back to look for the token's latest day row when falling back to it
+ */
+const TOKEN_DAY_LOOKBACK_DAYS = 30;
+
+/**
+ * Sum a token's pools, falling back to the token's latest day data when the walk is incomplete
+ * @throws Error if the walk is incomplete and the token's day data can't be read either
+ */
+async function loadTokenLiquidity(chainId: number, address: string): Promise<TokenLiquidityApiResponse> {
+  const walk = await getAllPoolsForToken(chainId, address);
+  const result = {
+    chainId,
+    address,
+    poolCount: walk.pools.length,
+    complete: walk.complete,
+    error: walk.error,
+  };
+
+  if (walk.complete) {
+    return {
+      ...result,
+      tvlUSD: walk.pools.reduce((sum, pool) => sum + pool.tvlUSD, 0),
+      volume24hUSD: walk.pools.reduce((sum, pool) => sum + pool.volumeUSD, 0),
+      source: 'pools',
+      meta: walk.meta,
+    };
+  }
+
+  // The subgraph only writes a day row on activity, so the latest row may be older than today
+  const now = Math.floor(Date.now() / 1000);
+  const today = Math.floor(now / DAY_SECONDS) * DAY_SECONDS;
+  const series = await getHistory(chainId, 'token', address, 'day', now - TOKEN_DAY_LOOKBACK_DAYS * DAY_SECONDS, now);
+  const latest = series.points[series.points.length - 1];
+  return {
+    ...result,
+    tvlUSD: latest ? latest.tvlUSD : null,
+    volume24hUSD: latest ? (latest.timestamp === today ? latest.volumeUSD : 0) : null,
+    source: 'token',
+    meta: series.meta,
+  };
+}
+
+/**
+ * GET /api/token/[address]/liquidity
+ *
+ * Returns a token's TVL and 24h volume summed over every Uniswap v3 pool it's in. When
+ * the pool walk fails or stops at its cap, a partial sum would under-report, so the
+ * token's own day data (the subgraph's token TVL and volume) is returned instead.
+ *
+ * Query parameters:
+ *   chainId - number (default: the token's configured chain, else 1)
+ *
+ * Response: TokenLiquidityApiResponse
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  const { searchParams } = request.nextUrl;
+  const chainIdParam = searchParams.get('chainId');
+  const address = (params.address || '').toLowerCase();
+  const chainId = chainIdParam ? parseInt(chainIdParam, 10) : getTokenMetadata(address)?.chainId ?? 1;
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<TokenLiquidityApiResponse>(
+      {
+        chainId: isNaN(chainId) ? 0 : chainId,
+        address,
+        tvlUSD: null,
+        volume24hUSD: null,
+        source: 'pools',
+        poolCount: 0,
+        complete: false,
+        error,
+      },
+      { status }
+    );
+
+  // Validate request parameters
+  if (!/^0x[a-f0-9]{40}$/.test(address)) {
+    return errorResponse('Token address must be a 0x-prefixed address.', 400);
+  }
+
+  if (isNaN(chainId)) {
+    return errorResponse('Invalid chainId. Must be a number.', 400);
+  }
+
+  if (!isChainSupported(chainId)) {
+    return errorResponse(`Chain ${chainId} is not supported or does not have a Uniswap v3 subgraph.`, 400);
+  }
+
+  try {
+    // Totals from a failed walk aren't cached so a recovering subgraph is picked up on the next request
+    const { value, hit } = await withServerCache(
+      getTokenLiquidityCacheKey(chainId, address),
+      LIQUIDITY_CACHE_TTL_SECONDS,
+      () => loadTokenLiquidity(chainId, address),
+      (result) => !result.error
+    );
+
+    return NextResponse.json<TokenLiquidityApiResponse>(value, {
+      headers: {
+        'Cache-Control': value.error ? 'no-store' : 'public, s-maxage=300, stale-while-revalidate=600',
+        'X-Cache': hit ? 'HIT' : 'MISS',
+      },
+    });
+  } catch (error) {
+    console.error('Error in token liquidity API route:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch liquidity: ${errorMessage}`, getSubgraphErrorStatus(error));
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import {
+  PREMIUM_HISTORY_DAYS,
+  getPremiumHistory,
+  getTokenPremium,
+  type PremiumSample,
+  type TokenPremium,
+} from '@/lib/prices/premium';
+import { getPremiumCacheKey } from '@/lib/utils/cache';
+import { getTokenMetadata, resolveStockTicker } from '@/lib/utils/token';
+
+export interface PremiumApiResponse {
+  premium: TokenPremium | null; // Null if the on-chain or reference price is missing
+  history: PremiumSample[]; // Stored samples in time order
+  error?: string;
+}
+
+/**
+ * How long the current premium is served from the server cache, matching the stock-data route
+ */
+const PREMIUM_CACHE_TTL_SECONDS = 60;
+
+/**
+ * GET /api/token/[address]/premium
+ *
+ * Returns a tokenized stock's premium (positive) or discount (negative) to its
+ * underlying's market price, with the stored series. Only configured tokenized
+ * stocks and listed Ondo tokens have one, recognised by address.
+ *
+ * Query parameters:
+ *   chainId - number (default: the token's configured chain, else 1)
+ *   days    - history length, 1 to 30 (default: 7)
+ *
+ * Response: PremiumApiResponse
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  const { searchParams } = request.nextUrl;
+  const chainIdParam = searchParams.get('chainId');
+  const daysParam = searchParams.get('days');
+  const address = params.address?.toLowerCase();
+  const chainId = chainIdParam ? parseInt(chainIdParam, 10) : getTokenMetadata(params.address)?.chainId ?? 1;
+  const days = daysParam ? parseInt(daysParam, 10) : 7;
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<PremiumApiResponse>({ premium: null, history: [], error }, { status });
+
+  // Validate request parameters
+  if (!address) {
+    return errorResponse('Token address is required', 400);
+  }
+
+  if (isNaN(chainId)) {
+    return errorResponse('Invalid chainId. Must be a number.', 400);
+  }
+
+  if (isNaN(days) || days < 1 || days > PREMIUM_HISTORY_DAYS) {
+    return errorResponse(`Invalid days. Must be between 1 and ${PREMIUM_HISTORY_DAYS}.`, 400);
+  }
+
+  if (!resolveStockTicker(chainId, address)) {
+    return errorResponse('Token is not a tokenized stock', 400);
+  }
+
+  try {
+    // Missing premiums aren't cached so a recovering upstream is picked up on the next request
+    const { value: premium, hit } = await withServerCache(
+      getPremiumCacheKey(chainId, address),
+      PREMIUM_CACHE_TTL_SECONDS,
+      () => getTokenPremium({ chainId, address }),
+      (value) => value !== null
+    );
+    const history = await getPremiumHistory(chainId, address, Math.floor(Date.now() / 1000) - days * 24 * 60 * 60);
+
+    if (!premium) {
+      return NextResponse.json<PremiumApiResponse>(
+        { premium: null, history, error: 'No on-chain or reference price available for this token' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<PremiumApiResponse>(
+      { premium, history },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
+          'X-Cache': hit ? 'HIT' : 'MISS',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in token premium API route:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Internal server error', 500);
+  }
+}
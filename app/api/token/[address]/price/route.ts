@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import { PRICE_SOURCES, getDefaultPriceSources, getPriceProvider, getPriceTokenKind, parsePriceSources } from '@/lib/prices/composite';
+import type { PriceQuote, PriceSource } from '@/lib/prices/types';
+import { getPriceQuoteCacheKey } from '@/lib/utils/cache';
+import { getTokenMetadata } from '@/lib/utils/token';
+
+export interface PriceQuoteApiResponse {
+  quote: PriceQuote | null; // Null if no source had a price
+  sources: PriceSource[]; // Sources tried, in order
+  error?: string;
+}
+
+/**
+ * How long quotes are served from the server cache, matching the CDN s-maxage
+ */
+const PRICE_CACHE_TTL_SECONDS = 30;
+
+/**
+ * GET /api/token/[address]/price
+ *
+ * Returns a token's USD price from the first source that has one, falling back
+ * through CoinGecko, Yahoo Finance (tokenized stocks) and Uniswap pool prices.
+ * Tokens are identified by address alone: the quote is shared through the server
+ * cache, so a caller's symbol must not decide what it prices.
+ *
+ * Query parameters:
+ *   chainId - number (default: the token's configured chain, else 1)
+ *   sources - comma-separated source order, e.g. "uniswap,coingecko" (default: configured per token kind)
+ *
+ * Response: PriceQuoteApiResponse
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  const { searchParams } = request.nextUrl;
+  const chainIdParam = searchParams.get('chainId');
+  const sourcesParam = searchParams.get('sources');
+  const chainId = chainIdParam ? parseInt(chainIdParam, 10) : getTokenMetadata(params.address)?.chainId ?? 1;
+  // Solana addresses are case-sensitive
+  const address = chainId === 101 ? params.address : params.address.toLowerCase();
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<PriceQuoteApiResponse>({ quote: null, sources: [], error }, { status });
+
+  // Validate request parameters
+  if (!address) {
+    return errorResponse('Token address is required', 400);
+  }
+
+  if (isNaN(chainId)) {
+    return errorResponse('Invalid chainId. Must be a number.', 400);
+  }
+
+  const sources = sourcesParam !== null
+    ? parsePriceSources(sourcesParam)
+    : getDefaultPriceSources(getPriceTokenKind(chainId, address));
+  if (sources.length === 0) {
+    return errorResponse(`Invalid sources. Must be a comma-separated list of: ${PRICE_SOURCES.join(', ')}.`, 400);
+  }
+
+  try {
+    // Missing prices aren't cached so a recovering upstream is picked up on the next request
+    const { value: quote, hit } = await withServerCache(
+      getPriceQuoteCacheKey(chainId, address, sources),
+      PRICE_CACHE_TTL_SECONDS,
+      () => getPriceProvider(sources).getQuote({ chainId, address }),
+      (value) => value !== null
+    );
+
+    if (!quote) {
+      return NextResponse.json<PriceQuoteApiResponse>(
+        { quote: null, sources, error: 'No price available for this token' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<PriceQuoteApiResponse>(
+      { quote, sources },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+          'X-Cache': hit ? 'HIT' : 'MISS',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in token price API route:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Internal server error', 500);
+  }
+}
@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import type { OhlcPoint } from '@/lib/prices/history';
+import { loadYahooFinance } from '@/lib/prices/yahoo';
+import { getStockDataCacheKey } from '@/lib/utils/cache';
 import { getTokenMetadata, getStockTicker, isTokenizedStock } from '@/lib/utils/token';
 
 export interface StockDataResponse {
@@ -12,17 +16,15 @@ export interface StockDataResponse {
   low52w?: number;
   open: number;
   previousClose: number;
-  historicalData?: Array<{
-    date: string;
-    open: number;
-    high: number;
-    low: number;
-    close: number;
-    volume: number;
-  }>;
+  historicalData?: OhlcPoint[]; // Daily candles, same shape as the token history route
   error?: string;
 }
 
+/**
+ * How long quotes are served from the server cache, matching the CDN s-maxage
+ */
+const STOCK_DATA_CACHE_TTL_SECONDS = 60;
+
 export async function GET(
   request: NextRequest,
   { params }: { params: { address: string } }
@@ -66,10 +68,9 @@ export async function GET(
     }
 
     // Fetch stock data using yahoo-finance2
-    // Note: This will be imported dynamically to avoid SSR issues
-    let yahooFinance: any;
+    let yf: any;
     try {
-      yahooFinance = await import('yahoo-finance2');
+      yf = await loadYahooFinance();
     } catch (importError) {
       console.error('Failed to import yahoo-finance2:', importError);
       return NextResponse.json(
@@ -79,48 +80,59 @@ export async function GET(
     }
     
     try {
-      // Fetch quote data - yahoo-finance2 uses default export
-      const yf = yahooFinance.default || yahooFinance;
-      const quote = await yf.quote(ticker);
-      
-      if (!quote) {
+      // Yahoo is rate limited, so quotes are shared across requests; missing quotes aren't cached
+      const { value: response, hit } = await withServerCache(
+        getStockDataCacheKey(address),
+        STOCK_DATA_CACHE_TTL_SECONDS,
+        async (): Promise<StockDataResponse | null> => {
+          const quote = await yf.quote(ticker);
+
+          if (!quote) {
+            return null;
+          }
+
+          // Fetch historical data (last 30 days)
+          const historical = await yf.historical(ticker, {
+            period1: Math.floor(Date.now() / 1000) - 30 * 24 * 60 * 60, // 30 days ago
+            period2: Math.floor(Date.now() / 1000),
+            interval: '1d',
+          }).catch(() => null);
+
+          return {
+            ticker: ticker,
+            currentPrice: quote.regularMarketPrice || quote.price || 0,
+            priceChange: (quote.regularMarketPrice || quote.price || 0) - (quote.regularMarketPreviousClose || quote.previousClose || 0),
+            priceChangePercent: quote.regularMarketChangePercent || quote.changePercent || 0,
+            volume: quote.regularMarketVolume || quote.volume || 0,
+            marketCap: quote.marketCap,
+            high52w: quote.fiftyTwoWeekHigh,
+            low52w: quote.fiftyTwoWeekLow,
+            open: quote.regularMarketOpen || quote.open || 0,
+            previousClose: quote.regularMarketPreviousClose || quote.previousClose || 0,
+            historicalData: historical?.map((item: any) => ({
+              date: new Date(item.date).toISOString(),
+              open: item.open || 0,
+              high: item.high || 0,
+              low: item.low || 0,
+              close: item.close || 0,
+              volume: item.volume || 0,
+            })) || undefined,
+          };
+        },
+        (value) => value !== null
+      );
+
+      if (!response) {
         return NextResponse.json(
           { error: `Stock data not found for ticker: ${ticker}` },
           { status: 404 }
         );
       }
 
-      // Fetch historical data (last 30 days)
-      const historical = await yf.historical(ticker, {
-        period1: Math.floor(Date.now() / 1000) - 30 * 24 * 60 * 60, // 30 days ago
-        period2: Math.floor(Date.now() / 1000),
-        interval: '1d',
-      }).catch(() => null);
-
-      const response: StockDataResponse = {
-        ticker: ticker,
-        currentPrice: quote.regularMarketPrice || quote.price || 0,
-        priceChange: (quote.regularMarketPrice || quote.price || 0) - (quote.regularMarketPreviousClose || quote.previousClose || 0),
-        priceChangePercent: quote.regularMarketChangePercent || quote.changePercent || 0,
-        volume: quote.regularMarketVolume || quote.volume || 0,
-        marketCap: quote.marketCap,
-        high52w: quote.fiftyTwoWeekHigh,
-        low52w: quote.fiftyTwoWeekLow,
-        open: quote.regularMarketOpen || quote.open || 0,
-        previousClose: quote.regularMarketPreviousClose || quote.previousClose || 0,
-        historicalData: historical?.map((item: any) => ({
-          date: new Date(item.date).toISOString(),
-          open: item.open || 0,
-          high: item.high || 0,
-          low: item.low || 0,
-          close: item.close || 0,
-          volume: item.volume || 0,
-        })) || undefined,
-      };
-
       return NextResponse.json(response, {
         headers: {
           'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
+          'X-Cache': hit ? 'HIT' : 'MISS',
         },
       });
     } catch (yahooError: any) {
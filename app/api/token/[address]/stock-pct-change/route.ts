@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import { loadYahooFinance } from '@/lib/prices/yahoo';
+import { getStockPctChangeCacheKey } from '@/lib/utils/cache';
 import { getTokenMetadata, getStockTicker, isTokenizedStock } from '@/lib/utils/token';
 
 export interface StockPctChangeResponse {
@@ -7,6 +10,11 @@ export interface StockPctChangeResponse {
   error?: string;
 }
 
+/**
+ * How long percentage changes are served from the server cache, matching the CDN s-maxage
+ */
+const STOCK_PCT_CHANGE_CACHE_TTL_SECONDS = 60;
+
 export async function GET(
   request: NextRequest,
   { params }: { params: { address: string } }
@@ -50,9 +58,9 @@ export async function GET(
     }
 
     // Fetch stock data using yahoo-finance2
-    let yahooFinance: any;
+    let yf: any;
     try {
-      yahooFinance = await import('yahoo-finance2');
+      yf = await loadYahooFinance();
     } catch (importError) {
       console.error('Failed to import yahoo-finance2:', importError);
       return NextResponse.json(
@@ -62,28 +70,39 @@ export async function GET(
     }
     
     try {
-      // Fetch quote data - yahoo-finance2 uses default export
-      const yf = yahooFinance.default || yahooFinance;
-      const quote = await yf.quote(ticker);
-      
-      if (!quote) {
+      // Yahoo is rate limited, so quotes are shared across requests; missing quotes aren't cached
+      const { value: response, hit } = await withServerCache(
+        getStockPctChangeCacheKey(address),
+        STOCK_PCT_CHANGE_CACHE_TTL_SECONDS,
+        async (): Promise<StockPctChangeResponse | null> => {
+          const quote = await yf.quote(ticker);
+
+          if (!quote) {
+            return null;
+          }
+
+          // Extract 24hr percentage change
+          const priceChangePercent = quote.regularMarketChangePercent || quote.changePercent || 0;
+
+          return {
+            ticker: ticker,
+            priceChangePercent: priceChangePercent,
+          };
+        },
+        (value) => value !== null
+      );
+
+      if (!response) {
         return NextResponse.json(
           { error: `Stock data not found for ticker: ${ticker}` },
           { status: 404 }
         );
       }
 
-      // Extract 24hr percentage change
-      const priceChangePercent = quote.regularMarketChangePercent || quote.changePercent || 0;
-
-      const response: StockPctChangeResponse = {
-        ticker: ticker,
-        priceChangePercent: priceChangePercent,
-      };
-
       return NextResponse.json(response, {
         headers: {
           'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
+          'X-Cache': hit ? 'HIT' : 'MISS',
         },
       });
     } catch (yahooError: any) {
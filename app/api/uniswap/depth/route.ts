@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPoolLiquidityDepth,
+  type LiquidityDepthBucket,
+  type PoolLiquidityDepth,
+} from '@/lib/uniswap/liquidityDepth';
+import { getSubgraphErrorStatus } from '@/lib/uniswap/client';
+import type { SubgraphMeta } from '@/lib/uniswap/meta';
+import type { SubgraphValidationReport } from '@/lib/uniswap/schemas';
+import { isChainSupported } from '@/lib/uniswap/subgraphs';
+
+export interface LiquidityDepthApiResponse {
+  chainId: number;
+  poolAddress: string;
+  pool: Omit<PoolLiquidityDepth, 'buckets' | 'meta' | 'validation'> | null; // Null if the pool doesn't exist
+  buckets: LiquidityDepthBucket[]; // Ascending by tick
+  meta?: SubgraphMeta; // Indexed block the pool state was read at
+  debug?: SubgraphValidationReport; // Set if the pool row was malformed
+  error?: string;
+}
+
+const MAX_BUCKETS = 500;
+const MAX_TICK_RANGE = 887272;
+
+/**
+ * GET /api/uniswap/depth
+ *
+ * Returns a v3 pool's liquidity distribution around its current tick, reconstructed
+ * from the pool's initialized ticks.
+ *
+ * Query parameters:
+ *   chainId - number (required)
+ *   pool    - pool address (required)
+ *   buckets - number of buckets, 1 to 500 (default: 60)
+ *   range   - ticks either side of the current tick (default: 10000)
+ *
+ * Response: LiquidityDepthApiResponse
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const chainId = parseInt(searchParams.get('chainId') || '', 10);
+  const poolAddress = (searchParams.get('pool') || '').toLowerCase();
+  const bucketsParam = searchParams.get('buckets');
+  const bucketCount = bucketsParam ? parseInt(bucketsParam, 10) : undefined;
+  const rangeParam = searchParams.get('range');
+  const tickRange = rangeParam ? parseInt(rangeParam, 10) : undefined;
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<LiquidityDepthApiResponse>(
+      {
+        chainId: isNaN(chainId) ? 0 : chainId,
+        poolAddress,
+        pool: null,
+        buckets: [],
+        error,
+      },
+      { status }
+    );
+
+  // Validate request parameters
+  if (isNaN(chainId)) {
+    return errorResponse('Invalid chainId. Must be a number.', 400);
+  }
+
+  if (!isChainSupported(chainId)) {
+    return errorResponse(`Chain ${chainId} is not supported or does not have a Uniswap v3 subgraph.`, 400);
+  }
+
+  if (!/^0x[a-f0-9]{40}$/.test(poolAddress)) {
+    return errorResponse('Invalid pool. Must be a 0x-prefixed address.', 400);
+  }
+
+  if (bucketCount !== undefined && (isNaN(bucketCount) || bucketCount < 1 || bucketCount > MAX_BUCKETS)) {
+    return errorResponse(`Invalid buckets. Must be from 1 to ${MAX_BUCKETS}.`, 400);
+  }
+
+  if (tickRange !== undefined && (isNaN(tickRange) || tickRange < 1 || tickRange > MAX_TICK_RANGE)) {
+    return errorResponse(`Invalid range. Must be from 1 to ${MAX_TICK_RANGE} ticks.`, 400);
+  }
+
+  try {
+    const depth = await getPoolLiquidityDepth(chainId, poolAddress, { bucketCount, tickRange });
+    if (!depth) {
+      return errorResponse('Pool not found or not initialized.', 404);
+    }
+
+    const { buckets, meta, validation, ...pool } = depth;
+    return NextResponse.json<LiquidityDepthApiResponse>(
+      {
+        chainId,
+        poolAddress,
+        pool,
+        buckets,
+        meta,
+        debug: validation,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=120',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in /api/uniswap/depth:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch liquidity depth: ${errorMessage}`, getSubgraphErrorStatus(error));
+  }
+}
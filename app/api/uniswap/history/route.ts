@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getHistory,
+  MAX_HISTORY_RANGE_SECONDS,
+  type HistoryInterval,
+  type HistoryPoint,
+  type HistorySubject,
+} from '@/lib/uniswap/history';
+import { getSubgraphErrorStatus } from '@/lib/uniswap/client';
+import type { SubgraphMeta } from '@/lib/uniswap/meta';
+import type { SubgraphValidationReport } from '@/lib/uniswap/schemas';
+import { isChainSupported } from '@/lib/uniswap/subgraphs';
+
+export interface HistoryApiResponse {
+  chainId: number;
+  subject: HistorySubject;
+  address: string;
+  interval: HistoryInterval;
+  from: number;
+  to: number;
+  points: HistoryPoint[];
+  meta?: SubgraphMeta; // Indexed block the series was read at
+  debug?: SubgraphValidationReport; // Malformed subgraph rows dropped from the series, if any
+  error?: string;
+}
+
+/**
+ * GET /api/uniswap/history
+ *
+ * Returns a daily or hourly TVL/volume/fees/price series for a pool or token.
+ *
+ * Query parameters:
+ *   chainId  - number (required)
+ *   pool     - pool address (either pool or token is required)
+ *   token    - token address
+ *   interval - 'day' | 'hour' (default: 'day')
+ *   from     - Unix seconds (default: 30 days before `to` for daily, 7 days for hourly)
+ *   to       - Unix seconds (default: now)
+ *
+ * Response: HistoryApiResponse
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const chainId = parseInt(searchParams.get('chainId') || '', 10);
+  const pool = searchParams.get('pool');
+  const token = searchParams.get('token');
+  const interval = (searchParams.get('interval') || 'day') as HistoryInterval;
+
+  const subject: HistorySubject = pool ? 'pool' : 'token';
+  const address = (pool || token || '').toLowerCase();
+
+  const now = Math.floor(Date.now() / 1000);
+  const toParam = searchParams.get('to');
+  const fromParam = searchParams.get('from');
+  const to = toParam ? parseInt(toParam, 10) : now;
+  const defaultSpan = interval === 'hour' ? 7 * 24 * 60 * 60 : 30 * 24 * 60 * 60;
+  const from = fromParam ? parseInt(fromParam, 10) : to - defaultSpan;
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<HistoryApiResponse>(
+      {
+        chainId: isNaN(chainId) ? 0 : chainId,
+        subject,
+        address,
+        interval,
+        from,
+        to,
+        points: [],
+        error,
+      },
+      { status }
+    );
+
+  // Validate request parameters
+  if (isNaN(chainId)) {
+    return errorResponse('Invalid chainId. Must be a number.', 400);
+  }
+
+  if (!isChainSupported(chainId)) {
+    return errorResponse(`Chain ${chainId} is not supported or does not have a Uniswap v3 subgraph.`, 400);
+  }
+
+  if ((pool && token) || !/^0x[a-f0-9]{40}$/.test(address)) {
+    return errorResponse('Provide exactly one of pool or token as a 0x-prefixed address.', 400);
+  }
+
+  if (interval !== 'day' && interval !== 'hour') {
+    return errorResponse("Invalid interval. Must be 'day' or 'hour'.", 400);
+  }
+
+  if (isNaN(from) || isNaN(to) || from > to) {
+    return errorResponse('Invalid range. from and to must be Unix seconds with from <= to.', 400);
+  }
+
+  if (to - from > MAX_HISTORY_RANGE_SECONDS[interval]) {
+    const maxDays = MAX_HISTORY_RANGE_SECONDS[interval] / (24 * 60 * 60);
+    return errorResponse(`Range too large. ${interval === 'day' ? 'Daily' : 'Hourly'} series are limited to ${maxDays} days.`, 400);
+  }
+
+  try {
+    const { validation, ...series } = await getHistory(chainId, subject, address, interval, from, to);
+
+    return NextResponse.json<HistoryApiResponse>({ ...series, debug: validation }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      },
+    });
+  } catch (error) {
+    console.error('Error in /api/uniswap/history:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch history: ${errorMessage}`, getSubgraphErrorStatus(error));
+  }
+}
@@ -1,13 +1,368 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withServerCache } from '@/lib/caching/serverCache';
+import type { PoolResult } from '@/lib/uniswap/pools';
+import {
+  getPoolsForTokenAcrossProtocols,
+  getPoolsPageForTokenAcrossProtocols,
+  searchTokensAcrossProtocols,
+  type PoolsCursor,
+} from '@/lib/uniswap/protocols';
+import { getSubgraphErrorStatus } from '@/lib/uniswap/client';
 import { searchTokens } from '@/lib/uniswap/tokenSearch';
-import { getPoolsForToken } from '@/lib/uniswap/pools';
-import { isChainSupported } from '@/lib/uniswap/subgraphs';
-import type { LiquidityApiResponse, LiquidityTokenResult, LiquidityPoolResult } from '@/app/components/search/types';
+import { oldestSubgraphMeta, type SubgraphMeta } from '@/lib/uniswap/meta';
+import { mergeValidationReports, type SubgraphValidationReport } from '@/lib/uniswap/schemas';
+import { getSupportedChainIds, getSupportedProtocols, isChainSupported } from '@/lib/uniswap/subgraphs';
+import {
+  getUniswapLiquidityCacheKey,
+  getUniswapMultiChainLiquidityCacheKey,
+  getUniswapPoolsPageCacheKey,
+} from '@/lib/utils/cache';
+import type {
+  LiquidityApiResponse,
+  LiquidityTokenResult,
+  LiquidityPoolResult,
+  LiquidityPoolsPageResponse,
+  MultiChainLiquidityApiResponse,
+  MultiChainLiquidityAsset,
+} from '@/app/components/search/types';
+
+/**
+ * Number of top pools (by TVL) returned per token in a search
+ */
+const POOLS_PER_TOKEN = 10;
+
+/**
+ * Number of tokens (by TVL) returned per chain in a single-chain search
+ */
+const TOKENS_PER_CHAIN = 10;
+
+/**
+ * Number of tokens (by TVL) searched per chain in a multi-chain search.
+ * Lower than single-chain since every supported chain is queried at once.
+ */
+const MULTI_CHAIN_TOKENS_PER_CHAIN = 5;
+
+/**
+ * How long search results and pool pages are served from the server cache
+ */
+const LIQUIDITY_CACHE_TTL_SECONDS = 60;
+
+/**
+ * Transform a pool to match the API response format
+ */
+function toLiquidityPoolResult(pool: PoolResult): LiquidityPoolResult {
+  return {
+    poolId: pool.poolId,
+    poolAddress: pool.poolAddress,
+    protocol: pool.protocol,
+    feeTierBps: pool.feeTierBps,
+    sqrtPrice: pool.sqrtPrice,
+    tvlUSD: pool.tvlUSD,
+    volumeUSD: pool.volumeUSD,
+    feeAPR7d: pool.feeAPR7d,
+    feeAPR30d: pool.feeAPR30d,
+    token0: {
+      address: pool.token0.address,
+      symbol: pool.token0.symbol,
+      name: pool.token0.name,
+      decimals: pool.token0.decimals,
+    },
+    token1: {
+      address: pool.token1.address,
+      symbol: pool.token1.symbol,
+      name: pool.token1.name,
+      decimals: pool.token1.decimals,
+    },
+  };
+}
+
+/**
+ * Check a pools cursor from a request body: protocol names mapped to pool ids
+ */
+function isPoolsCursor(value: unknown): value is PoolsCursor {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.entries(value).every(([protocol, poolId]) =>
+      (protocol === 'v2' || protocol === 'v3' || protocol === 'v4') && typeof poolId === 'string'
+    );
+}
+
+/**
+ * Load the next page of pools for a single token.
+ * 
+ * Each protocol is walked by pool id on its own cursor, so pages may repeat pools
+ * already returned by the TVL-ordered search; callers should dedupe by poolId.
+ * Without a cursor, every protocol on the chain is walked from its first pool.
+ */
+async function handlePoolsPage(
+  chainId: number,
+  tokenAddress: unknown,
+  poolsCursor: unknown
+) {
+  const errorResponse = (error: string, status: number, cursor: PoolsCursor | null = null) =>
+    NextResponse.json<LiquidityPoolsPageResponse>(
+      {
+        chainId,
+        tokenAddress: typeof tokenAddress === 'string' ? tokenAddress.toLowerCase() : '',
+        pools: [],
+        poolsCursor: cursor,
+        error,
+      },
+      { status }
+    );
+
+  if (typeof tokenAddress !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(tokenAddress)) {
+    return errorResponse('Invalid tokenAddress. Must be a 0x-prefixed address.', 400);
+  }
+
+  if (poolsCursor !== undefined && poolsCursor !== null && !isPoolsCursor(poolsCursor)) {
+    return errorResponse('Invalid poolsCursor. Must map protocols (v2, v3, v4) to pool ids.', 400);
+  }
+
+  const cursor: PoolsCursor = poolsCursor
+    ?? Object.fromEntries(getSupportedProtocols(chainId).map((protocol) => [protocol, '']));
+
+  try {
+    const { value, hit } = await withServerCache(
+      getUniswapPoolsPageCacheKey(chainId, tokenAddress, cursor),
+      LIQUIDITY_CACHE_TTL_SECONDS,
+      async (): Promise<LiquidityPoolsPageResponse> => {
+        const page = await getPoolsPageForTokenAcrossProtocols(chainId, tokenAddress, cursor, POOLS_PER_TOKEN);
+        return {
+          chainId,
+          tokenAddress: page.tokenAddress,
+          pools: page.pools.map(toLiquidityPoolResult),
+          poolsCursor: page.nextCursor,
+          meta: page.meta,
+          debug: page.validation,
+        };
+      }
+    );
+
+    return NextResponse.json<LiquidityPoolsPageResponse>(value, { headers: { 'X-Cache': hit ? 'HIT' : 'MISS' } });
+  } catch (error) {
+    // Hand the cursor back so the caller can retry the same page
+    console.error(`Error loading pools page for token ${tokenAddress} on chain ${chainId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch pools: ${errorMessage}`, getSubgraphErrorStatus(error), cursor);
+  }
+}
+
+/**
+ * Liquidity search results for one chain
+ */
+interface ChainLiquidityResult {
+  tokens: LiquidityTokenResult[];
+  meta?: SubgraphMeta;
+  validation?: SubgraphValidationReport;
+  failed: boolean; // A subgraph query failed, so tokens or pools may be missing
+}
+
+/**
+ * Search one chain for tokens and attach each token's top pools across protocols.
+ */
+async function searchChainLiquidity(
+  chainId: number,
+  query: string,
+  tokenLimit: number
+): Promise<ChainLiquidityResult> {
+  // Search for tokens
+  const tokenSearchResult = await searchTokensAcrossProtocols(chainId, query, tokenLimit);
+  let failed = tokenSearchResult.failedProtocols !== undefined;
+
+  if (!tokenSearchResult.tokens || tokenSearchResult.tokens.length === 0) {
+    return { tokens: [], meta: tokenSearchResult.meta, validation: tokenSearchResult.validation, failed };
+  }
+
+  // Sort tokens by TVL descending and take the top tokenLimit
+  const sortedTokens = [...tokenSearchResult.tokens].sort(
+    (a, b) => b.tvlUSD - a.tvlUSD
+  );
+  const topTokens = sortedTokens.slice(0, tokenLimit);
+
+  // Fetch pools for each token in parallel
+  const metas: Array<SubgraphMeta | undefined> = [tokenSearchResult.meta];
+  const validations: Array<SubgraphValidationReport | undefined> = [tokenSearchResult.validation];
+  const tokensWithPools: LiquidityTokenResult[] = await Promise.all(
+    topTokens.map(async (token) => {
+      try {
+        const poolsResult = await getPoolsForTokenAcrossProtocols(
+          chainId,
+          token.address,
+          POOLS_PER_TOKEN,
+          token.protocols
+        );
+        metas.push(poolsResult.meta);
+        validations.push(poolsResult.validation);
+        if (poolsResult.failedProtocols) {
+          failed = true;
+        }
+
+        // Transform pools to match API response format
+        const pools: LiquidityPoolResult[] = poolsResult.pools.map(toLiquidityPoolResult);
+
+        return {
+          address: token.address,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          tvlUSD: token.tvlUSD,
+          volumeUSD: token.volumeUSD,
+          protocols: token.protocols,
+          pools,
+          // Protocols that may have more pools start walking from their first id
+          poolsCursor: poolsResult.nextCursor,
+        };
+      } catch (error) {
+        // If pool fetch fails, return token without pools
+        console.error(`Error fetching pools for token ${token.address}:`, error);
+        failed = true;
+        return {
+          address: token.address,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          tvlUSD: token.tvlUSD,
+          volumeUSD: token.volumeUSD,
+          protocols: token.protocols,
+          pools: [], // Empty pools array on error
+          poolsCursor: null,
+        };
+      }
+    })
+  );
+
+  return {
+    tokens: tokensWithPools,
+    meta: oldestSubgraphMeta(metas),
+    validation: mergeValidationReports(validations),
+    failed,
+  };
+}
+
+/**
+ * Search one chain's v3 tokens without their pools: a single subgraph query, for
+ * callers that only need to know where an asset is deployed.
+ */
+async function searchChainTokens(chainId: number, query: string, tokenLimit: number): Promise<ChainLiquidityResult> {
+  const result = await searchTokens(chainId, query, tokenLimit, 'v3');
+  return {
+    tokens: result.tokens.map((token) => ({ ...token, protocols: ['v3'], pools: [], poolsCursor: null })),
+    meta: result.meta,
+    validation: result.validation,
+    failed: result.error !== undefined,
+  };
+}
+
+/**
+ * Validate a multi-chain search and serve it, from the server cache when a recent
+ * identical search succeeded on every chain.
+ */
+async function handleMultiChainSearch(query: string, requestedChainIds: unknown, tokensOnly: unknown) {
+  if (requestedChainIds !== undefined
+    && (!Array.isArray(requestedChainIds) || !requestedChainIds.every((id) => typeof id === 'number'))) {
+    return NextResponse.json<MultiChainLiquidityApiResponse>(
+      {
+        chainIds: [],
+        assets: [],
+        error: 'Invalid chainIds. Must be an array of numbers.',
+      },
+      { status: 400 }
+    );
+  }
+
+  if (tokensOnly !== undefined && typeof tokensOnly !== 'boolean') {
+    return NextResponse.json<MultiChainLiquidityApiResponse>(
+      {
+        chainIds: [],
+        assets: [],
+        error: 'Invalid tokensOnly. Must be a boolean.',
+      },
+      { status: 400 }
+    );
+  }
+
+  const chainIds: number[] = requestedChainIds
+    ? Array.from(new Set(requestedChainIds as number[])).filter(isChainSupported)
+    : getSupportedChainIds();
+
+  // Results with failed chains aren't cached, so the next search retries them
+  const { value, hit } = await withServerCache(
+    getUniswapMultiChainLiquidityCacheKey(query, requestedChainIds ? chainIds : undefined, tokensOnly === true),
+    LIQUIDITY_CACHE_TTL_SECONDS,
+    () => searchAllChainsLiquidity(query, chainIds, tokensOnly === true),
+    (response) => !response.failedChainIds
+  );
+
+  return NextResponse.json<MultiChainLiquidityApiResponse>(value, { headers: { 'X-Cache': hit ? 'HIT' : 'MISS' } });
+}
+
+/**
+ * Search every supported chain (or the requested subset) in parallel and group
+ * the results by asset.
+ * 
+ * Deployments are grouped by symbol (case-insensitive), since the same asset has
+ * a different address on each chain. Chains where any subgraph query failed are
+ * reported in failedChainIds, with whatever results they did return.
+ * With tokensOnly, each chain gets a single v3 token query and no pools.
+ */
+async function searchAllChainsLiquidity(
+  query: string,
+  chainIds: number[],
+  tokensOnly: boolean
+): Promise<MultiChainLiquidityApiResponse> {
+  const searchChain = tokensOnly ? searchChainTokens : searchChainLiquidity;
+  const results = await Promise.allSettled(
+    chainIds.map((chainId) => searchChain(chainId, query, MULTI_CHAIN_TOKENS_PER_CHAIN))
+  );
+
+  const assets = new Map<string, MultiChainLiquidityAsset>();
+  const failedChainIds: number[] = [];
+  const validations: Array<SubgraphValidationReport | undefined> = [];
+
+  results.forEach((result, index) => {
+    const chainId = chainIds[index];
+    if (result.status === 'rejected') {
+      console.error(`Error searching liquidity on chain ${chainId}:`, result.reason);
+      failedChainIds.push(chainId);
+      return;
+    }
+
+    if (result.value.failed) {
+      failedChainIds.push(chainId);
+    }
+    validations.push(result.value.validation);
+    for (const token of result.value.tokens) {
+      const key = token.symbol.toUpperCase();
+      const asset = assets.get(key) ?? { symbol: token.symbol, name: token.name, tvlUSD: 0, volumeUSD: 0, chains: [] };
+      asset.tvlUSD += token.tvlUSD;
+      asset.volumeUSD += token.volumeUSD;
+      asset.chains.push({ ...token, chainId, meta: result.value.meta });
+      assets.set(key, asset);
+    }
+  });
+
+  // Sort deployments by TVL and name each asset after its largest deployment
+  const sortedAssets = Array.from(assets.values())
+    .map((asset) => {
+      const chains = [...asset.chains].sort((a, b) => b.tvlUSD - a.tvlUSD);
+      return { ...asset, symbol: chains[0].symbol, name: chains[0].name, chains };
+    })
+    .sort((a, b) => b.tvlUSD - a.tvlUSD);
+
+  return {
+    chainIds,
+    assets: sortedAssets,
+    failedChainIds: failedChainIds.length > 0 ? failedChainIds : undefined,
+    debug: mergeValidationReports(validations),
+  };
+}
 
 /**
  * POST /api/uniswap/liquidity
  * 
- * Searches for tokens with TVL and pool data from Uniswap v3 subgraphs.
+ * Searches for tokens with TVL and pool data from the Uniswap v2, v3 and v4
+ * subgraphs available on the chain. Token TVL and volume are summed across
+ * protocols and each token's top pools are merged by TVL.
  * 
  * Request body:
  * {
@@ -21,11 +376,44 @@ import type { LiquidityApiResponse, LiquidityTokenResult, LiquidityPoolResult }
  *   tokens: LiquidityTokenResult[],
  *   error?: string
  * }
+ * 
+ * To load more pools for one token, send the token's poolsCursor instead of a query:
+ * {
+ *   chainId: number,
+ *   tokenAddress: string,
+ *   poolsCursor: string
+ * }
+ * 
+ * Response: LiquidityPoolsPageResponse
+ * 
+ * To search every supported chain at once, send multiChain instead of a chainId:
+ * {
+ *   query: string,
+ *   multiChain: true,
+ *   chainIds?: number[],  // Limit to these chains (default: all supported)
+ *   tokensOnly?: boolean  // Skip pools and non-v3 protocols: one query per chain, for availability badges
+ * }
+ * 
+ * Response: MultiChainLiquidityApiResponse, with results grouped by asset across chains
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { chainId, query } = body;
+    const { chainId, query, tokenAddress, poolsCursor, multiChain, chainIds, tokensOnly } = body;
+
+    if (multiChain === true) {
+      if (typeof query !== 'string' || !query.trim()) {
+        return NextResponse.json<MultiChainLiquidityApiResponse>(
+          {
+            chainIds: [],
+            assets: [],
+            error: 'Invalid query. Must be a non-empty string.',
+          },
+          { status: 400 }
+        );
+      }
+      return handleMultiChainSearch(query.trim(), chainIds, tokensOnly);
+    }
 
     // Validate request body
     if (typeof chainId !== 'number' || isNaN(chainId)) {
@@ -39,6 +427,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Pool page requests are keyed by token address and don't need a query
+    if (tokenAddress !== undefined) {
+      if (!isChainSupported(chainId)) {
+        return NextResponse.json<LiquidityPoolsPageResponse>(
+          {
+            chainId,
+            tokenAddress: '',
+            pools: [],
+            poolsCursor: null,
+            error: `Chain ${chainId} is not supported or does not have a Uniswap v3 subgraph.`,
+          },
+          { status: 400 }
+        );
+      }
+      return handlePoolsPage(chainId, tokenAddress, poolsCursor);
+    }
+
     if (typeof query !== 'string' || !query.trim()) {
       return NextResponse.json<LiquidityApiResponse>(
         {
@@ -62,77 +467,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Search for tokens
-    const tokenSearchResult = await searchTokens(chainId, query.trim(), 10);
+    // Results missing a failed protocol aren't cached, so the next search retries it
+    const { value: result, hit } = await withServerCache(
+      getUniswapLiquidityCacheKey(chainId, query),
+      LIQUIDITY_CACHE_TTL_SECONDS,
+      () => searchChainLiquidity(chainId, query.trim(), TOKENS_PER_CHAIN),
+      (chainResult) => !chainResult.failed
+    );
 
-    if (!tokenSearchResult.tokens || tokenSearchResult.tokens.length === 0) {
-      return NextResponse.json<LiquidityApiResponse>({
+    return NextResponse.json<LiquidityApiResponse>(
+      {
         chainId,
-        tokens: [],
-      });
-    }
-
-    // Sort tokens by TVL descending and take top 10
-    const sortedTokens = [...tokenSearchResult.tokens].sort(
-      (a, b) => b.tvlUSD - a.tvlUSD
-    );
-    const topTokens = sortedTokens.slice(0, 10);
-
-    // Fetch pools for each token in parallel
-    const tokensWithPools: LiquidityTokenResult[] = await Promise.all(
-      topTokens.map(async (token) => {
-        try {
-          const poolsResult = await getPoolsForToken(chainId, token.address, 10);
-
-          // Transform pools to match API response format
-          const pools: LiquidityPoolResult[] = poolsResult.pools.map((pool) => ({
-            poolAddress: pool.poolAddress,
-            feeTierBps: pool.feeTierBps,
-            tvlUSD: pool.tvlUSD,
-            volumeUSD: pool.volumeUSD,
-            token0: {
-              address: pool.token0.address,
-              symbol: pool.token0.symbol,
-              name: pool.token0.name,
-              decimals: pool.token0.decimals,
-            },
-            token1: {
-              address: pool.token1.address,
-              symbol: pool.token1.symbol,
-              name: pool.token1.name,
-              decimals: pool.token1.decimals,
-            },
-          }));
-
-          return {
-            address: token.address,
-            symbol: token.symbol,
-            name: token.name,
-            decimals: token.decimals,
-            tvlUSD: token.tvlUSD,
-            volumeUSD: token.volumeUSD,
-            pools,
-          };
-        } catch (error) {
-          // If pool fetch fails, return token without pools
-          console.error(`Error fetching pools for token ${token.address}:`, error);
-          return {
-            address: token.address,
-            symbol: token.symbol,
-            name: token.name,
-            decimals: token.decimals,
-            tvlUSD: token.tvlUSD,
-            volumeUSD: token.volumeUSD,
-            pools: [], // Empty pools array on error
-          };
-        }
-      })
+        tokens: result.tokens,
+        meta: result.meta,
+        debug: result.validation,
+      },
+      { headers: { 'X-Cache': hit ? 'HIT' : 'MISS' } }
     );
-
-    return NextResponse.json<LiquidityApiResponse>({
-      chainId,
-      tokens: tokensWithPools,
-    });
   } catch (error) {
     console.error('Error in /api/uniswap/liquidity:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -143,7 +494,7 @@ export async function POST(request: NextRequest) {
         tokens: [],
         error: `Failed to fetch liquidity data: ${errorMessage}`,
       },
-      { status: 500 }
+      { status: getSubgraphErrorStatus(error) }
     );
   }
 }
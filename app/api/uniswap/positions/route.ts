@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPositionsForOwner, type PositionResult } from '@/lib/uniswap/positions';
+import type { SubgraphMeta } from '@/lib/uniswap/meta';
+import { mergeValidationReports, type SubgraphValidationReport } from '@/lib/uniswap/schemas';
+import { getSupportedChainIds, isChainSupported } from '@/lib/uniswap/subgraphs';
+
+export interface ChainPositions {
+  chainId: number;
+  positions: PositionResult[]; // Sorted by valueUSD descending
+  valueUSD: number;
+  uncollectedFeesUSD: number;
+  meta?: SubgraphMeta; // Indexed block the positions were read at
+}
+
+export interface PositionsApiResponse {
+  owner: string;
+  chains: ChainPositions[]; // Only chains where the wallet has open positions
+  valueUSD: number; // Across all chains
+  uncollectedFeesUSD: number;
+  failedChainIds?: number[]; // Chains whose subgraph query failed
+  debug?: SubgraphValidationReport; // Malformed subgraph rows dropped from this response, if any
+  error?: string;
+}
+
+/**
+ * GET /api/uniswap/positions
+ *
+ * Lists a wallet's open Uniswap v3 positions per chain, valued at current
+ * pool prices, with range status and estimated uncollected fees.
+ *
+ * Query parameters:
+ *   owner    - wallet address (required)
+ *   chainIds - comma-separated chain IDs (default: every chain with a v3 subgraph)
+ *
+ * Response: PositionsApiResponse
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const owner = (searchParams.get('owner') || '').toLowerCase();
+  const chainIdsParam = searchParams.get('chainIds');
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<PositionsApiResponse>(
+      {
+        owner,
+        chains: [],
+        valueUSD: 0,
+        uncollectedFeesUSD: 0,
+        error,
+      },
+      { status }
+    );
+
+  // Validate request parameters
+  if (!/^0x[a-f0-9]{40}$/.test(owner)) {
+    return errorResponse('Invalid owner. Must be a 0x-prefixed address.', 400);
+  }
+
+  const requestedChainIds = chainIdsParam ? chainIdsParam.split(',').map((id) => parseInt(id, 10)) : null;
+  if (requestedChainIds && requestedChainIds.some((id) => isNaN(id))) {
+    return errorResponse('Invalid chainIds. Must be comma-separated numbers.', 400);
+  }
+
+  const chainIds = requestedChainIds
+    ? Array.from(new Set(requestedChainIds)).filter(isChainSupported)
+    : getSupportedChainIds();
+
+  const results = await Promise.allSettled(chainIds.map((chainId) => getPositionsForOwner(chainId, owner)));
+
+  const chains: ChainPositions[] = [];
+  const failedChainIds: number[] = [];
+  const validations: Array<SubgraphValidationReport | undefined> = [];
+
+  results.forEach((result, index) => {
+    const chainId = chainIds[index];
+    if (result.status === 'rejected') {
+      console.error(`Error fetching positions on chain ${chainId}:`, result.reason);
+      failedChainIds.push(chainId);
+      return;
+    }
+
+    validations.push(result.value.validation);
+    const { positions, meta } = result.value;
+    if (positions.length === 0) {
+      return;
+    }
+
+    chains.push({
+      chainId,
+      positions,
+      valueUSD: positions.reduce((sum, position) => sum + position.valueUSD, 0),
+      uncollectedFeesUSD: positions.reduce((sum, position) => sum + position.uncollectedFeesUSD, 0),
+      meta,
+    });
+  });
+
+  chains.sort((a, b) => b.valueUSD - a.valueUSD);
+
+  return NextResponse.json<PositionsApiResponse>(
+    {
+      owner,
+      chains,
+      valueUSD: chains.reduce((sum, chain) => sum + chain.valueUSD, 0),
+      uncollectedFeesUSD: chains.reduce((sum, chain) => sum + chain.uncollectedFeesUSD, 0),
+      failedChainIds: failedChainIds.length > 0 ? failedChainIds : undefined,
+      debug: mergeValidationReports(validations),
+    },
+    {
+      headers: {
+        'Cache-Control': 'private, max-age=30',
+      },
+    }
+  );
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findRoutes } from '@/lib/uniswap/router';
+import { getSubgraphErrorStatus } from '@/lib/uniswap/client';
+import { getSubgraphMeta, type SubgraphMeta } from '@/lib/uniswap/meta';
+import { isChainSupported } from '@/lib/uniswap/subgraphs';
+import type { SwapQuote } from '@/lib/types/swap';
+
+export interface RouteApiResponse {
+  chainId: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  quotes: SwapQuote[]; // Ranked best-first; each quote carries its per-hop route
+  meta?: SubgraphMeta; // Indexed block of the pool state the quotes were simulated against
+  error?: string;
+}
+
+/**
+ * POST /api/uniswap/route
+ *
+ * Finds the best exact-input routes (up to 3 hops, across fee tiers) between two
+ * tokens on one chain, quoted against each pool's initialized ticks.
+ *
+ * Request body:
+ * {
+ *   chainId: number,
+ *   tokenIn: string,
+ *   tokenOut: string,
+ *   amountIn: string,     // Decimal amount of tokenIn, e.g. "1.5"
+ *   maxHops?: number,     // 1 to 3 (default: 3)
+ *   slippageBps?: number  // 0 to 5000 (default: 50)
+ * }
+ *
+ * Response: RouteApiResponse
+ */
+export async function POST(request: NextRequest) {
+  let chainId = 0;
+  let tokenIn = '';
+  let tokenOut = '';
+  let amountIn = '';
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<RouteApiResponse>(
+      { chainId, tokenIn, tokenOut, amountIn, quotes: [], error },
+      { status }
+    );
+
+  try {
+    const body = await request.json();
+
+    // Validate request body
+    if (typeof body.chainId !== 'number' || isNaN(body.chainId)) {
+      return errorResponse('Invalid chainId. Must be a number.', 400);
+    }
+    chainId = body.chainId;
+
+    if (!isChainSupported(chainId)) {
+      return errorResponse(`Chain ${chainId} is not supported or does not have a Uniswap v3 subgraph.`, 400);
+    }
+
+    if (typeof body.tokenIn !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(body.tokenIn)
+      || typeof body.tokenOut !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(body.tokenOut)) {
+      return errorResponse('Invalid tokenIn or tokenOut. Must be 0x-prefixed addresses.', 400);
+    }
+    tokenIn = body.tokenIn.toLowerCase();
+    tokenOut = body.tokenOut.toLowerCase();
+
+    if (tokenIn === tokenOut) {
+      return errorResponse('tokenIn and tokenOut must be different.', 400);
+    }
+
+    if (typeof body.amountIn !== 'string' || !/^\d*\.?\d+$/.test(body.amountIn) || parseFloat(body.amountIn) <= 0) {
+      return errorResponse('Invalid amountIn. Must be a positive decimal string.', 400);
+    }
+    amountIn = body.amountIn;
+
+    const { maxHops, slippageBps } = body;
+    if (maxHops !== undefined && (!Number.isInteger(maxHops) || maxHops < 1 || maxHops > 3)) {
+      return errorResponse('Invalid maxHops. Must be an integer from 1 to 3.', 400);
+    }
+    if (slippageBps !== undefined && (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 5000)) {
+      return errorResponse('Invalid slippageBps. Must be an integer from 0 to 5000.', 400);
+    }
+
+    const [routes, meta] = await Promise.all([
+      findRoutes(chainId, tokenIn, tokenOut, amountIn, { maxHops, slippageBps }),
+      getSubgraphMeta(chainId),
+    ]);
+
+    if (routes.length === 0) {
+      return errorResponse('No route found between these tokens.', 404);
+    }
+
+    return NextResponse.json<RouteApiResponse>({
+      chainId,
+      tokenIn,
+      tokenOut,
+      amountIn,
+      quotes: routes.map((route) => route.quote),
+      meta,
+    });
+  } catch (error) {
+    console.error('Error in /api/uniswap/route:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to find route: ${errorMessage}`, getSubgraphErrorStatus(error));
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { chainConfig } from '@/config/chains';
+import {
+  getSwaps,
+  parseSwapsCursor,
+  MAX_SWAPS_PAGE_SIZE,
+  type SwapResult,
+  type SwapSubject,
+} from '@/lib/uniswap/swaps';
+import { getSubgraphErrorStatus } from '@/lib/uniswap/client';
+import type { SubgraphMeta } from '@/lib/uniswap/meta';
+import type { SubgraphValidationReport } from '@/lib/uniswap/schemas';
+import { isChainSupported } from '@/lib/uniswap/subgraphs';
+
+export interface SwapApiItem extends SwapResult {
+  explorerUrl: string | null; // Transaction page on the chain's block explorer
+}
+
+export interface SwapsApiResponse {
+  chainId: number;
+  subject: SwapSubject;
+  address: string;
+  swaps: SwapApiItem[]; // Newest first
+  nextCursor: string | null; // Pass as `cursor` to load older swaps
+  meta?: SubgraphMeta; // Indexed block the swaps were read at
+  debug?: SubgraphValidationReport; // Malformed subgraph rows dropped from this page, if any
+  error?: string;
+}
+
+/**
+ * Transaction URL on the chain's block explorer, if the chain has one configured
+ */
+function getTransactionExplorerUrl(chainId: number, txHash: string): string | null {
+  const config = chainConfig[chainId as keyof typeof chainConfig];
+  if (!config || !config.explorer) {
+    return null;
+  }
+  return `${config.explorer}/tx/${txHash}`;
+}
+
+/**
+ * GET /api/uniswap/swaps
+ *
+ * Returns recent swaps for a pool or token, newest first.
+ *
+ * Query parameters:
+ *   chainId - number (required)
+ *   pool    - pool address (either pool or token is required)
+ *   token   - token address; side and amounts are relative to this token
+ *   cursor  - nextCursor from a previous page
+ *   limit   - swaps per page, 1 to 100 (default: 25)
+ *
+ * Response: SwapsApiResponse
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const chainId = parseInt(searchParams.get('chainId') || '', 10);
+  const pool = searchParams.get('pool');
+  const token = searchParams.get('token');
+  const cursor = searchParams.get('cursor') || undefined;
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  const subject: SwapSubject = pool ? 'pool' : 'token';
+  const address = (pool || token || '').toLowerCase();
+
+  const errorResponse = (error: string, status: number) =>
+    NextResponse.json<SwapsApiResponse>(
+      {
+        chainId: isNaN(chainId) ? 0 : chainId,
+        subject,
+        address,
+        swaps: [],
+        nextCursor: null,
+        error,
+      },
+      { status }
+    );
+
+  // Validate request parameters
+  if (isNaN(chainId)) {
+    return errorResponse('Invalid chainId. Must be a number.', 400);
+  }
+
+  if (!isChainSupported(chainId)) {
+    return errorResponse(`Chain ${chainId} is not supported or does not have a Uniswap v3 subgraph.`, 400);
+  }
+
+  if ((pool && token) || !/^0x[a-f0-9]{40}$/.test(address)) {
+    return errorResponse('Provide exactly one of pool or token as a 0x-prefixed address.', 400);
+  }
+
+  if (cursor !== undefined && !parseSwapsCursor(cursor)) {
+    return errorResponse('Invalid cursor. Use nextCursor from a previous response.', 400);
+  }
+
+  if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_SWAPS_PAGE_SIZE)) {
+    return errorResponse(`Invalid limit. Must be from 1 to ${MAX_SWAPS_PAGE_SIZE}.`, 400);
+  }
+
+  try {
+    const { validation, ...page } = await getSwaps(chainId, subject, address, { cursor, pageSize: limit });
+
+    return NextResponse.json<SwapsApiResponse>(
+      {
+        ...page,
+        swaps: page.swaps.map((swap) => ({
+          ...swap,
+          explorerUrl: getTransactionExplorerUrl(chainId, swap.txHash),
+        })),
+        debug: validation,
+      },
+      {
+        headers: {
+          // Older pages never change; the first page is polled for new trades
+          'Cache-Control': cursor
+            ? 'public, s-maxage=300, stale-while-revalidate=600'
+            : 'public, s-maxage=10, stale-while-revalidate=30',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in /api/uniswap/swaps:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(`Failed to fetch swaps: ${errorMessage}`, getSubgraphErrorStatus(error));
+  }
+}
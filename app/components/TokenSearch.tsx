@@ -5,21 +5,44 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { getTokenLogoUrl } from '@/query-token-logo';
 import { useIsMobile } from '@/lib/hooks/useIsMobile';
-import { formatTVL, formatFeeTier, truncateAddress } from '@/lib/utils/formatters';
-import { isChainSupported } from '@/lib/uniswap/subgraphs';
+import { formatTVL, formatFeeTier, formatAPR, truncateAddress } from '@/lib/utils/formatters';
+import { useCurrency } from '@/lib/hooks/useCurrency';
+import type { CurrencyDisplay } from '@/lib/utils/currency';
+import { getChainName, isChainSupported, type UniswapProtocol } from '@/lib/uniswap/subgraphs';
 import { chainConfig } from '@/config/chains';
-import type { LiquidityApiResponse, LiquidityTokenResult } from '@/app/components/search/types';
-import { fetchTokenPriceByAddress, type CoinGeckoPriceData } from '@/lib/api/coingecko';
-import { getTokenMetadata, getStockTicker, isTokenizedStock } from '@/lib/utils/token';
+import type {
+  LiquidityApiResponse,
+  LiquidityTokenResult,
+  LiquidityPoolsPageResponse,
+  MultiChainLiquidityApiResponse,
+} from '@/app/components/search/types';
+import type { SubgraphMeta } from '@/lib/uniswap/meta';
+import type { PoolsCursor } from '@/lib/uniswap/protocols';
+import type { BatchPriceApiResponse } from '@/app/api/prices/route';
+import type { BatchPremiumApiResponse } from '@/app/api/premiums/route';
+import type { TokenPremium } from '@/lib/prices/premium';
+import type { PriceQuote } from '@/lib/prices/types';
+import PremiumBadge from '@/app/components/premium/PremiumBadge';
+import { resolveStockTicker } from '@/lib/utils/token';
 import toast from 'react-hot-toast';
 import { 
   getCached, 
+  getOrRevalidate,
   setCached, 
   getUniswapLiquidityCacheKey, 
+  getUniswapMultiChainLiquidityCacheKey,
   getSolanaTokenDataCacheKey, 
   getTokenPriceCacheKey,
-  getStockPctChangeCacheKey 
+  getPremiumCacheKey
 } from '@/lib/utils/cache';
+import {
+  loadPersistedLogos,
+  loadTokenList,
+  persistLogo,
+  revokeLogoObjectUrls,
+  toLogoDisplayUrl,
+  type PersistedLogo,
+} from '@/lib/utils/persistentCache';
 
 interface Token {
   address: string;
@@ -33,14 +56,22 @@ interface Token {
   marketCap?: number; // Optional market capitalization
   marketCapFormatted?: string; // Formatted market cap from Jupiter (e.g., "$472B")
   priceChange24h?: number; // Optional 24h price change percentage
+  premiumPercent?: number; // Tokenized stocks: on-chain premium (negative: discount) to the underlying
+  premiumTicker?: string; // Underlying ticker the premium is measured against
   pools?: Array<{
-    poolAddress: string;
-    feeTierBps: number;
+    poolId: string; // Subgraph id; v4 pools have no address of their own
+    protocol?: UniswapProtocol; // Uniswap version, v3 when unset
+    feeTierBps: number | null; // Null for v4 dynamic fees
     tvlUSD: number;
     volumeUSD: number;
+    feeAPR7d?: number | null; // Fee APR in percent over 7 days, null without day data
+    feeAPR30d?: number | null;
     token0: { symbol: string };
     token1: { symbol: string };
   }>; // Optional pool data from Uniswap
+  poolsCursor?: PoolsCursor | null; // Per-protocol cursor for loading more Uniswap pools, null when all are loaded
+  dataDelayedSince?: number; // Indexed block timestamp when the Uniswap subgraph is behind, unset when fresh
+  availableChainIds?: number[]; // Chains with Uniswap liquidity for this asset, set when more than one
 }
 
 interface TokenSearchProps {
@@ -130,93 +161,99 @@ const getUniswapAssetsUrl = (chainId: number, address: string): string => {
   return `https://raw.githubusercontent.com/Uniswap/assets/master/blockchains/${networkName}/assets/${checksummedAddress}/logo.png`;
 };
 
-// LocalStorage key for logo cache
-const LOGO_CACHE_KEY = 'vaulto_token_logo_cache';
-
-// Cache TTL: 1 minute (60,000 milliseconds)
-const LOGO_CACHE_TTL_MS = 60 * 1000;
-
-interface LogoCacheEntry {
-  url: string | null;
-  timestamp: number;
-}
+// Check if a string is a valid Ethereum address
+const isEthereumAddress = (text: string): boolean => {
+  return /^0x[a-fA-F0-9]{40}$/.test(text);
+};
 
-// Helper functions for localStorage caching with TTL
-const loadLogoCache = (): Map<string, string | null> => {
-  if (typeof window === 'undefined') return new Map();
-  
+// Fetch Uniswap liquidity data for a search query
+const fetchUniswapLiquidity = async (
+  chainId: number,
+  query: string
+): Promise<LiquidityApiResponse> => {
   try {
-    const cached = localStorage.getItem(LOGO_CACHE_KEY);
-    if (cached) {
-      const parsed: Record<string, LogoCacheEntry | string | null> = JSON.parse(cached);
-      const result = new Map<string, string | null>();
-      const now = Date.now();
-      
-      // Handle both old format (string | null) and new format (LogoCacheEntry)
-      for (const [key, value] of Object.entries(parsed)) {
-        if (typeof value === 'object' && value !== null && 'timestamp' in value) {
-          // New format with timestamp
-          const entry = value as LogoCacheEntry;
-          if (now - entry.timestamp < LOGO_CACHE_TTL_MS) {
-            result.set(key, entry.url);
-          }
-        } else {
-          // Old format (backward compatibility) - treat as expired to force refresh
-          // Don't add to result, will be refreshed
+    // Serve cached results, refreshing them in the background once stale; errors aren't cached
+    return await getOrRevalidate(
+      getUniswapLiquidityCacheKey(chainId, query),
+      async () => {
+        const response = await fetch('/api/uniswap/liquidity', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ chainId, query }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
         }
-      }
-      
-      return result;
-    }
+
+        const data: LiquidityApiResponse = await response.json();
+        return data;
+      },
+      { namespace: 'liquidity' }
+    );
   } catch (error) {
-    console.debug('Failed to load logo cache from localStorage:', error);
+    console.error('Error fetching Uniswap liquidity:', error);
+    return {
+      chainId,
+      tokens: [],
+      error: error instanceof Error ? error.message : 'Failed to fetch liquidity data',
+    };
   }
-  return new Map();
 };
 
-const saveLogoToCache = (key: string, logoUrl: string | null): void => {
-  if (typeof window === 'undefined') return;
-  
+// Find which supported chains have a search query's tokens, grouped by asset; tokens only, without pools
+const fetchMultiChainUniswapLiquidity = async (
+  query: string
+): Promise<MultiChainLiquidityApiResponse> => {
   try {
-    const cached = localStorage.getItem(LOGO_CACHE_KEY);
-    const parsed: Record<string, LogoCacheEntry | string | null> = cached ? JSON.parse(cached) : {};
-    
-    // Save with timestamp
-    parsed[key] = {
-      url: logoUrl,
-      timestamp: Date.now(),
-    };
-    
-    localStorage.setItem(LOGO_CACHE_KEY, JSON.stringify(parsed));
+    // Serve cached results, refreshing them in the background once stale; errors aren't cached
+    return await getOrRevalidate(
+      getUniswapMultiChainLiquidityCacheKey(query, undefined, true),
+      async () => {
+        const response = await fetch('/api/uniswap/liquidity', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ query, multiChain: true, tokensOnly: true }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        }
+
+        const data: MultiChainLiquidityApiResponse = await response.json();
+        return data;
+      },
+      { namespace: 'liquidity' }
+    );
   } catch (error) {
-    console.debug('Failed to save logo to localStorage cache:', error);
+    console.error('Error fetching multi-chain Uniswap liquidity:', error);
+    return {
+      chainIds: [],
+      assets: [],
+      error: error instanceof Error ? error.message : 'Failed to fetch multi-chain liquidity data',
+    };
   }
 };
 
-// Check if a string is a valid Ethereum address
-const isEthereumAddress = (text: string): boolean => {
-  return /^0x[a-fA-F0-9]{40}$/.test(text);
-};
-
-// Fetch Uniswap liquidity data for a search query
-const fetchUniswapLiquidity = async (
+// Fetch the next page of Uniswap pools for a single token
+const fetchMoreUniswapPools = async (
   chainId: number,
-  query: string
-): Promise<LiquidityApiResponse> => {
-  // Check cache first
-  const cacheKey = getUniswapLiquidityCacheKey(chainId, query);
-  const cached = getCached<LiquidityApiResponse>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-
+  tokenAddress: string,
+  poolsCursor: PoolsCursor
+): Promise<LiquidityPoolsPageResponse> => {
   try {
     const response = await fetch('/api/uniswap/liquidity', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ chainId, query }),
+      body: JSON.stringify({ chainId, tokenAddress, poolsCursor }),
     });
 
     if (!response.ok) {
@@ -224,19 +261,15 @@ const fetchUniswapLiquidity = async (
       throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
     }
 
-    const data: LiquidityApiResponse = await response.json();
-    
-    // Cache successful response
-    setCached(cacheKey, data);
-    
-    return data;
+    return await response.json();
   } catch (error) {
-    console.error('Error fetching Uniswap liquidity:', error);
-    // Don't cache errors
+    console.error('Error fetching more Uniswap pools:', error);
     return {
       chainId,
-      tokens: [],
-      error: error instanceof Error ? error.message : 'Failed to fetch liquidity data',
+      tokenAddress: tokenAddress.toLowerCase(),
+      pools: [],
+      poolsCursor,
+      error: error instanceof Error ? error.message : 'Failed to fetch more pools',
     };
   }
 };
@@ -251,7 +284,7 @@ const fetchSolanaTokenData = async (
 
   // Check cache first
   const cacheKey = getSolanaTokenDataCacheKey(addresses);
-  const cached = getCached<Array<{ address: string; tvlUSD?: number; volumeUSD: number; marketCap?: number; marketCapFormatted?: string; priceChange24h?: number }>>(cacheKey);
+  const cached = getCached<Array<{ address: string; tvlUSD?: number; volumeUSD: number; marketCap?: number; marketCapFormatted?: string; priceChange24h?: number }>>(cacheKey, 'token-data');
   if (cached) {
     return cached;
   }
@@ -275,7 +308,7 @@ const fetchSolanaTokenData = async (
     const tokens = data.tokens || [];
     
     // Cache successful response
-    setCached(cacheKey, tokens);
+    setCached(cacheKey, tokens, { namespace: 'token-data' });
     
     return tokens;
   } catch (error) {
@@ -288,10 +321,131 @@ const fetchSolanaTokenData = async (
   }
 };
 
+// Fetch price quotes for many tokens in one request; the server falls back across CoinGecko, Yahoo Finance and Uniswap
+const fetchPriceQuotes = async (
+  chainId: number,
+  tokens: Array<{ address: string; symbol: string }>
+): Promise<Map<string, PriceQuote | null>> => {
+  const quotes = new Map<string, PriceQuote | null>();
+
+  // Check cache first
+  const uncached = tokens.filter((token) => {
+    const cached = getCached<PriceQuote>(getTokenPriceCacheKey(chainId, token.address), 'price');
+    if (cached) {
+      quotes.set(token.address.toLowerCase(), cached);
+    }
+    return !cached;
+  });
+  if (uncached.length === 0) {
+    return quotes;
+  }
+
+  // The route accepts up to 100 tokens per request
+  const batches: Array<typeof uncached> = [];
+  for (let i = 0; i < uncached.length; i += 100) {
+    batches.push(uncached.slice(i, i + 100));
+  }
+
+  await Promise.all(batches.map(async (batch) => {
+    try {
+      const response = await fetch('/api/prices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          tokens: batch.map((token) => ({ chainId, address: token.address })),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data: BatchPriceApiResponse = await response.json();
+      for (const result of data.prices) {
+        quotes.set(result.address.toLowerCase(), result.quote);
+        if (result.quote) {
+          setCached(getTokenPriceCacheKey(chainId, result.address), result.quote, { namespace: 'price' });
+        }
+      }
+    } catch (error) {
+      console.debug('Failed to fetch prices:', error);
+    }
+  }));
+
+  return quotes;
+};
+
+// Fetch premiums to the underlying for the tokenized stocks among search results, in one request
+const fetchPremiums = async (
+  chainId: number,
+  tokens: Array<{ address: string; symbol: string; chainId: number }>
+): Promise<Map<string, TokenPremium | null>> => {
+  const premiums = new Map<string, TokenPremium | null>();
+
+  // The on-chain price comes from a Uniswap pool
+  if (!isChainSupported(chainId)) {
+    return premiums;
+  }
+
+  // Only configured tokenized stocks and listed Ondo tokens have a premium; check cache first
+  const stockTokens = tokens.filter((token) => token.chainId === chainId && resolveStockTicker(chainId, token.address) !== null);
+  const uncached = stockTokens.filter((token) => {
+    const cached = getCached<TokenPremium>(getPremiumCacheKey(chainId, token.address), 'token-data');
+    if (cached) {
+      premiums.set(token.address.toLowerCase(), cached);
+    }
+    return !cached;
+  });
+  if (uncached.length === 0) {
+    return premiums;
+  }
+
+  try {
+    const response = await fetch('/api/premiums', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        tokens: uncached.slice(0, 100).map((token) => ({ chainId, address: token.address })),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const data: BatchPremiumApiResponse = await response.json();
+    for (const result of data.premiums) {
+      premiums.set(result.address.toLowerCase(), result.premium);
+      if (result.premium) {
+        setCached(getPremiumCacheKey(chainId, result.address), result.premium, { namespace: 'token-data' });
+      }
+    }
+  } catch (error) {
+    console.debug('Failed to fetch premiums:', error);
+  }
+
+  return premiums;
+};
+
+// Copy a fetched premium onto a search token
+const withPremium = (token: Token, premium: TokenPremium | null | undefined): Token =>
+  premium ? { ...token, premiumPercent: premium.premiumPercent, premiumTicker: premium.ticker } : token;
+
+// Copy fetched premiums onto the search tokens they belong to
+const withPremiums = (tokens: Token[], premiums: Map<string, TokenPremium | null>): Token[] =>
+  tokens.map((token) => withPremium(token, premiums.get(token.address.toLowerCase())));
+
 // Convert liquidity token result to search token format
 const liquidityTokenToSearchResult = (
   liquidityToken: LiquidityTokenResult,
-  chainId: number
+  chainId: number,
+  meta?: SubgraphMeta
 ): Token => {
   return {
     address: liquidityToken.address,
@@ -302,17 +456,28 @@ const liquidityTokenToSearchResult = (
     tvlUSD: liquidityToken.tvlUSD,
     volumeUSD: liquidityToken.volumeUSD,
     pools: liquidityToken.pools.map((pool) => ({
-      poolAddress: pool.poolAddress,
+      poolId: pool.poolId,
+      protocol: pool.protocol,
       feeTierBps: pool.feeTierBps,
       tvlUSD: pool.tvlUSD,
       volumeUSD: pool.volumeUSD,
+      feeAPR7d: pool.feeAPR7d,
+      feeAPR30d: pool.feeAPR30d,
       token0: { symbol: pool.token0.symbol },
       token1: { symbol: pool.token1.symbol },
     })),
+    poolsCursor: liquidityToken.poolsCursor,
+    dataDelayedSince: meta?.isStale && meta.blockTimestamp !== null ? meta.blockTimestamp : undefined,
   };
 };
 
-// Get top pool trading pair (just the symbols)
+// Format how long ago an indexed block was, e.g. "12m" or "3h"
+const formatDelay = (blockTimestamp: number): string => {
+  const minutes = Math.max(0, Math.floor((Date.now() / 1000 - blockTimestamp) / 60));
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h`;
+};
+
+// Get top pool trading pair (just the symbols, plus the Uniswap version when not v3)
 const getTopPoolPair = (token: Token): string | null => {
   if (!token.pools || token.pools.length === 0) {
     return null;
@@ -321,7 +486,19 @@ const getTopPoolPair = (token: Token): string | null => {
   const topPool = token.pools[0]; // Pools are already sorted by TVL
   if (!topPool) return null;
   
-  return `${topPool.token0.symbol}/${topPool.token1.symbol}`;
+  const pair = `${topPool.token0.symbol}/${topPool.token1.symbol}`;
+  return topPool.protocol && topPool.protocol !== 'v3' ? `${pair} ${topPool.protocol}` : pair;
+};
+
+// Describe the fee APR of every loaded pool, e.g. "USDC/SPYon 0.30%: 12.50% (7d), 11.20% (30d)"
+const getPoolAprSummary = (token: Token): string => {
+  return (token.pools || [])
+    .map((pool) => {
+      const version = pool.protocol && pool.protocol !== 'v3' ? ` ${pool.protocol}` : '';
+      return `${pool.token0.symbol}/${pool.token1.symbol}${version} ${formatFeeTier(pool.feeTierBps)}: `
+        + `${formatAPR(pool.feeAPR7d)} (7d), ${formatAPR(pool.feeAPR30d)} (30d)`;
+    })
+    .join('\n');
 };
 
 // Get TVL to display (prefer pool TVL, fallback to token TVL)
@@ -368,7 +545,7 @@ const getSortTVL = (token: Token): number => {
 };
 
 // Get top pool display text (without fee percentage) - for backward compatibility
-const getTopPoolText = (token: Token): string | null => {
+const getTopPoolText = (token: Token, display?: CurrencyDisplay): string | null => {
   if (!token.pools || token.pools.length === 0) {
     return null;
   }
@@ -376,7 +553,7 @@ const getTopPoolText = (token: Token): string | null => {
   const topPool = token.pools[0]; // Pools are already sorted by TVL
   if (!topPool) return null;
 
-  const poolTVL = formatTVL(topPool.tvlUSD);
+  const poolTVL = formatTVL(topPool.tvlUSD, display);
   
   return `${topPool.token0.symbol}/${topPool.token1.symbol} • ${poolTVL} TVL`;
 };
@@ -402,6 +579,7 @@ const isVerifiedToken = (token: Token, privateTokenAddresses: Set<string>): bool
 };
 
 export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchProps) {
+  const { display } = useCurrency();
   const [searchQuery, setSearchQuery] = useState('');
   const [tokens, setTokens] = useState<Token[]>([]);
   const [filteredTokens, setFilteredTokens] = useState<Token[]>([]);
@@ -412,20 +590,35 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
   const [fetchingLogos, setFetchingLogos] = useState<Set<string>>(new Set());
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
   const [isLoadingUniswap, setIsLoadingUniswap] = useState(false);
+  const [loadingMorePools, setLoadingMorePools] = useState<Set<string>>(new Set());
   const logoUrlsRef = useRef<Map<string, string | null>>(new Map());
+  const persistedLogosRef = useRef<Promise<Map<string, PersistedLogo>> | null>(null);
   const fetchingLogosRef = useRef<Set<string>>(new Set());
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const isMobile = useIsMobile();
   
-  // Load cached logos from localStorage on mount
-  useEffect(() => {
-    const cached = loadLogoCache();
-    if (cached.size > 0) {
-      setLogoUrls(cached);
-      logoUrlsRef.current = cached;
+  // Logos persisted in IndexedDB by earlier visits, read once per mount
+  const getPersistedLogos = useCallback(() => {
+    if (!persistedLogosRef.current) {
+      persistedLogosRef.current = loadPersistedLogos();
     }
+    return persistedLogosRef.current;
+  }, []);
+
+  // Stored logos get object URLs only when shown (see fetchTokenLogos); release them on unmount
+  useEffect(() => {
+    return () => {
+      persistedLogosRef.current = null;
+      revokeLogoObjectUrls(logoUrlsRef.current.values());
+      // A remount reloads the stored logos, so drop the URLs being revoked
+      setLogoUrls(prev => {
+        const newMap = new Map(Array.from(prev).filter(([, url]) => !url?.startsWith('blob:')));
+        logoUrlsRef.current = newMap;
+        return newMap;
+      });
+    };
   }, []);
   
   // Keep refs in sync with state
@@ -655,6 +848,8 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
 
     if (tokensNeedingLogos.length === 0) return;
 
+    const persistedLogos = await getPersistedLogos();
+
     // Process tokens in batches to avoid rate limiting
     const batchSize = 5;
     for (let i = 0; i < tokensNeedingLogos.length; i += batchSize) {
@@ -664,11 +859,18 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
         batch.map(async (token) => {
           const key = `${token.chainId}-${token.address.toLowerCase()}`;
           
-          // Check localStorage cache first
-          const cachedLogo = loadLogoCache().get(key);
+          // Check if already fetched or currently fetching using refs; checked before the
+          // persistent cache so a shown logo doesn't get a second object URL
+          if (logoUrlsRef.current.has(key) || fetchingLogosRef.current.has(key)) {
+            return; // Skip if already fetched or currently fetching
+          }
+
+          // Check the persistent cache next
+          const cachedLogo = persistedLogos.get(key);
           if (cachedLogo !== undefined) {
             // Normalize cached logo URL (convert IPFS URLs to HTTPS gateway URLs)
-            const normalizedCachedLogo = normalizeLogoURI(cachedLogo || undefined) || cachedLogo;
+            const cachedUrl = toLogoDisplayUrl(cachedLogo);
+            const normalizedCachedLogo = normalizeLogoURI(cachedUrl || undefined) || cachedUrl;
             // Found in cache, use it
             setLogoUrls(prev => {
               const newMap = new Map(prev);
@@ -678,11 +880,6 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
             });
             return; // Skip API call
           }
-          
-          // Check if already fetched or currently fetching using refs
-          if (logoUrlsRef.current.has(key) || fetchingLogosRef.current.has(key)) {
-            return; // Skip if already fetched or currently fetching
-          }
 
           // Mark as fetching
           setFetchingLogos(prev => {
@@ -699,13 +896,14 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
             // Normalize the logo URL (convert IPFS URLs to HTTPS gateway URLs)
             const normalizedLogoUrl = normalizeLogoURI(result.logoUrl || undefined) || null;
             
-            // Save to localStorage cache
-            saveLogoToCache(key, normalizedLogoUrl);
+            // Save to the persistent cache, and show the stored image so it isn't downloaded twice
+            const storedLogo = await persistLogo(key, normalizedLogoUrl);
+            const displayUrl = toLogoDisplayUrl(storedLogo);
             
             // Update logo URLs map
             setLogoUrls(prev => {
               const newMap = new Map(prev);
-              newMap.set(key, normalizedLogoUrl);
+              newMap.set(key, displayUrl);
               logoUrlsRef.current = newMap;
               return newMap;
             });
@@ -714,7 +912,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
             console.debug(`Failed to fetch logo for ${token.symbol}:`, error);
             
             // Cache null value to avoid retrying failed lookups
-            saveLogoToCache(key, null);
+            persistLogo(key, null);
             
             setLogoUrls(prev => {
               const newMap = new Map(prev);
@@ -739,7 +937,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
         await new Promise(resolve => setTimeout(resolve, 100));
       }
     }
-  }, [normalizeLogoURI]);
+  }, [normalizeLogoURI, getPersistedLogos]);
 
   // Standard tokens (USDC, USDT, DAI, etc.)
   const standardTokens: Token[] = useMemo(() => [
@@ -849,61 +1047,42 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
       try {
         // Fetch all token sources in parallel
         const fetchPromises = [
-          // Try Uniswap token list first (primary source)
-          fetch('https://ipfs.io/ipns/tokens.uniswap.org')
-            .then(async (response) => {
-              if (response.ok) {
-                const data = await response.json();
-                const uniswapTokens: Token[] = data.tokens || [];
-                if (uniswapTokens.length > 0) {
-                  const tokensWithLogos = uniswapTokens.filter(t => t.logoURI);
-                  console.log('TokenSearch: Loaded tokens from Uniswap list (primary source)', {
-                    chainId,
-                    uniswapTokensCount: uniswapTokens.length,
-                    tokensWithLogoURICount: tokensWithLogos.length,
-                    sampleTokens: uniswapTokens.slice(0, 3).map(t => ({ 
-                      symbol: t.symbol, 
-                      chainId: t.chainId,
-                      hasLogoURI: !!t.logoURI,
-                      logoURI: t.logoURI 
-                    }))
-                  });
-                  return uniswapTokens;
-                }
-              } else {
-                console.warn('TokenSearch: Uniswap list response not OK', { status: response.status, statusText: response.statusText });
-              }
-              return [];
-            })
-            .catch((error) => {
-              console.warn('TokenSearch: Error fetching Uniswap token list:', error);
-              return [];
-            }),
+          // Try Uniswap token list first (primary source); served from IndexedDB on repeat visits
+          loadTokenList('https://ipfs.io/ipns/tokens.uniswap.org').then((result) => {
+            const uniswapTokens: Token[] = result?.list.tokens || [];
+            if (uniswapTokens.length > 0) {
+              const tokensWithLogos = uniswapTokens.filter(t => t.logoURI);
+              console.log('TokenSearch: Loaded tokens from Uniswap list (primary source)', {
+                chainId,
+                source: result?.source,
+                version: result?.list.version,
+                uniswapTokensCount: uniswapTokens.length,
+                tokensWithLogoURICount: tokensWithLogos.length,
+                sampleTokens: uniswapTokens.slice(0, 3).map(t => ({ 
+                  symbol: t.symbol, 
+                  chainId: t.chainId,
+                  hasLogoURI: !!t.logoURI,
+                  logoURI: t.logoURI 
+                }))
+              });
+            }
+            return uniswapTokens;
+          }),
           
           // Try static token-list.json file
-          fetch('/token-list.json')
-            .then(async (response) => {
-              if (response.ok) {
-                const data = await response.json();
-                // Handle both API format { tokens: [...] } and file format { name, version, tokens: [...] }
-                const staticTokens: Token[] = data.tokens || [];
-                if (staticTokens.length > 0) {
-                  console.log('TokenSearch: Loaded tokens from static file', {
-                    chainId,
-                    staticTokensCount: staticTokens.length,
-                    sampleTokens: staticTokens.slice(0, 3).map(t => ({ symbol: t.symbol, chainId: t.chainId }))
-                  });
-                  return staticTokens;
-                }
-              } else {
-                console.warn('TokenSearch: Static file response not OK', { status: response.status, statusText: response.statusText });
-              }
-              return [];
-            })
-            .catch((error) => {
-              console.warn('TokenSearch: Error fetching token list from static file:', error);
-              return [];
-            })
+          loadTokenList('/token-list.json').then((result) => {
+            const staticTokens: Token[] = result?.list.tokens || [];
+            if (staticTokens.length > 0) {
+              console.log('TokenSearch: Loaded tokens from static file', {
+                chainId,
+                source: result?.source,
+                version: result?.list.version,
+                staticTokensCount: staticTokens.length,
+                sampleTokens: staticTokens.slice(0, 3).map(t => ({ symbol: t.symbol, chainId: t.chainId }))
+              });
+            }
+            return staticTokens;
+          })
         ];
 
         // Wait for all fetches to complete
@@ -1088,65 +1267,15 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
         tokenMap.set(key, token);
       });
 
-      // Fetch Uniswap liquidity data and price change for each default token
+      // Fetch price changes for all default tokens in one request
+      const priceQuotes = await fetchPriceQuotes(chainId, defaultTokens);
+
+      // Fetch Uniswap liquidity data for each default token
       // We'll search by each token's symbol
       const enrichmentPromises = defaultTokens.map(async (token) => {
         try {
-          // Check cache for price data first
-          const priceCacheKey = getTokenPriceCacheKey(chainId, token.address);
-          let priceData = getCached<CoinGeckoPriceData | null>(priceCacheKey);
-          
-          // Fetch price if not cached
-          if (!priceData) {
-            try {
-              priceData = await fetchTokenPriceByAddress(chainId, token.address);
-              if (priceData) {
-                setCached(priceCacheKey, priceData);
-              }
-            } catch {
-              priceData = null; // Silently fail if price fetch fails
-            }
-          }
-          
-          let priceChange = priceData?.price_change_percentage_24h;
-          
-          // For tokenized stocks, always check yfinance if CoinGecko didn't return a valid percentage change
-          // Check if token is a tokenized stock first to optimize
-          if ((priceChange === undefined || priceChange === null || isNaN(priceChange)) && token.address) {
-            try {
-              const tokenMetadata = getTokenMetadata(token.address);
-              if (tokenMetadata && isTokenizedStock(tokenMetadata.token)) {
-                const ticker = getStockTicker(tokenMetadata.token);
-                if (ticker) {
-                  // Check cache first for yfinance data
-                  const stockPctCacheKey = getStockPctChangeCacheKey(token.address);
-                  let cachedStockPct = getCached<{ priceChangePercent: number }>(stockPctCacheKey);
-                  
-                  if (cachedStockPct && typeof cachedStockPct.priceChangePercent === 'number' && !isNaN(cachedStockPct.priceChangePercent)) {
-                    priceChange = cachedStockPct.priceChangePercent;
-                  } else {
-                    // Fetch from yfinance API - always attempt for tokenized stocks
-                    try {
-                      const stockPctResponse = await fetch(`/api/token/${token.address}/stock-pct-change`);
-                      if (stockPctResponse.ok) {
-                        const stockData = await stockPctResponse.json();
-                        if (typeof stockData.priceChangePercent === 'number' && !isNaN(stockData.priceChangePercent)) {
-                          priceChange = stockData.priceChangePercent;
-                          // Cache the result for future use
-                          setCached(stockPctCacheKey, { priceChangePercent: stockData.priceChangePercent });
-                        }
-                      }
-                    } catch (fetchError) {
-                      console.debug(`Failed to fetch yfinance price change for ${token.symbol} (${ticker}):`, fetchError);
-                    }
-                  }
-                }
-              }
-            } catch (yfinanceError) {
-              console.debug(`Failed to check/fetch yfinance price change for ${token.symbol}:`, yfinanceError);
-              // Continue with undefined priceChange
-            }
-          }
+          const priceQuote = priceQuotes.get(token.address.toLowerCase());
+          const priceChange = priceQuote?.change24hPercent ?? undefined;
           
           const [liquidityData] = await Promise.all([
             fetchUniswapLiquidity(chainId, token.symbol),
@@ -1163,7 +1292,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
             );
             
             if (matchingLiquidityToken) {
-              const uniswapToken = liquidityTokenToSearchResult(matchingLiquidityToken, chainId);
+              const uniswapToken = liquidityTokenToSearchResult(matchingLiquidityToken, chainId, liquidityData.meta);
               
               // Merge: keep local token data but add Uniswap TVL/volume/pools
               tokenMap.set(key, {
@@ -1171,6 +1300,8 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                 tvlUSD: uniswapToken.tvlUSD,
                 volumeUSD: uniswapToken.volumeUSD,
                 pools: uniswapToken.pools,
+                poolsCursor: uniswapToken.poolsCursor,
+                dataDelayedSince: uniswapToken.dataDelayedSince,
                 priceChange24h: (typeof priceChange === 'number' && !isNaN(priceChange)) ? priceChange : undefined,
               });
               return; // Already updated with price change
@@ -1225,6 +1356,11 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
               
               setFilteredTokens(sortedTokens);
               setIsLoadingUniswap(false);
+
+              // Premium badges for the tokenized stocks fill in once they're fetched
+              fetchPremiums(chainId, sortedTokens).then((premiums) => {
+                setFilteredTokens((current) => withPremiums(current, premiums));
+              });
             })
             .catch((error) => {
               console.error('Error enriching default tokens:', error);
@@ -1287,6 +1423,10 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
         }
       });
 
+      // Look up the same query on every chain in the background, for "available on N chains" badges;
+      // results are shown without waiting for it
+      const multiChainPromise = fetchMultiChainUniswapLiquidity(query);
+
       // Fetch Uniswap liquidity if chain is supported
       let uniswapTokens: Token[] = [];
       if (isChainSupported(chainId)) {
@@ -1306,7 +1446,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
           
           if (liquidityData.tokens && liquidityData.tokens.length > 0) {
             uniswapTokens = liquidityData.tokens.map((liquidityToken) =>
-              liquidityTokenToSearchResult(liquidityToken, chainId)
+              liquidityTokenToSearchResult(liquidityToken, chainId, liquidityData.meta)
             );
             
             // Merge Uniswap tokens into map (they take precedence for TVL/pool data)
@@ -1321,6 +1461,8 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                   tvlUSD: token.tvlUSD,
                   volumeUSD: token.volumeUSD,
                   pools: token.pools,
+                  poolsCursor: token.poolsCursor,
+                  dataDelayedSince: token.dataDelayedSince,
                 });
               } else {
                 // New token from Uniswap
@@ -1343,67 +1485,14 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
         }
       }
 
-      // Fetch price change data for all tokens in the map (both local and Uniswap) in parallel
-      // This runs regardless of chain support since CoinGecko supports multiple chains
+      // Fetch price change data for all tokens in the map (both local and Uniswap) in one request
+      // This runs regardless of chain support since CoinGecko and Yahoo don't need a subgraph
       try {
         const allTokensForPriceFetch = Array.from(tokenMap.values());
-        const priceDataPromises = allTokensForPriceFetch.map(async (token) => {
-          const priceCacheKey = getTokenPriceCacheKey(chainId, token.address);
-          
-          // Check cache first
-          let priceData = getCached<CoinGeckoPriceData | null>(priceCacheKey);
-          
-          // Fetch if not cached
-          if (!priceData) {
-            try {
-              priceData = await fetchTokenPriceByAddress(chainId, token.address);
-              if (priceData) {
-                setCached(priceCacheKey, priceData);
-              }
-            } catch (error) {
-              console.debug(`Failed to fetch price for ${token.address}:`, error);
-            }
-          }
-          
-          let priceChange = priceData?.price_change_percentage_24h;
-          
-          // For tokenized stocks, always check yfinance if CoinGecko didn't return a valid percentage change
-          // Check if token is a tokenized stock first to optimize
-          if ((priceChange === undefined || priceChange === null || isNaN(priceChange)) && token.address) {
-            try {
-              const tokenMetadata = getTokenMetadata(token.address);
-              if (tokenMetadata && isTokenizedStock(tokenMetadata.token)) {
-                const ticker = getStockTicker(tokenMetadata.token);
-                if (ticker) {
-                  // Check cache first for yfinance data
-                  const stockPctCacheKey = getStockPctChangeCacheKey(token.address);
-                  let cachedStockPct = getCached<{ priceChangePercent: number }>(stockPctCacheKey);
-                  
-                  if (cachedStockPct && typeof cachedStockPct.priceChangePercent === 'number' && !isNaN(cachedStockPct.priceChangePercent)) {
-                    priceChange = cachedStockPct.priceChangePercent;
-                  } else {
-                    // Fetch from yfinance API - always attempt for tokenized stocks
-                    try {
-                      const stockPctResponse = await fetch(`/api/token/${token.address}/stock-pct-change`);
-                      if (stockPctResponse.ok) {
-                        const stockData = await stockPctResponse.json();
-                        if (typeof stockData.priceChangePercent === 'number' && !isNaN(stockData.priceChangePercent)) {
-                          priceChange = stockData.priceChangePercent;
-                          // Cache the result for future use
-                          setCached(stockPctCacheKey, { priceChangePercent: stockData.priceChangePercent });
-                        }
-                      }
-                    } catch (fetchError) {
-                      console.debug(`Failed to fetch yfinance price change for ${token.address} (${ticker}):`, fetchError);
-                    }
-                  }
-                }
-              }
-            } catch (yfinanceError) {
-              console.debug(`Failed to check/fetch yfinance price change for ${token.address}:`, yfinanceError);
-              // Continue with undefined priceChange
-            }
-          }
+        const priceQuotes = await fetchPriceQuotes(chainId, allTokensForPriceFetch);
+        const priceDataResults = allTokensForPriceFetch.map((token) => {
+          const priceQuote = priceQuotes.get(token.address.toLowerCase());
+          const priceChange = priceQuote?.change24hPercent ?? undefined;
           
           // Ensure we return a number or undefined (not null)
           // Only return if it's a valid number (not null, not undefined)
@@ -1412,7 +1501,6 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
             priceChange: (typeof priceChange === 'number' && !isNaN(priceChange) ? priceChange : undefined)
           };
         });
-        const priceDataResults = await Promise.all(priceDataPromises);
         const priceDataMap = new Map(
           priceDataResults.map(result => [result.key, result.priceChange])
         );
@@ -1446,7 +1534,31 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
 
       // Limit to 4 results on mobile, 10 on desktop for performance
       const maxResults = isMobile ? 4 : 10;
-      setFilteredTokens(allTokens.slice(0, maxResults));
+      const displayedTokens = allTokens.slice(0, maxResults);
+      setFilteredTokens(displayedTokens);
+
+      // Premiums for the tokenized stocks shown; failures just leave the badge off
+      fetchPremiums(chainId, displayedTokens).then((premiums) => {
+        if (!currentAbortController.signal.aborted) {
+          setFilteredTokens((current) => withPremiums(current, premiums));
+        }
+      });
+
+      // Mark assets that have Uniswap liquidity on more than one chain once the lookup returns
+      const multiChainData = await multiChainPromise;
+      if (currentAbortController.signal.aborted) {
+        return;
+      }
+      const chainIdsBySymbol = new Map(
+        multiChainData.assets.map((asset) => [
+          asset.symbol.toUpperCase(),
+          Array.from(new Set(asset.chains.map((deployment) => deployment.chainId))),
+        ])
+      );
+      setFilteredTokens((current) => current.map((token) => {
+        const availableChainIds = chainIdsBySymbol.get(token.symbol.toUpperCase());
+        return availableChainIds && availableChainIds.length > 1 ? { ...token, availableChainIds } : token;
+      }));
     }, 400); // 400ms debounce
 
     return () => {
@@ -1582,6 +1694,54 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
     onDropdownToggle?.(isOpen);
   }, [isOpen, onDropdownToggle]);
 
+  // Load the next page of pools for a token shown in the dropdown
+  const loadMorePools = useCallback(async (token: Token) => {
+    if (token.poolsCursor === undefined || token.poolsCursor === null) return;
+
+    const key = `${token.chainId}-${token.address.toLowerCase()}`;
+    setLoadingMorePools((prev) => new Set(prev).add(key));
+
+    const page = await fetchMoreUniswapPools(token.chainId, token.address, token.poolsCursor);
+
+    setFilteredTokens((currentTokens) => currentTokens.map((current) => {
+      if (`${current.chainId}-${current.address.toLowerCase()}` !== key) {
+        return current;
+      }
+      if (page.error) {
+        return current;
+      }
+
+      // Pages walk by pool id, so skip pools we already have from the TVL-ordered search
+      const existingPools = current.pools || [];
+      const seen = new Set(existingPools.map((pool) => pool.poolId));
+      const newPools = page.pools
+        .filter((pool) => !seen.has(pool.poolId))
+        .map((pool) => ({
+          poolId: pool.poolId,
+          protocol: pool.protocol,
+          feeTierBps: pool.feeTierBps,
+          tvlUSD: pool.tvlUSD,
+          volumeUSD: pool.volumeUSD,
+          feeAPR7d: pool.feeAPR7d,
+          feeAPR30d: pool.feeAPR30d,
+          token0: { symbol: pool.token0.symbol },
+          token1: { symbol: pool.token1.symbol },
+        }));
+
+      return {
+        ...current,
+        pools: [...existingPools, ...newPools].sort((a, b) => b.tvlUSD - a.tvlUSD),
+        poolsCursor: page.poolsCursor,
+      };
+    }));
+
+    setLoadingMorePools((prev) => {
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+  }, []);
+
   const showResults = isOpen;
 
   return (
@@ -1772,6 +1932,9 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                   }
                                   return null;
                                 })()}
+                                {token.premiumPercent !== undefined && (
+                                  <PremiumBadge premiumPercent={token.premiumPercent} ticker={token.premiumTicker} />
+                                )}
                                 {(() => {
                                   // Show TVL from Jupiter if available
                                   const tvlValue = token.tvlUSD;
@@ -1780,7 +1943,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                   if (hasTVL) {
                                     return (
                                       <span className="px-1.5 py-0.5 md:px-1 md:py-0.25 text-[9px] md:text-[9px] font-medium bg-yellow-400/20 text-yellow-400 rounded flex-shrink-0">
-                                        {formatTVL(tvlValue)} <span className="text-[8px] md:text-[8px] text-white">TVL</span>
+                                        {formatTVL(tvlValue, display)} <span className="text-[8px] md:text-[8px] text-white">TVL</span>
                                       </span>
                                     );
                                   }
@@ -1791,8 +1954,8 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                   const marketCapFormatted = token.marketCapFormatted;
                                   const marketCapValue = token.marketCap;
                                   
-                                  if (marketCapFormatted) {
-                                    // Display Jupiter's formatted value with MCap label (e.g., "$472B MCap")
+                                  if (marketCapFormatted && (display.currency === 'USD' || !marketCapValue)) {
+                                    // Display Jupiter's formatted value with MCap label (e.g., "$472B MCap"); it's in USD, so other currencies use marketCap
                                     return (
                                       <span className="px-1.5 py-0.5 md:px-1 md:py-0.25 text-[9px] md:text-[10px] font-medium bg-yellow-400/20 text-yellow-400 rounded flex-shrink-0">
                                         {marketCapFormatted} <span className="text-[8px] md:text-[8px] text-white">MCap</span>
@@ -1802,7 +1965,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                     // Fall back to formatted CoinGecko value with MCap label
                                     return (
                                       <span className="px-1.5 py-0.5 md:px-1 md:py-0.25 text-[9px] md:text-[10px] font-medium bg-yellow-400/20 text-yellow-400 rounded flex-shrink-0">
-                                        {formatTVL(marketCapValue)} <span className="text-[8px] md:text-[8px] text-white">MCap</span>
+                                        {formatTVL(marketCapValue, display)} <span className="text-[8px] md:text-[8px] text-white">MCap</span>
                                       </span>
                                     );
                                   }
@@ -1830,7 +1993,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                 if (hasVolume) {
                                   return (
                                     <span className="px-1.5 py-0.5 md:px-1 md:py-0.25 text-[9px] md:text-[10px] font-medium bg-yellow-400/20 text-yellow-400 rounded flex-shrink-0">
-                                      {formatTVL(displayVolume)} <span className="text-[8px] md:text-[8px] text-white">24h Vol</span>
+                                      {formatTVL(displayVolume, display)} <span className="text-[8px] md:text-[8px] text-white">24h Vol</span>
                                     </span>
                                   );
                                 }
@@ -1935,6 +2098,43 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                   }
                                   return null;
                                 })()}
+                                {token.pools?.[0]?.feeAPR7d !== undefined && token.pools[0].feeAPR7d !== null && (
+                                  <span
+                                    className="text-green-400 font-normal text-[9px] md:text-[9px]"
+                                    title={`Fee APR by pool\n${getPoolAprSummary(token)}`}
+                                  >
+                                    {formatAPR(token.pools[0].feeAPR7d)} APR
+                                  </span>
+                                )}
+                                {token.poolsCursor !== undefined && token.poolsCursor !== null && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      loadMorePools(token);
+                                    }}
+                                    disabled={loadingMorePools.has(logoKey)}
+                                    className="text-yellow-400 hover:text-yellow-300 font-normal text-[9px] md:text-[9px] disabled:opacity-50"
+                                    title={`${token.pools?.length || 0} pools loaded`}
+                                  >
+                                    {loadingMorePools.has(logoKey) ? 'Loading...' : '+ pools'}
+                                  </button>
+                                )}
+                                {token.dataDelayedSince !== undefined && (
+                                  <span
+                                    className="px-1 py-0.25 text-[9px] md:text-[9px] font-normal text-amber-400 bg-amber-400/10 border border-amber-400/30 rounded"
+                                    title={`Uniswap data is delayed: the subgraph was last indexed ${formatDelay(token.dataDelayedSince)} ago`}
+                                  >
+                                    Data delayed
+                                  </span>
+                                )}
+                                {token.availableChainIds !== undefined && (
+                                  <span
+                                    className="px-1 py-0.25 text-[9px] md:text-[9px] font-normal text-blue-300 bg-blue-400/10 border border-blue-400/30 rounded"
+                                    title={`Uniswap liquidity on ${token.availableChainIds.map(getChainName).join(', ')}`}
+                                  >
+                                    {token.availableChainIds.length} chains
+                                  </span>
+                                )}
                                 {isVerifiedToken(token, privateTokenAddresses) && (
                                   <span className="inline-flex items-center justify-center w-4 h-4 md:w-4 md:h-4 rounded-full bg-green-500/20 border border-green-500/30" title="Verified">
                                     <svg
@@ -1971,6 +2171,9 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                   }
                                   return null;
                                 })()}
+                                {token.premiumPercent !== undefined && (
+                                  <PremiumBadge premiumPercent={token.premiumPercent} ticker={token.premiumTicker} />
+                                )}
                                 {(() => {
                                   const displayTVL = getDisplayTVL(token);
                                   const hasTVL = displayTVL !== null && displayTVL > 0;
@@ -1978,7 +2181,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                   if (hasTVL) {
                                     return (
                                       <span className="px-1.5 py-0.5 md:px-1 md:py-0.25 text-[9px] md:text-[10px] font-medium bg-yellow-400/20 text-yellow-400 rounded flex-shrink-0">
-                                        {formatTVL(displayTVL)} <span className="text-[8px] md:text-[9px] text-white">TVL</span>
+                                        {formatTVL(displayTVL, display)} <span className="text-[8px] md:text-[9px] text-white">TVL</span>
                                       </span>
                                     );
                                   }
@@ -1995,7 +2198,7 @@ export default function TokenSearch({ chainId, onDropdownToggle }: TokenSearchPr
                                 if (hasVolume) {
                                   return (
                                     <span className="px-1.5 py-0.5 md:px-1 md:py-0.25 text-[9px] md:text-[10px] font-medium bg-yellow-400/20 text-yellow-400 rounded flex-shrink-0">
-                                      {formatTVL(displayVolume)} <span className="text-[8px] md:text-[8px] text-white">24h Vol</span>
+                                      {formatTVL(displayVolume, display)} <span className="text-[8px] md:text-[8px] text-white">24h Vol</span>
                                     </span>
                                   );
                                 }
@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { IChartApiBase } from 'lightweight-charts';
+import type { LiquidityDepthApiResponse } from '@/app/api/uniswap/depth/route';
+import { formatCompactNumber, formatNumber } from '@/lib/utils/formatters';
+
+interface LiquidityDepthChartProps {
+  chainId: number;
+  poolAddress: string;
+  baseTokenAddress: string; // Prices are shown as this token's price in the pool's other token
+  height?: number;
+}
+
+/**
+ * One bar of the depth chart, oriented to the base token
+ */
+interface DepthBar {
+  price: number; // Base token price at the bucket midpoint
+  value: number; // Liquidity from the current price out to the bucket, in quote token units at the current price
+  side: 'bid' | 'ask' | 'current';
+}
+
+const BAR_COLORS: Record<DepthBar['side'], string> = {
+  bid: 'rgba(74, 222, 128, 0.6)',
+  ask: 'rgba(248, 113, 113, 0.6)',
+  current: '#FACC15',
+};
+
+/**
+ * Liquidity Depth Chart Component
+ * Plots a v3 pool's cumulative depth by price, with the current tick highlighted: each
+ * bar is all the liquidity between the current price and it. Bids (quote token below
+ * the price) are green, asks (base token above it) red.
+ */
+export default function LiquidityDepthChart({
+  chainId,
+  poolAddress,
+  baseTokenAddress,
+  height = 240,
+}: LiquidityDepthChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [data, setData] = useState<LiquidityDepthApiResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDepth = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ chainId: chainId.toString(), pool: poolAddress });
+        const response = await fetch(`/api/uniswap/depth?${params.toString()}`);
+        const result: LiquidityDepthApiResponse = await response.json();
+
+        if (cancelled) return;
+
+        if (!response.ok || result.error) {
+          setError(result.error || `HTTP error! status: ${response.status}`);
+          setData(null);
+        } else {
+          setData(result);
+        }
+      } catch (fetchError) {
+        if (cancelled) return;
+        console.error('Error fetching liquidity depth:', fetchError);
+        setError('Failed to load liquidity depth');
+        setData(null);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchDepth();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, poolAddress]);
+
+  const pool = data?.pool ?? null;
+  const baseIsToken0 = pool?.token0.address === baseTokenAddress.toLowerCase();
+  const base = pool ? (baseIsToken0 ? pool.token0 : pool.token1) : null;
+  const quote = pool ? (baseIsToken0 ? pool.token1 : pool.token0) : null;
+  const currentPrice = pool && pool.price0 > 0 ? (baseIsToken0 ? pool.price0 : 1 / pool.price0) : 0;
+
+  // Orient buckets to the base token: when it is token1, prices invert and order reverses
+  const bars = useMemo((): DepthBar[] => {
+    if (!data?.pool || !(currentPrice > 0)) {
+      return [];
+    }
+
+    const currentTick = data.pool.currentTick;
+    return data.buckets
+      .map((bucket): DepthBar => {
+        const midPrice0 = bucket.price0 * Math.pow(1.0001, (bucket.tickUpper - bucket.tickLower) / 2);
+        const price = baseIsToken0 ? midPrice0 : 1 / midPrice0;
+        const baseAmount = baseIsToken0 ? bucket.cumulativeAmount0 : bucket.cumulativeAmount1;
+        const quoteAmount = baseIsToken0 ? bucket.cumulativeAmount1 : bucket.cumulativeAmount0;
+        const isCurrent = currentTick >= bucket.tickLower && currentTick < bucket.tickUpper;
+        return {
+          price,
+          value: baseAmount * currentPrice + quoteAmount,
+          side: isCurrent ? 'current' : price < currentPrice ? 'bid' : 'ask',
+        };
+      })
+      .filter((bar) => isFinite(bar.price) && bar.price > 0)
+      .sort((a, b) => a.price - b.price);
+  }, [data, baseIsToken0, currentPrice]);
+
+  const hasLiquidity = bars.some((bar) => bar.value > 0);
+
+  // Render the chart once we have bars
+  useEffect(() => {
+    if (!containerRef.current || !hasLiquidity) return;
+
+    let chart: IChartApiBase<number> | null = null;
+    let disposed = false;
+
+    // Loaded dynamically to keep lightweight-charts out of the server bundle
+    import('lightweight-charts').then(({ createOptionsChart, createSeriesMarkers, HistogramSeries, ColorType }) => {
+      if (disposed || !containerRef.current) return;
+
+      chart = createOptionsChart(containerRef.current, {
+        autoSize: true,
+        layout: {
+          background: { type: ColorType.Solid, color: 'transparent' },
+          textColor: '#9CA3AF',
+        },
+        grid: {
+          vertLines: { visible: false },
+          horzLines: { color: 'rgba(75, 85, 99, 0.2)' },
+        },
+        rightPriceScale: { borderVisible: false },
+        timeScale: { borderVisible: false },
+        localization: {
+          priceFormatter: (value: number) => formatCompactNumber(value),
+          timeFormatter: (price: number) => formatNumber(price, 4),
+        },
+      });
+
+      const depthSeries = chart.addSeries(HistogramSeries, {
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      depthSeries.setData(bars.map((bar) => ({
+        time: bar.price,
+        value: bar.value,
+        color: BAR_COLORS[bar.side],
+      })));
+
+      const currentBar = bars.find((bar) => bar.side === 'current');
+      if (currentBar) {
+        createSeriesMarkers(depthSeries, [{
+          time: currentBar.price,
+          position: 'aboveBar',
+          shape: 'arrowDown',
+          color: BAR_COLORS.current,
+          text: 'Current',
+        }]);
+      }
+
+      chart.timeScale().fitContent();
+    });
+
+    return () => {
+      disposed = true;
+      chart?.remove();
+    };
+  }, [bars, hasLiquidity]);
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-white">Liquidity Depth</h2>
+          <span className="flex items-center gap-1 text-[10px] text-gray-400">
+            <span className="inline-block w-2 h-2 rounded-full bg-green-400"></span> {quote?.symbol || 'Bids'}
+          </span>
+          <span className="flex items-center gap-1 text-[10px] text-gray-400">
+            <span className="inline-block w-2 h-2 rounded-full bg-red-400"></span> {base?.symbol || 'Asks'}
+          </span>
+        </div>
+        {pool && base && quote && (
+          <span className="text-[10px] text-gray-400">
+            {base.symbol}/{quote.symbol} {formatNumber(currentPrice, 4)} · tick {pool.currentTick}
+          </span>
+        )}
+      </div>
+      <div className="relative w-full" style={{ height: `${height}px` }}>
+        {isLoading ? (
+          <div className="absolute inset-0 bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : error || !hasLiquidity ? (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm">
+            {error || 'No liquidity near the current price'}
+          </div>
+        ) : (
+          <div ref={containerRef} className="absolute inset-0" />
+        )}
+      </div>
+      {quote && hasLiquidity && (
+        <p className="text-[10px] text-gray-500">
+          Liquidity per price band in {quote.symbol}, valued at the current price.
+        </p>
+      )}
+    </div>
+  );
+}
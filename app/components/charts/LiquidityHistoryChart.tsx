@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { IChartApi, UTCTimestamp } from 'lightweight-charts';
+import type { HistoryApiResponse } from '@/app/api/uniswap/history/route';
+import type { HistoryInterval, HistoryPoint } from '@/lib/uniswap/history';
+import { formatTVL } from '@/lib/utils/formatters';
+import { useCurrency } from '@/lib/hooks/useCurrency';
+
+interface LiquidityHistoryChartProps {
+  chainId: number;
+  tokenAddress: string;
+  height?: number;
+}
+
+type HistoryRange = '7D' | '30D' | '90D' | '1Y';
+
+const RANGE_SECONDS: Record<HistoryRange, number> = {
+  '7D': 7 * 24 * 60 * 60,
+  '30D': 30 * 24 * 60 * 60,
+  '90D': 90 * 24 * 60 * 60,
+  '1Y': 365 * 24 * 60 * 60,
+};
+
+// Hourly data is only requested for short ranges to keep the series within one query
+const RANGE_INTERVAL: Record<HistoryRange, HistoryInterval> = {
+  '7D': 'hour',
+  '30D': 'day',
+  '90D': 'day',
+  '1Y': 'day',
+};
+
+/**
+ * Liquidity History Chart Component
+ * Plots token TVL (area) and volume (histogram) from the Uniswap subgraph
+ */
+export default function LiquidityHistoryChart({
+  chainId,
+  tokenAddress,
+  height = 300,
+}: LiquidityHistoryChartProps) {
+  const { display } = useCurrency();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState<HistoryRange>('30D');
+  const [points, setPoints] = useState<HistoryPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the series whenever the token or range changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const to = Math.floor(Date.now() / 1000);
+        const params = new URLSearchParams({
+          chainId: chainId.toString(),
+          token: tokenAddress,
+          interval: RANGE_INTERVAL[range],
+          from: (to - RANGE_SECONDS[range]).toString(),
+          to: to.toString(),
+        });
+        const response = await fetch(`/api/uniswap/history?${params.toString()}`);
+        const data: HistoryApiResponse = await response.json();
+
+        if (cancelled) return;
+
+        if (!response.ok || data.error) {
+          setError(data.error || `HTTP error! status: ${response.status}`);
+          setPoints([]);
+        } else {
+          setPoints(data.points);
+        }
+      } catch (fetchError) {
+        if (cancelled) return;
+        console.error('Error fetching liquidity history:', fetchError);
+        setError('Failed to load liquidity history');
+        setPoints([]);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, tokenAddress, range]);
+
+  // Render the chart once we have points
+  useEffect(() => {
+    if (!containerRef.current || points.length === 0) return;
+
+    let chart: IChartApi | null = null;
+    let disposed = false;
+
+    // Loaded dynamically to keep lightweight-charts out of the server bundle
+    import('lightweight-charts').then(({ createChart, AreaSeries, HistogramSeries, ColorType }) => {
+      if (disposed || !containerRef.current) return;
+
+      chart = createChart(containerRef.current, {
+        autoSize: true,
+        layout: {
+          background: { type: ColorType.Solid, color: 'transparent' },
+          textColor: '#9CA3AF',
+        },
+        grid: {
+          vertLines: { color: 'rgba(75, 85, 99, 0.2)' },
+          horzLines: { color: 'rgba(75, 85, 99, 0.2)' },
+        },
+        rightPriceScale: { borderVisible: false },
+        timeScale: { borderVisible: false, timeVisible: RANGE_INTERVAL[range] === 'hour' },
+        localization: { priceFormatter: (value: number) => formatTVL(value, display) },
+      });
+
+      const tvlSeries = chart.addSeries(AreaSeries, {
+        lineColor: '#FACC15',
+        topColor: 'rgba(250, 204, 21, 0.35)',
+        bottomColor: 'rgba(250, 204, 21, 0.02)',
+        lineWidth: 2,
+      });
+      tvlSeries.setData(points.map((point) => ({
+        time: point.timestamp as UTCTimestamp,
+        value: point.tvlUSD,
+      })));
+
+      const volumeSeries = chart.addSeries(HistogramSeries, {
+        color: 'rgba(168, 85, 247, 0.5)',
+        priceScaleId: 'volume',
+      });
+      chart.priceScale('volume').applyOptions({
+        scaleMargins: { top: 0.8, bottom: 0 },
+      });
+      volumeSeries.setData(points.map((point) => ({
+        time: point.timestamp as UTCTimestamp,
+        value: point.volumeUSD,
+      })));
+
+      chart.timeScale().fitContent();
+    });
+
+    return () => {
+      disposed = true;
+      chart?.remove();
+    };
+  }, [points, range, display]);
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-white">Liquidity</h2>
+          <span className="flex items-center gap-1 text-[10px] text-gray-400">
+            <span className="inline-block w-2 h-2 rounded-full bg-yellow-400"></span> TVL
+          </span>
+          <span className="flex items-center gap-1 text-[10px] text-gray-400">
+            <span className="inline-block w-2 h-2 rounded-full bg-purple-500"></span> Volume
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {(Object.keys(RANGE_SECONDS) as HistoryRange[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                range === option
+                  ? 'bg-yellow-400/20 text-yellow-400'
+                  : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="relative w-full" style={{ height: `${height}px` }}>
+        {isLoading ? (
+          <div className="absolute inset-0 bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : error || points.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm">
+            {error || 'No liquidity history available'}
+          </div>
+        ) : (
+          <div ref={containerRef} className="absolute inset-0" />
+        )}
+      </div>
+    </div>
+  );
+}
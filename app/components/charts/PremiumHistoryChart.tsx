@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { IChartApi, UTCTimestamp } from 'lightweight-charts';
+import type { PremiumApiResponse } from '@/app/api/token/[address]/premium/route';
+import type { PremiumSample, TokenPremium } from '@/lib/prices/premium';
+import { formatPrice } from '@/lib/utils/formatters';
+import { useCurrency } from '@/lib/hooks/useCurrency';
+
+interface PremiumHistoryChartProps {
+  chainId: number;
+  tokenAddress: string;
+  height?: number;
+  onPremium?: (premium: TokenPremium | null) => void; // Called with the current premium after each fetch
+}
+
+type PremiumRange = '1D' | '7D' | '30D';
+
+const RANGE_DAYS: Record<PremiumRange, number> = {
+  '1D': 1,
+  '7D': 7,
+  '30D': 30,
+};
+
+const METHOD_LABELS: Record<TokenPremium['method'], string> = {
+  twap: 'pool TWAP',
+  mid: 'pool mid-price',
+};
+
+/**
+ * Premium History Chart Component
+ * Plots a tokenized stock's premium (above zero) or discount (below zero) to its underlying
+ */
+export default function PremiumHistoryChart({
+  chainId,
+  tokenAddress,
+  height = 160,
+  onPremium,
+}: PremiumHistoryChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onPremiumRef = useRef(onPremium);
+  const { display } = useCurrency();
+  const [range, setRange] = useState<PremiumRange>('7D');
+  const [premium, setPremium] = useState<TokenPremium | null>(null);
+  const [samples, setSamples] = useState<PremiumSample[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  onPremiumRef.current = onPremium;
+
+  // Fetch the series whenever the token or range changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPremium = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({
+          chainId: chainId.toString(),
+          days: RANGE_DAYS[range].toString(),
+        });
+        const response = await fetch(`/api/token/${tokenAddress}/premium?${params.toString()}`);
+        const data: PremiumApiResponse = await response.json();
+
+        if (cancelled) return;
+
+        // A 404 still carries the stored series
+        setSamples(data.history || []);
+        setPremium(data.premium);
+        onPremiumRef.current?.(data.premium);
+        if (!response.ok && !data.history?.length) {
+          setError(data.error || `HTTP error! status: ${response.status}`);
+        }
+      } catch (fetchError) {
+        if (cancelled) return;
+        console.error('Error fetching premium history:', fetchError);
+        setError('Failed to load premium history');
+        setSamples([]);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchPremium();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, tokenAddress, range]);
+
+  // Render the chart once we have samples
+  useEffect(() => {
+    if (!containerRef.current || samples.length === 0) return;
+
+    let chart: IChartApi | null = null;
+    let disposed = false;
+
+    // Loaded dynamically to keep lightweight-charts out of the server bundle
+    import('lightweight-charts').then(({ createChart, BaselineSeries, ColorType }) => {
+      if (disposed || !containerRef.current) return;
+
+      chart = createChart(containerRef.current, {
+        autoSize: true,
+        layout: {
+          background: { type: ColorType.Solid, color: 'transparent' },
+          textColor: '#9CA3AF',
+        },
+        grid: {
+          vertLines: { color: 'rgba(75, 85, 99, 0.2)' },
+          horzLines: { color: 'rgba(75, 85, 99, 0.2)' },
+        },
+        rightPriceScale: { borderVisible: false },
+        timeScale: { borderVisible: false, timeVisible: true },
+        localization: { priceFormatter: (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%` },
+      });
+
+      // Premiums above the zero baseline, discounts below
+      const premiumSeries = chart.addSeries(BaselineSeries, {
+        baseValue: { type: 'price', price: 0 },
+        topLineColor: '#34D399',
+        topFillColor1: 'rgba(52, 211, 153, 0.3)',
+        topFillColor2: 'rgba(52, 211, 153, 0.02)',
+        bottomLineColor: '#FB7185',
+        bottomFillColor1: 'rgba(251, 113, 133, 0.02)',
+        bottomFillColor2: 'rgba(251, 113, 133, 0.3)',
+        lineWidth: 2,
+      });
+      premiumSeries.setData(samples.map((sample) => ({
+        time: sample.timestamp as UTCTimestamp,
+        value: sample.premiumPercent,
+      })));
+
+      chart.timeScale().fitContent();
+    });
+
+    return () => {
+      disposed = true;
+      chart?.remove();
+    };
+  }, [samples]);
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-white">Premium vs Underlying</h2>
+          {premium && (
+            <span className="text-[10px] text-gray-400">
+              {premium.ticker} {formatPrice(premium.referencePriceUSD, display, 2)} · on-chain {formatPrice(premium.onChainPriceUSD, display, 2)} ({METHOD_LABELS[premium.method]})
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {(Object.keys(RANGE_DAYS) as PremiumRange[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                range === option
+                  ? 'bg-yellow-400/20 text-yellow-400'
+                  : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="relative w-full" style={{ height: `${height}px` }}>
+        {isLoading ? (
+          <div className="absolute inset-0 bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : error || samples.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm">
+            {error || 'No premium history yet'}
+          </div>
+        ) : (
+          <div ref={containerRef} className="absolute inset-0" />
+        )}
+      </div>
+    </div>
+  );
+}
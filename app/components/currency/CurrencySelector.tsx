@@ -0,0 +1,40 @@
+"use client";
+
+import { useCurrency } from '@/lib/hooks/useCurrency';
+import { DISPLAY_CURRENCIES, isDisplayCurrency } from '@/lib/utils/currency';
+
+interface CurrencySelectorProps {
+  className?: string;
+}
+
+/**
+ * Currency Selector Component
+ * Picks the currency prices and volumes are displayed in; the choice is remembered
+ */
+export default function CurrencySelector({ className = '' }: CurrencySelectorProps) {
+  const { currency, setCurrency, fx } = useCurrency();
+
+  const title = currency !== 'USD' && fx
+    ? `1 USD = ${fx.rates[currency].toFixed(4)} ${currency}${fx.source === 'fixture' ? ' (fallback rate)' : ` (ECB, ${fx.date})`}`
+    : 'Display currency';
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => {
+        if (isDisplayCurrency(e.target.value)) {
+          setCurrency(e.target.value);
+        }
+      }}
+      title={title}
+      aria-label="Display currency"
+      className={`px-2 py-1.5 bg-gray-900/80 text-white text-xs font-medium border border-gray-700 hover:border-yellow-400/60 rounded-lg focus:outline-none focus:border-yellow-400 transition-colors cursor-pointer ${className}`}
+    >
+      {DISPLAY_CURRENCIES.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import type { LiquidityPoolResult } from '@/app/components/search/types';
+import {
+  DEFAULT_PRICE_CHANGES,
+  getCapitalEfficiency,
+  getPoolPrice,
+  projectLpScenarios,
+  type PriceRange,
+} from '@/lib/uniswap/lpCalculator';
+import { formatAPR, formatFeeTier, formatNumber } from '@/lib/utils/formatters';
+
+interface LpScenarioCalculatorProps {
+  pool: LiquidityPoolResult;
+  baseTokenAddress: string; // The token whose price moves are projected
+}
+
+// Format a signed value in quote token units, e.g. "+1,234.56" or "-12.00"
+const formatSigned = (value: number): string => {
+  return `${value >= 0 ? '+' : '-'}${formatNumber(Math.abs(value), 2)}`;
+};
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-yellow-400';
+
+/**
+ * LP Scenario Calculator Component
+ * Projects impermanent loss, fees and net P&L for providing liquidity to a pool
+ */
+export default function LpScenarioCalculator({ pool, baseTokenAddress }: LpScenarioCalculatorProps) {
+  const base = pool.token0.address === baseTokenAddress.toLowerCase() ? pool.token0 : pool.token1;
+  const quote = base === pool.token0 ? pool.token1 : pool.token0;
+  const poolPrice = getPoolPrice(pool, base.address);
+  // v2 pairs only support full range
+  const supportsRange = pool.protocol !== 'v2';
+
+  const [deposit, setDeposit] = useState('10000');
+  const [priceInput, setPriceInput] = useState(poolPrice ? poolPrice.toPrecision(6) : '');
+  const [isFullRange, setIsFullRange] = useState(true);
+  const [lowerPercent, setLowerPercent] = useState('-20');
+  const [upperPercent, setUpperPercent] = useState('20');
+  const [days, setDays] = useState('30');
+  const [aprBasis, setAprBasis] = useState<'7d' | '30d'>('30d');
+
+  // Reset the price when switching pools
+  useEffect(() => {
+    setPriceInput(poolPrice ? poolPrice.toPrecision(6) : '');
+    if (!supportsRange) {
+      setIsFullRange(true);
+    }
+  }, [pool.poolId, poolPrice, supportsRange]);
+
+  const feeAPR = aprBasis === '7d' ? pool.feeAPR7d : pool.feeAPR30d;
+  const currentPrice = parseFloat(priceInput);
+
+  const range: PriceRange | null = useMemo(() => {
+    if (isFullRange || !(currentPrice > 0)) {
+      return null;
+    }
+    return {
+      lower: currentPrice * (1 + parseFloat(lowerPercent) / 100),
+      upper: currentPrice * (1 + parseFloat(upperPercent) / 100),
+    };
+  }, [isFullRange, currentPrice, lowerPercent, upperPercent]);
+
+  const projection = useMemo(() => {
+    try {
+      return {
+        scenarios: projectLpScenarios({
+          depositValue: parseFloat(deposit),
+          currentPrice,
+          range,
+          feeAPR,
+          days: parseFloat(days) || 0,
+          priceChanges: DEFAULT_PRICE_CHANGES,
+        }),
+        error: null,
+      };
+    } catch (projectionError) {
+      return {
+        scenarios: [],
+        error: projectionError instanceof Error ? projectionError.message : 'Invalid inputs',
+      };
+    }
+  }, [deposit, currentPrice, range, feeAPR, days]);
+
+  return (
+    <div className="w-full space-y-3 bg-gray-900/50 border border-gray-800 rounded-lg p-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="text-sm font-semibold text-white">
+          LP Scenarios · {pool.token0.symbol}/{pool.token1.symbol}{' '}
+          <span className="text-gray-400 font-normal">{formatFeeTier(pool.feeTierBps)} {pool.protocol}</span>
+        </h3>
+        <span className="text-[10px] text-gray-400">
+          Fee APR {formatAPR(feeAPR)} ({aprBasis})
+          {range && currentPrice > 0 && ` × ${formatNumber(getCapitalEfficiency(currentPrice, range), 2)} in range`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-[10px] text-gray-400">
+        <label className="space-y-1">
+          <span>Deposit ({quote.symbol})</span>
+          <input className={inputClassName} inputMode="decimal" value={deposit} onChange={(e) => setDeposit(e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span>{base.symbol} price ({quote.symbol})</span>
+          <input className={inputClassName} inputMode="decimal" value={priceInput} onChange={(e) => setPriceInput(e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span>Days held</span>
+          <input className={inputClassName} inputMode="numeric" value={days} onChange={(e) => setDays(e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span>Fee APR basis</span>
+          <select className={inputClassName} value={aprBasis} onChange={(e) => setAprBasis(e.target.value as '7d' | '30d')}>
+            <option value="7d">7 days</option>
+            <option value="30d">30 days</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>Range</span>
+          <select
+            className={inputClassName}
+            value={isFullRange ? 'full' : 'custom'}
+            onChange={(e) => setIsFullRange(e.target.value === 'full')}
+            disabled={!supportsRange}
+          >
+            <option value="full">Full range</option>
+            <option value="custom">Custom</option>
+          </select>
+        </label>
+      </div>
+
+      {!isFullRange && (
+        <div className="grid grid-cols-2 gap-2 text-[10px] text-gray-400">
+          <label className="space-y-1">
+            <span>Lower bound (% from price){range && ` · ${formatNumber(range.lower, 4)}`}</span>
+            <input className={inputClassName} inputMode="decimal" value={lowerPercent} onChange={(e) => setLowerPercent(e.target.value)} />
+          </label>
+          <label className="space-y-1">
+            <span>Upper bound (% from price){range && ` · ${formatNumber(range.upper, 4)}`}</span>
+            <input className={inputClassName} inputMode="decimal" value={upperPercent} onChange={(e) => setUpperPercent(e.target.value)} />
+          </label>
+        </div>
+      )}
+
+      {projection.error ? (
+        <div className="py-4 text-center text-gray-400 text-xs">{projection.error}</div>
+      ) : (
+        <div className="w-full overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-1.5 pr-3 font-medium">{base.symbol} move</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Price</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Position</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Impermanent loss</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Fees</th>
+                <th className="py-1.5 font-medium text-right">Net P&amp;L</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.scenarios.map((scenario) => (
+                <tr key={scenario.priceChangePercent} className="border-t border-gray-800 text-white">
+                  <td className="py-1.5 pr-3">
+                    {scenario.priceChangePercent > 0 ? '+' : ''}{scenario.priceChangePercent}%
+                    {!scenario.inRange && <span className="ml-1.5 text-[10px] text-yellow-400">out of range</span>}
+                  </td>
+                  <td className="py-1.5 pr-3 text-right">{formatNumber(scenario.price, 4)}</td>
+                  <td className="py-1.5 pr-3 text-right">{formatNumber(scenario.positionValue, 2)}</td>
+                  <td className="py-1.5 pr-3 text-right text-red-400">
+                    {formatSigned(scenario.impermanentLoss)} ({formatNumber(scenario.impermanentLossPercent, 2)}%)
+                  </td>
+                  <td className="py-1.5 pr-3 text-right text-green-400">{formatSigned(scenario.fees)}</td>
+                  <td className={`py-1.5 text-right font-medium ${scenario.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatSigned(scenario.netPnl)} ({formatNumber(scenario.netPnlPercent, 2)}%)
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[10px] text-gray-500">
+            Values in {quote.symbol}. Fees assume the historical APR continues and the price moves in a straight line.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { LiquidityPoolResult, LiquidityPoolsPageResponse } from '@/app/components/search/types';
+import type { PoolsCursor } from '@/lib/uniswap/protocols';
+import LpScenarioCalculator from '@/app/components/pools/LpScenarioCalculator';
+import LiquidityDepthChart from '@/app/components/charts/LiquidityDepthChart';
+import { formatAPR, formatFeeTier, formatTVL } from '@/lib/utils/formatters';
+import { useCurrency } from '@/lib/hooks/useCurrency';
+
+interface TokenPoolsTableProps {
+  chainId: number;
+  tokenAddress: string;
+}
+
+/**
+ * Upper bound on pool pages loaded for one token (up to 10 pools per protocol per page)
+ */
+const MAX_POOL_PAGES = 5;
+
+/**
+ * Token Pools Table Component
+ * Lists a token's Uniswap pools with TVL, 24h volume and fee APR; selecting a pool
+ * opens the LP scenario calculator for it. The depth chart follows the selected v3
+ * pool, or the deepest v3 pool when none is selected.
+ */
+export default function TokenPoolsTable({ chainId, tokenAddress }: TokenPoolsTableProps) {
+  const { display } = useCurrency();
+  const [pools, setPools] = useState<LiquidityPoolResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPoolId, setSelectedPoolId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPools = async () => {
+      setIsLoading(true);
+      setSelectedPoolId(null);
+      setError(null);
+      try {
+        // Walk the liquidity API's pool pages; without a cursor every protocol starts from its first pool
+        const loaded: LiquidityPoolResult[] = [];
+        let cursor: PoolsCursor | null | undefined;
+        for (let page = 0; page < MAX_POOL_PAGES && cursor !== null; page++) {
+          const response = await fetch('/api/uniswap/liquidity', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ chainId, tokenAddress, poolsCursor: cursor }),
+          });
+          const data: LiquidityPoolsPageResponse = await response.json();
+          if (!response.ok || data.error) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+          }
+          loaded.push(...data.pools);
+          cursor = data.poolsCursor;
+        }
+
+        if (!cancelled) {
+          setPools(loaded.sort((a, b) => b.tvlUSD - a.tvlUSD));
+        }
+      } catch (fetchError) {
+        console.error('Error fetching token pools:', fetchError);
+        if (!cancelled) {
+          setError('Failed to load pools');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchPools();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, tokenAddress]);
+
+  const selectedPool = pools.find((pool) => pool.poolId === selectedPoolId);
+  // Tick data comes from the v3 subgraph, so only v3 pools have a depth chart
+  const depthPool = selectedPool?.protocol === 'v3'
+    ? selectedPool
+    : pools.find((pool) => pool.protocol === 'v3');
+
+  return (
+    <div className="w-full space-y-3">
+      <h2 className="text-sm font-semibold text-white">Pools</h2>
+      {isLoading ? (
+        <div className="w-full h-24 bg-gray-800 rounded-lg animate-pulse"></div>
+      ) : error || pools.length === 0 ? (
+        <div className="w-full py-6 flex items-center justify-center text-gray-400 text-sm">
+          {error || 'No pools found'}
+        </div>
+      ) : (
+        <div className="w-full overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-2 pr-3 font-medium">Pool</th>
+                <th className="py-2 pr-3 font-medium text-right">TVL</th>
+                <th className="py-2 pr-3 font-medium text-right">24h Volume</th>
+                <th className="py-2 pr-3 font-medium text-right" title="Fee APR from the last 7 complete days">APR (7d)</th>
+                <th className="py-2 font-medium text-right" title="Fee APR from the last 30 complete days">APR (30d)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pools.map((pool) => (
+                <tr
+                  key={pool.poolId}
+                  onClick={() => setSelectedPoolId(
+                    selectedPoolId === pool.poolId ? null : pool.poolId
+                  )}
+                  className={`border-t border-gray-800 text-white cursor-pointer hover:bg-gray-800/50 ${
+                    selectedPoolId === pool.poolId ? 'bg-gray-800/50' : ''
+                  }`}
+                  title="Project impermanent loss and fees for this pool"
+                >
+                  <td className="py-2 pr-3">
+                    {pool.token0.symbol}/{pool.token1.symbol}
+                    <span className="ml-1.5 text-gray-400">{formatFeeTier(pool.feeTierBps)}</span>
+                    {pool.protocol !== 'v3' && <span className="ml-1 text-gray-500">{pool.protocol}</span>}
+                  </td>
+                  <td className="py-2 pr-3 text-right">{formatTVL(pool.tvlUSD, display)}</td>
+                  <td className="py-2 pr-3 text-right">{formatTVL(pool.volumeUSD, display)}</td>
+                  <td className="py-2 pr-3 text-right text-green-400">{formatAPR(pool.feeAPR7d)}</td>
+                  <td className="py-2 text-right text-green-400">{formatAPR(pool.feeAPR30d)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {selectedPool && (
+            <div className="mt-3">
+              <LpScenarioCalculator pool={selectedPool} baseTokenAddress={tokenAddress} />
+            </div>
+          )}
+          {depthPool?.poolAddress && (
+            <div className="mt-4">
+              <LiquidityDepthChart
+                chainId={chainId}
+                poolAddress={depthPool.poolAddress}
+                baseTokenAddress={tokenAddress}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import type { PositionsApiResponse } from '@/app/api/uniswap/positions/route';
+import type { PositionResult } from '@/lib/uniswap/positions';
+import { getChainName } from '@/lib/uniswap/subgraphs';
+import { formatCompactNumber, formatFeeTier, formatNumber, formatTVL } from '@/lib/utils/formatters';
+import { useCurrency } from '@/lib/hooks/useCurrency';
+
+// Format a token amount compactly, keeping precision for small amounts
+const formatAmount = (amount: number): string => {
+  return amount >= 1_000 ? formatCompactNumber(amount) : formatNumber(amount, 4);
+};
+
+function RangeBadge({ position }: { position: PositionResult }) {
+  const inRange = position.rangeStatus === 'in-range';
+  const title = `Ticks ${position.tickLower} to ${position.tickUpper}, current ${position.currentTick ?? 'n/a'}`;
+  return (
+    <span
+      title={title}
+      className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${
+        inRange ? 'bg-green-500/10 text-green-400' : 'bg-yellow-500/10 text-yellow-400'
+      }`}
+    >
+      {inRange ? 'In range' : 'Out of range'}
+    </span>
+  );
+}
+
+/**
+ * Wallet Positions Component
+ * Lists the connected wallet's Uniswap v3 LP positions on every supported chain
+ */
+export default function WalletPositions() {
+  const { address, isConnected } = useAccount();
+  const { display } = useCurrency();
+  const [data, setData] = useState<PositionsApiResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isConnected || !address) {
+      setData(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchPositions = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/uniswap/positions?owner=${address}`);
+        const result: PositionsApiResponse = await response.json();
+        if (!response.ok || result.error) {
+          throw new Error(result.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) {
+          setData(result);
+        }
+      } catch (fetchError) {
+        console.error('Error fetching wallet positions:', fetchError);
+        if (!cancelled) {
+          setError('Failed to load liquidity positions');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchPositions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, isConnected]);
+
+  if (!isConnected) {
+    return null;
+  }
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex items-baseline justify-between gap-4">
+        <h2 className="text-lg font-semibold text-white">Your Liquidity Positions</h2>
+        {data && data.chains.length > 0 && (
+          <div className="text-xs text-gray-400">
+            {formatTVL(data.valueUSD, display)} · {formatTVL(data.uncollectedFeesUSD, display)} unclaimed fees
+          </div>
+        )}
+      </div>
+
+      {isLoading && !data ? (
+        <div className="w-full h-32 bg-gray-800 rounded-lg animate-pulse"></div>
+      ) : error ? (
+        <div className="w-full py-8 flex items-center justify-center text-gray-400 text-sm">{error}</div>
+      ) : !data || data.chains.length === 0 ? (
+        <div className="w-full py-8 flex items-center justify-center text-gray-400 text-sm">
+          No open Uniswap v3 positions
+        </div>
+      ) : (
+        data.chains.map((chain) => (
+          <div key={chain.chainId} className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span className="font-medium text-gray-300">{getChainName(chain.chainId)}</span>
+              <span>{formatTVL(chain.valueUSD, display)}</span>
+            </div>
+            {chain.positions.map((position) => (
+              <div
+                key={position.id}
+                className="bg-gray-900 border border-gray-800 rounded-lg p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-white">
+                    {position.token0.symbol}/{position.token1.symbol}
+                  </span>
+                  <span className="text-[10px] text-gray-400">{formatFeeTier(position.feeTierBps)}</span>
+                  <RangeBadge position={position} />
+                </div>
+                <div className="flex items-center gap-4 text-xs">
+                  <div className="text-gray-300">
+                    {formatAmount(position.token0.amount)} {position.token0.symbol} + {formatAmount(position.token1.amount)} {position.token1.symbol}
+                  </div>
+                  <div className="text-right">
+                    <div className="text-white font-medium">{formatTVL(position.valueUSD, display)}</div>
+                    <div className="text-green-400" title="Estimated from subgraph fee growth">
+                      +{formatTVL(position.uncollectedFeesUSD, display)} fees
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+
+      {data?.failedChainIds && (
+        <div className="text-[10px] text-gray-500">
+          Could not load positions on {data.failedChainIds.map(getChainName).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+interface PremiumBadgeProps {
+  premiumPercent: number;
+  ticker?: string; // Underlying ticker, for the tooltip
+  size?: 'sm' | 'md'; // sm for search result rows, md for the token page header
+}
+
+const SIZE_CLASSES: Record<NonNullable<PremiumBadgeProps['size']>, string> = {
+  sm: 'px-1 py-0.25 text-[9px] font-normal rounded',
+  md: 'px-3 py-1 text-xs font-medium rounded-full',
+};
+
+/**
+ * Premiums within this band of zero are shown as trading at par
+ */
+const PAR_BAND_PERCENT = 0.1;
+
+/**
+ * Premium Badge Component
+ * Shows how far a tokenized stock trades above (premium) or below (discount) its underlying
+ */
+export default function PremiumBadge({ premiumPercent, ticker, size = 'sm' }: PremiumBadgeProps) {
+  const underlying = ticker || 'the underlying';
+  const magnitude = Math.abs(premiumPercent).toFixed(2);
+
+  let label: string;
+  let title: string;
+  let colors: string;
+  if (Math.abs(premiumPercent) < PAR_BAND_PERCENT) {
+    label = 'At par';
+    title = `Trades within ${PAR_BAND_PERCENT}% of ${underlying}`;
+    colors = 'text-gray-300 bg-gray-400/10 border-gray-400/30';
+  } else if (premiumPercent > 0) {
+    label = `+${magnitude}% prem`;
+    title = `Trades ${magnitude}% above ${underlying}`;
+    colors = 'text-emerald-300 bg-emerald-400/10 border-emerald-400/30';
+  } else {
+    label = `-${magnitude}% disc`;
+    title = `Trades ${magnitude}% below ${underlying}`;
+    colors = 'text-rose-300 bg-rose-400/10 border-rose-400/30';
+  }
+
+  return (
+    <span
+      className={`border flex-shrink-0 ${SIZE_CLASSES[size]} ${colors}`}
+      title={title}
+    >
+      {label}
+    </span>
+  );
+}
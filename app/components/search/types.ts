@@ -2,14 +2,24 @@
  * Type definitions for Uniswap liquidity search results
  */
 
+import type { SubgraphMeta } from '@/lib/uniswap/meta';
+import type { PoolsCursor } from '@/lib/uniswap/protocols';
+import type { SubgraphValidationReport } from '@/lib/uniswap/schemas';
+import type { UniswapProtocol } from '@/lib/uniswap/subgraphs';
+
 /**
  * Pool information for a liquidity token
  */
 export interface LiquidityPoolResult {
-  poolAddress: string;
-  feeTierBps: number; // Fee tier in basis points (e.g., 500 = 0.05%)
+  poolId: string; // Subgraph id, unique per chain: the pool address, or the 32-byte pool id for v4
+  poolAddress: string | null; // Contract address; null for v4 pools
+  protocol: UniswapProtocol; // Uniswap version the pool belongs to
+  feeTierBps: number | null; // Fee tier in basis points (e.g., 500 = 0.05%); null for v4 dynamic fees
+  sqrtPrice: string; // Q64.96 sqrt price of token0 in token1, '0' for v2 pairs
   tvlUSD: number;
   volumeUSD: number;
+  feeAPR7d: number | null; // Annualized fee yield in percent over the last 7 complete days
+  feeAPR30d: number | null; // Same over the last 30 complete days
   token0: {
     address: string;
     symbol: string;
@@ -32,9 +42,11 @@ export interface LiquidityTokenResult {
   symbol: string;
   name: string;
   decimals: number;
-  tvlUSD: number; // Token-level TVL
-  volumeUSD: number; // Token-level volume
+  tvlUSD: number; // Token-level TVL, summed across protocols
+  volumeUSD: number; // Token-level volume, summed across protocols
+  protocols?: UniswapProtocol[]; // Protocols the token has liquidity on
   pools: LiquidityPoolResult[];
+  poolsCursor?: PoolsCursor | null; // Per-protocol cursor for loading more pools, null when all pools are loaded
 }
 
 /**
@@ -55,6 +67,51 @@ export interface SolanaTokenData {
 export interface LiquidityApiResponse {
   chainId: number;
   tokens: LiquidityTokenResult[];
+  meta?: SubgraphMeta; // Oldest indexed block across the queries behind this response
+  debug?: SubgraphValidationReport; // Malformed subgraph rows dropped from this response, if any
+  error?: string;
+}
+
+/**
+ * A token's liquidity on one chain within a multi-chain search
+ */
+export interface MultiChainLiquidityTokenResult extends LiquidityTokenResult {
+  chainId: number;
+  meta?: SubgraphMeta; // Indexed block of this chain's subgraph
+}
+
+/**
+ * One asset grouped across chains (by symbol) in a multi-chain search
+ */
+export interface MultiChainLiquidityAsset {
+  symbol: string;
+  name: string; // Name of the highest-TVL deployment
+  tvlUSD: number; // Total across chains
+  volumeUSD: number; // Total 24h volume across chains
+  chains: MultiChainLiquidityTokenResult[]; // Per-chain deployments, sorted by TVL descending
+}
+
+/**
+ * API response format for multi-chain liquidity search
+ */
+export interface MultiChainLiquidityApiResponse {
+  chainIds: number[]; // Chains that were searched
+  assets: MultiChainLiquidityAsset[]; // Sorted by total TVL descending
+  failedChainIds?: number[]; // Chains whose search failed for some protocol; their results are missing or incomplete
+  debug?: SubgraphValidationReport; // Malformed subgraph rows dropped across all chains, if any
+  error?: string;
+}
+
+/**
+ * API response format for loading more pools for a single token
+ */
+export interface LiquidityPoolsPageResponse {
+  chainId: number;
+  tokenAddress: string;
+  pools: LiquidityPoolResult[];
+  poolsCursor: PoolsCursor | null; // Per-protocol cursor for the next page, null when exhausted
+  meta?: SubgraphMeta; // Indexed block the page was read at
+  debug?: SubgraphValidationReport; // Malformed subgraph rows dropped from this page, if any
   error?: string;
 }
 
@@ -0,0 +1,215 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SwapApiItem, SwapsApiResponse } from '@/app/api/uniswap/swaps/route';
+import { formatCompactNumber, formatNumber, formatPrice, truncateAddress } from '@/lib/utils/formatters';
+import { useCurrency } from '@/lib/hooks/useCurrency';
+
+interface RecentTradesTableProps {
+  chainId: number;
+  tokenAddress: string;
+  pageSize?: number;
+  pollIntervalMs?: number;
+}
+
+// Format how long ago a trade happened, e.g. "45s", "12m", "3h" or "2d"
+const formatAge = (timestamp: number): string => {
+  const seconds = Math.max(0, Math.floor(Date.now() / 1000 - timestamp));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+// Format a token amount compactly, keeping precision for small amounts
+const formatAmount = (amount: number): string => {
+  return amount >= 1_000 ? formatCompactNumber(amount) : formatNumber(amount, 4);
+};
+
+const fetchSwapsPage = async (
+  chainId: number,
+  tokenAddress: string,
+  pageSize: number,
+  cursor?: string
+): Promise<SwapsApiResponse> => {
+  const params = new URLSearchParams({
+    chainId: chainId.toString(),
+    token: tokenAddress,
+    limit: pageSize.toString(),
+  });
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  const response = await fetch(`/api/uniswap/swaps?${params.toString()}`);
+  const data: SwapsApiResponse = await response.json();
+  if (!response.ok || data.error) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+/**
+ * Recent Trades Table Component
+ * Lists the latest Uniswap swaps for a token, polling for new trades
+ */
+export default function RecentTradesTable({
+  chainId,
+  tokenAddress,
+  pageSize = 25,
+  pollIntervalMs = 15_000,
+}: RecentTradesTableProps) {
+  const { display } = useCurrency();
+  const [swaps, setSwaps] = useState<SwapApiItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the first page, then poll it and prepend any trades we haven't seen
+  useEffect(() => {
+    let cancelled = false;
+    let isFirstLoad = true;
+
+    setSwaps([]);
+    setNextCursor(null);
+    setIsLoading(true);
+    setError(null);
+
+    const poll = async () => {
+      try {
+        const page = await fetchSwapsPage(chainId, tokenAddress, pageSize);
+        if (cancelled) return;
+
+        if (isFirstLoad) {
+          setSwaps(page.swaps);
+          setNextCursor(page.nextCursor);
+        } else {
+          setSwaps((current) => {
+            const seen = new Set(current.map((swap) => swap.id));
+            const fresh = page.swaps.filter((swap) => !seen.has(swap.id));
+            return fresh.length > 0 ? [...fresh, ...current] : current;
+          });
+        }
+        setError(null);
+      } catch (fetchError) {
+        if (cancelled) return;
+        console.error('Error fetching recent trades:', fetchError);
+        // Keep showing what we have if a poll fails
+        if (isFirstLoad) {
+          setError('Failed to load recent trades');
+        }
+      } finally {
+        if (!cancelled && isFirstLoad) {
+          isFirstLoad = false;
+          setIsLoading(false);
+        }
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, pollIntervalMs);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [chainId, tokenAddress, pageSize, pollIntervalMs]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchSwapsPage(chainId, tokenAddress, pageSize, nextCursor);
+      setSwaps((current) => {
+        const seen = new Set(current.map((swap) => swap.id));
+        return [...current, ...page.swaps.filter((swap) => !seen.has(swap.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (fetchError) {
+      console.error('Error loading older trades:', fetchError);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [chainId, tokenAddress, pageSize, nextCursor, isLoadingMore]);
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center gap-2">
+        <h2 className="text-sm font-semibold text-white">Recent Trades</h2>
+        <span className="flex items-center gap-1 text-[10px] text-gray-400">
+          <span className="inline-block w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse"></span> Live
+        </span>
+      </div>
+      {isLoading ? (
+        <div className="w-full h-40 bg-gray-800 rounded-lg animate-pulse"></div>
+      ) : error || swaps.length === 0 ? (
+        <div className="w-full py-8 flex items-center justify-center text-gray-400 text-sm">
+          {error || 'No recent trades'}
+        </div>
+      ) : (
+        <div className="w-full overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-2 pr-3 font-medium">Time</th>
+                <th className="py-2 pr-3 font-medium">Side</th>
+                <th className="py-2 pr-3 font-medium text-right">Amount</th>
+                <th className="py-2 pr-3 font-medium text-right">For</th>
+                <th className="py-2 pr-3 font-medium text-right">Value</th>
+                <th className="py-2 pr-3 font-medium">Trader</th>
+                <th className="py-2 font-medium">Tx</th>
+              </tr>
+            </thead>
+            <tbody>
+              {swaps.map((swap) => (
+                <tr key={swap.id} className="border-t border-gray-800 text-white">
+                  <td className="py-2 pr-3 text-gray-400" title={new Date(swap.timestamp * 1000).toLocaleString()}>
+                    {formatAge(swap.timestamp)}
+                  </td>
+                  <td className={`py-2 pr-3 font-semibold ${swap.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                    {swap.side === 'buy' ? 'Buy' : 'Sell'}
+                  </td>
+                  <td className="py-2 pr-3 text-right">
+                    {formatAmount(swap.baseAmount)} {swap.baseToken.symbol}
+                  </td>
+                  <td className="py-2 pr-3 text-right text-gray-300">
+                    {formatAmount(swap.quoteAmount)} {swap.quoteToken.symbol}
+                  </td>
+                  <td className="py-2 pr-3 text-right">
+                    {formatPrice(swap.amountUSD, display, 2)}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-400 font-mono">
+                    {truncateAddress(swap.trader)}
+                  </td>
+                  <td className="py-2">
+                    {swap.explorerUrl ? (
+                      <a
+                        href={swap.explorerUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-yellow-400 hover:text-yellow-300 font-mono"
+                      >
+                        {truncateAddress(swap.txHash, 6, 4)}
+                      </a>
+                    ) : (
+                      <span className="text-gray-400 font-mono">{truncateAddress(swap.txHash, 6, 4)}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {nextCursor && (
+            <button
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              className="mt-2 w-full py-1.5 text-xs font-medium text-yellow-400 hover:text-yellow-300 disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load older trades'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
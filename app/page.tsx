@@ -6,6 +6,8 @@ import { useChainId } from "wagmi";
 import { useEffect, useState } from "react";
 import { trackWalletConnectClick } from "@/lib/utils/analytics";
 import TokenSearch from "./components/TokenSearch";
+import WalletPositions from "./components/positions/WalletPositions";
+import CurrencySelector from "./components/currency/CurrencySelector";
 import { useAccount } from "wagmi";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 
@@ -127,8 +129,9 @@ export default function Home() {
               </nav>
             </div>
             
-            {/* Right side: Connect Wallet Button */}
+            {/* Right side: Currency and Connect Wallet Button */}
             <div className="flex items-center gap-4 flex-shrink-0">
+              <CurrencySelector />
               {/* Connect Wallet Button */}
               <WalletButton />
             </div>
@@ -173,7 +176,8 @@ export default function Home() {
                 className="object-contain w-12 h-12 flex-shrink-0"
                 priority
               />
-              <div className="flex-shrink-0">
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <CurrencySelector />
                 <WalletButton />
               </div>
             </div>
@@ -199,6 +203,13 @@ export default function Home() {
       </div>
       {/* End Hero Section */}
 
+        {/* Wallet LP Positions - only shown when a wallet is connected */}
+        <section aria-label="Your liquidity positions" className="relative z-10 w-full bg-black">
+          <div className="container mx-auto px-4 max-w-3xl pt-8">
+            <WalletPositions />
+          </div>
+        </section>
+
         {/* Private Markets Section */}
         <section className="relative z-10 w-full bg-black pt-16 sm:pt-20 md:pt-24 pb-20 md:pb-0 overflow-hidden">
           <div className="container mx-auto px-4">
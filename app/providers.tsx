@@ -27,6 +27,7 @@ import {
 } from "@solana/wallet-adapter-wallets";
 import { clusterApiUrl } from "@solana/web3.js";
 import { useMemo } from "react";
+import { CurrencyProvider } from "@/lib/hooks/useCurrency";
 import "@solana/wallet-adapter-react-ui/styles.css";
 
 // Initialize QueryClient
@@ -137,7 +138,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
           }}
         >
           <SolanaWalletProvider>
-            {children}
+            <CurrencyProvider>
+              {children}
+            </CurrencyProvider>
           </SolanaWalletProvider>
           <Toaster
             position="bottom-right"
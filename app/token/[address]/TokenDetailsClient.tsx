@@ -4,11 +4,21 @@ import { useEffect, useState } from 'react';
 import Image from 'next/image';
 import { useRouter, useSearchParams } from 'next/navigation';
 import TradingViewChart from '@/app/components/charts/TradingViewChart';
-import { fetchTokenPriceBySymbol, fetchTokenPriceByAddress, type CoinGeckoPriceData } from '@/lib/api/coingecko';
-import { getTokenMetadata, isTokenizedStock, getStockTicker } from '@/lib/utils/token';
-import { formatTVL } from '@/lib/utils/formatters';
+import LiquidityHistoryChart from '@/app/components/charts/LiquidityHistoryChart';
+import PremiumHistoryChart from '@/app/components/charts/PremiumHistoryChart';
+import PremiumBadge from '@/app/components/premium/PremiumBadge';
+import CurrencySelector from '@/app/components/currency/CurrencySelector';
+import RecentTradesTable from '@/app/components/trades/RecentTradesTable';
+import TokenPoolsTable from '@/app/components/pools/TokenPoolsTable';
+import { getTokenMetadata, isTokenizedStock, getStockTicker, getOndoTicker, resolveStockTicker } from '@/lib/utils/token';
+import { formatPrice, formatTVL } from '@/lib/utils/formatters';
+import { useCurrency } from '@/lib/hooks/useCurrency';
+import type { TokenPremium } from '@/lib/prices/premium';
+import type { PriceQuote, PriceSource } from '@/lib/prices/types';
+import type { PriceQuoteApiResponse } from '@/app/api/token/[address]/price/route';
+import type { TokenLiquidityApiResponse } from '@/app/api/token/[address]/liquidity/route';
 import { chainConfig } from '@/config/chains';
-import { getPoolsForToken } from '@/lib/uniswap/pools';
+import { isChainSupported } from '@/lib/uniswap/subgraphs';
 import toast from 'react-hot-toast';
 
 interface TokenDetailsClientProps {
@@ -16,24 +26,22 @@ interface TokenDetailsClientProps {
   chainId?: number;
 }
 
-interface StockData {
-  ticker: string;
-  currentPrice: number;
-  priceChange: number;
-  priceChangePercent: number;
-  volume: number;
-  marketCap?: number;
-  high52w?: number;
-  low52w?: number;
-  open: number;
-  previousClose: number;
-}
+/**
+ * Display names for price sources
+ */
+const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  coingecko: 'CoinGecko',
+  yahoo: 'Yahoo Finance',
+  uniswap: 'Uniswap',
+  twap: 'Uniswap TWAP',
+};
 
 export default function TokenDetailsClient({ address, chainId }: TokenDetailsClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [coingeckoData, setCoingeckoData] = useState<CoinGeckoPriceData | null>(null);
-  const [stockData, setStockData] = useState<StockData | null>(null);
+  const { display } = useCurrency();
+  const [priceQuote, setPriceQuote] = useState<PriceQuote | null>(null);
+  const [premium, setPremium] = useState<TokenPremium | null>(null);
   const [tvlUSD, setTvlUSD] = useState<number | null>(null);
   const [volumeUSD, setVolumeUSD] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -115,52 +123,15 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
       setError(null);
 
       try {
-        // Fetch CoinGecko data for all tokens
-        let priceData: CoinGeckoPriceData | null = null;
-        
-        // Try by address first (works for any token with contract address)
-        if (address) {
-          priceData = await fetchTokenPriceByAddress(tokenChainId, address);
-        }
-        
-        // If not found by address, try by symbol if we have token info
-        if (!priceData && token?.symbol) {
-          priceData = await fetchTokenPriceBySymbol(token.symbol);
-        }
-        
-        // Try alternative chain IDs if mainnet doesn't work
-        if (!priceData && address) {
-          const alternativeChains = [1, 42161, 10, 8453, 137];
-          for (const altChainId of alternativeChains) {
-            if (altChainId !== tokenChainId) {
-              priceData = await fetchTokenPriceByAddress(altChainId, address);
-              if (priceData) break;
-            }
-          }
-        }
-
-        setCoingeckoData(priceData);
-
-        // Determine if this is a tokenized stock (from config or Ondo token from search)
-        const effectiveSymbol = searchResultSymbol || coingeckoData?.symbol || tokenSymbol;
-        const isOndoToken = effectiveSymbol.toUpperCase().endsWith('ON') && effectiveSymbol.length > 2;
-        const ondoTicker = isOndoToken ? effectiveSymbol.slice(0, -2).toUpperCase() : null;
-        const stockTicker = ticker || ondoTicker;
-
-        // Fetch stock data for tokenized stocks (from config or Ondo tokens)
-        if ((isStock && ticker) || (isOndoToken && ondoTicker)) {
-          try {
-            const stockResponse = await fetch(`/api/token/${address}/stock-data`);
-            if (stockResponse.ok) {
-              const stock = await stockResponse.json();
-              setStockData(stock);
-            } else {
-              console.warn('Failed to fetch stock data:', await stockResponse.text());
-            }
-          } catch (stockError) {
-            console.error('Error fetching stock data:', stockError);
-            // Don't set error state, just log - stock data is optional
-          }
+        // Fetch the price, market cap and 24h change from the first source that has them
+        try {
+          const params = new URLSearchParams({ chainId: tokenChainId.toString() });
+          const priceResponse = await fetch(`/api/token/${address}/price?${params.toString()}`);
+          const priceResult: PriceQuoteApiResponse = await priceResponse.json();
+          setPriceQuote(priceResult.quote);
+        } catch (priceError) {
+          console.error('Error fetching price quote:', priceError);
+          // Don't set error state, just log - the header shows what it has
         }
 
         // Fetch TVL and volume data only if not already set from URL params
@@ -193,20 +164,15 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
                 }
               }
             } else {
-              // Uniswap/EVM chains - fetch pools and calculate TVL/volume
-              const poolsResult = await getPoolsForToken(tokenChainId, address, 100);
-              if (poolsResult.pools && poolsResult.pools.length > 0) {
-                // Calculate total TVL from all pools
-                const totalTVL = poolsResult.pools.reduce((sum, pool) => sum + (pool.tvlUSD || 0), 0);
-                // Calculate total 24hr volume from all pools
-                const totalVolume = poolsResult.pools.reduce((sum, pool) => sum + (pool.volumeUSD || 0), 0);
-                
-                if (needsTvl && totalTVL > 0) {
-                  setTvlUSD(totalTVL);
-                }
-                if (needsVolume && totalVolume > 0) {
-                  setVolumeUSD(totalVolume);
-                }
+              // Uniswap/EVM chains - TVL/volume summed over the token's pools on the server
+              const params = new URLSearchParams({ chainId: tokenChainId.toString() });
+              const liquidityResponse = await fetch(`/api/token/${address}/liquidity?${params.toString()}`);
+              const liquidity: TokenLiquidityApiResponse = await liquidityResponse.json();
+              if (needsTvl && liquidity.tvlUSD !== null && liquidity.tvlUSD > 0) {
+                setTvlUSD(liquidity.tvlUSD);
+              }
+              if (needsVolume && liquidity.volume24hUSD !== null && liquidity.volume24hUSD > 0) {
+                setVolumeUSD(liquidity.volume24hUSD);
               }
             }
           } catch (tvlVolumeError) {
@@ -264,23 +230,18 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
   }
 
   // Determine which price data to display
-  // Prioritize search result data, then stock data, then CoinGecko data
-  const displayPrice = stockData?.currentPrice || coingeckoData?.current_price || 0;
+  // Prioritize search result data for the change, so it matches the row the user clicked
+  const displayPrice = priceQuote?.priceUSD || 0;
   const priceChange = searchResultPriceChange24h !== null 
     ? searchResultPriceChange24h 
-    : (stockData?.priceChangePercent || coingeckoData?.price_change_percentage_24h || 0);
-  const volume = stockData?.volume || coingeckoData?.total_volume || 0;
-  const marketCap = stockData?.marketCap || coingeckoData?.market_cap || 0;
+    : (priceQuote?.change24hPercent || 0);
+  const marketCap = priceQuote?.marketCapUSD || 0;
 
   // Determine chart symbol
-  // Prioritize symbol from search results (more accurate for tokenized stocks), then CoinGecko, then token config
-  // This ensures we can detect tokenized stocks from public search even if not in config
-  const effectiveSymbol = searchResultSymbol || coingeckoData?.symbol || tokenSymbol;
-  
-  // Check if this is an Ondo tokenized stock (symbol ends with "on")
-  // This works for tokens from public search that aren't in config
-  const isOndoToken = effectiveSymbol.toUpperCase().endsWith('ON') && effectiveSymbol.length > 2;
-  const ondoTicker = isOndoToken ? effectiveSymbol.slice(0, -2).toUpperCase() : null;
+  // Check if this is an Ondo tokenized stock (e.g. "SPYon")
+  // tokenSymbol prefers the search result symbol, so this works for tokens from public search that aren't in config
+  const ondoTicker = getOndoTicker(tokenSymbol);
+  const isOndoToken = ondoTicker !== null;
   
   // Special mappings for Ondo tokens that need different TradingView symbols
   // Note: TradingView widget may need just the ticker without exchange prefix
@@ -290,14 +251,14 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
   
   // For Ondo tokenized stocks (symbol ends with "on"), use the extracted ticker
   // For regular tokenized stocks from config, use the ticker field
-  // Otherwise use CoinGecko symbol or token symbol
+  // Otherwise use the token symbol
   let chartSymbol: string;
   let chartType: 'stock' | 'crypto';
   
   if (isOndoToken && ondoTicker) {
     // Ondo tokenized stock - use the base ticker (e.g., "SPY" from "SPYon", "NVDA" from "NVDAon")
     // Check for special mappings first (full symbol), then fall back to extracted ticker
-    const upperSymbol = effectiveSymbol.toUpperCase();
+    const upperSymbol = tokenSymbol.toUpperCase();
     chartSymbol = ondoTickerMappings[upperSymbol] || ondoTicker;
     chartType = 'stock';
   } else if (isStock && ticker) {
@@ -306,7 +267,7 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
     chartType = 'stock';
   } else {
     // Regular crypto token
-    chartSymbol = effectiveSymbol;
+    chartSymbol = tokenSymbol;
     chartType = 'crypto';
   }
 
@@ -321,6 +282,12 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
 
   const explorerUrl = getExplorerUrl(tokenChainId, address);
 
+  // Liquidity history comes from the Uniswap subgraph, so only EVM chains with a subgraph have it
+  const showLiquidityHistory = isChainSupported(tokenChainId);
+  // The on-chain side of the premium comes from the token's Uniswap stablecoin pool; the server
+  // only tracks premiums for configured stocks and listed Ondo tokens
+  const showPremium = resolveStockTicker(tokenChainId, address) !== null && showLiquidityHistory;
+
   return (
     <div className="w-full max-w-7xl mx-auto px-4 py-6 space-y-6 animate-fade-in overflow-hidden h-full">
       {/* Token Header */}
@@ -347,10 +314,10 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
               />
             </svg>
           </button>
-          {(token?.logoURI || coingeckoData?.image) && (
+          {token?.logoURI && (
             <div className="relative w-16 h-16 rounded-full overflow-hidden bg-gray-800">
               <Image
-                src={token?.logoURI || coingeckoData?.image || ''}
+                src={token.logoURI}
                 alt={tokenName}
                 fill
                 className="object-contain"
@@ -362,17 +329,22 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
           )}
           <div>
             <h1 className="text-3xl font-bold text-white">
-              {coingeckoData?.name || tokenName}
+              {tokenName}
             </h1>
             <div className="flex flex-wrap items-center gap-4 md:gap-6">
               <p className="text-gray-400">
-                {coingeckoData?.symbol?.toUpperCase() || tokenSymbol.toUpperCase()}
+                {tokenSymbol.toUpperCase()}
               </p>
               <div>
                 <span className="text-gray-400 text-xs mr-2">Price:</span>
                 <span className="text-sm font-semibold text-white">
-                  ${displayPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })}
+                  {formatPrice(displayPrice, display)}
                 </span>
+                {priceQuote && (
+                  <span className="text-gray-500 text-[10px] ml-2">
+                    via {PRICE_SOURCE_LABELS[priceQuote.source]}
+                  </span>
+                )}
               </div>
               <div>
                 <span className="text-gray-400 text-xs mr-2">24h Change:</span>
@@ -384,7 +356,7 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
                 <div>
                   <span className="text-gray-400 text-xs mr-2">Market Cap:</span>
                   <span className="text-sm font-semibold text-white">
-                    {formatTVL(marketCap)}
+                    {formatTVL(marketCap, display)}
                   </span>
                 </div>
               )}
@@ -392,7 +364,7 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
                 <div>
                   <span className="text-gray-400 text-xs mr-2">24h Vol:</span>
                   <span className="text-sm font-semibold text-white">
-                    {formatTVL(volumeUSD)}
+                    {formatTVL(volumeUSD, display)}
                   </span>
                 </div>
               )}
@@ -400,7 +372,7 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
                 <div>
                   <span className="text-gray-400 text-xs mr-2">TVL:</span>
                   <span className="text-sm font-semibold text-white">
-                    {formatTVL(tvlUSD)}
+                    {formatTVL(tvlUSD, display)}
                   </span>
                 </div>
               )}
@@ -408,6 +380,7 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
           </div>
         </div>
         <div className="flex items-center gap-3 ml-auto">
+          <CurrencySelector />
           {explorerUrl && (
             <a
               href={explorerUrl}
@@ -423,6 +396,13 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
               Tokenized Stock
             </span>
           )}
+          {premium && (
+            <PremiumBadge
+              premiumPercent={premium.premiumPercent}
+              ticker={premium.ticker}
+              size="md"
+            />
+          )}
         </div>
       </div>
 
@@ -431,12 +411,55 @@ export default function TokenDetailsClient({ address, chainId }: TokenDetailsCli
         <TradingViewChart
           symbol={chartSymbol}
           type={chartType}
-          height={600}
+          height={showLiquidityHistory ? 400 : 600}
           theme="dark"
           interval="D"
         />
       </div>
 
+      {/* Premium vs the underlying stock */}
+      {showPremium && (
+        <div className="w-full">
+          <PremiumHistoryChart
+            chainId={tokenChainId}
+            tokenAddress={address}
+            height={120}
+            onPremium={setPremium}
+          />
+        </div>
+      )}
+
+      {/* Liquidity History Chart */}
+      {showLiquidityHistory && (
+        <div className="w-full">
+          <LiquidityHistoryChart
+            chainId={tokenChainId}
+            tokenAddress={address}
+            height={160}
+          />
+        </div>
+      )}
+
+      {/* Pools with fee APR */}
+      {showLiquidityHistory && (
+        <div className="w-full">
+          <TokenPoolsTable
+            chainId={tokenChainId}
+            tokenAddress={address}
+          />
+        </div>
+      )}
+
+      {/* Recent Trades */}
+      {showLiquidityHistory && (
+        <div className="w-full">
+          <RecentTradesTable
+            chainId={tokenChainId}
+            tokenAddress={address}
+          />
+        </div>
+      )}
+
     </div>
   );
 }
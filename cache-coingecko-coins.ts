@@ -0,0 +1,67 @@
+/**
+ * Download CoinGecko's coins list and save it as the bundled ID resolution snapshot
+ *
+ * Only coins deployed on a supported chain (plus the symbol overrides) are kept, with
+ * their other platforms dropped, so the snapshot stays small enough to ship.
+ *
+ * Usage:
+ *   npx tsx cache-coingecko-coins.ts
+ */
+
+import { writeFileSync } from 'fs';
+import {
+  COINGECKO_ID_OVERRIDES,
+  COINGECKO_PLATFORMS,
+  fetchCoinGeckoCoinsList,
+  type CoinGeckoCoin,
+  type CoinGeckoCoinsSnapshot,
+} from './lib/api/coingeckoIds';
+
+const SNAPSHOT_FILE = 'lib/api/coingeckoCoinsSnapshot.json';
+
+/**
+ * Keep a coin's supported platforms, or null if it has none and isn't an override
+ */
+function toSnapshotCoin(coin: CoinGeckoCoin, supportedPlatforms: Set<string>, overrideIds: Set<string>): CoinGeckoCoin | null {
+  const platforms: Record<string, string> = {};
+  for (const [platform, address] of Object.entries(coin.platforms || {})) {
+    if (address && supportedPlatforms.has(platform)) {
+      platforms[platform] = address;
+    }
+  }
+
+  if (Object.keys(platforms).length === 0 && !overrideIds.has(coin.id)) {
+    return null;
+  }
+  return { id: coin.id, symbol: coin.symbol, name: coin.name, platforms };
+}
+
+async function main() {
+  console.log('Downloading CoinGecko coins list...');
+  const coins = await fetchCoinGeckoCoinsList();
+
+  const supportedPlatforms = new Set(Object.values(COINGECKO_PLATFORMS));
+  const overrideIds = new Set(Object.values(COINGECKO_ID_OVERRIDES));
+  const snapshotCoins = coins
+    .map((coin) => toSnapshotCoin(coin, supportedPlatforms, overrideIds))
+    .filter((coin): coin is CoinGeckoCoin => coin !== null)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  const snapshot: CoinGeckoCoinsSnapshot = {
+    lastUpdated: new Date().toISOString(),
+    coins: snapshotCoins,
+  };
+  writeFileSync(SNAPSHOT_FILE, JSON.stringify(snapshot, null, 2) + '\n', 'utf-8');
+
+  console.log(`Kept ${snapshotCoins.length} of ${coins.length} coins`);
+  console.log(`Snapshot saved to: ${SNAPSHOT_FILE}`);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Failed to update the CoinGecko coins snapshot:');
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { readSubgraphEnv, subgraphEnvSchema } from "./subgraphEnv";
 
 const envSchema = z.object({
   NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID: z.string().min(1, "WalletConnect Project ID is required"),
@@ -10,7 +11,7 @@ const envSchema = z.object({
   NEXT_PUBLIC_SEPOLIA_RPC_URL: z.string().url().optional(),
   NEXT_PUBLIC_ARBITRUM_SEPOLIA_RPC_URL: z.string().url().optional(),
   THE_GRAPH_API_KEY: z.string().min(1, "THE_GRAPH_API_KEY is required for Uniswap subgraph queries. Get your API key from: https://thegraph.com/studio/apikeys/").optional(),
-});
+}).merge(subgraphEnvSchema);
 
 export function validateEnv() {
   try {
@@ -24,6 +25,7 @@ export function validateEnv() {
       NEXT_PUBLIC_SEPOLIA_RPC_URL: process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL,
       NEXT_PUBLIC_ARBITRUM_SEPOLIA_RPC_URL: process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_RPC_URL,
       THE_GRAPH_API_KEY: process.env.THE_GRAPH_API_KEY,
+      ...readSubgraphEnv(),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { UNISWAP_V3_SUBGRAPH_IDS } from "@/lib/uniswap/subgraphIds";
+
+/**
+ * Optional Uniswap subgraph endpoint overrides, e.g. a self-hosted graph-node
+ * or the local mock server (see mock-subgraph-server.ts).
+ *
+ * UNISWAP_<V2|V3|V4>_SUBGRAPH_URL applies to every chain for that protocol;
+ * UNISWAP_<V2|V3|V4>_SUBGRAPH_URL_<chainId> takes precedence for a single chain.
+ * Overridden chains don't need THE_GRAPH_API_KEY.
+ * SUBGRAPH_STALE_THRESHOLD_SECONDS controls when indexed data is flagged as delayed.
+ *
+ * Kept apart from config/env.ts so subgraph code can resolve endpoints without
+ * triggering full env validation on import; env.ts merges this schema into its own.
+ */
+// Chains with a Uniswap v3 subgraph; v2 and v4 are only used on those chains too
+const SUBGRAPH_OVERRIDE_CHAIN_IDS = Object.entries(UNISWAP_V3_SUBGRAPH_IDS)
+  .filter(([, subgraphId]) => subgraphId)
+  .map(([chainId]) => chainId);
+
+// Uniswap protocol versions with subgraphs
+const SUBGRAPH_PROTOCOLS = ['v2', 'v3', 'v4'] as const;
+
+export type SubgraphProtocol = typeof SUBGRAPH_PROTOCOLS[number];
+
+// Every override variable name: global and per-chain, for each protocol
+const SUBGRAPH_URL_VARIABLES = SUBGRAPH_PROTOCOLS.flatMap((protocol) => {
+  const prefix = `UNISWAP_${protocol.toUpperCase()}_SUBGRAPH_URL`;
+  return [prefix, ...SUBGRAPH_OVERRIDE_CHAIN_IDS.map((chainId) => `${prefix}_${chainId}`)];
+});
+
+const subgraphUrl = z.string().url("Subgraph endpoint overrides must be absolute URLs");
+
+export const subgraphEnvSchema = z.object({
+  // Indexed data older than this is flagged as stale (default: 900 = 15 minutes)
+  SUBGRAPH_STALE_THRESHOLD_SECONDS: z.coerce.number().int().positive("SUBGRAPH_STALE_THRESHOLD_SECONDS must be a positive number of seconds").optional(),
+  ...Object.fromEntries(SUBGRAPH_URL_VARIABLES.map((name) => [name, subgraphUrl.optional()])),
+});
+
+/**
+ * Read the subgraph variables from process.env
+ */
+export function readSubgraphEnv(): Record<string, string | undefined> {
+  return {
+    SUBGRAPH_STALE_THRESHOLD_SECONDS: process.env.SUBGRAPH_STALE_THRESHOLD_SECONDS,
+    ...Object.fromEntries(SUBGRAPH_URL_VARIABLES.map((name) => [name, process.env[name]])),
+  };
+}
+
+type SubgraphEnv = z.infer<typeof subgraphEnvSchema>;
+
+let parsedEnv: SubgraphEnv | null = null;
+
+/**
+ * Validate the subgraph variables on first use, throwing on bad values.
+ * The environment doesn't change while the server runs, so the result is kept.
+ */
+function parseSubgraphEnv(): SubgraphEnv {
+  if (!parsedEnv) {
+    const result = subgraphEnvSchema.safeParse(readSubgraphEnv());
+    if (!result.success) {
+      console.error("❌ Invalid subgraph environment variables:", result.error.errors);
+      throw new Error("Invalid subgraph environment variables");
+    }
+    parsedEnv = result.data;
+  }
+  return parsedEnv;
+}
+
+/**
+ * Get the validated subgraph endpoint override for a chain and protocol, if any.
+ *
+ * @param chainId - The chain ID to resolve
+ * @param protocol - The Uniswap protocol version (default: 'v3')
+ * @returns The per-chain override, else the global override, else undefined
+ * @throws Error if an override is set but is not a valid URL
+ */
+export function getSubgraphEndpointOverride(
+  chainId: number,
+  protocol: SubgraphProtocol = 'v3'
+): string | undefined {
+  const overrides = parseSubgraphEnv() as Record<string, string | number | undefined>;
+  const prefix = `UNISWAP_${protocol.toUpperCase()}_SUBGRAPH_URL`;
+  return (overrides[`${prefix}_${chainId}`] || overrides[prefix]) as string | undefined;
+}
+
+/**
+ * Get the age, in seconds, beyond which indexed subgraph data is considered stale.
+ *
+ * @returns SUBGRAPH_STALE_THRESHOLD_SECONDS, or 900 when unset
+ * @throws Error if the variable is set but is not a positive integer
+ */
+export function getSubgraphStaleThresholdSeconds(): number {
+  return parseSubgraphEnv().SUBGRAPH_STALE_THRESHOLD_SECONDS ?? 900;
+}
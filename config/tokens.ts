@@ -9,6 +9,7 @@ export interface Token {
   ticker?: string;
   requiresCompliance?: boolean;
   factsheetUrl?: string;
+  coingeckoId?: string; // Pins the CoinGecko coin instead of resolving it by address or symbol
 }
 
 export interface TokensByChain {
@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MockUniswapV3Pool
+ * @notice Uniswap v3 pool stand-in exposing the oracle interface for TWAP fixtures
+ * @dev The tick is set directly instead of moving through swaps. Every change is
+ *      recorded as an observation, so observe() returns the same accumulators a real
+ *      pool with that price history would.
+ */
+contract MockUniswapV3Pool {
+    struct Observation {
+        uint32 blockTimestamp;
+        int56 tickCumulative;
+        int24 tick; // Tick in effect from this observation on
+    }
+
+    address public immutable token0;
+    address public immutable token1;
+    uint24 public immutable fee;
+
+    Observation[] public observations;
+
+    constructor(
+        address _token0,
+        address _token1,
+        uint24 _fee,
+        int24 _tick
+    ) {
+        require(_token0 != address(0) && _token1 != address(0), "Invalid token address");
+        require(_token0 != _token1, "Tokens must be different");
+
+        token0 = _token0;
+        token1 = _token1;
+        fee = _fee;
+        observations.push(Observation(uint32(block.timestamp), 0, _tick));
+    }
+
+    /**
+     * @notice Move the pool to a new tick from the current block on
+     */
+    function setTick(int24 _tick) external {
+        observations.push(Observation(uint32(block.timestamp), _tickCumulativeAt(uint32(block.timestamp)), _tick));
+    }
+
+    /**
+     * @notice Tick accumulators as of each `secondsAgo` from the current block
+     * @dev Reverts with "OLD" for targets before the first observation, like the real pool
+     */
+    function observe(uint32[] calldata secondsAgos)
+        external
+        view
+        returns (int56[] memory tickCumulatives, uint160[] memory secondsPerLiquidityCumulativeX128s)
+    {
+        tickCumulatives = new int56[](secondsAgos.length);
+        secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
+
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            require(secondsAgos[i] <= block.timestamp - observations[0].blockTimestamp, "OLD");
+            tickCumulatives[i] = _tickCumulativeAt(uint32(block.timestamp) - secondsAgos[i]);
+        }
+    }
+
+    function _tickCumulativeAt(uint32 target) private view returns (int56) {
+        // Latest observation at or before the target; the tick is constant from there
+        uint256 index = observations.length - 1;
+        while (observations[index].blockTimestamp > target) {
+            index--;
+        }
+
+        Observation memory observation = observations[index];
+        return observation.tickCumulative + int56(observation.tick) * int56(uint56(target - observation.blockTimestamp));
+    }
+}
@@ -0,0 +1,69 @@
+import { ethers } from "hardhat";
+
+// Fixture token: a tokenized stock at $200 against a 6-decimal stablecoin
+const STOCK_PRICE_USD = 200;
+const STOCK_DECIMALS = 18;
+const STABLE_DECIMALS = 6;
+const FEE_TIER = 3000;
+
+// History the pool oracle covers before the script returns, so any window up to a day can be observed
+const HISTORY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Tick whose price of token0 in token1 matches a human price, in raw token units
+ */
+function priceToTick(price0: number, decimals0: number, decimals1: number): number {
+  const rawPrice = price0 * 10 ** (decimals1 - decimals0);
+  return Math.round(Math.log(rawPrice) / Math.log(1.0001));
+}
+
+async function main() {
+  console.log("🚀 Deploying TWAP fixture...\n");
+
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const stock = await MockERC20.deploy("Apple (Ondo Tokenized)", "AAPLon", STOCK_DECIMALS);
+  const stable = await MockERC20.deploy("USD Coin", "USDC", STABLE_DECIMALS);
+  await Promise.all([stock.waitForDeployment(), stable.waitForDeployment()]);
+
+  const stockAddress = (await stock.getAddress()).toLowerCase();
+  const stableAddress = (await stable.getAddress()).toLowerCase();
+
+  // Uniswap orders pool tokens by address
+  const stockIsToken0 = stockAddress < stableAddress;
+  const [token0, token1] = stockIsToken0 ? [stockAddress, stableAddress] : [stableAddress, stockAddress];
+  const tick = stockIsToken0
+    ? priceToTick(STOCK_PRICE_USD, STOCK_DECIMALS, STABLE_DECIMALS)
+    : priceToTick(1 / STOCK_PRICE_USD, STABLE_DECIMALS, STOCK_DECIMALS);
+
+  console.log("📦 Deploying MockUniswapV3Pool...");
+  const MockUniswapV3Pool = await ethers.getContractFactory("MockUniswapV3Pool");
+  const pool = await MockUniswapV3Pool.deploy(token0, token1, FEE_TIER, tick);
+  await pool.waitForDeployment();
+  const poolAddress = (await pool.getAddress()).toLowerCase();
+
+  // Build oracle history by moving the node's clock forward
+  await ethers.provider.send("evm_increaseTime", [HISTORY_SECONDS]);
+  await ethers.provider.send("evm_mine", []);
+
+  const network = await ethers.provider.getNetwork();
+  console.log("\n📋 Fixture Summary:");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log("Chain ID:", network.chainId.toString());
+  console.log("AAPLon:", stockAddress);
+  console.log("USDC:", stableAddress);
+  console.log("Pool:", poolAddress);
+  console.log("Tick:", tick, `(AAPLon ≈ $${STOCK_PRICE_USD})`);
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  console.log("\n📝 Point the app's TWAP reads at this node:");
+  console.log(`RPC_URL_${network.chainId}=http://127.0.0.1:8545`);
+
+  console.log("\n✨ Fixture ready!");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -8,7 +8,7 @@ import 'dotenv/config';
 
 import { queryUniswapV3Subgraph } from './lib/uniswap/client';
 import { isChainSupported } from './lib/uniswap/subgraphs';
-import { getPoolsForToken } from './lib/uniswap/pools';
+import { getAllPoolsForToken } from './lib/uniswap/pools';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -261,18 +261,19 @@ async function getTokenVolume(token: Token): Promise<TokenVolumeResult | null> {
     }
 
     // Calculate TVL by summing TVL from all pools containing this token
-    // This is the same approach used in the application
+    // This is the same approach used in the application, walking every pool page
     let totalTVLUSD = 0;
-    try {
-      const poolsResult = await getPoolsForToken(token.chainId, normalizedAddress, 100);
+    const poolsResult = await getAllPoolsForToken(token.chainId, normalizedAddress);
+    if (poolsResult.complete) {
       // Sum TVL from all pools
       totalTVLUSD = poolsResult.pools.reduce((sum, pool) => sum + pool.tvlUSD, 0);
-    } catch (poolError) {
-      // If pool query fails, try to use token entity TVL as fallback
-      if (tokenResponse.token) {
-        totalTVLUSD = parseFloat(tokenResponse.token.totalValueLockedUSD || '0');
-      }
-      console.warn(`Could not fetch pools for ${token.symbol}, using token entity TVL: ${totalTVLUSD}`);
+    } else if (tokenResponse.token) {
+      // Some pools are missing, so their sum would under-report; use the token entity TVL instead
+      totalTVLUSD = parseFloat(tokenResponse.token.totalValueLockedUSD || '0');
+      console.warn(`Could not fetch every pool for ${token.symbol} (${poolsResult.error || 'too many pools'}), using token entity TVL: ${totalTVLUSD}`);
+    } else {
+      totalTVLUSD = poolsResult.pools.reduce((sum, pool) => sum + pool.tvlUSD, 0);
+      console.warn(`Could not fetch every pool for ${token.symbol} (${poolsResult.error || 'too many pools'}), TVL is a lower bound: ${totalTVLUSD}`);
     }
 
     return {
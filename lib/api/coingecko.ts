@@ -2,6 +2,8 @@
  * CoinGecko API utilities for fetching token price data
  */
 
+import { COINGECKO_PLATFORMS, resolveCoinGeckoId } from './coingeckoIds';
+
 export interface CoinGeckoPriceData {
   id: string;
   symbol: string;
@@ -27,179 +29,251 @@ export interface CoinGeckoSimplePrice {
   };
 }
 
-// Map common token symbols to CoinGecko IDs
-const COINGECKO_ID_MAP: Record<string, string> = {
-  'USDC': 'usd-coin',
-  'USDT': 'tether',
-  'DAI': 'dai',
-  'WETH': 'weth',
-  'WBTC': 'wrapped-bitcoin',
-  'ETH': 'ethereum',
-  'BTC': 'bitcoin',
-  'bAAPL': 'apple-inc', // Tokenized stocks - using underlying stock
-  'bTSLA': 'tesla-motors',
-  'bGOOGL': 'google',
-  'bAMZN': 'amazon',
-  'bMSFT': 'microsoft',
-  'AAPL': 'apple-inc',
-  'TSLA': 'tesla-motors',
-  'GOOGL': 'google',
-  'AMZN': 'amazon',
-  'MSFT': 'microsoft',
-};
-
 /**
- * Get CoinGecko ID for a token symbol
+ * Price, market cap and volume series from the market_chart endpoint, as [unix ms, value] pairs
  */
-export function getCoinGeckoId(symbol: string): string | null {
-  const normalizedSymbol = symbol.toUpperCase();
-  return COINGECKO_ID_MAP[normalizedSymbol] || null;
+export interface CoinGeckoMarketChart {
+  prices: Array<[number, number]>;
+  market_caps: Array<[number, number]>;
+  total_volumes: Array<[number, number]>; // Rolling 24h volume at each point
 }
 
 /**
  * Fetch token price data from CoinGecko by symbol
+ * @param symbol - Token symbol
+ * @param chainId - Chain the token is on, to pick between coins sharing the symbol
+ * @returns The price data, or null if no coin matches the symbol
+ * @throws Error if the request fails
  */
 export async function fetchTokenPriceBySymbol(
-  symbol: string
+  symbol: string,
+  chainId?: number
+): Promise<CoinGeckoPriceData | null> {
+  const coinId = await resolveCoinGeckoId({ symbol, chainId });
+  if (!coinId) {
+    console.warn(`No CoinGecko ID found for symbol: ${symbol}`);
+    return null;
+  }
+  return fetchTokenPriceById(coinId);
+}
+
+/**
+ * Fetch token price data from CoinGecko by coin id
+ * @returns The price data, or null if the coin is unknown
+ * @throws Error if the request fails
+ */
+export async function fetchTokenPriceById(
+  coinId: string
 ): Promise<CoinGeckoPriceData | null> {
-  try {
-    const coinId = getCoinGeckoId(symbol);
-    if (!coinId) {
-      console.warn(`No CoinGecko ID found for symbol: ${symbol}`);
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/coins/${coinId}?localization=false&tickers=false&market_data=true&community_data=false&developer_data=false&sparkline=false`,
+    {
+      next: { revalidate: 60 }, // Cache for 60 seconds
+    }
+  );
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      console.warn(`Token not found on CoinGecko: ${coinId}`);
       return null;
     }
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  }
 
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/coins/${coinId}?localization=false&tickers=false&market_data=true&community_data=false&developer_data=false&sparkline=false`,
-      {
-        next: { revalidate: 60 }, // Cache for 60 seconds
-      }
-    );
+  const data = await response.json();
+  
+  return {
+    id: data.id,
+    symbol: data.symbol.toUpperCase(),
+    name: data.name,
+    current_price: data.market_data?.current_price?.usd || 0,
+    price_change_percentage_24h: data.market_data?.price_change_percentage_24h ?? undefined,
+    market_cap: data.market_data?.market_cap?.usd || 0,
+    total_volume: data.market_data?.total_volume?.usd || 0,
+    high_24h: data.market_data?.high_24h?.usd || 0,
+    low_24h: data.market_data?.low_24h?.usd || 0,
+    circulating_supply: data.market_data?.circulating_supply || 0,
+    image: data.image?.large || data.image?.small,
+    last_updated: data.last_updated || new Date().toISOString(),
+  };
+}
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        console.warn(`Token not found on CoinGecko: ${coinId}`);
-        return null;
-      }
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+/**
+ * Fetch a coin's USD market chart. CoinGecko picks the granularity from `days`:
+ * 5-minute points for 1 day, hourly up to 90 days, daily beyond.
+ * @param coinId - CoinGecko coin id
+ * @param days - How many days back from now
+ * @returns The chart, or null if the coin is unknown
+ * @throws Error if the request fails
+ */
+export async function fetchMarketChart(
+  coinId: string,
+  days: number
+): Promise<CoinGeckoMarketChart | null> {
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/coins/${coinId}/market_chart?vs_currency=usd&days=${days}`,
+    {
+      next: { revalidate: 300 }, // Cache for 5 minutes
     }
+  );
 
-    const data = await response.json();
-    
-    return {
-      id: data.id,
-      symbol: data.symbol.toUpperCase(),
-      name: data.name,
-      current_price: data.market_data?.current_price?.usd || 0,
-      price_change_percentage_24h: data.market_data?.price_change_percentage_24h ?? undefined,
-      market_cap: data.market_data?.market_cap?.usd || 0,
-      total_volume: data.market_data?.total_volume?.usd || 0,
-      high_24h: data.market_data?.high_24h?.usd || 0,
-      low_24h: data.market_data?.low_24h?.usd || 0,
-      circulating_supply: data.market_data?.circulating_supply || 0,
-      image: data.image?.large || data.image?.small,
-      last_updated: data.last_updated || new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error(`Error fetching CoinGecko price for ${symbol}:`, error);
-    return null;
+  if (!response.ok) {
+    if (response.status === 404) {
+      console.warn(`Token not found on CoinGecko: ${coinId}`);
+      return null;
+    }
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
   }
+
+  const data = await response.json();
+  return {
+    prices: Array.isArray(data.prices) ? data.prices : [],
+    market_caps: Array.isArray(data.market_caps) ? data.market_caps : [],
+    total_volumes: Array.isArray(data.total_volumes) ? data.total_volumes : [],
+  };
 }
 
 /**
- * Fetch simple price data from CoinGecko (lighter API call)
+ * Maximum coin ids or contract addresses per simple price request, keeping URLs short
  */
-export async function fetchSimplePrice(
-  symbols: string[]
+const SIMPLE_PRICE_BATCH_SIZE = 50;
+
+const SIMPLE_PRICE_FIELDS = 'vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true';
+
+/**
+ * Request simple price endpoints in chunks and merge the results
+ * @param keys - Coin ids or contract addresses
+ * @param buildUrl - URL for one chunk
+ * @returns Merged prices, or null if every chunk failed
+ */
+async function fetchSimplePriceChunks(
+  keys: string[],
+  buildUrl: (chunk: string[]) => string
 ): Promise<CoinGeckoSimplePrice | null> {
-  try {
-    const coinIds = symbols
-      .map((symbol) => getCoinGeckoId(symbol))
-      .filter((id): id is string => id !== null);
+  const chunks: string[][] = [];
+  for (let i = 0; i < keys.length; i += SIMPLE_PRICE_BATCH_SIZE) {
+    chunks.push(keys.slice(i, i + SIMPLE_PRICE_BATCH_SIZE));
+  }
 
-    if (coinIds.length === 0) {
-      return null;
-    }
+  const results = await Promise.all(
+    chunks.map(async (chunk): Promise<CoinGeckoSimplePrice | null> => {
+      try {
+        const response = await fetch(buildUrl(chunk), {
+          next: { revalidate: 60 }, // Cache for 60 seconds
+        });
+
+        if (!response.ok) {
+          throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+        }
 
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${coinIds.join(',')}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true`,
-      {
-        next: { revalidate: 60 }, // Cache for 60 seconds
+        return await response.json();
+      } catch (error) {
+        console.error('Error fetching simple price from CoinGecko:', error);
+        return null;
       }
-    );
+    })
+  );
 
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-    }
+  const succeeded = results.filter((result): result is CoinGeckoSimplePrice => result !== null);
+  return succeeded.length > 0 ? Object.assign({}, ...succeeded) : null;
+}
+
+/**
+ * Fetch simple price data for coin ids, batched
+ * @returns Prices by coin id, or null if the requests failed
+ */
+export async function fetchSimplePriceByIds(
+  coinIds: string[]
+): Promise<CoinGeckoSimplePrice | null> {
+  const uniqueIds = Array.from(new Set(coinIds));
+  if (uniqueIds.length === 0) {
+    return null;
+  }
 
-    return await response.json();
-  } catch (error) {
-    console.error('Error fetching simple price from CoinGecko:', error);
+  return fetchSimplePriceChunks(
+    uniqueIds,
+    (chunk) => `https://api.coingecko.com/api/v3/simple/price?ids=${chunk.join(',')}&${SIMPLE_PRICE_FIELDS}`
+  );
+}
+
+/**
+ * Fetch simple price data for contract addresses on one chain, batched
+ * @returns Prices by lowercased contract address (as given for Solana), or null if the chain is unsupported or the requests failed
+ */
+export async function fetchSimpleTokenPrices(
+  chainId: number,
+  addresses: string[]
+): Promise<CoinGeckoSimplePrice | null> {
+  const platform = COINGECKO_PLATFORMS[chainId];
+  const uniqueAddresses = Array.from(new Set(addresses));
+  if (!platform || uniqueAddresses.length === 0) {
     return null;
   }
+
+  return fetchSimplePriceChunks(
+    uniqueAddresses,
+    (chunk) => `https://api.coingecko.com/api/v3/simple/token_price/${platform}?contract_addresses=${chunk.join(',')}&${SIMPLE_PRICE_FIELDS}`
+  );
+}
+
+/**
+ * Fetch simple price data from CoinGecko (lighter API call)
+ */
+export async function fetchSimplePrice(
+  symbols: string[]
+): Promise<CoinGeckoSimplePrice | null> {
+  const resolvedIds = await Promise.all(symbols.map((symbol) => resolveCoinGeckoId({ symbol })));
+  return fetchSimplePriceByIds(resolvedIds.filter((id): id is string => id !== null));
 }
 
 /**
  * Fetch token price data by contract address
  * Note: This requires knowing the chain and may not work for all tokens
+ * @returns The price data, or null if the chain is unsupported or CoinGecko doesn't list the contract
+ * @throws Error if the request fails
  */
 export async function fetchTokenPriceByAddress(
   chainId: number,
   address: string
 ): Promise<CoinGeckoPriceData | null> {
-  try {
-    // Map chain IDs to CoinGecko platform IDs
-    const platformMap: Record<number, string> = {
-      1: 'ethereum',
-      42161: 'arbitrum-one',
-      10: 'optimistic-ethereum',
-      8453: 'base',
-      137: 'polygon-pos',
-      101: 'solana', // Solana mainnet
-    };
-
-    const platform = platformMap[chainId];
-    if (!platform) {
-      console.warn(`Chain ${chainId} not supported for CoinGecko address lookup`);
-      return null;
-    }
-
-    // Solana addresses use base58 encoding and are case-sensitive, don't lowercase them
-    // For other chains (Ethereum-based), addresses should be lowercase
-    const normalizedAddress = chainId === 101 ? address : address.toLowerCase();
+  const platform = COINGECKO_PLATFORMS[chainId];
+  if (!platform) {
+    console.warn(`Chain ${chainId} not supported for CoinGecko address lookup`);
+    return null;
+  }
 
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/coins/${platform}/contract/${normalizedAddress}?localization=false&tickers=false&market_data=true&community_data=false&developer_data=false&sparkline=false`,
-      {
-        next: { revalidate: 60 }, // Cache for 60 seconds
-      }
-    );
+  // Solana addresses use base58 encoding and are case-sensitive, don't lowercase them
+  // For other chains (Ethereum-based), addresses should be lowercase
+  const normalizedAddress = chainId === 101 ? address : address.toLowerCase();
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null; // Token not found on CoinGecko
-      }
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/coins/${platform}/contract/${normalizedAddress}?localization=false&tickers=false&market_data=true&community_data=false&developer_data=false&sparkline=false`,
+    {
+      next: { revalidate: 60 }, // Cache for 60 seconds
     }
+  );
 
-    const data = await response.json();
-    
-    return {
-      id: data.id,
-      symbol: data.symbol.toUpperCase(),
-      name: data.name,
-      current_price: data.market_data?.current_price?.usd || 0,
-      price_change_percentage_24h: data.market_data?.price_change_percentage_24h ?? undefined,
-      market_cap: data.market_data?.market_cap?.usd || 0,
-      total_volume: data.market_data?.total_volume?.usd || 0,
-      high_24h: data.market_data?.high_24h?.usd || 0,
-      low_24h: data.market_data?.low_24h?.usd || 0,
-      circulating_supply: data.market_data?.circulating_supply || 0,
-      image: data.image?.large || data.image?.small,
-      last_updated: data.last_updated || new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error(`Error fetching CoinGecko price for address ${address}:`, error);
-    return null;
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null; // Token not found on CoinGecko
+    }
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
   }
+
+  const data = await response.json();
+  
+  return {
+    id: data.id,
+    symbol: data.symbol.toUpperCase(),
+    name: data.name,
+    current_price: data.market_data?.current_price?.usd || 0,
+    price_change_percentage_24h: data.market_data?.price_change_percentage_24h ?? undefined,
+    market_cap: data.market_data?.market_cap?.usd || 0,
+    total_volume: data.market_data?.total_volume?.usd || 0,
+    high_24h: data.market_data?.high_24h?.usd || 0,
+    low_24h: data.market_data?.low_24h?.usd || 0,
+    circulating_supply: data.market_data?.circulating_supply || 0,
+    image: data.image?.large || data.image?.small,
+    last_updated: data.last_updated || new Date().toISOString(),
+  };
 }
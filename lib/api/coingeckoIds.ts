@@ -0,0 +1,273 @@
+/**
+ * CoinGecko ID resolution
+ *
+ * Maps tokens to CoinGecko coin ids. A `coingeckoId` pinned on the token in
+ * config/tokens.ts wins; otherwise the contract address is looked up on the token's
+ * chain. Symbols are only trusted for symbol-only lookups and for config tokens, by the
+ * config's own symbol rather than the caller's, since any contract can call itself
+ * "USDC": COINGECKO_ID_OVERRIDES first for symbols many coins share (ETH, BTC,
+ * stablecoins), then CoinGecko's coins list, requiring a coin deployed on the token's
+ * chain when CoinGecko knows the chain.
+ *
+ * The index is downloaded from the API and refreshed once a day on the server. The
+ * bundled snapshot is only used while the API is unreachable. As committed it is a seed
+ * covering the coins of config/tokens.ts on their configured chains; running
+ * `npx tsx cache-coingecko-coins.ts` where CoinGecko is reachable replaces it with every
+ * coin on a supported chain, Ondo's tokenized stocks included.
+ * Ids are only resolved on the server; the browser gets prices from the API routes.
+ */
+
+import { getTokenByAddressForChain, getTokenMetadata } from '../utils/token';
+
+/**
+ * A coin from CoinGecko's /coins/list?include_platform=true
+ */
+export interface CoinGeckoCoin {
+  id: string;
+  symbol: string;
+  name: string;
+  platforms: Record<string, string | null>; // Platform id -> contract address
+}
+
+/**
+ * Snapshot file layout
+ */
+export interface CoinGeckoCoinsSnapshot {
+  lastUpdated: string | null; // ISO date; null for the seed, until generated from CoinGecko
+  coins: CoinGeckoCoin[];
+}
+
+/**
+ * Token to resolve; any combination of fields
+ */
+export interface CoinGeckoIdLookup {
+  symbol?: string;
+  chainId?: number;
+  address?: string;
+}
+
+/**
+ * CoinGecko platform ids by chain
+ */
+export const COINGECKO_PLATFORMS: Record<number, string> = {
+  1: 'ethereum',
+  42161: 'arbitrum-one',
+  10: 'optimistic-ethereum',
+  8453: 'base',
+  137: 'polygon-pos',
+  56: 'binance-smart-chain',
+  43114: 'avalanche',
+  42220: 'celo',
+  81457: 'blast',
+  101: 'solana', // Solana mainnet
+};
+
+/**
+ * Symbols whose coin can't be picked from the list alone, by uppercased symbol.
+ * Only applied to config tokens and symbol-only lookups.
+ */
+export const COINGECKO_ID_OVERRIDES: Record<string, string> = {
+  'USDC': 'usd-coin',
+  'USDT': 'tether',
+  'DAI': 'dai',
+  'WETH': 'weth',
+  'WBTC': 'wrapped-bitcoin',
+  'ETH': 'ethereum',
+  'BTC': 'bitcoin',
+};
+
+const COINS_LIST_URL = 'https://api.coingecko.com/api/v3/coins/list?include_platform=true';
+const INDEX_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// After a failed refresh, wait this long before trying again
+const INDEX_RETRY_INTERVAL_MS = 10 * 60 * 1000;
+
+interface CoinGeckoIndex {
+  bySymbol: Map<string, CoinGeckoCoin[]>; // Lowercased symbol -> coins
+  byContract: Map<string, string>; // `${platform}:${address}` -> coin id
+  builtAt: number; // Unix ms; 0 for the bundled snapshot
+}
+
+let index: CoinGeckoIndex | null = null;
+let snapshotPromise: Promise<CoinGeckoIndex> | null = null;
+let refreshPromise: Promise<void> | null = null;
+let lastRefreshAttempt = 0;
+
+/**
+ * Key for a contract address; Solana addresses are case-sensitive
+ */
+function contractKey(platform: string, address: string): string {
+  return `${platform}:${platform === 'solana' ? address : address.toLowerCase()}`;
+}
+
+/**
+ * Build lookup maps from a coins list
+ */
+export function buildCoinGeckoIndex(coins: CoinGeckoCoin[], builtAt: number = Date.now()): CoinGeckoIndex {
+  const bySymbol = new Map<string, CoinGeckoCoin[]>();
+  const byContract = new Map<string, string>();
+
+  for (const coin of coins) {
+    const symbol = coin.symbol.toLowerCase();
+    const existing = bySymbol.get(symbol);
+    if (existing) {
+      existing.push(coin);
+    } else {
+      bySymbol.set(symbol, [coin]);
+    }
+
+    for (const [platform, address] of Object.entries(coin.platforms || {})) {
+      if (platform && address) {
+        byContract.set(contractKey(platform, address), coin.id);
+      }
+    }
+  }
+
+  return { bySymbol, byContract, builtAt };
+}
+
+/**
+ * Download the coins list
+ * @throws Error if the request fails
+ */
+export async function fetchCoinGeckoCoinsList(): Promise<CoinGeckoCoin[]> {
+  const response = await fetch(COINS_LIST_URL, {
+    next: { revalidate: INDEX_REFRESH_INTERVAL_MS / 1000 },
+  });
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  }
+
+  const coins = await response.json();
+  if (!Array.isArray(coins)) {
+    throw new Error('CoinGecko coins list is not an array');
+  }
+  return coins;
+}
+
+/**
+ * Load the bundled snapshot; imported lazily so it stays out of the main client bundle
+ */
+function loadSnapshotIndex(): Promise<CoinGeckoIndex> {
+  if (!snapshotPromise) {
+    snapshotPromise = import('./coingeckoCoinsSnapshot.json')
+      .then((module) => buildCoinGeckoIndex((module.default as CoinGeckoCoinsSnapshot).coins, 0))
+      .catch((error) => {
+        console.warn('Failed to load CoinGecko coins snapshot:', error);
+        return buildCoinGeckoIndex([], 0);
+      });
+  }
+  return snapshotPromise;
+}
+
+/**
+ * Replace the index with a fresh coins list, keeping the current one on failure
+ */
+function refreshIndex(): Promise<void> {
+  if (!refreshPromise) {
+    lastRefreshAttempt = Date.now();
+    refreshPromise = fetchCoinGeckoCoinsList()
+      .then((coins) => {
+        index = buildCoinGeckoIndex(coins);
+      })
+      .catch((error) => {
+        console.warn('Failed to refresh CoinGecko coins list, using the previous index:', error);
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Get the current index, refreshing it on the server when it is more than a day old.
+ * The first lookup waits for the download; later ones use the previous index meanwhile.
+ */
+async function getIndex(): Promise<CoinGeckoIndex> {
+  const isServer = typeof window === 'undefined';
+  const now = Date.now();
+  const isStale = !index || now - index.builtAt >= INDEX_REFRESH_INTERVAL_MS;
+
+  if (isServer && isStale && now - lastRefreshAttempt >= INDEX_RETRY_INTERVAL_MS) {
+    const refresh = refreshIndex();
+    if (!index) {
+      await refresh;
+    }
+  }
+
+  if (!index) {
+    index = await loadSnapshotIndex();
+  }
+  return index;
+}
+
+/**
+ * Pick a coin for a symbol; on a chain CoinGecko knows, only coins deployed there qualify
+ * @returns The coin id, or null if the symbol is unknown, not on the chain or ambiguous
+ */
+function pickBySymbol(candidates: CoinGeckoCoin[], platform: string | undefined): string | null {
+  const pool = platform ? candidates.filter((coin) => coin.platforms?.[platform]) : candidates;
+
+  if (pool.length === 0) {
+    return null;
+  }
+  if (pool.length === 1) {
+    return pool[0].id;
+  }
+  if (!platform) {
+    return null; // Several unrelated coins share the symbol and there's no chain to tell them apart
+  }
+
+  // Bridged canonical tokens are deployed on the most platforms; copycats usually on one
+  const platformCount = (coin: CoinGeckoCoin) => Object.values(coin.platforms || {}).filter(Boolean).length;
+  return [...pool].sort((a, b) => platformCount(b) - platformCount(a))[0].id;
+}
+
+/**
+ * Resolve a token's CoinGecko coin id
+ * @param lookup - Symbol, chain and/or contract address
+ * @returns The coin id, or null if no coin matches unambiguously
+ */
+export async function resolveCoinGeckoId(lookup: CoinGeckoIdLookup): Promise<string | null> {
+  const { chainId, address } = lookup;
+
+  // Ids pinned in the token registry
+  const configToken = address
+    ? (chainId !== undefined ? getTokenByAddressForChain(chainId, address) : getTokenMetadata(address)?.token)
+    : undefined;
+  if (configToken?.coingeckoId) {
+    return configToken.coingeckoId;
+  }
+
+  const { bySymbol, byContract } = await getIndex();
+  const platform = chainId !== undefined ? COINGECKO_PLATFORMS[chainId] : undefined;
+
+  if (platform && address) {
+    const byAddress = byContract.get(contractKey(platform, address));
+    if (byAddress) {
+      return byAddress;
+    }
+  }
+
+  // A contract CoinGecko doesn't list under its address isn't the coin its symbol names
+  if (address && !configToken) {
+    return null;
+  }
+
+  // A config token is looked up by its own symbol, whatever the caller called it
+  const symbol = configToken ? configToken.symbol : lookup.symbol;
+
+  if (symbol && COINGECKO_ID_OVERRIDES[symbol.toUpperCase()]) {
+    return COINGECKO_ID_OVERRIDES[symbol.toUpperCase()];
+  }
+
+  if (symbol) {
+    const candidates = bySymbol.get(symbol.toLowerCase());
+    if (candidates && candidates.length > 0) {
+      return pickBySymbol(candidates, platform);
+    }
+  }
+
+  return null;
+}
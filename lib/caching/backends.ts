@@ -0,0 +1,344 @@
+/**
+ * Server Cache Backends
+ *
+ * Storage for the server cache: in-process memory, a shared directory on disk, or any
+ * server speaking the Redis protocol. Every backend stores strings with a TTL; values
+ * are serialized by serverCache.ts.
+ *
+ * Besides plain values, backends keep append-only lists (e.g. a price series). add and
+ * append are atomic on every backend, so concurrent writers never overwrite each other.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { clearCached, getCached, setCached } from '../utils/cache';
+import { decodeValue, encodeCommand, RespError, type RespValue } from './resp';
+
+/**
+ * A place to store cached values
+ */
+export interface ServerCacheBackend {
+  name: 'memory' | 'filesystem' | 'redis';
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  /**
+   * Store a value only if the key has none
+   * @returns Whether the value was stored
+   */
+  add(key: string, value: string, ttlSeconds: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /**
+   * Append to a list. Items are kept for at least ttlSeconds after they're appended;
+   * backends that can trim by count keep at most the newest maxLength.
+   */
+  append(key: string, value: string, ttlSeconds: number, maxLength: number): Promise<void>;
+  /**
+   * Read a list, oldest first; empty if it doesn't exist
+   */
+  getList(key: string): Promise<string[]>;
+}
+
+/**
+ * Namespace in lib/utils/cache.ts used by the memory backend
+ */
+const MEMORY_NAMESPACE = 'server';
+
+/**
+ * Cache in this process's memory, through the namespaced LRU in lib/utils/cache.ts.
+ * Not shared between server instances and lost on restart, but needs no setup.
+ * Reads and writes are synchronous, so add and append are atomic within the process.
+ */
+export function createMemoryBackend(): ServerCacheBackend {
+  return {
+    name: 'memory',
+    async get(key) {
+      return getCached<string>(key, MEMORY_NAMESPACE);
+    },
+    async set(key, value, ttlSeconds) {
+      setCached(key, value, { namespace: MEMORY_NAMESPACE, ttlMs: ttlSeconds * 1000 });
+    },
+    async add(key, value, ttlSeconds) {
+      if (getCached<string>(key, MEMORY_NAMESPACE) !== null) {
+        return false;
+      }
+      setCached(key, value, { namespace: MEMORY_NAMESPACE, ttlMs: ttlSeconds * 1000 });
+      return true;
+    },
+    async delete(key) {
+      clearCached(key, MEMORY_NAMESPACE);
+    },
+    async append(key, value, ttlSeconds, maxLength) {
+      const list = getCached<string[]>(key, MEMORY_NAMESPACE) || [];
+      setCached(key, [...list, value].slice(-maxLength), { namespace: MEMORY_NAMESPACE, ttlMs: ttlSeconds * 1000 });
+    },
+    async getList(key) {
+      return getCached<string[]>(key, MEMORY_NAMESPACE) || [];
+    },
+  };
+}
+
+/**
+ * On-disk entry format
+ */
+interface FileCacheEntry {
+  expiresAt: number; // Unix ms
+  value: string;
+}
+
+/**
+ * Lists on disk are split into one append-only file per day, so old items are dropped
+ * by deleting whole files instead of rewriting one under concurrent appenders
+ */
+const LIST_SEGMENT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cache in a directory, one JSON file per key. Shared by every process that can see the
+ * directory (e.g. several `next start` workers on one host).
+ *
+ * add creates the file exclusively; append writes one line with O_APPEND, which local
+ * filesystems apply atomically. Lists are trimmed by age only, not by maxLength.
+ *
+ * @param directory - Where entries are written; created on first write
+ */
+export function createFilesystemBackend(directory: string): ServerCacheBackend {
+  // Hash keys so any key is a safe, fixed-length file name
+  const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+  const getPath = (key: string) => path.join(directory, `${hashKey(key)}.json`);
+  const getListDirectory = (key: string) => path.join(directory, `${hashKey(key)}.list`);
+
+  /**
+   * A list's segment files that haven't expired, oldest first; expired ones are deleted
+   */
+  const getLiveSegments = async (listDirectory: string): Promise<string[]> => {
+    let names: string[];
+    try {
+      names = await fs.readdir(listDirectory);
+    } catch {
+      return []; // No list yet
+    }
+
+    const now = Date.now();
+    const live: Array<{ name: string; segment: number }> = [];
+    for (const name of names) {
+      // <segment>-<ttlSeconds>.jsonl: a segment expires ttlSeconds after its last possible append
+      const match = /^(\d+)-(\d+)\.jsonl$/.exec(name);
+      if (!match) {
+        continue;
+      }
+      const segment = parseInt(match[1], 10);
+      if ((segment + 1) * LIST_SEGMENT_MS + parseInt(match[2], 10) * 1000 < now) {
+        await fs.rm(path.join(listDirectory, name), { force: true });
+      } else {
+        live.push({ name, segment });
+      }
+    }
+    return live.sort((a, b) => a.segment - b.segment).map((entry) => path.join(listDirectory, entry.name));
+  };
+
+  return {
+    name: 'filesystem',
+    async get(key) {
+      let entry: FileCacheEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(getPath(key), 'utf-8'));
+      } catch {
+        return null; // Missing, or torn by a concurrent writer
+      }
+      if (Date.now() > entry.expiresAt) {
+        await fs.rm(getPath(key), { force: true });
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlSeconds) {
+      await fs.mkdir(directory, { recursive: true });
+      const entry: FileCacheEntry = { expiresAt: Date.now() + ttlSeconds * 1000, value };
+      // Write then rename so readers never see a partial file
+      const filePath = getPath(key);
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry));
+      await fs.rename(tempPath, filePath);
+    },
+    async add(key, value, ttlSeconds) {
+      await fs.mkdir(directory, { recursive: true });
+      const filePath = getPath(key);
+      const entry: FileCacheEntry = { expiresAt: Date.now() + ttlSeconds * 1000, value };
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          await fs.writeFile(filePath, JSON.stringify(entry), { flag: 'wx' });
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+            throw error;
+          }
+        }
+        // Taken, unless the existing entry has expired; then remove it and race for it once more
+        if ((await this.get(key)) !== null) {
+          return false;
+        }
+        await fs.rm(filePath, { force: true });
+      }
+      return false;
+    },
+    async delete(key) {
+      await fs.rm(getPath(key), { force: true });
+      await fs.rm(getListDirectory(key), { recursive: true, force: true });
+    },
+    async append(key, value, ttlSeconds) {
+      const listDirectory = getListDirectory(key);
+      await fs.mkdir(listDirectory, { recursive: true });
+      const segment = Math.floor(Date.now() / LIST_SEGMENT_MS);
+      await fs.appendFile(path.join(listDirectory, `${segment}-${Math.ceil(ttlSeconds)}.jsonl`), `${value}\n`);
+      await getLiveSegments(listDirectory); // Drop expired segments
+    },
+    async getList(key) {
+      const items: string[] = [];
+      for (const segmentPath of await getLiveSegments(getListDirectory(key))) {
+        let content: string;
+        try {
+          content = await fs.readFile(segmentPath, 'utf-8');
+        } catch {
+          continue; // Deleted by a concurrent prune
+        }
+        items.push(...content.split('\n').filter((line) => line.length > 0));
+      }
+      return items;
+    },
+  };
+}
+
+/**
+ * Options for the Redis-protocol backend
+ */
+export interface RedisBackendOptions {
+  url: string; // redis://[:password@]host[:port][/db]
+  keyPrefix?: string; // Prepended to every key (default: 'vaulto:')
+  commandTimeoutMs?: number; // Give up on a command after this long (default: 500)
+}
+
+/**
+ * Cache in a server speaking the Redis protocol, shared by every instance.
+ *
+ * Uses a single pipelined connection, opened lazily and reopened after an error.
+ * Commands time out quickly: a slow cache should fall through to the upstream,
+ * not hold the request up.
+ *
+ * @param options - Server URL, key prefix and command timeout
+ */
+export function createRedisBackend(options: RedisBackendOptions): ServerCacheBackend {
+  const url = new URL(options.url);
+  const keyPrefix = options.keyPrefix ?? 'vaulto:';
+  const commandTimeoutMs = options.commandTimeoutMs ?? 500;
+  const database = parseInt(url.pathname.slice(1) || '0', 10) || 0;
+
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  const pending: Array<{ resolve: (value: RespValue) => void; reject: (error: Error) => void }> = [];
+
+  const resetConnection = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    buffer = Buffer.alloc(0);
+    pending.splice(0).forEach((request) => request.reject(error));
+  };
+
+  const connect = (): net.Socket => {
+    const connection = net.createConnection({
+      host: url.hostname || 'localhost',
+      port: parseInt(url.port || '6379', 10),
+    });
+    connection.setNoDelay(true);
+    connection.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let decoded = decodeValue(buffer);
+        while (decoded) {
+          pending.shift()?.resolve(decoded.value);
+          buffer = buffer.subarray(decoded.offset);
+          decoded = buffer.length > 0 ? decodeValue(buffer) : null;
+        }
+      } catch (error) {
+        resetConnection(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    connection.on('error', (error) => resetConnection(error));
+    connection.on('close', () => {
+      if (socket === connection) {
+        resetConnection(new Error('Redis connection closed'));
+      }
+    });
+    return connection;
+  };
+
+  const send = (args: Array<string | number>): Promise<RespValue> => {
+    if (!socket) {
+      socket = connect();
+      // Queued ahead of the first command; their replies are checked like any other
+      if (url.password) {
+        const auth = url.username
+          ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)]
+          : ['AUTH', decodeURIComponent(url.password)];
+        enqueue(auth).catch(() => undefined);
+      }
+      if (database !== 0) {
+        enqueue(['SELECT', database]).catch(() => undefined);
+      }
+    }
+    return enqueue(args);
+  };
+
+  const enqueue = (args: Array<string | number>): Promise<RespValue> =>
+    new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a late reply would desync the connection
+        resetConnection(new Error(`Redis command ${args[0]} timed out after ${commandTimeoutMs}ms`));
+      }, commandTimeoutMs);
+      pending.push({
+        resolve: (value) => {
+          clearTimeout(timer);
+          if (value instanceof RespError) {
+            reject(value);
+          } else {
+            resolve(value);
+          }
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket!.write(encodeCommand(args));
+    });
+
+  return {
+    name: 'redis',
+    async get(key) {
+      const value = await send(['GET', keyPrefix + key]);
+      return typeof value === 'string' ? value : null;
+    },
+    async set(key, value, ttlSeconds) {
+      await send(['SET', keyPrefix + key, value, 'PX', Math.max(1, Math.round(ttlSeconds * 1000))]);
+    },
+    async add(key, value, ttlSeconds) {
+      const reply = await send(['SET', keyPrefix + key, value, 'PX', Math.max(1, Math.round(ttlSeconds * 1000)), 'NX']);
+      return reply === 'OK';
+    },
+    async delete(key) {
+      await send(['DEL', keyPrefix + key]);
+    },
+    async append(key, value, ttlSeconds, maxLength) {
+      // Each command is atomic and the trim and expiry are idempotent, so no transaction is needed
+      await Promise.all([
+        send(['RPUSH', keyPrefix + key, value]),
+        send(['LTRIM', keyPrefix + key, -maxLength, -1]),
+        send(['PEXPIRE', keyPrefix + key, Math.max(1, Math.round(ttlSeconds * 1000))]),
+      ]);
+    },
+    async getList(key) {
+      const reply = await send(['LRANGE', keyPrefix + key, 0, -1]);
+      return Array.isArray(reply) ? reply.filter((item): item is string => typeof item === 'string') : [];
+    },
+  };
+}
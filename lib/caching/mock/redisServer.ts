@@ -0,0 +1,199 @@
+/**
+ * Mock Redis Server
+ *
+ * A small in-memory server speaking the Redis protocol, so the redis cache backend
+ * can run and be exercised with no Redis installed. Supports the commands the
+ * backend uses (GET, SET with EX/PX/NX, DEL, RPUSH, LTRIM, LRANGE, PEXPIRE, AUTH, SELECT,
+ * PING) plus TTL and FLUSHDB.
+ */
+
+import * as net from 'net';
+import { decodeValue, encodeReply, RespError, type RespValue } from '../resp';
+
+/**
+ * Mock server options
+ */
+export interface MockRedisServerOptions {
+  port?: number; // Default: 6380 (0 picks a free port)
+  password?: string; // Require AUTH with this password
+}
+
+interface StoredValue {
+  value: string | string[]; // A string, or a list
+  expiresAt: number | null; // Unix ms, null for no expiry
+}
+
+const WRONG_TYPE = 'WRONGTYPE Operation against a key holding the wrong kind of value';
+
+/**
+ * Resolve a Redis list index, where negative counts back from the end
+ */
+function listIndex(index: number, length: number): number {
+  return index < 0 ? Math.max(0, length + index) : index;
+}
+
+/**
+ * Run one command against the store
+ * @returns The reply and whether a string reply is a simple string (+OK)
+ */
+function executeCommand(
+  store: Map<string, StoredValue>,
+  args: string[],
+  session: { authenticated: boolean },
+  password: string | undefined
+): { reply: RespValue; simple?: boolean } {
+  const command = (args[0] || '').toUpperCase();
+  const now = Date.now();
+  const read = (key: string): StoredValue | null => {
+    const entry = store.get(key);
+    if (entry && entry.expiresAt !== null && now >= entry.expiresAt) {
+      store.delete(key);
+      return null;
+    }
+    return entry ?? null;
+  };
+
+  if (command === 'AUTH') {
+    const given = args[args.length - 1];
+    if (!password || given === password) {
+      session.authenticated = true;
+      return { reply: 'OK', simple: true };
+    }
+    return { reply: new RespError('WRONGPASS invalid username-password pair') };
+  }
+  if (password && !session.authenticated) {
+    return { reply: new RespError('NOAUTH Authentication required.') };
+  }
+
+  switch (command) {
+    case 'PING':
+      return { reply: 'PONG', simple: true };
+    case 'SELECT':
+      return { reply: 'OK', simple: true };
+    case 'GET': {
+      const entry = read(args[1]);
+      if (Array.isArray(entry?.value)) {
+        return { reply: new RespError(WRONG_TYPE) };
+      }
+      return { reply: entry?.value ?? null };
+    }
+    case 'SET': {
+      const [, key, value, ...flags] = args;
+      if (key === undefined || value === undefined) {
+        return { reply: new RespError("ERR wrong number of arguments for 'set' command") };
+      }
+      let expiresAt: number | null = null;
+      let onlyIfAbsent = false;
+      for (let i = 0; i < flags.length; i++) {
+        const flag = flags[i].toUpperCase();
+        if (flag === 'NX') {
+          onlyIfAbsent = true;
+        } else if (flag === 'EX' || flag === 'PX') {
+          const amount = parseInt(flags[++i], 10);
+          if (isNaN(amount) || amount <= 0) {
+            return { reply: new RespError('ERR invalid expire time in set') };
+          }
+          expiresAt = now + (flag === 'EX' ? amount * 1000 : amount);
+        }
+      }
+      if (onlyIfAbsent && read(key) !== null) {
+        return { reply: null };
+      }
+      store.set(key, { value, expiresAt });
+      return { reply: 'OK', simple: true };
+    }
+    case 'RPUSH': {
+      const [, key, ...values] = args;
+      const entry = read(key);
+      if (entry && !Array.isArray(entry.value)) {
+        return { reply: new RespError(WRONG_TYPE) };
+      }
+      const list = entry ? (entry.value as string[]) : [];
+      list.push(...values);
+      store.set(key, { value: list, expiresAt: entry?.expiresAt ?? null });
+      return { reply: list.length };
+    }
+    case 'LTRIM':
+    case 'LRANGE': {
+      const entry = read(args[1]);
+      if (entry && !Array.isArray(entry.value)) {
+        return { reply: new RespError(WRONG_TYPE) };
+      }
+      const list = entry ? (entry.value as string[]) : [];
+      const start = listIndex(parseInt(args[2], 10), list.length);
+      const stop = listIndex(parseInt(args[3], 10), list.length);
+      const range = list.slice(start, stop + 1);
+      if (command === 'LRANGE') {
+        return { reply: range };
+      }
+      if (entry) {
+        entry.value = range;
+      }
+      return { reply: 'OK', simple: true };
+    }
+    case 'PEXPIRE': {
+      const entry = read(args[1]);
+      const amount = parseInt(args[2], 10);
+      if (!entry || isNaN(amount)) {
+        return { reply: 0 };
+      }
+      entry.expiresAt = now + amount;
+      return { reply: 1 };
+    }
+    case 'DEL':
+      return { reply: args.slice(1).filter((key) => read(key) !== null && store.delete(key)).length };
+    case 'TTL': {
+      const entry = read(args[1]);
+      if (!entry) {
+        return { reply: -2 };
+      }
+      return { reply: entry.expiresAt === null ? -1 : Math.ceil((entry.expiresAt - now) / 1000) };
+    }
+    case 'FLUSHDB':
+      store.clear();
+      return { reply: 'OK', simple: true };
+    default:
+      return { reply: new RespError(`ERR unknown command '${args[0]}'`) };
+  }
+}
+
+/**
+ * Start the mock Redis server.
+ *
+ * @param options - Port and optional password
+ * @returns The listening server and a redis:// URL for SERVER_CACHE_REDIS_URL
+ */
+export async function startMockRedisServer(
+  options: MockRedisServerOptions = {}
+): Promise<{ server: net.Server; url: string }> {
+  const store = new Map<string, StoredValue>();
+
+  const server = net.createServer((socket) => {
+    const session = { authenticated: false };
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let decoded = decodeValue(buffer);
+        while (decoded) {
+          buffer = buffer.subarray(decoded.offset);
+          const args = Array.isArray(decoded.value) ? decoded.value.map(String) : [String(decoded.value)];
+          const { reply, simple } = executeCommand(store, args, session, options.password);
+          socket.write(encodeReply(reply, simple));
+          decoded = buffer.length > 0 ? decodeValue(buffer) : null;
+        }
+      } catch {
+        socket.end(encodeReply(new RespError('ERR Protocol error')));
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 6380, resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port ?? 6380;
+  const auth = options.password ? `:${encodeURIComponent(options.password)}@` : '';
+
+  return { server, url: `redis://${auth}localhost:${port}` };
+}
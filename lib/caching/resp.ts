@@ -0,0 +1,116 @@
+/**
+ * RESP (Redis Serialization Protocol) Module
+ *
+ * Encodes commands and decodes replies for the Redis-protocol cache backend and its
+ * local stand-in server. Only RESP2 is supported, which every Redis-compatible server
+ * (Redis, Valkey, KeyDB, Dragonfly) speaks by default.
+ */
+
+/**
+ * A decoded RESP value; errors are returned as RespError rather than thrown
+ */
+export type RespValue = string | number | null | RespError | RespValue[];
+
+/**
+ * An error reply (`-ERR ...`)
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ * @param args - Command name and arguments, e.g. ['SET', 'key', 'value']
+ * @returns The bytes to write to the socket
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}${CRLF}`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Encode a reply value, for the stand-in server
+ * @param value - Reply; strings are sent as bulk strings unless `simple` is set
+ * @param simple - Send a string as a simple string (`+OK`)
+ */
+export function encodeReply(value: RespValue, simple = false): Buffer {
+  if (value === null) {
+    return Buffer.from(`$-1${CRLF}`);
+  }
+  if (value instanceof RespError) {
+    return Buffer.from(`-${value.message}${CRLF}`);
+  }
+  if (typeof value === 'number') {
+    return Buffer.from(`:${value}${CRLF}`);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([Buffer.from(`*${value.length}${CRLF}`), ...value.map((item) => encodeReply(item))]);
+  }
+  if (simple) {
+    return Buffer.from(`+${value}${CRLF}`);
+  }
+  return Buffer.from(`$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`);
+}
+
+/**
+ * Decode one value from `buffer` starting at `offset`
+ * @returns The value and the offset just past it, or null if the buffer doesn't hold a whole value yet
+ * @throws Error if the data isn't valid RESP
+ */
+export function decodeValue(buffer: Buffer, offset = 0): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: parseInt(line, 10), offset: next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf-8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = decodeValue(buffer, position);
+        if (!item) {
+          return null;
+        }
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Invalid RESP type byte: ${JSON.stringify(type)}`);
+  }
+}
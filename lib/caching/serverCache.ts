@@ -0,0 +1,229 @@
+/**
+ * Server Cache Module
+ *
+ * Shared cache for API route responses, so repeated searches across users don't
+ * multiply subgraph, CoinGecko and Yahoo calls. Keys come from the get*CacheKey
+ * helpers in lib/utils/cache.ts.
+ *
+ * The backend is chosen with SERVER_CACHE_BACKEND:
+ *   memory     - this process only (default)
+ *   filesystem - JSON files in SERVER_CACHE_DIR (default: <tmpdir>/vaulto-cache)
+ *   redis      - a Redis-protocol server at SERVER_CACHE_REDIS_URL
+ *   none       - disabled
+ *
+ * Cache failures are logged and treated as misses; they never fail a request.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createFilesystemBackend,
+  createMemoryBackend,
+  createRedisBackend,
+  type ServerCacheBackend,
+} from './backends';
+
+/**
+ * Result of a cached lookup
+ */
+export interface ServerCacheResult<T> {
+  value: T;
+  hit: boolean; // Served from the cache
+}
+
+let backend: ServerCacheBackend | null | undefined;
+
+// Concurrent misses for one key share a single upstream load
+const inFlightLoads = new Map<string, Promise<unknown>>();
+
+/**
+ * Build the backend configured by the environment
+ */
+function createBackendFromEnv(): ServerCacheBackend | null {
+  const kind = (process.env.SERVER_CACHE_BACKEND || 'memory').toLowerCase();
+  switch (kind) {
+    case 'none':
+      return null;
+    case 'filesystem':
+      return createFilesystemBackend(process.env.SERVER_CACHE_DIR || path.join(os.tmpdir(), 'vaulto-cache'));
+    case 'redis': {
+      const url = process.env.SERVER_CACHE_REDIS_URL;
+      if (!url) {
+        console.warn('SERVER_CACHE_BACKEND=redis but SERVER_CACHE_REDIS_URL is not set; using memory');
+        return createMemoryBackend();
+      }
+      return createRedisBackend({ url });
+    }
+    case 'memory':
+      return createMemoryBackend();
+    default:
+      console.warn(`Unknown SERVER_CACHE_BACKEND "${kind}"; using memory`);
+      return createMemoryBackend();
+  }
+}
+
+/**
+ * The active backend, created from the environment on first use
+ * @returns The backend, or null if the server cache is disabled
+ */
+export function getServerCacheBackend(): ServerCacheBackend | null {
+  if (backend === undefined) {
+    backend = createBackendFromEnv();
+  }
+  return backend;
+}
+
+/**
+ * Replace the active backend, e.g. to point at a local stand-in server
+ * @param next - Backend to use; null disables the cache, undefined re-reads the environment
+ */
+export function setServerCacheBackend(next: ServerCacheBackend | null | undefined): void {
+  backend = next;
+}
+
+/**
+ * Get a cached value
+ * @param key - Cache key from a get*CacheKey helper
+ * @returns The value, or null on a miss or cache failure
+ */
+export async function getServerCached<T>(key: string): Promise<T | null> {
+  const active = getServerCacheBackend();
+  if (!active) {
+    return null;
+  }
+
+  try {
+    const raw = await active.get(key);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`Server cache (${active.name}) read failed for ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store a value
+ * @param key - Cache key from a get*CacheKey helper
+ * @param value - JSON-serializable value
+ * @param ttlSeconds - How long the value is served
+ */
+export async function setServerCached<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+  const active = getServerCacheBackend();
+  if (!active) {
+    return;
+  }
+
+  try {
+    await active.set(key, JSON.stringify(value), ttlSeconds);
+  } catch (error) {
+    console.warn(`Server cache (${active.name}) write failed for ${key}:`, error);
+  }
+}
+
+/**
+ * Store a value unless the key already has one; atomic on every backend, so of several
+ * concurrent callers exactly one stores its value
+ * @param key - Cache key from a get*CacheKey helper
+ * @param value - JSON-serializable value
+ * @param ttlSeconds - How long the value is kept
+ * @returns Whether the value was stored; false if the key was taken or the cache is disabled or failed
+ */
+export async function addServerCached<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+  const active = getServerCacheBackend();
+  if (!active) {
+    return false;
+  }
+
+  try {
+    return await active.add(key, JSON.stringify(value), ttlSeconds);
+  } catch (error) {
+    console.warn(`Server cache (${active.name}) add failed for ${key}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Append a value to a list without reading it first, so concurrent appends are all kept
+ * @param key - Cache key from a get*CacheKey helper
+ * @param value - JSON-serializable value
+ * @param ttlSeconds - How long appended values are kept at least
+ * @param maxLength - Most values kept, on backends that trim by count (memory, redis)
+ */
+export async function appendServerCachedList<T>(key: string, value: T, ttlSeconds: number, maxLength: number): Promise<void> {
+  const active = getServerCacheBackend();
+  if (!active) {
+    return;
+  }
+
+  try {
+    await active.append(key, JSON.stringify(value), ttlSeconds, maxLength);
+  } catch (error) {
+    console.warn(`Server cache (${active.name}) append failed for ${key}:`, error);
+  }
+}
+
+/**
+ * Get a list's values in append order
+ * @param key - Cache key from a get*CacheKey helper
+ * @returns The values; empty if the list doesn't exist or the cache fails
+ */
+export async function getServerCachedList<T>(key: string): Promise<T[]> {
+  const active = getServerCacheBackend();
+  if (!active) {
+    return [];
+  }
+
+  try {
+    const values: T[] = [];
+    for (const raw of await active.getList(key)) {
+      try {
+        values.push(JSON.parse(raw) as T);
+      } catch {
+        // A line still being written by a concurrent append
+      }
+    }
+    return values;
+  } catch (error) {
+    console.warn(`Server cache (${active.name}) list read failed for ${key}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Get a cached value, loading and storing it on a miss.
+ *
+ * @param key - Cache key from a get*CacheKey helper
+ * @param ttlSeconds - How long a loaded value is served
+ * @param load - Loads the value; errors propagate and nothing is cached
+ * @param shouldCache - Whether a loaded value may be cached (default: always), e.g. to skip partial results
+ * @returns The value and whether it came from the cache
+ */
+export async function withServerCache<T>(
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<ServerCacheResult<T>> {
+  const cached = await getServerCached<T>(key);
+  if (cached !== null) {
+    return { value: cached, hit: true };
+  }
+
+  const existing = inFlightLoads.get(key);
+  if (existing) {
+    return { value: (await existing) as T, hit: false };
+  }
+
+  const request = load()
+    .then(async (value) => {
+      if (shouldCache(value)) {
+        await setServerCached(key, value, ttlSeconds);
+      }
+      return value;
+    })
+    .finally(() => {
+      inFlightLoads.delete(key);
+    });
+  inFlightLoads.set(key, request);
+  return { value: await request, hit: false };
+}
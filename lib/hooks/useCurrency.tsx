@@ -0,0 +1,95 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { FxRatesApiResponse } from "@/app/api/fx/route";
+import type { FxRates } from "@/lib/prices/fx";
+import { USD_DISPLAY, isDisplayCurrency, type CurrencyDisplay, type DisplayCurrency } from "@/lib/utils/currency";
+
+// localStorage key for the chosen display currency
+const CURRENCY_STORAGE_KEY = "vaulto_display_currency";
+
+interface CurrencyContextValue {
+  currency: DisplayCurrency; // The chosen currency
+  setCurrency: (currency: DisplayCurrency) => void;
+  display: CurrencyDisplay; // What formatters should use; USD until the chosen currency's rate is loaded
+  fx: FxRates | null;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue>({
+  currency: "USD",
+  setCurrency: () => {},
+  display: USD_DISPLAY,
+  fx: null,
+});
+
+/**
+ * Provides the display currency preference and FX rates to the app
+ * The preference is kept in localStorage, so it survives reloads in the same browser
+ */
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<DisplayCurrency>("USD");
+  const [fx, setFx] = useState<FxRates | null>(null);
+
+  // Restore the saved preference after mount; the server render is always USD
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(CURRENCY_STORAGE_KEY);
+      if (isDisplayCurrency(saved)) {
+        setCurrencyState(saved);
+      }
+    } catch {
+      // Storage unavailable (e.g. private mode); stay on USD
+    }
+  }, []);
+
+  // Rates are only needed once something other than USD is chosen
+  useEffect(() => {
+    if (currency === "USD" || fx) return;
+
+    let cancelled = false;
+
+    const fetchRates = async () => {
+      try {
+        const response = await fetch("/api/fx");
+        const data: FxRatesApiResponse = await response.json();
+        if (!cancelled && data.fx) {
+          setFx(data.fx);
+        }
+      } catch (error) {
+        console.error("Error fetching FX rates:", error);
+      }
+    };
+
+    fetchRates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currency, fx]);
+
+  const setCurrency = useCallback((next: DisplayCurrency) => {
+    setCurrencyState(next);
+    try {
+      localStorage.setItem(CURRENCY_STORAGE_KEY, next);
+    } catch {
+      // Preference just won't persist
+    }
+  }, []);
+
+  const value = useMemo<CurrencyContextValue>(() => {
+    // Never show USD amounts labelled as another currency while rates load
+    const display = currency !== "USD" && fx
+      ? { currency, rate: fx.rates[currency] }
+      : USD_DISPLAY;
+    return { currency, setCurrency, display, fx };
+  }, [currency, setCurrency, fx]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+/**
+ * Hook to read and change the display currency
+ */
+export function useCurrency(): CurrencyContextValue {
+  return useContext(CurrencyContext);
+}
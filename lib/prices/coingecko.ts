@@ -0,0 +1,110 @@
+/**
+ * CoinGecko Price Provider
+ *
+ * Looks tokens up by contract address, then by the coin id resolved from the token
+ * registry, CoinGecko's contract index or the symbol. Batches use the simple price
+ * endpoints: one request for every resolved coin id, then one per chain by contract
+ * address for the rest.
+ */
+
+import {
+  fetchSimplePriceByIds,
+  fetchSimpleTokenPrices,
+  fetchTokenPriceByAddress,
+  fetchTokenPriceById,
+  type CoinGeckoSimplePrice,
+} from '../api/coingecko';
+import { resolveCoinGeckoId } from '../api/coingeckoIds';
+import type { PriceProvider, PriceQuote, PriceRequest } from './types';
+
+/**
+ * Build a quote from a simple price entry
+ * @returns The quote, or null if the entry has no price
+ */
+function toSimpleQuote(
+  request: PriceRequest,
+  entry: CoinGeckoSimplePrice[string] | undefined,
+  fetchedAt: number
+): PriceQuote | null {
+  if (!entry || !(entry.usd > 0)) {
+    return null;
+  }
+
+  const change = entry.usd_24h_change;
+  return {
+    chainId: request.chainId,
+    address: request.address,
+    symbol: request.symbol,
+    priceUSD: entry.usd,
+    change24hPercent: typeof change === 'number' && !isNaN(change) ? change : null,
+    marketCapUSD: entry.usd_market_cap && entry.usd_market_cap > 0 ? entry.usd_market_cap : null,
+    volume24hUSD: entry.usd_24h_vol && entry.usd_24h_vol > 0 ? entry.usd_24h_vol : null,
+    source: 'coingecko',
+    fetchedAt,
+  };
+}
+
+/**
+ * Create a provider backed by the CoinGecko coin endpoints
+ */
+export function createCoinGeckoPriceProvider(): PriceProvider {
+  return {
+    source: 'coingecko',
+    async getQuote(request: PriceRequest): Promise<PriceQuote | null> {
+      let data = await fetchTokenPriceByAddress(request.chainId, request.address);
+      if (!data) {
+        const coinId = await resolveCoinGeckoId(request);
+        data = coinId ? await fetchTokenPriceById(coinId) : null;
+      }
+
+      if (!data || !(data.current_price > 0)) {
+        return null;
+      }
+
+      const change = data.price_change_percentage_24h;
+      return {
+        chainId: request.chainId,
+        address: request.address,
+        symbol: data.symbol || request.symbol,
+        priceUSD: data.current_price,
+        change24hPercent: typeof change === 'number' && !isNaN(change) ? change : null,
+        marketCapUSD: data.market_cap > 0 ? data.market_cap : null,
+        volume24hUSD: data.total_volume > 0 ? data.total_volume : null,
+        source: 'coingecko',
+        fetchedAt: Date.now(),
+      };
+    },
+    async getQuotes(requests: PriceRequest[]): Promise<Array<PriceQuote | null>> {
+      const coinIds = await Promise.all(requests.map((request) => resolveCoinGeckoId(request)));
+      const byId = await fetchSimplePriceByIds(coinIds.filter((id): id is string => id !== null));
+      const fetchedAt = Date.now();
+      const quotes = requests.map((request, i) => {
+        const coinId = coinIds[i];
+        return coinId ? toSimpleQuote(request, byId?.[coinId], fetchedAt) : null;
+      });
+
+      // Tokens CoinGecko's list doesn't know by id may still be priced by contract
+      const missingByChain = new Map<number, number[]>();
+      quotes.forEach((quote, i) => {
+        if (!quote) {
+          const indexes = missingByChain.get(requests[i].chainId) ?? [];
+          indexes.push(i);
+          missingByChain.set(requests[i].chainId, indexes);
+        }
+      });
+
+      await Promise.all(
+        Array.from(missingByChain.entries()).map(async ([chainId, indexes]) => {
+          // Keys are lowercased contract addresses, except on Solana
+          const toKey = (address: string) => (chainId === 101 ? address : address.toLowerCase());
+          const byAddress = await fetchSimpleTokenPrices(chainId, indexes.map((i) => toKey(requests[i].address)));
+          for (const i of indexes) {
+            quotes[i] = toSimpleQuote(requests[i], byAddress?.[toKey(requests[i].address)], fetchedAt);
+          }
+        })
+      );
+
+      return quotes;
+    },
+  };
+}
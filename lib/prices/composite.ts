@@ -0,0 +1,175 @@
+/**
+ * Composite Price Provider
+ *
+ * Asks price sources in order and returns the first quote, recording which source
+ * answered and which were skipped. A source that throws is logged and treated like
+ * one without a price, so one upstream outage doesn't blank prices.
+ *
+ * The order defaults per token kind and can be overridden with PRICE_PROVIDER_ORDER
+ * and STOCK_PRICE_PROVIDER_ORDER (comma-separated source names). Only tokens whose
+ * address is a known stock get the stock order; a stock-like symbol alone doesn't count.
+ */
+
+import { createCoinGeckoPriceProvider } from './coingecko';
+import { createTwapPriceProvider } from './twap';
+import type { PriceProvider, PriceQuote, PriceRequest, PriceSource } from './types';
+import { createUniswapPriceProvider } from './uniswap';
+import { resolveStockTicker } from '../utils/token';
+import { createYahooPriceProvider } from './yahoo';
+
+/**
+ * How a token was recognised, which decides its default source order
+ */
+export type PriceTokenKind = 'crypto' | 'stock';
+
+/**
+ * A provider that falls back across sources
+ */
+export interface CompositePriceProvider {
+  sources: PriceSource[]; // In the order they are tried
+  getQuote(request: PriceRequest): Promise<PriceQuote | null>;
+  getQuotes(requests: PriceRequest[]): Promise<Array<PriceQuote | null>>; // In request order
+}
+
+/**
+ * Every known source
+ */
+export const PRICE_SOURCES: PriceSource[] = ['coingecko', 'yahoo', 'uniswap', 'twap'];
+
+/**
+ * Default order for crypto tokens: aggregated market data first, pool prices as the fallback,
+ * and on-chain TWAPs last since they cost an RPC read per token
+ */
+const DEFAULT_PRICE_SOURCES: PriceSource[] = ['coingecko', 'uniswap', 'twap'];
+
+/**
+ * Default order for tokenized stocks: the underlying's market price first
+ */
+const DEFAULT_STOCK_PRICE_SOURCES: PriceSource[] = ['yahoo', 'coingecko', 'uniswap', 'twap'];
+
+const providers = new Map<PriceSource, PriceProvider>();
+
+/**
+ * Get the shared provider for a source
+ */
+function getSourceProvider(source: PriceSource): PriceProvider {
+  let provider = providers.get(source);
+  if (!provider) {
+    provider =
+      source === 'coingecko' ? createCoinGeckoPriceProvider()
+      : source === 'yahoo' ? createYahooPriceProvider()
+      : source === 'uniswap' ? createUniswapPriceProvider()
+      : createTwapPriceProvider();
+    providers.set(source, provider);
+  }
+  return provider;
+}
+
+/**
+ * Parse a comma-separated source list, dropping unknown names and duplicates
+ * @param value - e.g. "uniswap,coingecko"
+ * @returns The sources in order, empty if none are valid
+ */
+export function parsePriceSources(value: string | null | undefined): PriceSource[] {
+  if (!value) {
+    return [];
+  }
+  const sources = value
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is PriceSource => (PRICE_SOURCES as string[]).includes(name));
+  return Array.from(new Set(sources));
+}
+
+/**
+ * Classify a token for its default source order: a stock only when its address is
+ * a configured tokenized stock or a listed Ondo token on the chain
+ * @param chainId - Chain the token is on
+ * @param address - Token address
+ */
+export function getPriceTokenKind(chainId: number, address: string): PriceTokenKind {
+  return resolveStockTicker(chainId, address) ? 'stock' : 'crypto';
+}
+
+/**
+ * Get the configured source order
+ * @param kind - How the token was recognised
+ */
+export function getDefaultPriceSources(kind: PriceTokenKind): PriceSource[] {
+  const isStock = kind === 'stock';
+  const configured = parsePriceSources(
+    isStock ? process.env.STOCK_PRICE_PROVIDER_ORDER : process.env.PRICE_PROVIDER_ORDER
+  );
+  return configured.length > 0 ? configured : isStock ? DEFAULT_STOCK_PRICE_SOURCES : DEFAULT_PRICE_SOURCES;
+}
+
+/**
+ * Combine providers into one that tries each in order
+ * @param sourceProviders - Providers in fallback order
+ */
+export function createCompositePriceProvider(sourceProviders: PriceProvider[]): CompositePriceProvider {
+  return {
+    sources: sourceProviders.map((provider) => provider.source),
+    async getQuote(request: PriceRequest): Promise<PriceQuote | null> {
+      const skipped: PriceSource[] = [];
+
+      for (const provider of sourceProviders) {
+        try {
+          const quote = await provider.getQuote(request);
+          if (quote) {
+            return skipped.length > 0 ? { ...quote, fallbackFrom: skipped } : quote;
+          }
+        } catch (error) {
+          console.warn(`Price source ${provider.source} failed for ${request.chainId}:${request.address}:`, error);
+        }
+        skipped.push(provider.source);
+      }
+
+      return null;
+    },
+    async getQuotes(requests: PriceRequest[]): Promise<Array<PriceQuote | null>> {
+      const quotes: Array<PriceQuote | null> = requests.map(() => null);
+      const skipped: PriceSource[][] = requests.map(() => []);
+      let pending = requests.map((_, i) => i);
+
+      // Each source gets one batch: the tokens every earlier source left unpriced
+      for (const provider of sourceProviders) {
+        if (pending.length === 0) {
+          break;
+        }
+
+        let results: Array<PriceQuote | null>;
+        try {
+          results = await provider.getQuotes(pending.map((i) => requests[i]));
+        } catch (error) {
+          console.warn(`Price source ${provider.source} failed for ${pending.length} tokens:`, error);
+          results = pending.map(() => null);
+        }
+
+        const stillPending: number[] = [];
+        pending.forEach((requestIndex, i) => {
+          const quote = results[i];
+          if (quote) {
+            quotes[requestIndex] = skipped[requestIndex].length > 0
+              ? { ...quote, fallbackFrom: skipped[requestIndex] }
+              : quote;
+          } else {
+            skipped[requestIndex].push(provider.source);
+            stillPending.push(requestIndex);
+          }
+        });
+        pending = stillPending;
+      }
+
+      return quotes;
+    },
+  };
+}
+
+/**
+ * Get a provider that falls back across the given sources
+ * @param sources - Sources in fallback order (default: the configured crypto order)
+ */
+export function getPriceProvider(sources: PriceSource[] = getDefaultPriceSources('crypto')): CompositePriceProvider {
+  return createCompositePriceProvider(sources.map(getSourceProvider));
+}
@@ -0,0 +1,75 @@
+/**
+ * FX Rates Module
+ *
+ * USD exchange rates for the display currencies, from the ECB reference rates
+ * published through the Frankfurter API (no key needed, updated once per working day).
+ * The bundled fixture rates stand in when the upstream is unreachable, so prices
+ * never fail to render.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DISPLAY_CURRENCIES, type DisplayCurrency } from '../utils/currency';
+
+/**
+ * Where a rate set came from
+ */
+export type FxRatesSource = 'ecb' | 'fixture';
+
+/**
+ * Units of each display currency per USD
+ */
+export interface FxRates {
+  base: 'USD';
+  rates: Record<DisplayCurrency, number>;
+  date: string; // Reference date of the rates, YYYY-MM-DD
+  source: FxRatesSource;
+}
+
+const FRANKFURTER_URL = 'https://api.frankfurter.app/latest';
+
+export const DEFAULT_FX_FIXTURE_FILE = path.join(process.cwd(), 'lib', 'prices', 'fixtures', 'fxRates.json');
+
+/**
+ * Fetch the latest USD rates from the Frankfurter API
+ * @throws Error if the request fails or a currency is missing
+ */
+export async function fetchFxRates(): Promise<FxRates> {
+  const quoteCurrencies = DISPLAY_CURRENCIES.filter((currency) => currency !== 'USD');
+  const response = await fetch(`${FRANKFURTER_URL}?from=USD&to=${quoteCurrencies.join(',')}`);
+
+  if (!response.ok) {
+    throw new Error(`FX API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return toFxRates(data, 'ecb');
+}
+
+/**
+ * Load the bundled fixture rates
+ * @param fixtureFile - JSON with `date` and `rates` (default: the bundled fixture)
+ */
+export function loadFixtureFxRates(fixtureFile: string = DEFAULT_FX_FIXTURE_FILE): FxRates {
+  return toFxRates(JSON.parse(fs.readFileSync(fixtureFile, 'utf-8')), 'fixture');
+}
+
+/**
+ * Validate an upstream or fixture rate set
+ * @throws Error if a display currency has no positive rate
+ */
+function toFxRates(data: any, source: FxRatesSource): FxRates {
+  const rates = { USD: 1 } as Record<DisplayCurrency, number>;
+  for (const currency of DISPLAY_CURRENCIES) {
+    if (currency === 'USD') {
+      continue;
+    }
+    const rate = Number(data?.rates?.[currency]);
+    if (!(rate > 0)) {
+      throw new Error(`FX rates are missing ${currency}`);
+    }
+    rates[currency] = rate;
+  }
+  return { base: 'USD', rates, date: String(data?.date || ''), source };
+}
+
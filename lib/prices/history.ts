@@ -0,0 +1,284 @@
+/**
+ * Price History Module
+ *
+ * Historical USD price series for crypto tokens as OHLC candles, in the same point
+ * shape as the stock-data route's historicalData so charts can treat both alike.
+ *
+ * The provider is chosen with PRICE_HISTORY_PROVIDER:
+ *   coingecko - CoinGecko market_chart (default)
+ *   fixture   - series generated from lib/prices/fixtures/priceHistory.json, for offline use
+ *
+ * Candles are built from the provider's point series: open/close are the first and
+ * last point in the period, high/low the extremes, and volume the rolling 24h USD
+ * volume at the period's last point. market_chart returns 5-minute points for 1 day,
+ * hourly points for 2-90 days and daily points beyond, so a candle only has a real
+ * range when several points fall in its period: hourly candles for 1D and daily
+ * candles up to 90D. Hourly candles over 2-90 days and daily candles over 1Y have a
+ * single point each, so they are flat (open = high = low = close).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fetchMarketChart, type CoinGeckoMarketChart } from '../api/coingecko';
+import { resolveCoinGeckoId } from '../api/coingeckoIds';
+import { getTokenByAddressForChain } from '../utils/token';
+import type { PriceRequest } from './types';
+
+/**
+ * One candle; shared with the stock-data route's historicalData
+ */
+export interface OhlcPoint {
+  date: string; // Period start, ISO 8601 (UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * How far back a series goes
+ */
+export type PriceHistoryRange = '1D' | '7D' | '30D' | '90D' | '1Y';
+
+/**
+ * Candle size
+ */
+export type PriceHistoryInterval = 'day' | 'hour';
+
+/**
+ * Where a series came from
+ */
+export type PriceHistorySource = 'coingecko' | 'fixture';
+
+/**
+ * Days covered by each range
+ */
+export const PRICE_HISTORY_RANGE_DAYS: Record<PriceHistoryRange, number> = {
+  '1D': 1,
+  '7D': 7,
+  '30D': 30,
+  '90D': 90,
+  '1Y': 365,
+};
+
+/**
+ * Longest range each interval supports; CoinGecko has no hourly points beyond 90 days
+ */
+export const MAX_PRICE_HISTORY_DAYS: Record<PriceHistoryInterval, number> = {
+  day: 365,
+  hour: 90,
+};
+
+/**
+ * A source of price history
+ */
+export interface PriceHistoryProvider {
+  source: PriceHistorySource;
+  /**
+   * Get a token's candles over a range
+   * @returns Candles ordered by date ascending, or null if the source doesn't know the token
+   * @throws Error if the upstream request fails
+   */
+  getHistory(request: PriceRequest, range: PriceHistoryRange, interval: PriceHistoryInterval): Promise<OhlcPoint[] | null>;
+}
+
+/**
+ * A token the fixture provider can serve
+ */
+interface PriceHistoryFixture {
+  chainId: number;
+  address: string; // Lowercased
+  symbol: string;
+  priceUSD: number; // Price at the end of the series
+  dailyVolatilityPercent: number; // Standard deviation of daily returns
+  volume24hUSD: number;
+}
+
+export const DEFAULT_PRICE_HISTORY_FIXTURES_FILE = path.join(process.cwd(), 'lib', 'prices', 'fixtures', 'priceHistory.json');
+
+const INTERVAL_SECONDS: Record<PriceHistoryInterval, number> = {
+  day: 24 * 60 * 60,
+  hour: 60 * 60,
+};
+
+/**
+ * Whether a range and interval combination is supported
+ */
+export function isPriceHistoryRangeSupported(range: PriceHistoryRange, interval: PriceHistoryInterval): boolean {
+  return PRICE_HISTORY_RANGE_DAYS[range] <= MAX_PRICE_HISTORY_DAYS[interval];
+}
+
+/**
+ * Default candle size for a range: hourly for 1D, the only range with sub-hourly points
+ * upstream, daily otherwise
+ */
+export function getDefaultPriceHistoryInterval(range: PriceHistoryRange): PriceHistoryInterval {
+  return PRICE_HISTORY_RANGE_DAYS[range] <= 1 ? 'hour' : 'day';
+}
+
+/**
+ * Bucket a market_chart series into candles
+ * @param chart - Price and volume points
+ * @param interval - Candle size
+ * @param fromSeconds - Drop points before this Unix time
+ */
+export function toOhlcPoints(
+  chart: Pick<CoinGeckoMarketChart, 'prices' | 'total_volumes'>,
+  interval: PriceHistoryInterval,
+  fromSeconds = 0
+): OhlcPoint[] {
+  const bucketSeconds = INTERVAL_SECONDS[interval];
+  const volumes = [...chart.total_volumes].sort((a, b) => a[0] - b[0]);
+  const candles = new Map<number, OhlcPoint & { lastTimestamp: number }>();
+
+  for (const [timestampMs, price] of [...chart.prices].sort((a, b) => a[0] - b[0])) {
+    const timestamp = Math.floor(timestampMs / 1000);
+    if (timestamp < fromSeconds || !(price > 0)) {
+      continue;
+    }
+
+    const bucket = Math.floor(timestamp / bucketSeconds) * bucketSeconds;
+    const candle = candles.get(bucket);
+    if (!candle) {
+      candles.set(bucket, {
+        date: new Date(bucket * 1000).toISOString(),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 0,
+        lastTimestamp: timestampMs,
+      });
+    } else {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.lastTimestamp = timestampMs;
+    }
+  }
+
+  // Volume at each candle's last point: the latest volume sample at or before it
+  let volumeIndex = 0;
+  return Array.from(candles.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, { lastTimestamp, ...candle }]) => {
+      while (volumeIndex + 1 < volumes.length && volumes[volumeIndex + 1][0] <= lastTimestamp) {
+        volumeIndex++;
+      }
+      const volume = volumes[volumeIndex];
+      return { ...candle, volume: volume && volume[0] <= lastTimestamp ? volume[1] : 0 };
+    });
+}
+
+/**
+ * Create a provider backed by CoinGecko market charts
+ */
+export function createCoinGeckoHistoryProvider(): PriceHistoryProvider {
+  return {
+    source: 'coingecko',
+    async getHistory(request, range, interval) {
+      const coinId = await resolveCoinGeckoId(request);
+      if (!coinId) {
+        return null;
+      }
+
+      const days = PRICE_HISTORY_RANGE_DAYS[range];
+      const chart = await fetchMarketChart(coinId, days);
+      if (!chart) {
+        return null;
+      }
+      return toOhlcPoints(chart, interval, Math.floor(Date.now() / 1000) - days * 24 * 60 * 60);
+    },
+  };
+}
+
+/**
+ * Deterministic [0, 1) generator, so a fixture token always gets the same series
+ */
+function createSeededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate an hourly market_chart for a fixture token: a seeded random walk ending at its price
+ */
+function generateFixtureChart(fixture: PriceHistoryFixture, days: number): CoinGeckoMarketChart {
+  const random = createSeededRandom(`${fixture.chainId}:${fixture.address}`);
+  const hours = days * 24;
+  const hourlyVolatility = fixture.dailyVolatilityPercent / 100 / Math.sqrt(24);
+  const endHour = Math.floor(Date.now() / 1000 / 3600) * 3600;
+
+  // Walk backwards from the current price so the series ends where the fixture says
+  const prices: Array<[number, number]> = [];
+  const volumes: Array<[number, number]> = [];
+  let logPrice = Math.log(fixture.priceUSD);
+  for (let i = 0; i <= hours; i++) {
+    const timestampMs = (endHour - i * 3600) * 1000;
+    prices.push([timestampMs, Math.exp(logPrice)]);
+    volumes.push([timestampMs, fixture.volume24hUSD * (0.75 + random() / 2)]);
+    // Sum of uniforms approximates a normal step
+    const step = (random() + random() + random() - 1.5) * 2;
+    logPrice -= step * hourlyVolatility;
+  }
+
+  return { prices: prices.reverse(), market_caps: [], total_volumes: volumes.reverse() };
+}
+
+/**
+ * Create a provider that generates series from fixtures, for offline use
+ * @param fixturesFile - JSON array of fixture tokens (default: the bundled fixtures)
+ */
+export function createFixtureHistoryProvider(fixturesFile: string = DEFAULT_PRICE_HISTORY_FIXTURES_FILE): PriceHistoryProvider {
+  let fixtures: PriceHistoryFixture[] | null = null;
+
+  return {
+    source: 'fixture',
+    async getHistory(request, range, interval) {
+      if (!fixtures) {
+        fixtures = JSON.parse(fs.readFileSync(fixturesFile, 'utf-8')) as PriceHistoryFixture[];
+      }
+
+      // Like the CoinGecko provider, only a config token's own symbol stands in for its address
+      const address = request.address.toLowerCase();
+      const symbol = getTokenByAddressForChain(request.chainId, request.address)?.symbol.toUpperCase();
+      const fixture = fixtures.find((candidate) => candidate.chainId === request.chainId && candidate.address === address)
+        ?? (symbol ? fixtures.find((candidate) => candidate.symbol.toUpperCase() === symbol) : undefined);
+      if (!fixture) {
+        return null;
+      }
+
+      const days = PRICE_HISTORY_RANGE_DAYS[range];
+      return toOhlcPoints(generateFixtureChart(fixture, days), interval);
+    },
+  };
+}
+
+let provider: PriceHistoryProvider | null = null;
+
+/**
+ * The provider configured by the environment, created on first use
+ */
+export function getPriceHistoryProvider(): PriceHistoryProvider {
+  if (!provider) {
+    const kind = (process.env.PRICE_HISTORY_PROVIDER || 'coingecko').toLowerCase();
+    if (kind === 'fixture') {
+      provider = createFixtureHistoryProvider();
+    } else {
+      if (kind !== 'coingecko') {
+        console.warn(`Unknown PRICE_HISTORY_PROVIDER "${kind}"; using coingecko`);
+      }
+      provider = createCoinGeckoHistoryProvider();
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,205 @@
+/**
+ * Tokenized Stock Premium Module
+ *
+ * Compares a tokenized stock's on-chain price with its underlying's market price
+ * from Yahoo Finance. A positive premium means the token trades above the stock.
+ * The ticker comes from the token's address (configured tokenized stocks and listed
+ * Ondo tokens), never from a symbol, so only those tokens are sampled.
+ *
+ * The on-chain price is the TWAP of the token's deepest stablecoin pool, or the
+ * pool's current mid-price when the chain's RPC can't be read. Every computed
+ * premium is appended to a per-token series in the server cache, at most one
+ * sample per PREMIUM_SAMPLE_INTERVAL_SECONDS and kept for PREMIUM_HISTORY_DAYS.
+ *
+ * Samples are claimed and appended atomically, so concurrent recorders don't drop
+ * each other's samples. The series is only shared and kept across restarts with
+ * SERVER_CACHE_BACKEND=filesystem or redis; the default memory backend keeps one
+ * series per server process, lost when it restarts.
+ */
+
+import { addServerCached, appendServerCachedList, getServerCachedList } from '../caching/serverCache';
+import { findStablecoinPool, getStablecoinPoolPriceUSD, getTwapWindowSeconds, observeAverageTick } from '../uniswap/twap';
+import { getPremiumHistoryCacheKey, getPremiumSampleSlotCacheKey } from '../utils/cache';
+import type { PriceRequest } from './types';
+import { resolveStockTicker } from '../utils/token';
+import { createYahooPriceProvider } from './yahoo';
+
+/**
+ * How the on-chain price was read
+ */
+export type OnChainPriceMethod = 'twap' | 'mid';
+
+/**
+ * One point of a token's premium series
+ */
+export interface PremiumSample {
+  timestamp: number; // Unix seconds
+  onChainPriceUSD: number;
+  referencePriceUSD: number; // The underlying's Yahoo Finance price
+  premiumPercent: number; // (onChain / reference - 1) * 100; negative is a discount
+}
+
+/**
+ * A tokenized stock's current premium over its underlying
+ */
+export interface TokenPremium extends PremiumSample {
+  chainId: number;
+  address: string; // As requested
+  ticker: string;
+  method: OnChainPriceMethod;
+  poolAddress: string;
+  windowSeconds: number | null; // TWAP window, null for the mid-price
+}
+
+/**
+ * Minimum spacing between stored samples
+ */
+export const PREMIUM_SAMPLE_INTERVAL_SECONDS = 5 * 60;
+
+/**
+ * How long samples are kept
+ */
+export const PREMIUM_HISTORY_DAYS = 30;
+
+const PREMIUM_HISTORY_SECONDS = PREMIUM_HISTORY_DAYS * 24 * 60 * 60;
+const PREMIUM_HISTORY_MAX_SAMPLES = Math.ceil(PREMIUM_HISTORY_SECONDS / PREMIUM_SAMPLE_INTERVAL_SECONDS);
+
+/**
+ * On-chain USD price of a token from its deepest stablecoin pool
+ * @returns The price, or null if the token has no stablecoin pool
+ */
+async function getOnChainPrice(
+  chainId: number,
+  address: string
+): Promise<{ priceUSD: number; method: OnChainPriceMethod; poolAddress: string; windowSeconds: number | null } | null> {
+  const normalizedAddress = address.toLowerCase();
+  const pool = await findStablecoinPool(chainId, normalizedAddress);
+  if (!pool || pool.tick === null) {
+    return null;
+  }
+
+  const windowSeconds = getTwapWindowSeconds();
+  try {
+    const averageTick = await observeAverageTick(chainId, pool.poolAddress, windowSeconds);
+    return {
+      priceUSD: getStablecoinPoolPriceUSD(pool, normalizedAddress, averageTick),
+      method: 'twap',
+      poolAddress: pool.poolAddress,
+      windowSeconds,
+    };
+  } catch (error) {
+    console.warn(`TWAP read failed for pool ${chainId}:${pool.poolAddress}; using the mid-price:`, error);
+    return {
+      priceUSD: getStablecoinPoolPriceUSD(pool, normalizedAddress, pool.tick),
+      method: 'mid',
+      poolAddress: pool.poolAddress,
+      windowSeconds: null,
+    };
+  }
+}
+
+/**
+ * Compute the premium for several tokens; the Yahoo reference prices are fetched in one request
+ * @param requests - Tokens to compare; tokens whose address isn't a known stock get null without upstream calls
+ * @returns Premiums in request order, null where either price is missing
+ * @throws Error if the Yahoo request fails
+ */
+export async function getTokenPremiums(requests: PriceRequest[]): Promise<Array<TokenPremium | null>> {
+  const tickers = requests.map((request) => resolveStockTicker(request.chainId, request.address));
+  const stockRequests = requests.filter((_, i) => tickers[i] !== null);
+  if (stockRequests.length === 0) {
+    return requests.map(() => null);
+  }
+
+  const [referenceQuotes, onChainPrices] = await Promise.all([
+    createYahooPriceProvider().getQuotes(stockRequests),
+    Promise.all(
+      stockRequests.map((request) =>
+        getOnChainPrice(request.chainId, request.address).catch((error) => {
+          console.warn(`On-chain price failed for ${request.chainId}:${request.address}:`, error);
+          return null;
+        })
+      )
+    ),
+  ]);
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  let stockIndex = 0;
+  const premiums = requests.map((request, i): TokenPremium | null => {
+    const ticker = tickers[i];
+    if (!ticker) {
+      return null;
+    }
+    const reference = referenceQuotes[stockIndex];
+    const onChain = onChainPrices[stockIndex];
+    stockIndex++;
+    if (!reference || !onChain || !(onChain.priceUSD > 0) || !isFinite(onChain.priceUSD)) {
+      return null;
+    }
+
+    return {
+      chainId: request.chainId,
+      address: request.address,
+      ticker,
+      method: onChain.method,
+      poolAddress: onChain.poolAddress,
+      windowSeconds: onChain.windowSeconds,
+      timestamp,
+      onChainPriceUSD: onChain.priceUSD,
+      referencePriceUSD: reference.priceUSD,
+      premiumPercent: (onChain.priceUSD / reference.priceUSD - 1) * 100,
+    };
+  });
+
+  await Promise.all(
+    premiums.map((premium) => (premium ? recordPremiumSample(premium.chainId, premium.address, premium) : undefined))
+  );
+  return premiums;
+}
+
+/**
+ * Compute a token's premium
+ * @returns The premium, or null if the token isn't a tokenized stock or either price is missing
+ * @throws Error if the Yahoo request fails
+ */
+export async function getTokenPremium(request: PriceRequest): Promise<TokenPremium | null> {
+  const [premium] = await getTokenPremiums([request]);
+  return premium;
+}
+
+/**
+ * Get a token's stored premium series
+ * @param sinceSeconds - Only samples at or after this Unix time
+ * @returns Samples in time order
+ */
+export async function getPremiumHistory(chainId: number, address: string, sinceSeconds = 0): Promise<PremiumSample[]> {
+  const samples = await getServerCachedList<PremiumSample>(getPremiumHistoryCacheKey(chainId, address));
+  const oldest = Math.max(sinceSeconds, Math.floor(Date.now() / 1000) - PREMIUM_HISTORY_SECONDS);
+  // Concurrent recorders may append slightly out of order
+  return samples.filter((sample) => sample.timestamp >= oldest).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Append a sample to a token's series, unless one was stored under the sample interval ago
+ * @returns Whether the sample was stored
+ */
+export async function recordPremiumSample(chainId: number, address: string, sample: PremiumSample): Promise<boolean> {
+  // Only the recorder that claims the interval's slot appends
+  const claimed = await addServerCached(
+    getPremiumSampleSlotCacheKey(chainId, address),
+    sample.timestamp,
+    PREMIUM_SAMPLE_INTERVAL_SECONDS
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  const { timestamp, onChainPriceUSD, referencePriceUSD, premiumPercent } = sample;
+  await appendServerCachedList<PremiumSample>(
+    getPremiumHistoryCacheKey(chainId, address),
+    { timestamp, onChainPriceUSD, referencePriceUSD, premiumPercent },
+    PREMIUM_HISTORY_SECONDS,
+    PREMIUM_HISTORY_MAX_SAMPLES
+  );
+  return true;
+}
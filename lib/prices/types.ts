@@ -0,0 +1,55 @@
+/**
+ * Price Provider Types
+ *
+ * Every price source (CoinGecko, Yahoo Finance, Uniswap pools, on-chain TWAPs) answers with the same
+ * normalized PriceQuote, so callers don't depend on any one upstream's response shape.
+ */
+
+/**
+ * Upstream a quote came from
+ */
+export type PriceSource = 'coingecko' | 'yahoo' | 'uniswap' | 'twap';
+
+/**
+ * Token to price
+ */
+export interface PriceRequest {
+  chainId: number;
+  address: string;
+  symbol?: string; // Used by sources that look tokens up by symbol or ticker
+}
+
+/**
+ * A token's USD price from a single source
+ */
+export interface PriceQuote {
+  chainId: number;
+  address: string; // As requested
+  symbol?: string;
+  priceUSD: number;
+  change24hPercent: number | null; // Null when the source has no previous close
+  marketCapUSD: number | null;
+  volume24hUSD: number | null;
+  source: PriceSource;
+  fetchedAt: number; // Unix ms
+  fallbackFrom?: PriceSource[]; // Sources tried first that failed or had no price, set by the composite provider
+}
+
+/**
+ * A source of token prices
+ */
+export interface PriceProvider {
+  source: PriceSource;
+  /**
+   * Quote a token
+   * @returns The quote, or null if the source has no price for the token
+   * @throws Error if the upstream request fails
+   */
+  getQuote(request: PriceRequest): Promise<PriceQuote | null>;
+  /**
+   * Quote several tokens, batching upstream requests
+   * @returns Quotes in request order, null where the source has no price
+   * @throws Error if the upstream requests fail
+   */
+  getQuotes(requests: PriceRequest[]): Promise<Array<PriceQuote | null>>;
+}
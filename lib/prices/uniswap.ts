@@ -0,0 +1,161 @@
+/**
+ * Uniswap Price Provider
+ *
+ * Prices tokens from the v3 subgraph: derivedETH (the token's price in ETH, from its
+ * deepest pools) times the bundle's ETH price. The 24h change compares against the
+ * previous day's close from tokenDayData. Batches query each chain once.
+ */
+
+import type { z } from 'zod';
+import { queryUniswapV3Subgraph } from '../uniswap/client';
+import { META_SELECTION, type GraphQLMeta } from '../uniswap/meta';
+import { tokenPriceRowSchema, validateRows } from '../uniswap/schemas';
+import { isChainSupported } from '../uniswap/subgraphs';
+import type { PriceProvider, PriceQuote, PriceRequest } from './types';
+
+/**
+ * GraphQL response structure for the token price query; the token is validated with tokenPriceRowSchema
+ */
+interface TokenPriceResponse {
+  token?: unknown;
+  tokens?: unknown[];
+  bundle?: { ethPriceUSD?: string | null } | null;
+  _meta?: GraphQLMeta;
+}
+
+/**
+ * Fields selected for each priced token
+ */
+const TOKEN_PRICE_FIELDS = `
+      id
+      symbol
+      derivedETH
+      tokenDayData(
+        orderBy: date
+        orderDirection: desc
+        first: 2
+      ) {
+        date
+        priceUSD
+      }
+`;
+
+/**
+ * GraphQL query for a token's ETH price, its latest day closes and the ETH/USD price
+ */
+const TOKEN_PRICE_QUERY = `
+  query TokenPrice($address: ID!) {
+    token(id: $address) {${TOKEN_PRICE_FIELDS}    }
+    bundle(id: "1") {
+      ethPriceUSD
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for several tokens' prices on one chain
+ */
+const TOKEN_PRICES_QUERY = `
+  query TokenPrices($addresses: [ID!]!, $first: Int!) {
+    tokens(where: { id_in: $addresses }, first: $first) {${TOKEN_PRICE_FIELDS}    }
+    bundle(id: "1") {
+      ethPriceUSD
+    }${META_SELECTION}  }
+`;
+
+/**
+ * Build a quote from a validated token row
+ * @returns The quote, or null if the token has no ETH price
+ */
+function toUniswapQuote(
+  request: PriceRequest,
+  token: z.infer<typeof tokenPriceRowSchema> | undefined,
+  ethPriceUSD: number,
+  fetchedAt: number
+): PriceQuote | null {
+  const priceUSD = parseFloat(token?.derivedETH || '0') * ethPriceUSD;
+  if (!token || !(priceUSD > 0)) {
+    return null;
+  }
+
+  // The latest day is still open, so the previous day's close is the 24h reference
+  const previousClose = parseFloat(token.tokenDayData?.[1]?.priceUSD || '0');
+  return {
+    chainId: request.chainId,
+    address: request.address,
+    symbol: token.symbol || request.symbol,
+    priceUSD,
+    change24hPercent: previousClose > 0 ? ((priceUSD - previousClose) / previousClose) * 100 : null,
+    marketCapUSD: null,
+    volume24hUSD: null,
+    source: 'uniswap',
+    fetchedAt,
+  };
+}
+
+/**
+ * Create a provider backed by Uniswap v3 pool prices
+ */
+export function createUniswapPriceProvider(): PriceProvider {
+  return {
+    source: 'uniswap',
+    async getQuote(request: PriceRequest): Promise<PriceQuote | null> {
+      if (!isChainSupported(request.chainId)) {
+        return null;
+      }
+
+      const response = await queryUniswapV3Subgraph<TokenPriceResponse>(
+        request.chainId,
+        TOKEN_PRICE_QUERY,
+        { address: request.address.toLowerCase() }
+      );
+
+      const { rows } = validateRows(
+        tokenPriceRowSchema,
+        response.token ? [response.token] : [],
+        { chainId: request.chainId, collection: 'token' }
+      );
+      const ethPriceUSD = parseFloat(response.bundle?.ethPriceUSD || '0');
+      return toUniswapQuote(request, rows[0], ethPriceUSD, Date.now());
+    },
+    async getQuotes(requests: PriceRequest[]): Promise<Array<PriceQuote | null>> {
+      const quotes: Array<PriceQuote | null> = requests.map(() => null);
+
+      const indexesByChain = new Map<number, number[]>();
+      requests.forEach((request, i) => {
+        if (isChainSupported(request.chainId)) {
+          const indexes = indexesByChain.get(request.chainId) ?? [];
+          indexes.push(i);
+          indexesByChain.set(request.chainId, indexes);
+        }
+      });
+
+      await Promise.all(
+        Array.from(indexesByChain.entries()).map(async ([chainId, indexes]) => {
+          const addresses = Array.from(new Set(indexes.map((i) => requests[i].address.toLowerCase())));
+          let response: TokenPriceResponse;
+          try {
+            response = await queryUniswapV3Subgraph<TokenPriceResponse>(
+              chainId,
+              TOKEN_PRICES_QUERY,
+              { addresses, first: addresses.length }
+            );
+          } catch (error) {
+            // One chain's subgraph being down shouldn't drop prices on the others
+            console.warn(`Uniswap price query failed on chain ${chainId}:`, error);
+            return;
+          }
+
+          const { rows } = validateRows(tokenPriceRowSchema, response.tokens ?? [], { chainId, collection: 'tokens' });
+          const tokensByAddress = new Map(rows.map((row) => [row.id.toLowerCase(), row]));
+          const ethPriceUSD = parseFloat(response.bundle?.ethPriceUSD || '0');
+          const fetchedAt = Date.now();
+          for (const i of indexes) {
+            quotes[i] = toUniswapQuote(requests[i], tokensByAddress.get(requests[i].address.toLowerCase()), ethPriceUSD, fetchedAt);
+          }
+        })
+      );
+
+      return quotes;
+    },
+  };
+}
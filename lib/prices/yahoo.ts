@@ -0,0 +1,90 @@
+/**
+ * Yahoo Finance Price Provider
+ *
+ * Prices tokenized stocks by their underlying ticker. Server-only: yahoo-finance2
+ * is loaded on first use so it stays out of client and edge bundles.
+ */
+
+import { resolveStockTicker } from '../utils/token';
+import type { PriceProvider, PriceQuote, PriceRequest } from './types';
+
+let yahooFinancePromise: Promise<any> | null = null;
+
+/**
+ * Load the yahoo-finance2 client
+ * @returns The client (the module's default export)
+ * @throws Error if the package can't be imported
+ */
+export function loadYahooFinance(): Promise<any> {
+  if (!yahooFinancePromise) {
+    yahooFinancePromise = import('yahoo-finance2')
+      .then((yahooFinance: any) => yahooFinance.default || yahooFinance)
+      .catch((error) => {
+        // Allow a later call to retry the import
+        yahooFinancePromise = null;
+        throw error;
+      });
+  }
+  return yahooFinancePromise;
+}
+
+/**
+ * Build a quote from a Yahoo Finance quote
+ * @returns The quote, or null if Yahoo has no price
+ */
+function toYahooQuote(request: PriceRequest, ticker: string, quote: any, fetchedAt: number): PriceQuote | null {
+  const price = quote?.regularMarketPrice || quote?.price || 0;
+  if (!(price > 0)) {
+    return null;
+  }
+
+  const change = quote.regularMarketChangePercent ?? quote.changePercent;
+  const volume = quote.regularMarketVolume || quote.volume || 0;
+  return {
+    chainId: request.chainId,
+    address: request.address,
+    symbol: request.symbol || ticker,
+    priceUSD: price,
+    change24hPercent: typeof change === 'number' && !isNaN(change) ? change : null,
+    marketCapUSD: quote.marketCap > 0 ? quote.marketCap : null,
+    volume24hUSD: volume > 0 ? volume * price : null, // Yahoo reports share volume
+    source: 'yahoo',
+    fetchedAt,
+  };
+}
+
+/**
+ * Create a provider backed by Yahoo Finance quotes
+ */
+export function createYahooPriceProvider(): PriceProvider {
+  return {
+    source: 'yahoo',
+    async getQuote(request: PriceRequest): Promise<PriceQuote | null> {
+      const ticker = resolveStockTicker(request.chainId, request.address);
+      if (!ticker) {
+        return null;
+      }
+
+      const yf = await loadYahooFinance();
+      return toYahooQuote(request, ticker, await yf.quote(ticker), Date.now());
+    },
+    async getQuotes(requests: PriceRequest[]): Promise<Array<PriceQuote | null>> {
+      const tickers = requests.map((request) => resolveStockTicker(request.chainId, request.address));
+      const uniqueTickers = Array.from(new Set(tickers.filter((ticker): ticker is string => ticker !== null)));
+      if (uniqueTickers.length === 0) {
+        return requests.map(() => null);
+      }
+
+      // One request for every ticker; Yahoo omits unknown tickers from the result
+      const yf = await loadYahooFinance();
+      const results: any[] = await yf.quote(uniqueTickers, { return: 'array' });
+      const quotesByTicker = new Map(results.map((quote) => [String(quote.symbol).toUpperCase(), quote]));
+      const fetchedAt = Date.now();
+
+      return requests.map((request, i) => {
+        const ticker = tickers[i];
+        return ticker ? toYahooQuote(request, ticker, quotesByTicker.get(ticker.toUpperCase()), fetchedAt) : null;
+      });
+    },
+  };
+}
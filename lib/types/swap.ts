@@ -1,11 +1,22 @@
 export type OrderType = "market" | "limit";
 
+export interface SwapQuoteHop {
+  poolAddress: string;
+  feeTierBps: number;
+  tokenIn: { address: string; symbol: string };
+  tokenOut: { address: string; symbol: string };
+  amountIn: string;
+  amountOut: string;
+  priceImpact: string;
+}
+
 export interface SwapQuote {
   rate: string;
   outputAmount: string;
   source: "Custom Pool" | "Uniswap V3" | "Mock";
   priceImpact?: string;
   minimumReceived?: string;
+  route?: SwapQuoteHop[];
 }
 
 export interface LimitOrder {
@@ -1,10 +1,13 @@
 /**
- * GraphQL Client for Uniswap v3 Subgraphs
- * 
- * Provides a generic function to query Uniswap v3 subgraphs via The Graph Network.
+ * GraphQL Client for Uniswap Subgraphs
+ *
+ * Provides generic functions to query Uniswap v2, v3 and v4 subgraphs via The Graph Network.
+ * Transient failures (timeouts, 429, 5xx, flaky indexers) are retried with
+ * exponential backoff and jitter, identical in-flight queries share one request,
+ * and requests are limited per chain so a burst of searches can't trip rate limits.
  */
 
-import { getUniswapV3SubgraphEndpoint } from './subgraphs';
+import { getUniswapSubgraphEndpoint, type UniswapProtocol } from './subgraphs';
 
 /**
  * GraphQL response structure from The Graph Network
@@ -19,25 +22,195 @@ interface GraphQLResponse<T = any> {
 }
 
 /**
- * Query a Uniswap v3 subgraph with a GraphQL query and variables.
- * 
- * @param chainId - The chain ID to query
- * @param query - The GraphQL query string
- * @param variables - Optional variables for the query
- * @returns The data from the GraphQL response
- * @throws Error if the query fails or returns errors
+ * Failure category for subgraph errors
  */
-export async function queryUniswapV3Subgraph<T = any>(
+export type SubgraphErrorKind =
+  | 'timeout' // Request aborted after timeoutMs
+  | 'rate-limited' // HTTP 429 from the gateway
+  | 'http' // Other non-2xx HTTP status
+  | 'indexer' // GraphQL errors or missing data from the indexer
+  | 'network'; // fetch itself failed
+
+/**
+ * Base error for subgraph queries. Branch on `kind` or use instanceof on the subclasses.
+ */
+export class SubgraphError extends Error {
+  readonly kind: SubgraphErrorKind;
+  readonly chainId: number;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(
+    kind: SubgraphErrorKind,
+    chainId: number,
+    message: string,
+    options: { retryable: boolean; status?: number }
+  ) {
+    super(message);
+    this.name = 'SubgraphError';
+    this.kind = kind;
+    this.chainId = chainId;
+    this.retryable = options.retryable;
+    this.status = options.status;
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class SubgraphTimeoutError extends SubgraphError {
+  constructor(chainId: number, timeoutMs: number) {
+    super('timeout', chainId, `Request timeout after ${timeoutMs / 1000} seconds for chain ${chainId}`, {
+      retryable: true,
+    });
+    this.name = 'SubgraphTimeoutError';
+  }
+}
+
+/**
+ * The gateway rejected the request with HTTP 429
+ */
+export class SubgraphRateLimitError extends SubgraphError {
+  readonly retryAfterMs?: number; // From the Retry-After header, if present
+
+  constructor(chainId: number, retryAfterMs?: number) {
+    super('rate-limited', chainId, `Rate limited by subgraph gateway for chain ${chainId}`, {
+      retryable: true,
+      status: 429,
+    });
+    this.name = 'SubgraphRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The indexer answered but returned GraphQL errors or no data
+ */
+export class SubgraphIndexerError extends SubgraphError {
+  readonly messages: string[];
+
+  constructor(chainId: number, messages: string[], retryable: boolean) {
+    super('indexer', chainId, `Failed to query subgraph for chain ${chainId}: GraphQL errors: ${messages.join(', ')}`, {
+      retryable,
+    });
+    this.name = 'SubgraphIndexerError';
+    this.messages = messages;
+  }
+}
+
+/**
+ * Per-query retry and timeout options
+ */
+export interface SubgraphQueryOptions {
+  retries?: number; // Retries after the first attempt (default: 3)
+  timeoutMs?: number; // Per-attempt timeout (default: 10000)
+  baseDelayMs?: number; // First backoff delay before jitter (default: 250)
+  maxDelayMs?: number; // Backoff ceiling (default: 4000)
+}
+
+const DEFAULT_QUERY_OPTIONS: Required<SubgraphQueryOptions> = {
+  retries: 3,
+  timeoutMs: 10000,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+};
+
+/**
+ * Maximum concurrent requests per chain
+ */
+const MAX_CONCURRENT_REQUESTS_PER_CHAIN = 4;
+
+/**
+ * GraphQL error messages from the gateway that indicate a transient indexer problem
+ */
+const TRANSIENT_INDEXER_ERROR = /bad indexers|indexer not available|timed? ?out|temporarily unavailable|too many requests/i;
+
+/**
+ * In-flight queries keyed by chain, query and variables
+ */
+const inFlightQueries = new Map<string, Promise<unknown>>();
+
+/**
+ * Simple per-chain semaphore state
+ */
+interface ChainLimiter {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+const chainLimiters = new Map<number, ChainLimiter>();
+
+/**
+ * Run a task once a request slot for the chain is free.
+ * A finished task hands its slot straight to the next waiter, so a caller arriving in
+ * between can't take it and push the chain over the limit.
+ */
+async function withChainLimit<T>(chainId: number, task: () => Promise<T>): Promise<T> {
+  let limiter = chainLimiters.get(chainId);
+  if (!limiter) {
+    limiter = { active: 0, waiting: [] };
+    chainLimiters.set(chainId, limiter);
+  }
+
+  if (limiter.active >= MAX_CONCURRENT_REQUESTS_PER_CHAIN) {
+    // Resolved with the slot already counted as ours
+    await new Promise<void>((resolve) => limiter!.waiting.push(resolve));
+  } else {
+    limiter.active++;
+  }
+
+  try {
+    return await task();
+  } finally {
+    const next = limiter.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      limiter.active--;
+    }
+  }
+}
+
+/**
+ * Exponential backoff with full jitter, honouring Retry-After when the gateway sends it.
+ */
+function getRetryDelay(
+  attempt: number,
+  error: SubgraphError,
+  options: Required<SubgraphQueryOptions>
+): number {
+  if (error instanceof SubgraphRateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, options.maxDelayMs);
+  }
+  const ceiling = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Perform a single request, converting every failure into a SubgraphError.
+ */
+async function executeQuery<T>(
   chainId: number,
+  endpoint: string,
   query: string,
-  variables?: Record<string, any>
+  variables: Record<string, any>,
+  timeoutMs: number
 ): Promise<T> {
-  const endpoint = getUniswapV3SubgraphEndpoint(chainId);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
     const response = await fetch(endpoint, {
       method: 'POST',
       headers: {
@@ -45,54 +218,144 @@ export async function queryUniswapV3Subgraph<T = any>(
       },
       body: JSON.stringify({
         query,
-        variables: variables || {},
+        variables,
       }),
       signal: controller.signal,
     });
 
-    clearTimeout(timeoutId);
+    if (response.status === 429) {
+      throw new SubgraphRateLimitError(chainId, parseRetryAfter(response.headers.get('Retry-After')));
+    }
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      throw new SubgraphError('http', chainId, `Failed to query subgraph for chain ${chainId}: HTTP error! status: ${response.status}`, {
+        retryable: response.status >= 500,
+        status: response.status,
+      });
     }
 
     const result: GraphQLResponse<T> = await response.json();
 
     // Check for GraphQL errors
     if (result.errors && result.errors.length > 0) {
-      const errorMessages = result.errors.map((e) => e.message).join(', ');
-      throw new Error(`GraphQL errors: ${errorMessages}`);
+      const messages = result.errors.map((e) => e.message);
+      throw new SubgraphIndexerError(chainId, messages, messages.some((m) => TRANSIENT_INDEXER_ERROR.test(m)));
     }
 
     if (!result.data) {
-      throw new Error('GraphQL response contains no data');
+      throw new SubgraphIndexerError(chainId, ['GraphQL response contains no data'], true);
     }
 
     return result.data;
   } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new Error(`Request timeout after 10 seconds for chain ${chainId}`);
-      }
-      throw new Error(`Failed to query subgraph for chain ${chainId}: ${error.message}`);
+    if (error instanceof SubgraphError) {
+      throw error;
     }
-    throw new Error(`Failed to query subgraph for chain ${chainId}: Unknown error`);
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new SubgraphTimeoutError(chainId, timeoutMs);
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new SubgraphError('network', chainId, `Failed to query subgraph for chain ${chainId}: ${message}`, {
+      retryable: true,
+    });
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
+/**
+ * Query a Uniswap v3 subgraph with a GraphQL query and variables.
+ *
+ * Identical concurrent calls (same chain, query and variables) share a single request.
+ *
+ * @param chainId - The chain ID to query
+ * @param query - The GraphQL query string
+ * @param variables - Optional variables for the query
+ * @param options - Optional retry and timeout overrides
+ * @returns The data from the GraphQL response
+ * @throws SubgraphError (or a subclass) once retries are exhausted or the failure is not retryable
+ */
+export async function queryUniswapV3Subgraph<T = any>(
+  chainId: number,
+  query: string,
+  variables?: Record<string, any>,
+  options: SubgraphQueryOptions = {}
+): Promise<T> {
+  return queryUniswapSubgraph<T>(chainId, 'v3', query, variables, options);
+}
 
+/**
+ * Query a Uniswap v2, v3 or v4 subgraph with a GraphQL query and variables.
+ *
+ * Shares retries, coalescing and the per-chain limit with queryUniswapV3Subgraph.
+ *
+ * @param chainId - The chain ID to query
+ * @param protocol - The Uniswap protocol whose subgraph to query
+ * @param query - The GraphQL query string
+ * @param variables - Optional variables for the query
+ * @param options - Optional retry and timeout overrides
+ * @returns The data from the GraphQL response
+ * @throws SubgraphError (or a subclass) once retries are exhausted or the failure is not retryable
+ */
+export async function queryUniswapSubgraph<T = any>(
+  chainId: number,
+  protocol: UniswapProtocol,
+  query: string,
+  variables?: Record<string, any>,
+  options: SubgraphQueryOptions = {}
+): Promise<T> {
+  const endpoint = getUniswapSubgraphEndpoint(chainId, protocol);
+  const resolvedOptions = { ...DEFAULT_QUERY_OPTIONS, ...options };
+  const resolvedVariables = variables || {};
 
+  const key = `${chainId}:${protocol}:${query}:${JSON.stringify(resolvedVariables)}`;
+  const existing = inFlightQueries.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
 
+  const request = (async () => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await withChainLimit(chainId, () =>
+          executeQuery<T>(chainId, endpoint, query, resolvedVariables, resolvedOptions.timeoutMs)
+        );
+      } catch (error) {
+        const subgraphError = error as SubgraphError;
+        if (!subgraphError.retryable || attempt >= resolvedOptions.retries) {
+          throw subgraphError;
+        }
+        const delay = getRetryDelay(attempt, subgraphError, resolvedOptions);
+        console.warn(`Subgraph ${subgraphError.kind} error for chain ${chainId}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${resolvedOptions.retries})`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  })();
 
+  inFlightQueries.set(key, request);
+  try {
+    return await request;
+  } finally {
+    inFlightQueries.delete(key);
+  }
+}
 
-
-
-
-
-
-
-
-
-
-
-
+/**
+ * HTTP status an API route should return for a failed subgraph query.
+ *
+ * @param error - The error thrown while querying
+ * @returns 429 when rate limited, 504 on timeout, 502 for upstream failures, otherwise 500
+ */
+export function getSubgraphErrorStatus(error: unknown): number {
+  if (!(error instanceof SubgraphError)) {
+    return 500;
+  }
+  switch (error.kind) {
+    case 'rate-limited':
+      return 429;
+    case 'timeout':
+      return 504;
+    default:
+      return 502;
+  }
+}
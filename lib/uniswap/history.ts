@@ -0,0 +1,289 @@
+/**
+ * History Module
+ *
+ * Fetches daily and hourly time series for pools and tokens from Uniswap v3 subgraphs.
+ */
+
+import { queryUniswapV3Subgraph } from './client';
+import { META_SELECTION, toSubgraphMeta, type GraphQLMeta, type SubgraphMeta } from './meta';
+import {
+  poolDayDataRowSchema,
+  poolHourDataRowSchema,
+  tokenDayDataRowSchema,
+  tokenHourDataRowSchema,
+  validateRows,
+  type SubgraphValidationReport,
+} from './schemas';
+import { isChainSupported, type VaultoChainId } from './subgraphs';
+
+/**
+ * Series granularity
+ */
+export type HistoryInterval = 'day' | 'hour';
+
+/**
+ * What the series is for
+ */
+export type HistorySubject = 'pool' | 'token';
+
+/**
+ * A single point in a history series
+ */
+export interface HistoryPoint {
+  timestamp: number; // Period start, Unix seconds (UTC)
+  tvlUSD: number;
+  volumeUSD: number;
+  feesUSD: number;
+  price: number; // Token: USD price. Pool: token0 price denominated in token1
+}
+
+/**
+ * Normalized history series result
+ */
+export interface HistorySeries {
+  chainId: VaultoChainId;
+  subject: HistorySubject;
+  address: string; // Pool or token address (lowercased)
+  interval: HistoryInterval;
+  from: number; // Unix seconds, inclusive; the period containing it is included
+  to: number; // Unix seconds, inclusive
+  points: HistoryPoint[]; // Ordered by timestamp ascending
+  meta?: SubgraphMeta; // Indexed block the series was read at
+  validation?: SubgraphValidationReport; // Malformed rows that were dropped from the series
+}
+
+/**
+ * Maximum points The Graph returns for a single query
+ */
+const MAX_POINTS = 1000;
+
+/**
+ * Period length per interval; points are stamped with their period start
+ */
+const INTERVAL_SECONDS: Record<HistoryInterval, number> = {
+  day: 24 * 60 * 60,
+  hour: 60 * 60,
+};
+
+/**
+ * Longest range allowed per interval so a series fits in a single query
+ */
+export const MAX_HISTORY_RANGE_SECONDS: Record<HistoryInterval, number> = {
+  day: 365 * 24 * 60 * 60, // 1 year of daily points
+  hour: 31 * 24 * 60 * 60, // 31 days of hourly points
+};
+
+/**
+ * GraphQL response for a history query; rows are validated with the matching row schema
+ */
+type HistoryResponse<K extends string> = { [key in K]?: unknown } & { _meta?: GraphQLMeta };
+
+/**
+ * GraphQL query for daily pool data over a date range
+ */
+const POOL_DAY_DATA_QUERY = `
+  query PoolDayData($address: String!, $from: Int!, $to: Int!, $first: Int!) {
+    poolDayDatas(
+      where: { pool: $address, date_gte: $from, date_lte: $to }
+      orderBy: date
+      orderDirection: asc
+      first: $first
+    ) {
+      date
+      tvlUSD
+      volumeUSD
+      feesUSD
+      token1Price
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for hourly pool data over a date range
+ */
+const POOL_HOUR_DATA_QUERY = `
+  query PoolHourData($address: String!, $from: Int!, $to: Int!, $first: Int!) {
+    poolHourDatas(
+      where: { pool: $address, periodStartUnix_gte: $from, periodStartUnix_lte: $to }
+      orderBy: periodStartUnix
+      orderDirection: asc
+      first: $first
+    ) {
+      periodStartUnix
+      tvlUSD
+      volumeUSD
+      feesUSD
+      token1Price
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for daily token data over a date range
+ */
+const TOKEN_DAY_DATA_QUERY = `
+  query TokenDayData($address: String!, $from: Int!, $to: Int!, $first: Int!) {
+    tokenDayDatas(
+      where: { token: $address, date_gte: $from, date_lte: $to }
+      orderBy: date
+      orderDirection: asc
+      first: $first
+    ) {
+      date
+      totalValueLockedUSD
+      volumeUSD
+      feesUSD
+      priceUSD
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for hourly token data over a date range
+ */
+const TOKEN_HOUR_DATA_QUERY = `
+  query TokenHourData($address: String!, $from: Int!, $to: Int!, $first: Int!) {
+    tokenHourDatas(
+      where: { token: $address, periodStartUnix_gte: $from, periodStartUnix_lte: $to }
+      orderBy: periodStartUnix
+      orderDirection: asc
+      first: $first
+    ) {
+      periodStartUnix
+      totalValueLockedUSD
+      volumeUSD
+      feesUSD
+      priceUSD
+    }${META_SELECTION}  }
+`;
+
+/**
+ * Fetch the raw series for a subject and interval, normalized to HistoryPoint
+ */
+async function fetchPoints(
+  chainId: VaultoChainId,
+  subject: HistorySubject,
+  interval: HistoryInterval,
+  variables: Record<string, any>
+): Promise<{ points: HistoryPoint[]; meta?: SubgraphMeta; validation?: SubgraphValidationReport }> {
+  if (subject === 'pool' && interval === 'day') {
+    const response = await queryUniswapV3Subgraph<HistoryResponse<'poolDayDatas'>>(
+      chainId,
+      POOL_DAY_DATA_QUERY,
+      variables
+    );
+    const { rows, validation } = validateRows(poolDayDataRowSchema, response.poolDayDatas, { chainId, collection: 'poolDayDatas' });
+    const points = rows.map((row) => ({
+      timestamp: row.date,
+      tvlUSD: parseFloat(row.tvlUSD || '0'),
+      volumeUSD: parseFloat(row.volumeUSD || '0'),
+      feesUSD: parseFloat(row.feesUSD || '0'),
+      price: parseFloat(row.token1Price || '0'),
+    }));
+    return { points, meta: toSubgraphMeta(response._meta), validation };
+  }
+
+  if (subject === 'pool') {
+    const response = await queryUniswapV3Subgraph<HistoryResponse<'poolHourDatas'>>(
+      chainId,
+      POOL_HOUR_DATA_QUERY,
+      variables
+    );
+    const { rows, validation } = validateRows(poolHourDataRowSchema, response.poolHourDatas, { chainId, collection: 'poolHourDatas' });
+    const points = rows.map((row) => ({
+      timestamp: row.periodStartUnix,
+      tvlUSD: parseFloat(row.tvlUSD || '0'),
+      volumeUSD: parseFloat(row.volumeUSD || '0'),
+      feesUSD: parseFloat(row.feesUSD || '0'),
+      price: parseFloat(row.token1Price || '0'),
+    }));
+    return { points, meta: toSubgraphMeta(response._meta), validation };
+  }
+
+  if (interval === 'day') {
+    const response = await queryUniswapV3Subgraph<HistoryResponse<'tokenDayDatas'>>(
+      chainId,
+      TOKEN_DAY_DATA_QUERY,
+      variables
+    );
+    const { rows, validation } = validateRows(tokenDayDataRowSchema, response.tokenDayDatas, { chainId, collection: 'tokenDayDatas' });
+    const points = rows.map((row) => ({
+      timestamp: row.date,
+      tvlUSD: parseFloat(row.totalValueLockedUSD || '0'),
+      volumeUSD: parseFloat(row.volumeUSD || '0'),
+      feesUSD: parseFloat(row.feesUSD || '0'),
+      price: parseFloat(row.priceUSD || '0'),
+    }));
+    return { points, meta: toSubgraphMeta(response._meta), validation };
+  }
+
+  const response = await queryUniswapV3Subgraph<HistoryResponse<'tokenHourDatas'>>(
+    chainId,
+    TOKEN_HOUR_DATA_QUERY,
+    variables
+  );
+  const { rows, validation } = validateRows(tokenHourDataRowSchema, response.tokenHourDatas, { chainId, collection: 'tokenHourDatas' });
+  const points = rows.map((row) => ({
+    timestamp: row.periodStartUnix,
+    tvlUSD: parseFloat(row.totalValueLockedUSD || '0'),
+    volumeUSD: parseFloat(row.volumeUSD || '0'),
+    feesUSD: parseFloat(row.feesUSD || '0'),
+    price: parseFloat(row.priceUSD || '0'),
+  }));
+  return { points, meta: toSubgraphMeta(response._meta), validation };
+}
+
+/**
+ * Get a daily or hourly TVL/volume/fees/price series for a pool or token.
+ *
+ * @param chainId - The chain ID to query
+ * @param subject - Whether `address` is a pool or a token
+ * @param address - The pool or token address (will be lowercased)
+ * @param interval - 'day' or 'hour'
+ * @param from - Range start in Unix seconds (inclusive); the period containing it is included
+ * @param to - Range end in Unix seconds (inclusive)
+ * @returns The series ordered by timestamp; empty points if the chain is unsupported or the range is empty
+ * @throws Error if the subgraph query fails
+ */
+export async function getHistory(
+  chainId: number,
+  subject: HistorySubject,
+  address: string,
+  interval: HistoryInterval,
+  from: number,
+  to: number
+): Promise<HistorySeries> {
+  const normalizedAddress = (address || '').toLowerCase();
+  const emptyResult: HistorySeries = {
+    chainId: chainId as VaultoChainId,
+    subject,
+    address: normalizedAddress,
+    interval,
+    from,
+    to,
+    points: [],
+  };
+
+  // Return empty result if chain is not supported
+  if (!isChainSupported(chainId)) {
+    console.debug(`Chain ${chainId} is not supported for history queries`);
+    return emptyResult;
+  }
+
+  if (!normalizedAddress || from > to) {
+    return emptyResult;
+  }
+
+  // Rows are keyed by period start, so align `from` down or its partial first period is missed
+  const periodSeconds = INTERVAL_SECONDS[interval];
+  const { points, meta, validation } = await fetchPoints(chainId, subject, interval, {
+    address: normalizedAddress,
+    from: Math.floor(from / periodSeconds) * periodSeconds,
+    to: Math.floor(to),
+    first: MAX_POINTS,
+  });
+
+  return {
+    ...emptyResult,
+    points,
+    meta,
+    validation,
+  };
+}
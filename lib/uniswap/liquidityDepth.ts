@@ -0,0 +1,272 @@
+/**
+ * Liquidity Depth Module
+ *
+ * Reconstructs a v3 pool's liquidity distribution from its initialized ticks: active
+ * liquidity is the running sum of liquidityNet, bucketed around the current tick with
+ * the token amounts each bucket holds and the cumulative depth out to it.
+ */
+
+import { queryUniswapV3Subgraph } from './client';
+import { META_SELECTION, toSubgraphMeta, type GraphQLMeta, type SubgraphMeta } from './meta';
+import { poolRowSchema, validateRows, type SubgraphValidationReport } from './schemas';
+import { isChainSupported, type VaultoChainId } from './subgraphs';
+import { getInitializedTicks, type TickData } from './ticks';
+import {
+  getAmount0Delta,
+  getAmount1Delta,
+  getSqrtRatioAtTick,
+  MAX_TICK,
+  MIN_TICK,
+} from './v3Math';
+
+/**
+ * One bucket of the depth distribution
+ */
+export interface LiquidityDepthBucket {
+  tickLower: number;
+  tickUpper: number; // Exclusive
+  price0: number; // Price of token0 in token1 at tickLower
+  liquidity: string; // Active liquidity at tickLower (raw)
+  amount0: number; // token0 held in the bucket (decimal-adjusted); only above the current price
+  amount1: number; // token1 held in the bucket (decimal-adjusted); only below the current price
+  cumulativeAmount0: number; // token0 from the current price up to this bucket's upper edge (asks)
+  cumulativeAmount1: number; // token1 from the current price down to this bucket's lower edge (bids)
+}
+
+/**
+ * A pool's liquidity distribution around its current tick
+ */
+export interface PoolLiquidityDepth {
+  chainId: VaultoChainId;
+  poolAddress: string;
+  feeTierBps: number;
+  token0: { address: string; symbol: string; decimals: number };
+  token1: { address: string; symbol: string; decimals: number };
+  currentTick: number;
+  price0: number; // Current price of token0 in token1
+  liquidity: string; // Liquidity active at the current tick (raw, from the pool)
+  buckets: LiquidityDepthBucket[]; // Ascending by tick
+  meta?: SubgraphMeta; // Indexed block the pool state was read at
+  validation?: SubgraphValidationReport; // Set if the pool row was malformed
+}
+
+/**
+ * Options for bucketing the distribution
+ */
+export interface LiquidityDepthOptions {
+  tickRange?: number; // Ticks either side of the current tick (default: 10000, about 2.7x in price)
+  bucketCount?: number; // Buckets across the whole range (default: 60, max: 500)
+}
+
+/**
+ * GraphQL response structure for the pool state query; the pool is validated with poolRowSchema
+ */
+interface PoolStateResponse {
+  pool?: unknown;
+  _meta?: GraphQLMeta;
+}
+
+const DEFAULT_TICK_RANGE = 10000;
+const DEFAULT_BUCKET_COUNT = 60;
+const MAX_BUCKET_COUNT = 500;
+
+/**
+ * GraphQL query for a pool's current price and liquidity
+ */
+const POOL_STATE_QUERY = `
+  query PoolState($address: ID!) {
+    pool(id: $address) {
+      id
+      feeTier
+      liquidity
+      sqrtPrice
+      tick
+      token0 {
+        id
+        symbol
+        name
+        decimals
+      }
+      token1 {
+        id
+        symbol
+        name
+        decimals
+      }
+    }${META_SELECTION}  }
+`;
+
+/**
+ * Price of token0 in token1 at a tick, decimal-adjusted
+ */
+function tickToPrice0(tick: number, decimals0: number, decimals1: number): number {
+  return Math.pow(1.0001, tick) * Math.pow(10, decimals0 - decimals1);
+}
+
+/**
+ * Raw token amounts held by `liquidity` between two ticks, given the current price.
+ * Liquidity above the current price is all token0, below it all token1.
+ */
+function getRangeAmounts(
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint,
+  sqrtPriceX96: bigint
+): { amount0: bigint; amount1: bigint } {
+  if (liquidity <= 0n || tickUpper <= tickLower) {
+    return { amount0: 0n, amount1: 0n };
+  }
+
+  const sqrtLower = getSqrtRatioAtTick(tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(tickUpper);
+  if (sqrtPriceX96 <= sqrtLower) {
+    return { amount0: getAmount0Delta(sqrtLower, sqrtUpper, liquidity, false), amount1: 0n };
+  }
+  if (sqrtPriceX96 >= sqrtUpper) {
+    return { amount0: 0n, amount1: getAmount1Delta(sqrtLower, sqrtUpper, liquidity, false) };
+  }
+  return {
+    amount0: getAmount0Delta(sqrtPriceX96, sqrtUpper, liquidity, false),
+    amount1: getAmount1Delta(sqrtLower, sqrtPriceX96, liquidity, false),
+  };
+}
+
+/**
+ * Bucket initialized ticks into a depth distribution.
+ *
+ * Active liquidity is reconstructed by summing liquidityNet from the lowest tick up.
+ * Within a bucket liquidity can change at several ticks, so amounts are summed over
+ * each constant-liquidity segment. Cumulative amounts accumulate outward from the
+ * current tick: token0 upward, token1 downward.
+ *
+ * @param ticks - Initialized ticks sorted ascending
+ * @param currentTick - The pool's current tick
+ * @param sqrtPriceX96 - The pool's current sqrt price
+ * @param decimals - token0 and token1 decimals
+ * @param options - Range and bucket count
+ * @returns Buckets ascending by tick
+ */
+export function buildLiquidityDepth(
+  ticks: TickData[],
+  currentTick: number,
+  sqrtPriceX96: bigint,
+  decimals: { token0: number; token1: number },
+  options: LiquidityDepthOptions = {}
+): LiquidityDepthBucket[] {
+  const tickRange = Math.max(1, options.tickRange ?? DEFAULT_TICK_RANGE);
+  const bucketCount = Math.max(1, Math.min(options.bucketCount ?? DEFAULT_BUCKET_COUNT, MAX_BUCKET_COUNT));
+  const start = Math.max(MIN_TICK, currentTick - tickRange);
+  const end = Math.min(MAX_TICK, currentTick + tickRange);
+  const bucketWidth = Math.max(1, Math.ceil((end - start) / bucketCount));
+
+  // Liquidity active at `start`: everything added by ticks at or below it
+  let tickIndex = 0;
+  let liquidity = 0n;
+  while (tickIndex < ticks.length && ticks[tickIndex].tickIdx <= start) {
+    liquidity += ticks[tickIndex].liquidityNet;
+    tickIndex++;
+  }
+
+  const buckets: Array<Omit<LiquidityDepthBucket, 'cumulativeAmount0' | 'cumulativeAmount1'>> = [];
+  for (let bucketLower = start; bucketLower < end; bucketLower += bucketWidth) {
+    const bucketUpper = Math.min(end, bucketLower + bucketWidth);
+    const bucketLiquidity = liquidity;
+    let amount0 = 0n;
+    let amount1 = 0n;
+
+    // Walk the constant-liquidity segments inside the bucket
+    let segmentLower = bucketLower;
+    while (segmentLower < bucketUpper) {
+      const nextTick = tickIndex < ticks.length ? ticks[tickIndex].tickIdx : Infinity;
+      const segmentUpper = Math.min(bucketUpper, nextTick);
+      const amounts = getRangeAmounts(segmentLower, segmentUpper, liquidity, sqrtPriceX96);
+      amount0 += amounts.amount0;
+      amount1 += amounts.amount1;
+
+      if (nextTick <= bucketUpper && nextTick !== Infinity) {
+        liquidity += ticks[tickIndex].liquidityNet;
+        tickIndex++;
+      }
+      segmentLower = segmentUpper;
+    }
+
+    buckets.push({
+      tickLower: bucketLower,
+      tickUpper: bucketUpper,
+      price0: tickToPrice0(bucketLower, decimals.token0, decimals.token1),
+      liquidity: (bucketLiquidity > 0n ? bucketLiquidity : 0n).toString(),
+      amount0: Number(amount0) / Math.pow(10, decimals.token0),
+      amount1: Number(amount1) / Math.pow(10, decimals.token1),
+    });
+  }
+
+  // token0 only sits above the current price and token1 below it, so running sums from
+  // the bottom (token1: from the top) start accumulating at the current tick
+  const cumulativeAmount1 = new Array<number>(buckets.length);
+  let below = 0;
+  for (let i = buckets.length - 1; i >= 0; i--) {
+    below += buckets[i].amount1;
+    cumulativeAmount1[i] = below;
+  }
+
+  let above = 0;
+  return buckets.map((bucket, i) => {
+    above += bucket.amount0;
+    return { ...bucket, cumulativeAmount0: above, cumulativeAmount1: cumulativeAmount1[i] };
+  });
+}
+
+/**
+ * Get a v3 pool's liquidity distribution around its current tick.
+ *
+ * @param chainId - The chain ID to query
+ * @param poolAddress - The pool address (will be lowercased)
+ * @param options - Range and bucket count
+ * @returns The pool's depth buckets, or null if the pool doesn't exist or isn't initialized
+ * @throws Error if the chain is not supported or a subgraph query fails
+ */
+export async function getPoolLiquidityDepth(
+  chainId: number,
+  poolAddress: string,
+  options: LiquidityDepthOptions = {}
+): Promise<PoolLiquidityDepth | null> {
+  if (!isChainSupported(chainId)) {
+    throw new Error(`Chain ${chainId} is not supported for liquidity depth queries`);
+  }
+
+  const normalizedAddress = poolAddress.toLowerCase();
+  const [response, ticks] = await Promise.all([
+    queryUniswapV3Subgraph<PoolStateResponse>(chainId, POOL_STATE_QUERY, { address: normalizedAddress }),
+    getInitializedTicks(chainId, normalizedAddress),
+  ]);
+
+  const { rows, validation } = validateRows(
+    poolRowSchema,
+    response.pool ? [response.pool] : [],
+    { chainId, collection: 'pool' }
+  );
+  const pool = rows[0];
+  if (!pool || pool.tick === null || !pool.sqrtPrice || pool.sqrtPrice === '0') {
+    return null;
+  }
+
+  const currentTick = parseInt(pool.tick, 10);
+  const decimals = {
+    token0: Number(pool.token0.decimals) || 18,
+    token1: Number(pool.token1.decimals) || 18,
+  };
+
+  return {
+    chainId: chainId as VaultoChainId,
+    poolAddress: normalizedAddress,
+    feeTierBps: parseInt(pool.feeTier || '0', 10),
+    token0: { address: pool.token0.id.toLowerCase(), symbol: pool.token0.symbol || '', decimals: decimals.token0 },
+    token1: { address: pool.token1.id.toLowerCase(), symbol: pool.token1.symbol || '', decimals: decimals.token1 },
+    currentTick,
+    price0: tickToPrice0(currentTick, decimals.token0, decimals.token1),
+    liquidity: pool.liquidity || '0',
+    buckets: buildLiquidityDepth(ticks, currentTick, BigInt(pool.sqrtPrice), decimals, options),
+    meta: toSubgraphMeta(response._meta),
+    validation,
+  };
+}
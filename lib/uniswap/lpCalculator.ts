@@ -0,0 +1,201 @@
+/**
+ * LP Scenario Calculator Module
+ *
+ * Projects impermanent loss, fee income and net P&L for a liquidity deposit across
+ * price scenarios. Works for full-range (v2-style) and concentrated (v3/v4) ranges.
+ *
+ * Prices are the base token's price in the quote token (e.g. USDC per SPYon), so
+ * the math is the same whichever token the pool orders first. Values are in quote
+ * token units, which are USD for stablecoin pairs.
+ */
+
+import type { PoolResult } from './pools';
+import { sqrtPriceX96ToPrice } from './v3Math';
+
+/**
+ * Price range of a concentrated position, in base token price; null means full range
+ */
+export interface PriceRange {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Inputs for an LP scenario projection
+ */
+export interface LpScenarioInput {
+  depositValue: number; // Value deposited, in quote token units
+  currentPrice: number; // Base token price in quote token at deposit
+  range: PriceRange | null; // Null for full range
+  feeAPR: number | null; // Historical full-range fee APR in percent (e.g. pool.feeAPR30d)
+  days: number; // Holding period
+  priceChanges: number[]; // Base token price moves to project, in percent (e.g. -50, 0, 25)
+}
+
+/**
+ * Outcome of one price scenario at the end of the holding period
+ */
+export interface LpScenario {
+  priceChangePercent: number;
+  price: number; // Base token price at the end of the period
+  inRange: boolean; // Whether the end price is inside the position's range
+  holdValue: number; // Value of the deposited tokens had they been held instead
+  positionValue: number; // Value of the position's tokens, excluding fees
+  impermanentLoss: number; // positionValue - holdValue (zero or negative)
+  impermanentLossPercent: number; // Relative to holdValue
+  fees: number; // Projected fee income
+  netPnl: number; // positionValue + fees - depositValue
+  netPnlPercent: number; // Relative to depositValue
+  netVsHold: number; // positionValue + fees - holdValue
+}
+
+/**
+ * Default price moves shown by the calculator, in percent
+ */
+export const DEFAULT_PRICE_CHANGES = [-50, -25, -10, 0, 10, 25, 50];
+
+/**
+ * Token amounts held by `liquidity` at `price` within `range`.
+ *
+ * @returns Base and quote token amounts
+ */
+function getAmountsAtPrice(
+  liquidity: number,
+  price: number,
+  range: PriceRange | null
+): { base: number; quote: number } {
+  const sqrtPrice = Math.sqrt(price);
+  if (!range) {
+    return { base: liquidity / sqrtPrice, quote: liquidity * sqrtPrice };
+  }
+
+  const sqrtLower = Math.sqrt(range.lower);
+  const sqrtUpper = Math.sqrt(range.upper);
+  if (price <= range.lower) {
+    return { base: liquidity * (1 / sqrtLower - 1 / sqrtUpper), quote: 0 };
+  }
+  if (price >= range.upper) {
+    return { base: 0, quote: liquidity * (sqrtUpper - sqrtLower) };
+  }
+  return {
+    base: liquidity * (1 / sqrtPrice - 1 / sqrtUpper),
+    quote: liquidity * (sqrtPrice - sqrtLower),
+  };
+}
+
+/**
+ * Value of `liquidity` at `price` within `range`, in quote token units
+ */
+function getValueAtPrice(liquidity: number, price: number, range: PriceRange | null): number {
+  const { base, quote } = getAmountsAtPrice(liquidity, price, range);
+  return base * price + quote;
+}
+
+/**
+ * Share of a linear price path from `from` to `to` that lies inside `range`.
+ * Used to scale fee income, which is only earned while the price is in range.
+ */
+function getInRangeFraction(from: number, to: number, range: PriceRange | null): number {
+  if (!range) {
+    return 1;
+  }
+  if (from === to) {
+    return from >= range.lower && from < range.upper ? 1 : 0;
+  }
+
+  const low = Math.min(from, to);
+  const high = Math.max(from, to);
+  const overlap = Math.min(high, range.upper) - Math.max(low, range.lower);
+  return Math.max(0, overlap) / (high - low);
+}
+
+/**
+ * How much more liquidity a deposit buys in `range` than at full range, at `price`.
+ *
+ * Concentrated positions earn proportionally more of the pool's fees while in range,
+ * so the full-range fee APR is scaled by this factor.
+ *
+ * @returns Liquidity multiplier (1 for full range)
+ */
+export function getCapitalEfficiency(price: number, range: PriceRange | null): number {
+  if (!range) {
+    return 1;
+  }
+  return getValueAtPrice(1, price, null) / getValueAtPrice(1, price, range);
+}
+
+/**
+ * Current price of `baseTokenAddress` in the pool's other token, from the pool's sqrtPrice.
+ *
+ * @param pool - A v3/v4 pool (v2 pairs have no sqrtPrice)
+ * @param baseTokenAddress - The token to price (lowercased address)
+ * @returns The price, or null if the pool has no sqrtPrice or doesn't contain the token
+ */
+export function getPoolPrice(
+  pool: Pick<PoolResult, 'sqrtPrice' | 'token0' | 'token1'>,
+  baseTokenAddress: string
+): number | null {
+  const sqrtPriceX96 = BigInt(pool.sqrtPrice || '0');
+  if (sqrtPriceX96 === 0n) {
+    return null;
+  }
+
+  const token0Price = sqrtPriceX96ToPrice(sqrtPriceX96, pool.token0.decimals, pool.token1.decimals);
+  const base = baseTokenAddress.toLowerCase();
+  if (pool.token0.address === base) {
+    return token0Price;
+  }
+  if (pool.token1.address === base) {
+    return token0Price > 0 ? 1 / token0Price : null;
+  }
+  return null;
+}
+
+/**
+ * Project impermanent loss, fees and net P&L across price scenarios.
+ *
+ * Fees assume the historical full-range APR continues, scaled by the range's capital
+ * efficiency and by the share of a straight-line price path that stays in range.
+ *
+ * @param input - Deposit, range, fee APR, holding period and price moves
+ * @returns One scenario per price change, in the order given
+ * @throws Error if the deposit, price or range is invalid
+ */
+export function projectLpScenarios(input: LpScenarioInput): LpScenario[] {
+  const { depositValue, currentPrice, range, feeAPR, days, priceChanges } = input;
+
+  if (!(depositValue > 0) || !(currentPrice > 0)) {
+    throw new Error('Deposit value and current price must be positive');
+  }
+  if (range && !(range.lower > 0 && range.upper > range.lower)) {
+    throw new Error('Price range must have 0 < lower < upper');
+  }
+
+  // Liquidity that the deposit buys at the current price, and the tokens deposited
+  const liquidity = depositValue / getValueAtPrice(1, currentPrice, range);
+  const deposited = getAmountsAtPrice(liquidity, currentPrice, range);
+  const periodFeeRate = ((feeAPR ?? 0) / 100) * (Math.max(0, days) / 365) * getCapitalEfficiency(currentPrice, range);
+
+  return priceChanges.map((priceChangePercent): LpScenario => {
+    const price = Math.max(0, currentPrice * (1 + priceChangePercent / 100));
+    const holdValue = deposited.base * price + deposited.quote;
+    const positionValue = price > 0 ? getValueAtPrice(liquidity, price, range) : 0;
+    const impermanentLoss = Math.min(0, positionValue - holdValue);
+    const fees = depositValue * periodFeeRate * getInRangeFraction(currentPrice, price, range);
+    const netPnl = positionValue + fees - depositValue;
+
+    return {
+      priceChangePercent,
+      price,
+      inRange: !range || (price >= range.lower && price < range.upper),
+      holdValue,
+      positionValue,
+      impermanentLoss,
+      impermanentLossPercent: holdValue > 0 ? (impermanentLoss / holdValue) * 100 : 0,
+      fees,
+      netPnl,
+      netPnlPercent: (netPnl / depositValue) * 100,
+      netVsHold: positionValue + fees - holdValue,
+    };
+  });
+}
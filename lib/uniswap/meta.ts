@@ -0,0 +1,126 @@
+/**
+ * Subgraph Indexing Metadata Module
+ *
+ * Reads the indexed block from `_meta` so responses can report how far behind
+ * the chain head the subgraph is, and flag data past the staleness threshold.
+ */
+
+import { getSubgraphStaleThresholdSeconds } from '@/config/subgraphEnv';
+import { queryUniswapSubgraph } from './client';
+import { metaSchema } from './schemas';
+import { isProtocolSupported, type UniswapProtocol } from './subgraphs';
+
+/**
+ * GraphQL `_meta` structure from subgraph
+ */
+export interface GraphQLMeta {
+  block: {
+    number: number;
+    timestamp: number | null; // Null on graph-nodes that don't track block timestamps
+  };
+}
+
+/**
+ * Indexed block and freshness for a subgraph-backed response
+ */
+export interface SubgraphMeta {
+  blockNumber: number;
+  blockTimestamp: number | null; // Unix seconds
+  ageSeconds: number | null; // Seconds between the indexed block and now, null if unknown
+  isStale: boolean; // ageSeconds exceeds staleThresholdSeconds
+  staleThresholdSeconds: number;
+}
+
+/**
+ * Selection to append to any subgraph query to get its indexed block
+ */
+export const META_SELECTION = `
+    _meta {
+      block {
+        number
+        timestamp
+      }
+    }
+`;
+
+/**
+ * GraphQL query for the indexed block alone
+ */
+const SUBGRAPH_META_QUERY = `
+  query SubgraphMeta {${META_SELECTION}  }
+`;
+
+/**
+ * Convert a raw `_meta` block into SubgraphMeta.
+ *
+ * @param rawMeta - The `_meta` field from a subgraph response
+ * @returns Block, age and staleness, or undefined if the response had no valid `_meta`
+ */
+export function toSubgraphMeta(rawMeta: GraphQLMeta | null | undefined): SubgraphMeta | undefined {
+  if (!rawMeta) {
+    return undefined;
+  }
+
+  // Freshness is advisory, so a malformed `_meta` is reported as unknown rather than failing
+  const parsed = metaSchema.safeParse(rawMeta);
+  if (!parsed.success) {
+    console.warn('Ignoring malformed subgraph _meta:', parsed.error.issues.map((issue) => issue.message));
+    return undefined;
+  }
+  const meta = parsed.data;
+
+  const staleThresholdSeconds = getSubgraphStaleThresholdSeconds();
+  const blockTimestamp = meta.block.timestamp !== null && meta.block.timestamp !== undefined
+    ? Number(meta.block.timestamp)
+    : null;
+  const ageSeconds = blockTimestamp !== null
+    ? Math.max(0, Math.floor(Date.now() / 1000) - blockTimestamp)
+    : null;
+
+  return {
+    blockNumber: Number(meta.block.number),
+    blockTimestamp,
+    ageSeconds,
+    isStale: ageSeconds !== null && ageSeconds > staleThresholdSeconds,
+    staleThresholdSeconds,
+  };
+}
+
+/**
+ * Pick the least fresh of several metas, so combined data is never reported fresher than its oldest part.
+ *
+ * @param metas - Metas from the queries that fed a response
+ * @returns The meta with the lowest block, or undefined if none were present
+ */
+export function oldestSubgraphMeta(metas: Array<SubgraphMeta | undefined>): SubgraphMeta | undefined {
+  return metas.reduce<SubgraphMeta | undefined>((oldest, meta) => {
+    if (!meta) return oldest;
+    if (!oldest || meta.blockNumber < oldest.blockNumber) return meta;
+    return oldest;
+  }, undefined);
+}
+
+/**
+ * Get the indexed block for a chain's subgraph.
+ *
+ * @param chainId - The chain ID to query
+ * @param protocol - The Uniswap protocol whose subgraph to check (default: 'v3')
+ * @returns Block, age and staleness, or undefined on error or unsupported chain
+ */
+export async function getSubgraphMeta(
+  chainId: number,
+  protocol: UniswapProtocol = 'v3'
+): Promise<SubgraphMeta | undefined> {
+  if (!isProtocolSupported(chainId, protocol)) {
+    return undefined;
+  }
+
+  try {
+    const response = await queryUniswapSubgraph<{ _meta: GraphQLMeta }>(chainId, protocol, SUBGRAPH_META_QUERY);
+    return toSubgraphMeta(response._meta);
+  } catch (error) {
+    // Freshness is advisory; never fail a response because _meta couldn't be read
+    console.error(`Error fetching ${protocol} subgraph meta for chain ${chainId}:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Mock Subgraph GraphQL Executor
+ *
+ * A deliberately small GraphQL interpreter that answers the queries in lib/uniswap
+ * from JSON fixtures. It understands selection sets, aliases, variables and the
+ * subset of The Graph's filter syntax we use (equality, _gt/_gte/_lt/_lte, _in,
+ * _not, _contains(_nocase), and/or), plus orderBy/orderDirection/first/skip.
+ * Fragments, directives and mutations are not supported.
+ */
+
+/**
+ * Fixture rows keyed by collection name (e.g. pools, tokens, poolDayDatas)
+ */
+export type MockFixtures = Record<string, Array<Record<string, any>>>;
+
+/**
+ * Indexed block reported through `_meta`
+ */
+export interface MockMeta {
+  number: number;
+  timestamp: number;
+}
+
+/**
+ * GraphQL argument or variable value
+ */
+type Value = string | number | boolean | null | Value[] | { [key: string]: Value } | { variable: string };
+
+interface Field {
+  alias: string;
+  name: string;
+  args: Record<string, Value>;
+  selections: Field[];
+}
+
+/**
+ * A relationship from one entity to another: a single stored id, or the rows of
+ * another collection whose foreign key points back at this entity
+ */
+type Relation =
+  | { kind: 'one'; collection: string }
+  | { kind: 'many'; collection: string; foreignKey: string };
+
+/**
+ * Relationships for each collection, mirroring the Uniswap v3 subgraph schema (plus v2 pairs)
+ */
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  pools: {
+    token0: { kind: 'one', collection: 'tokens' },
+    token1: { kind: 'one', collection: 'tokens' },
+    poolDayData: { kind: 'many', collection: 'poolDayDatas', foreignKey: 'pool' },
+    poolHourData: { kind: 'many', collection: 'poolHourDatas', foreignKey: 'pool' },
+    ticks: { kind: 'many', collection: 'ticks', foreignKey: 'pool' },
+  },
+  tokens: {
+    tokenDayData: { kind: 'many', collection: 'tokenDayDatas', foreignKey: 'token' },
+    tokenHourData: { kind: 'many', collection: 'tokenHourDatas', foreignKey: 'token' },
+  },
+  tokenDayDatas: { token: { kind: 'one', collection: 'tokens' } },
+  tokenHourDatas: { token: { kind: 'one', collection: 'tokens' } },
+  poolDayDatas: { pool: { kind: 'one', collection: 'pools' } },
+  poolHourDatas: { pool: { kind: 'one', collection: 'pools' } },
+  ticks: { pool: { kind: 'one', collection: 'pools' } },
+  pairs: {
+    token0: { kind: 'one', collection: 'tokens' },
+    token1: { kind: 'one', collection: 'tokens' },
+  },
+  pairDayDatas: {},
+  swaps: {
+    transaction: { kind: 'one', collection: 'transactions' },
+    pool: { kind: 'one', collection: 'pools' },
+    token0: { kind: 'one', collection: 'tokens' },
+    token1: { kind: 'one', collection: 'tokens' },
+  },
+  transactions: {},
+  positions: {
+    pool: { kind: 'one', collection: 'pools' },
+    tickLower: { kind: 'one', collection: 'ticks' },
+    tickUpper: { kind: 'one', collection: 'ticks' },
+  },
+  bundles: {},
+};
+
+/**
+ * Singular root fields look up one entity by id
+ */
+const SINGULAR_FIELDS: Record<string, string> = {
+  pool: 'pools',
+  token: 'tokens',
+  tick: 'ticks',
+  poolDayData: 'poolDayDatas',
+  tokenDayData: 'tokenDayDatas',
+  pair: 'pairs',
+  swap: 'swaps',
+  transaction: 'transactions',
+  position: 'positions',
+  bundle: 'bundles',
+};
+
+/**
+ * Default page size, matching The Graph
+ */
+const DEFAULT_FIRST = 100;
+
+/**
+ * Filter operators, longest suffix first so `_not_in` wins over `_in`
+ */
+const FILTER_OPERATORS = ['_contains_nocase', '_not_in', '_contains', '_not', '_gte', '_lte', '_in', '_gt', '_lt'];
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a GraphQL document into tokens
+ */
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s+|,|#[^\n]*|"(?:\\.|[^"\\])*"|\.\.\.|[{}()[\]:!$=@]|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[_A-Za-z][_0-9A-Za-z]*/gy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < source.length) {
+    const start = pattern.lastIndex;
+    match = pattern.exec(source);
+    if (!match || match.index !== start) {
+      throw new Error(`Syntax error: unexpected character "${source[start]}" at ${start}`);
+    }
+    const token = match[0];
+    if (/^\s/.test(token) || token === ',' || token.startsWith('#')) continue;
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+function parseDocument(source: string): Field[] {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => {
+    if (pos >= tokens.length) throw new Error('Syntax error: unexpected end of document');
+    return tokens[pos++];
+  };
+  const expect = (token: string) => {
+    const actual = next();
+    if (actual !== token) throw new Error(`Syntax error: expected "${token}" but found "${actual}"`);
+  };
+
+  const parseValue = (): Value => {
+    const token = next();
+    if (token === '$') return { variable: next() };
+    if (token === '[') {
+      const items: Value[] = [];
+      while (peek() !== ']') items.push(parseValue());
+      expect(']');
+      return items;
+    }
+    if (token === '{') {
+      const object: Record<string, Value> = {};
+      while (peek() !== '}') {
+        const key = next();
+        expect(':');
+        object[key] = parseValue();
+      }
+      expect('}');
+      return object;
+    }
+    if (token.startsWith('"')) return JSON.parse(token);
+    if (/^-?\d/.test(token)) return Number(token);
+    if (token === 'true' || token === 'false') return token === 'true';
+    if (token === 'null') return null;
+    return token; // Enum value, e.g. orderBy: totalValueLockedUSD
+  };
+
+  const parseSelectionSet = (): Field[] => {
+    expect('{');
+    const fields: Field[] = [];
+    while (peek() !== '}') {
+      if (peek() === '...') throw new Error('Fragments are not supported by the mock subgraph');
+      let alias = next();
+      let name = alias;
+      if (peek() === ':') {
+        next();
+        name = next();
+      }
+      const args: Record<string, Value> = {};
+      if (peek() === '(') {
+        next();
+        while (peek() !== ')') {
+          const argName = next();
+          expect(':');
+          args[argName] = parseValue();
+        }
+        expect(')');
+      }
+      const selections = peek() === '{' ? parseSelectionSet() : [];
+      fields.push({ alias, name, args, selections });
+    }
+    expect('}');
+    return fields;
+  };
+
+  // Skip `query Name($var: Type! = default, ...)`; variable types don't matter here
+  if (peek() === 'query') {
+    next();
+    if (peek() !== '(' && peek() !== '{') next();
+    if (peek() === '(') {
+      let depth = 0;
+      do {
+        const token = next();
+        if (token === '(') depth++;
+        if (token === ')') depth--;
+      } while (depth > 0);
+    }
+  } else if (peek() !== '{') {
+    throw new Error(`Only queries are supported by the mock subgraph, found "${peek()}"`);
+  }
+
+  return parseSelectionSet();
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Substitute variables into an argument value
+ */
+function resolveValue(value: Value, variables: Record<string, any>): any {
+  if (Array.isArray(value)) return value.map((item) => resolveValue(item, variables));
+  if (value && typeof value === 'object') {
+    if ('variable' in value && typeof value.variable === 'string' && Object.keys(value).length === 1) {
+      return variables[value.variable] ?? null;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveValue(item as Value, variables)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Compare two stored values the way the subgraph orders them: numerically for
+ * BigInt/BigDecimal strings and numbers, lexically for ids and other strings
+ */
+function compareValues(a: any, b: any): number {
+  const isNumeric = (v: any) => typeof v === 'number' || (typeof v === 'string' && v !== '' && !v.startsWith('0x') && !isNaN(Number(v)));
+  if (isNumeric(a) && isNumeric(b)) {
+    return Number(a) - Number(b);
+  }
+  const left = String(a ?? '').toLowerCase();
+  const right = String(b ?? '').toLowerCase();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Check a row against a `where` filter
+ */
+function matchesFilter(row: Record<string, any>, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, expected]) => {
+    if (key === 'and') return (expected as any[]).every((clause) => matchesFilter(row, clause));
+    if (key === 'or') return (expected as any[]).some((clause) => matchesFilter(row, clause));
+
+    const operator = FILTER_OPERATORS.find((suffix) => key.endsWith(suffix)) || '';
+    const actual = row[key.slice(0, key.length - operator.length)];
+
+    switch (operator) {
+      case '': return compareValues(actual, expected) === 0;
+      case '_not': return compareValues(actual, expected) !== 0;
+      case '_gt': return compareValues(actual, expected) > 0;
+      case '_gte': return compareValues(actual, expected) >= 0;
+      case '_lt': return compareValues(actual, expected) < 0;
+      case '_lte': return compareValues(actual, expected) <= 0;
+      case '_in': return (expected as any[]).some((value) => compareValues(actual, value) === 0);
+      case '_not_in': return !(expected as any[]).some((value) => compareValues(actual, value) === 0);
+      case '_contains': return String(actual ?? '').includes(String(expected));
+      case '_contains_nocase': return String(actual ?? '').toLowerCase().includes(String(expected).toLowerCase());
+      default: return false;
+    }
+  });
+}
+
+/**
+ * Apply where/orderBy/orderDirection/skip/first to a collection
+ */
+function queryCollection(rows: Array<Record<string, any>>, args: Record<string, any>): Array<Record<string, any>> {
+  let result = args.where ? rows.filter((row) => matchesFilter(row, args.where)) : [...rows];
+
+  const orderBy = args.orderBy || 'id';
+  const direction = args.orderDirection === 'desc' ? -1 : 1;
+  result.sort((a, b) => compareValues(a[orderBy], b[orderBy]) * direction);
+
+  const skip = args.skip ?? 0;
+  const first = args.first ?? DEFAULT_FIRST;
+  return result.slice(skip, skip + first);
+}
+
+/**
+ * Project a row onto a selection set, following relationships
+ */
+function projectRow(
+  fixtures: MockFixtures,
+  collection: string,
+  row: Record<string, any>,
+  selections: Field[],
+  variables: Record<string, any>
+): Record<string, any> {
+  const output: Record<string, any> = {};
+  const relations = RELATIONS[collection] || {};
+
+  for (const field of selections) {
+    const relation = relations[field.name];
+    if (field.name === '__typename') {
+      output[field.alias] = collection;
+    } else if (relation?.kind === 'one') {
+      const related = (fixtures[relation.collection] || []).find((candidate) => candidate.id === row[field.name]);
+      output[field.alias] = related
+        ? projectRow(fixtures, relation.collection, related, field.selections, variables)
+        : null;
+    } else if (relation?.kind === 'many') {
+      const args = resolveValue(field.args, variables);
+      const children = (fixtures[relation.collection] || []).filter((child) => child[relation.foreignKey] === row.id);
+      output[field.alias] = queryCollection(children, args)
+        .map((child) => projectRow(fixtures, relation.collection, child, field.selections, variables));
+    } else {
+      output[field.alias] = row[field.name] ?? null;
+    }
+  }
+  return output;
+}
+
+/**
+ * Execute a GraphQL query against fixtures.
+ *
+ * @param fixtures - Collections keyed by plural entity name
+ * @param meta - Block reported by `_meta`
+ * @param query - The GraphQL query string
+ * @param variables - Variables for the query
+ * @returns A GraphQL response body with either data or errors
+ */
+export function executeMockQuery(
+  fixtures: MockFixtures,
+  meta: MockMeta,
+  query: string,
+  variables: Record<string, any> = {}
+): { data?: Record<string, any>; errors?: Array<{ message: string }> } {
+  try {
+    const data: Record<string, any> = {};
+
+    for (const field of parseDocument(query)) {
+      const args = resolveValue(field.args, variables);
+
+      if (field.name === '_meta') {
+        data[field.alias] = projectRow(fixtures, '_meta', {
+          block: meta,
+          deployment: 'mock',
+          hasIndexingErrors: false,
+        }, field.selections, variables);
+        // `block` is an object, not a relation, so project it directly
+        const blockField = field.selections.find((selection) => selection.name === 'block');
+        if (blockField) {
+          data[field.alias][blockField.alias] = projectRow(fixtures, '_block', meta as any, blockField.selections, variables);
+        }
+      } else if (SINGULAR_FIELDS[field.name]) {
+        const collection = SINGULAR_FIELDS[field.name];
+        const row = (fixtures[collection] || []).find((candidate) => compareValues(candidate.id, args.id) === 0);
+        data[field.alias] = row ? projectRow(fixtures, collection, row, field.selections, variables) : null;
+      } else if (RELATIONS[field.name]) {
+        data[field.alias] = queryCollection(fixtures[field.name] || [], args)
+          .map((row) => projectRow(fixtures, field.name, row, field.selections, variables));
+      } else {
+        throw new Error(`Type \`Query\` has no field \`${field.name}\``);
+      }
+    }
+
+    return { data };
+  } catch (error) {
+    return { errors: [{ message: error instanceof Error ? error.message : 'Unknown error' }] };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Mock Subgraph Server
+ *
+ * Serves Uniswap subgraph queries from JSON fixtures over HTTP so the liquidity
+ * search, history and routing code can run with no network. Point the app at it
+ * with UNISWAP_V3_SUBGRAPH_URL (all chains) or UNISWAP_V3_SUBGRAPH_URL_<chainId>.
+ * The fixtures also hold v2 pairs, and v4 shares the v3 schema, so the same server
+ * can back UNISWAP_V2_SUBGRAPH_URL and UNISWAP_V4_SUBGRAPH_URL.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { executeMockQuery, type MockFixtures, type MockMeta } from './graphql';
+
+/**
+ * Bundled fixture directory
+ */
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'lib', 'uniswap', 'mock', 'fixtures');
+
+/**
+ * Collections loaded from `<name>.json` in the fixture directory; missing files load as empty
+ */
+const FIXTURE_COLLECTIONS = [
+  'pools',
+  'tokens',
+  'tokenDayDatas',
+  'poolDayDatas',
+  'tokenHourDatas',
+  'poolHourDatas',
+  'ticks',
+  'pairs', // Uniswap v2
+  'pairDayDatas', // Uniswap v2
+  'swaps',
+  'transactions',
+  'positions',
+  'bundles',
+];
+
+/**
+ * Mock server options
+ */
+export interface MockSubgraphServerOptions {
+  port?: number; // Default: 4350 (0 picks a free port)
+  fixturesDir?: string; // Default: the bundled fixtures
+  rebaseDates?: boolean; // Shift day/hour data so the newest row is today (default: true)
+  indexingLagSeconds?: number; // Report `_meta` this far behind now, to exercise staleness handling (default: 0)
+}
+
+/**
+ * Load fixtures from disk.
+ *
+ * Day and hour data and swaps are optionally shifted forward so the newest row lands on the
+ * current day, keeping "last 30 days" queries populated however old the fixtures are.
+ */
+export function loadMockFixtures(fixturesDir: string = DEFAULT_FIXTURES_DIR, rebaseDates = true): MockFixtures {
+  const fixtures: MockFixtures = {};
+  for (const collection of FIXTURE_COLLECTIONS) {
+    const file = path.join(fixturesDir, `${collection}.json`);
+    fixtures[collection] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : [];
+  }
+
+  if (rebaseDates) {
+    const timeFields: Array<[string, string]> = [
+      ['tokenDayDatas', 'date'],
+      ['poolDayDatas', 'date'],
+      ['tokenHourDatas', 'periodStartUnix'],
+      ['poolHourDatas', 'periodStartUnix'],
+      ['pairDayDatas', 'date'],
+      ['swaps', 'timestamp'],
+      ['transactions', 'timestamp'],
+    ];
+    const latest = Math.max(0, ...timeFields.flatMap(([collection, field]) =>
+      fixtures[collection].map((row) => Number(row[field]))
+    ));
+    const today = Math.floor(Date.now() / 1000 / 86400) * 86400;
+    const offset = latest > 0 ? Math.max(0, today - Math.floor(latest / 86400) * 86400) : 0;
+
+    for (const [collection, field] of timeFields) {
+      fixtures[collection] = fixtures[collection].map((row) => ({ ...row, [field]: Number(row[field]) + offset }));
+    }
+  }
+
+  return fixtures;
+}
+
+/**
+ * Start the mock subgraph server.
+ *
+ * Every path answers POSTed GraphQL, so per-chain overrides can use distinct paths
+ * (e.g. http://localhost:4350/1) against the same fixtures.
+ *
+ * @param options - Port, fixture directory, date rebasing and simulated indexing lag
+ * @returns The listening server and its base URL
+ */
+export async function startMockSubgraphServer(
+  options: MockSubgraphServerOptions = {}
+): Promise<{ server: http.Server; url: string }> {
+  const fixtures = loadMockFixtures(options.fixturesDir, options.rebaseDates ?? true);
+  const startedAt = Math.floor(Date.now() / 1000);
+
+  const server = http.createServer((request, response) => {
+    if (request.method !== 'POST') {
+      response.writeHead(405, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ errors: [{ message: 'Only POST is supported' }] }));
+      return;
+    }
+
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      let payload: { query?: string; variables?: Record<string, any> };
+      try {
+        payload = JSON.parse(body || '{}');
+      } catch {
+        response.writeHead(400, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ errors: [{ message: 'Request body must be JSON' }] }));
+        return;
+      }
+
+      // Report a block that advances with wall-clock time, ~12s per block
+      const indexedAt = Math.floor(Date.now() / 1000) - (options.indexingLagSeconds ?? 0);
+      const meta: MockMeta = {
+        number: 20_000_000 + Math.floor(Math.max(0, indexedAt - startedAt) / 12),
+        timestamp: indexedAt,
+      };
+
+      const result = executeMockQuery(fixtures, meta, payload.query || '', payload.variables || {});
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(result));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 4350, resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port ?? 4350;
+
+  return { server, url: `http://localhost:${port}` };
+}
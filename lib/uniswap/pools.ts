@@ -1,59 +1,61 @@
 /**
  * Pool Fetching Module
  * 
- * Fetches pools for a given token from Uniswap v3 subgraphs.
+ * Fetches pools for a given token from Uniswap v3 and v4 subgraphs, which share
+ * the same pool schema. Uniswap v2 pairs are fetched in v2.ts.
  */
 
-import { queryUniswapV3Subgraph } from './client';
-import { isChainSupported, type VaultoChainId } from './subgraphs';
+import type { z } from 'zod';
+import { queryUniswapSubgraph } from './client';
+import { META_SELECTION, oldestSubgraphMeta, toSubgraphMeta, type GraphQLMeta, type SubgraphMeta } from './meta';
+import {
+  mergeValidationReports,
+  poolFeeDayDataRowSchema,
+  poolRowSchema,
+  validateRows,
+  type SubgraphValidationReport,
+} from './schemas';
+import { isChainSupported, isProtocolSupported, type UniswapProtocol, type VaultoChainId } from './subgraphs';
 
 /**
- * GraphQL token structure in pool query
+ * Protocols whose subgraphs use the concentrated-liquidity pool schema
  */
-interface GraphQLPoolToken {
-  id: string; // Token address (lowercase)
-  symbol: string;
-  name: string;
-  decimals: number;
-}
+export type ConcentratedLiquidityProtocol = Extract<UniswapProtocol, 'v3' | 'v4'>;
 
 /**
- * GraphQL pool structure from subgraph
+ * GraphQL pool structure from subgraph, as validated by poolRowSchema
  */
-interface GraphQLPool {
-  id: string; // Pool address (lowercase)
-  feeTier: string; // Fee tier in basis points (e.g., "500" = 0.05%)
-  liquidity: string;
-  sqrtPrice: string;
-  tick: string | null;
-  totalValueLockedUSD: string;
-  volumeUSD: string;
-  token0: GraphQLPoolToken;
-  token1: GraphQLPoolToken;
-  poolDayData: Array<{
-    volumeUSD: string;
-  }>;
-}
+type GraphQLPool = z.infer<typeof poolRowSchema>;
 
 /**
- * GraphQL response structure for pool query
+ * Day data nested under a pool, newest first
+ */
+type GraphQLPoolDayData = NonNullable<GraphQLPool['poolDayData']>;
+
+/**
+ * GraphQL response structure for pool query; rows are validated before use
  */
 interface PoolsResponse {
-  pools: GraphQLPool[];
+  pools?: unknown;
+  _meta?: GraphQLMeta;
 }
 
 /**
  * Transformed pool result
  */
 export interface PoolResult {
-  poolAddress: string; // Lowercased
+  poolId: string; // Lowercased subgraph id: the pool (or v2 pair) address, or the 32-byte pool id for v4
+  poolAddress: string | null; // Lowercased contract address; null for v4 pools, which live inside the PoolManager
   chainId: VaultoChainId;
-  feeTierBps: number; // Fee tier in basis points
+  protocol: UniswapProtocol;
+  feeTierBps: number | null; // Fee tier in hundredths of a bip (3000 = 0.3%); null for v4 dynamic-fee pools
   liquidity: string;
   sqrtPrice: string;
-  tick: number | null;
+  tick: number | null; // Null for v2 pairs
   tvlUSD: number;
   volumeUSD: number;
+  feeAPR7d: number | null; // Annualized fee yield in percent over the last 7 complete days, null without day data
+  feeAPR30d: number | null; // Same over the last 30 complete days
   token0: {
     address: string; // Lowercased
     symbol: string;
@@ -68,6 +70,34 @@ export interface PoolResult {
   };
 }
 
+/**
+ * A pool with its own contract and a fixed fee tier, as the address-based features
+ * (ticks, depth, observe() TWAPs, swap simulation) need; v4 pools may have neither
+ */
+export type AddressablePoolResult = PoolResult & { poolAddress: string; feeTierBps: number };
+
+/**
+ * Whether a pool can be used by address-based features
+ */
+export function isAddressablePool(pool: PoolResult): pool is AddressablePoolResult {
+  return pool.poolAddress !== null && pool.feeTierBps !== null;
+}
+
+/**
+ * v4 feeTier value marking a dynamic-fee pool, whose hook sets the fee per swap
+ */
+const V4_DYNAMIC_FEE_FLAG = 0x800000;
+
+/**
+ * One day of pool (or v2 pair) activity, as used for fee APR
+ */
+export interface PoolDayStats {
+  date: number; // Unix seconds at the start of the UTC day
+  volumeUSD: number;
+  tvlUSD: number;
+  feesUSD?: number; // Fees actually charged, used when the fee tier is dynamic
+}
+
 /**
  * Result with chain and token address context
  */
@@ -75,8 +105,40 @@ export interface PoolsForTokenResult {
   chainId: VaultoChainId;
   tokenAddress: string;
   pools: PoolResult[];
+  meta?: SubgraphMeta; // Indexed block the pools were read at
+  validation?: SubgraphValidationReport; // Malformed pool rows that were dropped
+  error?: string; // Set when the query failed; pools is then empty (partial for getAllPoolsForToken)
+}
+
+/**
+ * Every pool for a token, as collected by walking cursor pages
+ */
+export interface AllPoolsForTokenResult extends PoolsForTokenResult {
+  complete: boolean; // False when a page failed (see `error`) or the walk stopped at maxPools with pools left
 }
 
+/**
+ * A single cursor page of pools for a token
+ */
+export interface PoolsPageResult extends PoolsForTokenResult {
+  nextCursor: string | null; // Pool id to pass as the next cursor, null when exhausted
+}
+
+/**
+ * Options for walking pool pages
+ */
+export interface PoolsPageOptions {
+  cursor?: string; // Start after this pool id (exclusive), empty string starts from the beginning
+  pageSize?: number; // Pools per page (default: 100, max: 1000)
+  protocol?: ConcentratedLiquidityProtocol; // Subgraph to walk (default: 'v3')
+  feeAPR?: boolean; // Also read a month of day data for the page's fee APRs (default: false, leaving them null)
+}
+
+/**
+ * Day data rows fetched per pool: today (partial, used for 24h volume) plus 30 complete days
+ */
+export const FEE_APR_DAY_DATA_COUNT = 31;
+
 /**
  * GraphQL query for fetching pools for a token
  */
@@ -92,6 +154,61 @@ const POOLS_FOR_TOKEN_QUERY = `
       orderBy: totalValueLockedUSD
       orderDirection: desc
       first: $first
+    ) {
+      id
+      feeTier
+      liquidity
+      sqrtPrice
+      tick
+      totalValueLockedUSD
+      volumeUSD
+      token0 {
+        id
+        symbol
+        name
+        decimals
+      }
+      token1 {
+        id
+        symbol
+        name
+        decimals
+      }
+      poolDayData(
+        orderBy: date
+        orderDirection: desc
+        first: ${FEE_APR_DAY_DATA_COUNT}
+      ) {
+        date
+        volumeUSD
+        tvlUSD
+        feesUSD
+      }
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for walking pools for a token with an id_gt cursor.
+ * Results are ordered by id so the cursor is stable across pages. Only the latest day
+ * row is read, for 24h volume; fee APR day data comes from POOL_FEE_DAY_DATA_QUERY.
+ */
+const POOLS_FOR_TOKEN_PAGE_QUERY = `
+  query PoolsForTokenPage($token: String!, $cursor: String!, $first: Int!) {
+    pools(
+      where: {
+        and: [
+          { id_gt: $cursor }
+          {
+            or: [
+              { token0: $token }
+              { token1: $token }
+            ]
+          }
+        ]
+      }
+      orderBy: id
+      orderDirection: asc
+      first: $first
     ) {
       id
       feeTier
@@ -117,28 +234,181 @@ const POOLS_FOR_TOKEN_QUERY = `
         orderDirection: desc
         first: 1
       ) {
+        date
         volumeUSD
+        tvlUSD
+        feesUSD
+      }
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for the recent day data of a set of pools, for fee APR.
+ * Kept out of the page query so walks over many pools don't read a month of rows for each.
+ */
+const POOL_FEE_DAY_DATA_QUERY = `
+  query PoolFeeDayData($ids: [ID!]!, $first: Int!) {
+    pools(where: { id_in: $ids }, first: $first) {
+      id
+      poolDayData(
+        orderBy: date
+        orderDirection: desc
+        first: ${FEE_APR_DAY_DATA_COUNT}
+      ) {
+        date
+        volumeUSD
+        tvlUSD
+        feesUSD
       }
     }
   }
 `;
 
+/**
+ * Maximum page size accepted by The Graph for a single query
+ */
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Default page size when walking pools with a cursor
+ */
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Estimate a pool's fee APR from its recent day data.
+ *
+ * Each day's fee yield is volume x fee tier / TVL (the day's feesUSD / TVL when the
+ * fee tier is dynamic); the yields of the last `days`
+ * complete days are summed, divided by `days` and annualized. The subgraph only has
+ * rows for days with activity, so a day without a row (or without TVL) counts as zero
+ * volume rather than shrinking the window. Today's partial day is skipped.
+ *
+ * @param dayStats - Day data in any order
+ * @param feeTierBps - Fee tier in hundredths of a bip (e.g., 3000 = 0.3%), or null for a dynamic fee
+ * @param days - How many complete days to average over (e.g., 7 or 30)
+ * @returns APR in percent (e.g., 12.5 = 12.5%), or null if no day in the window has TVL
+ */
+export function calculateFeeAPR(dayStats: PoolDayStats[], feeTierBps: number | null, days: number): number | null {
+  const today = Math.floor(Date.now() / 1000 / 86400) * 86400;
+  const windowStart = today - days * 86400;
+  const dailyYields = dayStats
+    .filter((day) => day.date >= windowStart && day.date < today && day.tvlUSD > 0)
+    .map((day) => (feeTierBps === null ? day.feesUSD ?? 0 : (day.volumeUSD * feeTierBps) / 1_000_000) / day.tvlUSD);
+
+  if (dailyYields.length === 0) {
+    return null;
+  }
+
+  const averageDailyYield = dailyYields.reduce((sum, dailyYield) => sum + dailyYield, 0) / days;
+  return averageDailyYield * 365 * 100;
+}
+
+/**
+ * Transform a subgraph pool into a PoolResult
+ * @param feeDayData - Day data for the fee APRs (default: the pool's own); null leaves them null
+ */
+function transformPool(
+  pool: GraphQLPool,
+  chainId: VaultoChainId,
+  protocol: ConcentratedLiquidityProtocol,
+  feeDayData: GraphQLPoolDayData | null = pool.poolDayData ?? []
+): PoolResult {
+  // Fee tier is already in basis points (e.g., "500" = 0.05%); a v4 dynamic fee has no fixed tier
+  const feeTier = parseInt(pool.feeTier || '0', 10);
+  const feeTierBps = protocol === 'v4' && feeTier === V4_DYNAMIC_FEE_FLAG ? null : feeTier;
+  
+  // Get 24h volume from most recent poolDayData, fallback to 0
+  const dayData = pool.poolDayData && pool.poolDayData.length > 0 
+    ? pool.poolDayData[0] 
+    : null;
+  const volume24h = dayData ? parseFloat(dayData.volumeUSD || '0') : 0;
+
+  const dayStats: PoolDayStats[] = (feeDayData || []).map((day) => ({
+    date: day.date,
+    volumeUSD: parseFloat(day.volumeUSD || '0'),
+    tvlUSD: parseFloat(day.tvlUSD || '0'),
+    feesUSD: parseFloat(day.feesUSD || '0'),
+  }));
+  
+  return {
+    poolId: pool.id.toLowerCase(), // Ensure lowercase
+    poolAddress: protocol === 'v4' ? null : pool.id.toLowerCase(),
+    chainId,
+    protocol,
+    feeTierBps,
+    liquidity: pool.liquidity || '0',
+    sqrtPrice: pool.sqrtPrice || '0',
+    tick: pool.tick ? parseInt(pool.tick, 10) : null,
+    tvlUSD: parseFloat(pool.totalValueLockedUSD || '0'),
+    volumeUSD: volume24h, // Use 24h volume instead of lifetime volume
+    feeAPR7d: calculateFeeAPR(dayStats, feeTierBps, 7),
+    feeAPR30d: calculateFeeAPR(dayStats, feeTierBps, 30),
+    token0: {
+      address: pool.token0.id.toLowerCase(), // Ensure lowercase
+      symbol: pool.token0.symbol || '',
+      name: pool.token0.name || '',
+      decimals: Number(pool.token0.decimals) || 18,
+    },
+    token1: {
+      address: pool.token1.id.toLowerCase(), // Ensure lowercase
+      symbol: pool.token1.symbol || '',
+      name: pool.token1.name || '',
+      decimals: Number(pool.token1.decimals) || 18,
+    },
+  };
+}
+
+/**
+ * Get recent day data for a set of pools, newest first per pool.
+ *
+ * @returns Day data by pool id (pools with none are absent) and any dropped rows
+ * @throws Error if the query fails
+ */
+async function getPoolFeeDayData(
+  chainId: number,
+  protocol: ConcentratedLiquidityProtocol,
+  poolIds: string[]
+): Promise<{ dayData: Map<string, GraphQLPoolDayData>; validation?: SubgraphValidationReport }> {
+  const dayData = new Map<string, GraphQLPoolDayData>();
+  if (poolIds.length === 0) {
+    return { dayData };
+  }
+
+  const response = await queryUniswapSubgraph<PoolsResponse>(
+    chainId,
+    protocol,
+    POOL_FEE_DAY_DATA_QUERY,
+    {
+      ids: poolIds,
+      first: poolIds.length,
+    }
+  );
+
+  const { rows, validation } = validateRows(poolFeeDayDataRowSchema, response.pools, { chainId, collection: 'pools' });
+  for (const row of rows) {
+    dayData.set(row.id.toLowerCase(), row.poolDayData ?? []);
+  }
+  return { dayData, validation };
+}
+
 /**
  * Get pools for a given token address.
  * 
  * @param chainId - The chain ID to query
  * @param tokenAddress - The token address (will be lowercased)
- * @param limit - Maximum number of pools to return (default: 10)
- * @returns Array of pools sorted by TVL descending, or empty array on error
+ * @param limit - Maximum number of pools to return (default: 10, at most 100; use getAllPoolsForToken for every pool)
+ * @param protocol - 'v3' or 'v4' (default: 'v3')
+ * @returns Array of pools sorted by TVL descending, or empty array with `error` set on failure
  */
 export async function getPoolsForToken(
   chainId: number,
   tokenAddress: string,
-  limit: number = 10
+  limit: number = 10,
+  protocol: ConcentratedLiquidityProtocol = 'v3'
 ): Promise<PoolsForTokenResult> {
   // Return empty result if chain is not supported
-  if (!isChainSupported(chainId)) {
-    console.debug(`Chain ${chainId} is not supported for pool queries`);
+  if (!isChainSupported(chainId) || !isProtocolSupported(chainId, protocol)) {
+    console.debug(`Chain ${chainId} is not supported for ${protocol} pool queries`);
     return {
       chainId: chainId as VaultoChainId,
       tokenAddress: tokenAddress.toLowerCase(),
@@ -157,63 +427,209 @@ export async function getPoolsForToken(
   const normalizedAddress = tokenAddress.toLowerCase();
 
   try {
-    const response = await queryUniswapV3Subgraph<PoolsResponse>(
+    const response = await queryUniswapSubgraph<PoolsResponse>(
       chainId,
+      protocol,
       POOLS_FOR_TOKEN_QUERY,
       {
         token: normalizedAddress,
-        first: Math.min(limit, 100), // Cap at 100 for safety
+        first: Math.min(limit, DEFAULT_PAGE_SIZE), // The top pools by TVL; walking pages would return them in id order
       }
     );
 
-    const pools = (response.pools || []).map((pool) => {
-      // Fee tier is already in basis points (e.g., "500" = 0.05%)
-      const feeTierBps = parseInt(pool.feeTier || '0', 10);
-      
-      // Get 24h volume from most recent poolDayData, fallback to 0
-      const dayData = pool.poolDayData && pool.poolDayData.length > 0 
-        ? pool.poolDayData[0] 
-        : null;
-      const volume24h = dayData ? parseFloat(dayData.volumeUSD || '0') : 0;
-      
-      return {
-        poolAddress: pool.id.toLowerCase(), // Ensure lowercase
-        chainId: chainId as VaultoChainId,
-        feeTierBps,
-        liquidity: pool.liquidity || '0',
-        sqrtPrice: pool.sqrtPrice || '0',
-        tick: pool.tick ? parseInt(pool.tick, 10) : null,
-        tvlUSD: parseFloat(pool.totalValueLockedUSD || '0'),
-        volumeUSD: volume24h, // Use 24h volume instead of lifetime volume
-        token0: {
-          address: pool.token0.id.toLowerCase(), // Ensure lowercase
-          symbol: pool.token0.symbol || '',
-          name: pool.token0.name || '',
-          decimals: pool.token0.decimals || 18,
-        },
-        token1: {
-          address: pool.token1.id.toLowerCase(), // Ensure lowercase
-          symbol: pool.token1.symbol || '',
-          name: pool.token1.name || '',
-          decimals: pool.token1.decimals || 18,
-        },
-      };
-    });
+    const { rows, validation } = validateRows(poolRowSchema, response.pools, { chainId, collection: 'pools' });
+    const pools = rows.map((pool) => transformPool(pool, chainId, protocol));
 
     return {
       chainId: chainId as VaultoChainId,
       tokenAddress: normalizedAddress,
       pools,
+      meta: toSubgraphMeta(response._meta),
+      validation,
     };
   } catch (error) {
     // Log error but don't throw - return empty array for graceful degradation
-    console.error(`Error fetching pools for token ${normalizedAddress} on chain ${chainId}:`, error);
+    console.error(`Error fetching ${protocol} pools for token ${normalizedAddress} on chain ${chainId}:`, error);
     return {
       chainId: chainId as VaultoChainId,
       tokenAddress: normalizedAddress,
       pools: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
 
+/**
+ * Fetch a single cursor page of pools for a token.
+ * 
+ * Pages are ordered by pool id, not TVL. Pass the returned `nextCursor`
+ * back in to continue; a null cursor means there are no more pools.
+ * 
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param options - Cursor, page size and protocol
+ * @returns The page of pools and the cursor for the next page
+ * @throws Error if the chain is not supported or the subgraph query fails
+ */
+export async function getPoolsPageForToken(
+  chainId: number,
+  tokenAddress: string,
+  options: PoolsPageOptions = {}
+): Promise<PoolsPageResult> {
+  const protocol = options.protocol ?? 'v3';
+  if (!isChainSupported(chainId) || !isProtocolSupported(chainId, protocol)) {
+    throw new Error(`Chain ${chainId} is not supported for ${protocol} pool queries`);
+  }
+
+  const normalizedAddress = tokenAddress.toLowerCase();
+  const pageSize = Math.max(1, Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE));
+
+  const response = await queryUniswapSubgraph<PoolsResponse>(
+    chainId,
+    protocol,
+    POOLS_FOR_TOKEN_PAGE_QUERY,
+    {
+      token: normalizedAddress,
+      cursor: (options.cursor || '').toLowerCase(),
+      first: pageSize,
+    }
+  );
 
+  const rawPools: unknown[] = Array.isArray(response.pools) ? response.pools : [];
+  const { rows, validation } = validateRows(poolRowSchema, rawPools, { chainId, collection: 'pools' });
+
+  // Fee APRs are best-effort, like v2's: the page is still useful for TVL and volume without them
+  let feeDayData: Map<string, GraphQLPoolDayData> | null = null;
+  let feeValidation: SubgraphValidationReport | undefined;
+  if (options.feeAPR) {
+    try {
+      ({ dayData: feeDayData, validation: feeValidation } = await getPoolFeeDayData(
+        chainId,
+        protocol,
+        rows.map((pool) => pool.id.toLowerCase())
+      ));
+    } catch (error) {
+      console.error(`Error fetching ${protocol} pool day data on chain ${chainId}:`, error);
+    }
+  }
+  const pools = rows.map((pool) =>
+    transformPool(pool, chainId, protocol, feeDayData ? feeDayData.get(pool.id.toLowerCase()) ?? [] : null)
+  );
+
+  // A short page means the subgraph has nothing left after it. The cursor comes from the
+  // raw page so a dropped last row doesn't end or repeat the walk.
+  const lastRawId = (rawPools[rawPools.length - 1] as { id?: unknown } | null)?.id;
+  const lastId = typeof lastRawId === 'string' ? lastRawId : rows[rows.length - 1]?.id;
+  const nextCursor = rawPools.length === pageSize && lastId
+    ? lastId.toLowerCase()
+    : null;
+
+  return {
+    chainId,
+    tokenAddress: normalizedAddress,
+    pools,
+    nextCursor,
+    meta: toSubgraphMeta(response._meta),
+    validation: mergeValidationReports([validation, feeValidation]),
+  };
+}
+
+/**
+ * Walk every pool for a token page by page using id_gt cursors.
+ * 
+ * @example
+ * for await (const page of iteratePoolsForToken(1, usdcAddress)) {
+ *   console.log(page.pools.length, page.nextCursor);
+ * }
+ * 
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param options - Starting cursor, page size and protocol
+ * @yields Pages of pools until the cursor is exhausted
+ * @throws Error if any page fails to load
+ */
+export async function* iteratePoolsForToken(
+  chainId: number,
+  tokenAddress: string,
+  options: PoolsPageOptions = {}
+): AsyncGenerator<PoolsPageResult, void, undefined> {
+  let cursor: string | null = options.cursor || '';
+
+  while (cursor !== null) {
+    const page: PoolsPageResult = await getPoolsPageForToken(chainId, tokenAddress, {
+      cursor,
+      pageSize: options.pageSize,
+      protocol: options.protocol,
+      feeAPR: options.feeAPR,
+    });
+    yield page;
+    cursor = page.nextCursor;
+  }
+}
+
+/**
+ * Fetch all pools for a token, up to a maximum, by walking cursor pages.
+ * 
+ * Pages come in pool id order, so when the walk stops at maxPools the result is not
+ * the token's top pools by TVL; check `complete` before treating it as every pool.
+ * Fee APRs are left null: reading a month of day data for every pool would multiply
+ * the walk's size, so callers showing pools should use getPoolsPageForToken with `feeAPR`.
+ * 
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param maxPools - Stop after collecting this many pools (default: 1000)
+ * @param protocol - 'v3' or 'v4' (default: 'v3')
+ * @returns Pools sorted by TVL descending; on a failed page, those collected before it with `error` set
+ */
+export async function getAllPoolsForToken(
+  chainId: number,
+  tokenAddress: string,
+  maxPools: number = 1000,
+  protocol: ConcentratedLiquidityProtocol = 'v3'
+): Promise<AllPoolsForTokenResult> {
+  const normalizedAddress = (tokenAddress || '').toLowerCase();
+  const pools: PoolResult[] = [];
+  const metas: Array<SubgraphMeta | undefined> = [];
+  const validations: Array<SubgraphValidationReport | undefined> = [];
+
+  if (!isChainSupported(chainId) || !isProtocolSupported(chainId, protocol) || !normalizedAddress) {
+    return {
+      chainId: chainId as VaultoChainId,
+      tokenAddress: normalizedAddress,
+      pools,
+      complete: true,
+    };
+  }
+
+  let complete = true;
+  let error: string | undefined;
+  try {
+    const pageSize = Math.min(maxPools, MAX_PAGE_SIZE);
+    for await (const page of iteratePoolsForToken(chainId, normalizedAddress, { pageSize, protocol })) {
+      pools.push(...page.pools);
+      metas.push(page.meta);
+      validations.push(page.validation);
+      if (pools.length >= maxPools) {
+        complete = pools.length === maxPools && page.nextCursor === null;
+        break;
+      }
+    }
+  } catch (pageError) {
+    // Keep what we have, but flag it - callers summing TVL must not mistake it for every pool
+    console.error(`Error paginating ${protocol} pools for token ${normalizedAddress} on chain ${chainId}:`, pageError);
+    complete = false;
+    error = pageError instanceof Error ? pageError.message : 'Unknown error';
+  }
+
+  return {
+    chainId,
+    tokenAddress: normalizedAddress,
+    pools: pools
+      .sort((a, b) => b.tvlUSD - a.tvlUSD)
+      .slice(0, maxPools),
+    meta: oldestSubgraphMeta(metas),
+    validation: mergeValidationReports(validations),
+    complete,
+    error,
+  };
+}
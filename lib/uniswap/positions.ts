@@ -0,0 +1,307 @@
+/**
+ * Positions Module
+ *
+ * Fetches a wallet's Uniswap v3 liquidity positions from the subgraph and values
+ * them at the pool's current price, with range status and an uncollected fees estimate.
+ */
+
+import type { z } from 'zod';
+import { queryUniswapV3Subgraph } from './client';
+import { META_SELECTION, toSubgraphMeta, type GraphQLMeta, type SubgraphMeta } from './meta';
+import { positionRowSchema, validateRows, type SubgraphValidationReport } from './schemas';
+import { isChainSupported, type VaultoChainId } from './subgraphs';
+import {
+  getAmountsForLiquidity,
+  getFeeGrowthInside,
+  getSqrtRatioAtTick,
+  MAX_TICK,
+  MIN_TICK,
+  Q128,
+} from './v3Math';
+
+/**
+ * Where the pool's current tick sits relative to a position's range.
+ * Below range holds only token0, above range only token1; neither earns fees.
+ */
+export type PositionRangeStatus = 'in-range' | 'below-range' | 'above-range';
+
+/**
+ * Token side of a position, with amounts decimal-adjusted
+ */
+export interface PositionToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  priceUSD: number; // 0 when the subgraph has no price for the token
+  amount: number; // Held by the position's liquidity at the current price
+  uncollectedFees: number; // Estimated fees earned but not yet collected
+}
+
+/**
+ * A wallet's liquidity position in a v3 pool
+ */
+export interface PositionResult {
+  id: string; // NFT token id
+  chainId: VaultoChainId;
+  poolAddress: string;
+  feeTierBps: number;
+  liquidity: string; // Raw liquidity, as a decimal string
+  tickLower: number;
+  tickUpper: number;
+  currentTick: number | null; // Null if the pool is not initialized
+  rangeStatus: PositionRangeStatus;
+  token0: PositionToken;
+  token1: PositionToken;
+  valueUSD: number; // Current value of both token amounts
+  uncollectedFeesUSD: number;
+}
+
+/**
+ * A wallet's positions on one chain
+ */
+export interface PositionsForOwnerResult {
+  chainId: VaultoChainId;
+  owner: string; // Lowercased
+  positions: PositionResult[]; // Sorted by valueUSD descending
+  meta?: SubgraphMeta; // Indexed block the positions were read at
+  validation?: SubgraphValidationReport; // Malformed position rows that were dropped
+}
+
+/**
+ * GraphQL position structure from subgraph, as validated by positionRowSchema
+ */
+type GraphQLPosition = z.infer<typeof positionRowSchema>;
+
+/**
+ * GraphQL response structure for position query; rows are validated with positionRowSchema
+ */
+interface PositionsResponse {
+  positions?: unknown;
+  bundle?: { ethPriceUSD?: string | null } | null;
+  _meta?: GraphQLMeta;
+}
+
+/**
+ * Maximum positions fetched per wallet and chain
+ */
+const MAX_POSITIONS = 100;
+
+/**
+ * Fields selected for each side of a position's range
+ */
+const POSITION_TICK_FIELDS = `
+        tickIdx
+        feeGrowthOutside0X128
+        feeGrowthOutside1X128
+`;
+
+/**
+ * Fields selected for each token of a position's pool
+ */
+const POSITION_TOKEN_FIELDS = `
+          id
+          symbol
+          name
+          decimals
+          derivedETH
+`;
+
+/**
+ * GraphQL query for a wallet's open positions, with the pool state needed to value them.
+ * Token USD prices are derivedETH times the bundle's ETH price.
+ */
+const POSITIONS_FOR_OWNER_QUERY = `
+  query PositionsForOwner($owner: String!, $first: Int!) {
+    positions(
+      where: { owner: $owner, liquidity_gt: "0" }
+      orderBy: liquidity
+      orderDirection: desc
+      first: $first
+    ) {
+      id
+      liquidity
+      tickLower {${POSITION_TICK_FIELDS}      }
+      tickUpper {${POSITION_TICK_FIELDS}      }
+      feeGrowthInside0LastX128
+      feeGrowthInside1LastX128
+      pool {
+        id
+        feeTier
+        sqrtPrice
+        tick
+        feeGrowthGlobal0X128
+        feeGrowthGlobal1X128
+        token0 {${POSITION_TOKEN_FIELDS}        }
+        token1 {${POSITION_TOKEN_FIELDS}        }
+      }
+    }
+    bundle(id: "1") {
+      ethPriceUSD
+    }${META_SELECTION}  }
+`;
+
+/**
+ * Convert a raw token amount to a decimal-adjusted number
+ */
+function toDecimalAmount(amount: bigint, decimals: number): number {
+  return Number(amount) / Math.pow(10, decimals);
+}
+
+/**
+ * Estimate a position's uncollected fees for one token from subgraph fee growth.
+ *
+ * The subgraph only refreshes tick fee growth when a position at that tick is touched,
+ * so this is an estimate; growth that would wrap negative is treated as stale and ignored.
+ *
+ * @returns Raw uncollected fee amount
+ */
+function estimateUncollectedFees(
+  liquidity: bigint,
+  tickLower: number,
+  tickUpper: number,
+  tickCurrent: number,
+  feeGrowthGlobalX128: string | null | undefined,
+  feeGrowthOutsideLowerX128: string | null | undefined,
+  feeGrowthOutsideUpperX128: string | null | undefined,
+  feeGrowthInsideLastX128: string | null | undefined
+): bigint {
+  if (!feeGrowthGlobalX128 || !feeGrowthInsideLastX128) {
+    return 0n;
+  }
+
+  const feeGrowthInside = getFeeGrowthInside(
+    tickLower,
+    tickUpper,
+    tickCurrent,
+    BigInt(feeGrowthGlobalX128),
+    BigInt(feeGrowthOutsideLowerX128 || '0'),
+    BigInt(feeGrowthOutsideUpperX128 || '0')
+  );
+  const delta = feeGrowthInside - BigInt(feeGrowthInsideLastX128);
+  return delta > 0n ? (delta * liquidity) / Q128 : 0n;
+}
+
+/**
+ * Transform a validated position into PositionResult
+ */
+function transformPosition(position: GraphQLPosition, chainId: VaultoChainId, ethPriceUSD: number): PositionResult {
+  const { pool } = position;
+  const liquidity = BigInt(position.liquidity);
+  const tickLower = Math.max(MIN_TICK, parseInt(position.tickLower.tickIdx, 10));
+  const tickUpper = Math.min(MAX_TICK, parseInt(position.tickUpper.tickIdx, 10));
+  const currentTick = pool.tick !== null ? parseInt(pool.tick, 10) : null;
+  const sqrtPriceX96 = BigInt(pool.sqrtPrice);
+
+  const rangeStatus: PositionRangeStatus = currentTick === null || currentTick < tickLower
+    ? 'below-range'
+    : currentTick >= tickUpper
+      ? 'above-range'
+      : 'in-range';
+
+  const { amount0, amount1 } = sqrtPriceX96 > 0n
+    ? getAmountsForLiquidity(sqrtPriceX96, getSqrtRatioAtTick(tickLower), getSqrtRatioAtTick(tickUpper), liquidity)
+    : { amount0: 0n, amount1: 0n };
+
+  // Fees can only be estimated once the pool has a current tick
+  const [fees0, fees1] = currentTick === null
+    ? [0n, 0n]
+    : [
+      estimateUncollectedFees(
+        liquidity,
+        tickLower,
+        tickUpper,
+        currentTick,
+        pool.feeGrowthGlobal0X128,
+        position.tickLower.feeGrowthOutside0X128,
+        position.tickUpper.feeGrowthOutside0X128,
+        position.feeGrowthInside0LastX128
+      ),
+      estimateUncollectedFees(
+        liquidity,
+        tickLower,
+        tickUpper,
+        currentTick,
+        pool.feeGrowthGlobal1X128,
+        position.tickLower.feeGrowthOutside1X128,
+        position.tickUpper.feeGrowthOutside1X128,
+        position.feeGrowthInside1LastX128
+      ),
+    ];
+
+  const toPositionToken = (
+    token: GraphQLPosition['pool']['token0'],
+    amount: bigint,
+    uncollectedFees: bigint
+  ): PositionToken => {
+    const decimals = Number(token.decimals) || 18;
+    return {
+      address: token.id.toLowerCase(),
+      symbol: token.symbol || '',
+      name: token.name || '',
+      decimals,
+      priceUSD: parseFloat(token.derivedETH || '0') * ethPriceUSD,
+      amount: toDecimalAmount(amount, decimals),
+      uncollectedFees: toDecimalAmount(uncollectedFees, decimals),
+    };
+  };
+
+  const token0 = toPositionToken(pool.token0, amount0, fees0);
+  const token1 = toPositionToken(pool.token1, amount1, fees1);
+
+  return {
+    id: position.id,
+    chainId,
+    poolAddress: pool.id.toLowerCase(),
+    feeTierBps: Number(pool.feeTier) || 0,
+    liquidity: liquidity.toString(),
+    tickLower,
+    tickUpper,
+    currentTick,
+    rangeStatus,
+    token0,
+    token1,
+    valueUSD: token0.amount * token0.priceUSD + token1.amount * token1.priceUSD,
+    uncollectedFeesUSD: token0.uncollectedFees * token0.priceUSD + token1.uncollectedFees * token1.priceUSD,
+  };
+}
+
+/**
+ * Get a wallet's open Uniswap v3 positions on a chain.
+ *
+ * @param chainId - The chain ID to query
+ * @param owner - The wallet address (will be lowercased)
+ * @returns Positions with non-zero liquidity, sorted by value descending
+ * @throws Error if the chain is not supported or the subgraph query fails
+ */
+export async function getPositionsForOwner(
+  chainId: number,
+  owner: string
+): Promise<PositionsForOwnerResult> {
+  if (!isChainSupported(chainId)) {
+    throw new Error(`Chain ${chainId} is not supported for position queries`);
+  }
+
+  const normalizedOwner = owner.toLowerCase();
+  const response = await queryUniswapV3Subgraph<PositionsResponse>(
+    chainId,
+    POSITIONS_FOR_OWNER_QUERY,
+    {
+      owner: normalizedOwner,
+      first: MAX_POSITIONS,
+    }
+  );
+
+  const { rows, validation } = validateRows(positionRowSchema, response.positions, { chainId, collection: 'positions' });
+  const ethPriceUSD = parseFloat(response.bundle?.ethPriceUSD || '0') || 0;
+
+  return {
+    chainId,
+    owner: normalizedOwner,
+    positions: rows
+      .map((position) => transformPosition(position, chainId, ethPriceUSD))
+      .sort((a, b) => b.valueUSD - a.valueUSD),
+    meta: toSubgraphMeta(response._meta),
+    validation,
+  };
+}
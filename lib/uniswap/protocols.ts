@@ -0,0 +1,204 @@
+/**
+ * Cross-Protocol Liquidity Module
+ *
+ * Aggregates token search and pool lookups across the Uniswap v2, v3 and v4
+ * subgraphs available on a chain, so TVL and volume include liquidity outside v3.
+ */
+
+import { oldestSubgraphMeta, type SubgraphMeta } from './meta';
+import { getPoolsForToken, getPoolsPageForToken, type PoolResult, type PoolsForTokenResult } from './pools';
+import { mergeValidationReports, type SubgraphValidationReport } from './schemas';
+import { getSupportedProtocols, type UniswapProtocol, type VaultoChainId } from './subgraphs';
+import { searchTokens, type TokenSearchResult } from './tokenSearch';
+import { getV2PairsForToken, getV2PairsPageForToken, searchV2Tokens } from './v2';
+
+/**
+ * Token search result merged across protocols
+ */
+export interface AggregatedTokenSearchResult {
+  chainId: VaultoChainId;
+  tokens: Array<TokenSearchResult['tokens'][number] & {
+    protocols: UniswapProtocol[]; // Protocols the token was found on
+  }>;
+  meta?: SubgraphMeta; // Oldest indexed block across the protocols queried
+  validation?: SubgraphValidationReport; // Malformed rows dropped across the protocols queried
+  failedProtocols?: UniswapProtocol[]; // Protocols whose query failed, so the results may be incomplete
+}
+
+/**
+ * Where each protocol's pool walk stands: the pool id to continue after, '' to start from
+ * the first pool. Protocols that are absent have no pools left to load.
+ */
+export type PoolsCursor = Partial<Record<UniswapProtocol, string>>;
+
+/**
+ * Pools merged across protocols
+ */
+export interface AggregatedPoolsForTokenResult extends PoolsForTokenResult {
+  failedProtocols?: UniswapProtocol[]; // Protocols whose query failed, so the pools may be incomplete
+  nextCursor: PoolsCursor | null; // Protocols that may have pools beyond those returned, null when none do
+}
+
+/**
+ * A page of pools merged across protocols
+ */
+export interface AggregatedPoolsPageResult extends PoolsForTokenResult {
+  nextCursor: PoolsCursor | null; // Null when every protocol is exhausted
+}
+
+/**
+ * Protocols whose result carries an error, or undefined when all succeeded
+ */
+function getFailedProtocols(protocols: UniswapProtocol[], errors: Array<string | undefined>): UniswapProtocol[] | undefined {
+  const failed = protocols.filter((_, i) => errors[i] !== undefined);
+  return failed.length > 0 ? failed : undefined;
+}
+
+/**
+ * Search for tokens on every Uniswap protocol supported by a chain.
+ *
+ * Results are merged by address with TVL and 24h volume summed across protocols.
+ * A protocol whose query fails contributes nothing rather than failing the search,
+ * and is listed in failedProtocols.
+ *
+ * @param chainId - The chain ID to search on
+ * @param text - The search text (symbol or name)
+ * @param limit - Maximum number of results (default: 10)
+ * @returns Merged tokens sorted by TVL descending
+ */
+export async function searchTokensAcrossProtocols(
+  chainId: number,
+  text: string,
+  limit: number = 10
+): Promise<AggregatedTokenSearchResult> {
+  const protocols = getSupportedProtocols(chainId);
+
+  const results = await Promise.all(
+    protocols.map(async (protocol) => ({
+      protocol,
+      result: protocol === 'v2'
+        ? await searchV2Tokens(chainId, text, limit)
+        : await searchTokens(chainId, text, limit, protocol),
+    }))
+  );
+
+  const merged = new Map<string, AggregatedTokenSearchResult['tokens'][number]>();
+  for (const { protocol, result } of results) {
+    for (const token of result.tokens) {
+      const existing = merged.get(token.address);
+      if (existing) {
+        existing.tvlUSD += token.tvlUSD;
+        existing.volumeUSD += token.volumeUSD;
+        existing.protocols.push(protocol);
+      } else {
+        merged.set(token.address, { ...token, protocols: [protocol] });
+      }
+    }
+  }
+
+  return {
+    chainId: chainId as VaultoChainId,
+    tokens: Array.from(merged.values())
+      .sort((a, b) => b.tvlUSD - a.tvlUSD)
+      .slice(0, limit),
+    meta: oldestSubgraphMeta(results.map(({ result }) => result.meta)),
+    validation: mergeValidationReports(results.map(({ result }) => result.validation)),
+    failedProtocols: getFailedProtocols(protocols, results.map(({ result }) => result.error)),
+  };
+}
+
+/**
+ * Get the top pools for a token across every Uniswap protocol supported by a chain.
+ *
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param limit - Maximum number of pools to return (default: 10)
+ * @param protocols - Restrict to these protocols (default: all supported on the chain)
+ * @returns Pools from all protocols sorted by TVL descending, with failed protocols in failedProtocols
+ */
+export async function getPoolsForTokenAcrossProtocols(
+  chainId: number,
+  tokenAddress: string,
+  limit: number = 10,
+  protocols: UniswapProtocol[] = getSupportedProtocols(chainId)
+): Promise<AggregatedPoolsForTokenResult> {
+  const results = await Promise.all(
+    protocols.map((protocol) =>
+      protocol === 'v2'
+        ? getV2PairsForToken(chainId, tokenAddress, limit)
+        : getPoolsForToken(chainId, tokenAddress, limit, protocol)
+    )
+  );
+
+  const pools: PoolResult[] = results
+    .flatMap((result) => result.pools)
+    .sort((a, b) => b.tvlUSD - a.tvlUSD)
+    .slice(0, limit);
+
+  // A protocol may have more pools when its query failed, filled the limit or lost pools to the cut
+  const nextCursor: PoolsCursor = {};
+  protocols.forEach((protocol, i) => {
+    const { pools: protocolPools, error } = results[i];
+    const shown = pools.filter((pool) => pool.protocol === protocol).length;
+    if (error !== undefined || protocolPools.length >= limit || shown < protocolPools.length) {
+      nextCursor[protocol] = '';
+    }
+  });
+
+  return {
+    chainId: chainId as VaultoChainId,
+    tokenAddress: tokenAddress.toLowerCase(),
+    pools,
+    meta: oldestSubgraphMeta(results.map((result) => result.meta)),
+    validation: mergeValidationReports(results.map((result) => result.validation)),
+    failedProtocols: getFailedProtocols(protocols, results.map((result) => result.error)),
+    nextCursor: Object.keys(nextCursor).length > 0 ? nextCursor : null,
+  };
+}
+
+/**
+ * Load the next page of a token's pools from each protocol in a cursor.
+ *
+ * Each protocol is walked by pool id on its own cursor, so pages may repeat pools
+ * already returned by the TVL-ordered getPoolsForTokenAcrossProtocols; callers should
+ * dedupe by poolId.
+ *
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param cursor - Where each protocol's walk stands
+ * @param pageSize - Pools per protocol per page (default: 10)
+ * @returns The protocols' pages merged by TVL descending, and where to continue
+ * @throws Error if any protocol's page fails to load
+ */
+export async function getPoolsPageForTokenAcrossProtocols(
+  chainId: number,
+  tokenAddress: string,
+  cursor: PoolsCursor,
+  pageSize: number = 10
+): Promise<AggregatedPoolsPageResult> {
+  const protocols = getSupportedProtocols(chainId).filter((protocol) => cursor[protocol] !== undefined);
+  const pages = await Promise.all(
+    protocols.map((protocol) =>
+      protocol === 'v2'
+        ? getV2PairsPageForToken(chainId, tokenAddress, { cursor: cursor[protocol], pageSize })
+        : getPoolsPageForToken(chainId, tokenAddress, { cursor: cursor[protocol], pageSize, protocol, feeAPR: true })
+    )
+  );
+
+  const nextCursor: PoolsCursor = {};
+  protocols.forEach((protocol, i) => {
+    const protocolCursor = pages[i].nextCursor;
+    if (protocolCursor !== null) {
+      nextCursor[protocol] = protocolCursor;
+    }
+  });
+
+  return {
+    chainId: chainId as VaultoChainId,
+    tokenAddress: tokenAddress.toLowerCase(),
+    pools: pages.flatMap((page) => page.pools).sort((a, b) => b.tvlUSD - a.tvlUSD),
+    meta: oldestSubgraphMeta(pages.map((page) => page.meta)),
+    validation: mergeValidationReports(pages.map((page) => page.validation)),
+    nextCursor: Object.keys(nextCursor).length > 0 ? nextCursor : null,
+  };
+}
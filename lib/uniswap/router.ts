@@ -0,0 +1,293 @@
+/**
+ * Route Finder Module
+ *
+ * Finds and quotes multi-hop swap paths across Uniswap v3 pools on a single chain.
+ */
+
+import { formatUnits } from 'viem';
+import type { SwapQuote } from '@/lib/types/swap';
+import { getPoolsForToken, isAddressablePool, type AddressablePoolResult, type PoolResult } from './pools';
+import { isChainSupported } from './subgraphs';
+import { quotePoolSwap, toSwapQuoteHop, type V3PoolQuote } from './swapSimulator';
+import { getInitializedTicks, type TickData } from './ticks';
+import { sqrtPriceX96ToPrice } from './v3Math';
+
+/**
+ * Route search options
+ */
+export interface FindRoutesOptions {
+  maxHops?: number; // 1 to 3 (default: 3)
+  maxResults?: number; // Ranked quotes to return (default: 5)
+  slippageBps?: number; // For minimumReceived (default: 50 = 0.5%)
+}
+
+/**
+ * A candidate path: an ordered list of pools and the tokens between them
+ */
+interface CandidatePath {
+  pools: AddressablePoolResult[];
+  tokens: string[]; // tokens[i] -> tokens[i + 1] through pools[i]
+}
+
+/**
+ * A fully quoted route
+ */
+export interface RouteQuote {
+  tokens: string[];
+  hops: V3PoolQuote[];
+  amountIn: string;
+  amountOut: string;
+  quote: SwapQuote;
+}
+
+/**
+ * Pools fetched per token when building the graph
+ */
+const POOLS_PER_TOKEN = 10;
+
+/**
+ * Neighbours of tokenIn whose pools are also fetched, enabling 3-hop paths
+ */
+const MAX_EXPANDED_TOKENS = 5;
+
+/**
+ * Candidate paths quoted against real ticks after the mid-price estimate
+ */
+const MAX_QUOTED_PATHS = 8;
+
+/**
+ * Pools below this TVL are ignored as routing hops
+ */
+const MIN_POOL_TVL_USD = 1_000;
+
+/**
+ * Token on the other side of a pool
+ */
+function otherToken(pool: PoolResult, token: string): string {
+  return pool.token0.address === token ? pool.token1.address : pool.token0.address;
+}
+
+/**
+ * Whether a pool can carry a trade at all; v4 pools can't be quoted by address yet
+ */
+function isRoutablePool(pool: PoolResult): pool is AddressablePoolResult {
+  return isAddressablePool(pool)
+    && pool.tick !== null
+    && pool.sqrtPrice !== '0'
+    && pool.liquidity !== '0'
+    && pool.tvlUSD >= MIN_POOL_TVL_USD;
+}
+
+/**
+ * Build an adjacency list of token -> pools from the pools around tokenIn and tokenOut.
+ * @throws Error if a pool lookup fails, so an outage isn't reported as "no route"
+ */
+async function buildPoolGraph(
+  chainId: number,
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number
+): Promise<Map<string, AddressablePoolResult[]>> {
+  const poolsById = new Map<string, AddressablePoolResult>();
+  const addPools = (pools: PoolResult[]) => {
+    pools.filter(isRoutablePool).forEach((pool) => poolsById.set(pool.poolAddress, pool));
+  };
+
+  const [inPools, outPools] = await Promise.all([
+    getPoolsForToken(chainId, tokenIn, POOLS_PER_TOKEN),
+    getPoolsForToken(chainId, tokenOut, POOLS_PER_TOKEN),
+  ]);
+  const lookupError = inPools.error ?? outPools.error;
+  if (lookupError !== undefined) {
+    throw new Error(`Pool lookup failed: ${lookupError}`);
+  }
+  addPools(inPools.pools);
+  addPools(outPools.pools);
+
+  // A middle hop needs pools between tokenIn's neighbours and tokenOut's neighbours
+  if (maxHops >= 3) {
+    const neighbours = Array.from(new Set(
+      inPools.pools
+        .filter(isRoutablePool)
+        .map((pool) => otherToken(pool, tokenIn))
+        .filter((token) => token !== tokenOut)
+    )).slice(0, MAX_EXPANDED_TOKENS);
+
+    const expanded = await Promise.all(
+      neighbours.map((token) => getPoolsForToken(chainId, token, POOLS_PER_TOKEN))
+    );
+    const expandedError = expanded.find((result) => result.error !== undefined)?.error;
+    if (expandedError !== undefined) {
+      throw new Error(`Pool lookup failed: ${expandedError}`);
+    }
+    expanded.forEach((result) => addPools(result.pools));
+  }
+
+  const graph = new Map<string, AddressablePoolResult[]>();
+  poolsById.forEach((pool) => {
+    for (const token of [pool.token0.address, pool.token1.address]) {
+      const edges = graph.get(token) || [];
+      edges.push(pool);
+      graph.set(token, edges);
+    }
+  });
+  return graph;
+}
+
+/**
+ * Enumerate simple paths (no repeated token or pool) from tokenIn to tokenOut.
+ */
+function enumeratePaths(
+  graph: Map<string, AddressablePoolResult[]>,
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number
+): CandidatePath[] {
+  const paths: CandidatePath[] = [];
+
+  const walk = (token: string, pools: AddressablePoolResult[], tokens: string[]) => {
+    if (token === tokenOut && pools.length > 0) {
+      paths.push({ pools: [...pools], tokens: [...tokens] });
+      return;
+    }
+    if (pools.length >= maxHops) return;
+
+    for (const pool of graph.get(token) || []) {
+      const next = otherToken(pool, token);
+      if (tokens.includes(next)) continue;
+      pools.push(pool);
+      tokens.push(next);
+      walk(next, pools, tokens);
+      pools.pop();
+      tokens.pop();
+    }
+  };
+
+  walk(tokenIn, [], [tokenIn]);
+  return paths;
+}
+
+/**
+ * Cheap output estimate from mid prices and fees, used to rank candidates before tick fetches.
+ */
+function estimatePathOutput(path: CandidatePath, amountIn: number): number {
+  return path.pools.reduce((amount, pool, i) => {
+    const zeroForOne = path.tokens[i] === pool.token0.address;
+    const price0In1 = sqrtPriceX96ToPrice(BigInt(pool.sqrtPrice), pool.token0.decimals, pool.token1.decimals);
+    const midPrice = zeroForOne ? price0In1 : (price0In1 > 0 ? 1 / price0In1 : 0);
+    return amount * midPrice * (1 - pool.feeTierBps / 1_000_000);
+  }, amountIn);
+}
+
+/**
+ * Find and rank exact-input routes from tokenIn to tokenOut, up to 3 hops.
+ *
+ * @param chainId - The chain ID to route on
+ * @param tokenIn - Address of the token being sold
+ * @param tokenOut - Address of the token being bought
+ * @param amountIn - Decimal amount of tokenIn
+ * @param options - Hop limit, result count and slippage
+ * @returns Routes ranked by output amount descending, empty if no path exists
+ * @throws Error if the chain is not supported, inputs are invalid or the pools can't be fetched
+ */
+export async function findRoutes(
+  chainId: number,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: string,
+  options: FindRoutesOptions = {}
+): Promise<RouteQuote[]> {
+  if (!isChainSupported(chainId)) {
+    throw new Error(`Chain ${chainId} is not supported for routing`);
+  }
+
+  const normalizedIn = tokenIn.toLowerCase();
+  const normalizedOut = tokenOut.toLowerCase();
+  if (normalizedIn === normalizedOut) {
+    throw new Error('tokenIn and tokenOut must be different');
+  }
+
+  const maxHops = Math.max(1, Math.min(options.maxHops ?? 3, 3));
+  const maxResults = options.maxResults ?? 5;
+  const slippageBps = options.slippageBps ?? 50;
+
+  const graph = await buildPoolGraph(chainId, normalizedIn, normalizedOut, maxHops);
+  const candidates = enumeratePaths(graph, normalizedIn, normalizedOut, maxHops);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  // Rank by mid-price estimate, then quote only the most promising paths against ticks
+  const numericAmountIn = parseFloat(amountIn);
+  const shortlist = candidates
+    .map((path) => ({ path, estimate: estimatePathOutput(path, numericAmountIn) }))
+    .sort((a, b) => b.estimate - a.estimate)
+    .slice(0, MAX_QUOTED_PATHS)
+    .map(({ path }) => path);
+
+  // Fetch ticks once per pool across all shortlisted paths
+  const tickRequests = new Map<string, Promise<TickData[]>>();
+  shortlist.forEach((path) => path.pools.forEach((pool) => {
+    if (!tickRequests.has(pool.poolAddress)) {
+      const request = getInitializedTicks(chainId, pool.poolAddress);
+      // Paths that fail on an earlier hop never await this; keep the rejection handled
+      request.catch(() => {});
+      tickRequests.set(pool.poolAddress, request);
+    }
+  }));
+
+  const routes = await Promise.all(shortlist.map(async (path): Promise<RouteQuote | null> => {
+    try {
+      const hops: V3PoolQuote[] = [];
+      let hopAmount = amountIn;
+
+      for (let i = 0; i < path.pools.length; i++) {
+        const pool = path.pools[i];
+        const ticks = await tickRequests.get(pool.poolAddress)!;
+        const hop = quotePoolSwap(pool, ticks, path.tokens[i], hopAmount, true);
+        // A hop that can't be filled makes the whole route unusable
+        if (!hop.filled || hop.simulation.amountOut === 0n) {
+          return null;
+        }
+        hops.push(hop);
+        hopAmount = hop.amountOut;
+      }
+
+      const firstHop = hops[0];
+      const lastHop = hops[hops.length - 1];
+      const midPrice = hops.reduce((price, hop) => price * hop.midPrice, 1);
+      const executionPrice = parseFloat(lastHop.amountOut) / parseFloat(firstHop.amountIn);
+      const priceImpact = midPrice > 0 ? Math.max(0, (1 - executionPrice / midPrice) * 100) : 0;
+      const minimumReceived = (lastHop.simulation.amountOut * BigInt(10_000 - slippageBps)) / 10_000n;
+
+      return {
+        tokens: path.tokens,
+        hops,
+        amountIn: firstHop.amountIn,
+        amountOut: lastHop.amountOut,
+        quote: {
+          rate: executionPrice.toString(),
+          outputAmount: lastHop.amountOut,
+          source: 'Uniswap V3',
+          priceImpact: priceImpact.toFixed(2),
+          minimumReceived: formatUnits(minimumReceived, lastHop.tokenOut.decimals),
+          route: hops.map(toSwapQuoteHop),
+        },
+      };
+    } catch (error) {
+      // Skip routes whose pools fail to load or simulate
+      console.debug(`Skipping route ${path.tokens.join(' -> ')}:`, error);
+      return null;
+    }
+  }));
+
+  return routes
+    .filter((route): route is RouteQuote => route !== null)
+    .sort((a, b) => {
+      // Same output token on every route, so raw amounts compare directly; prefer fewer hops on ties
+      const outA = a.hops[a.hops.length - 1].simulation.amountOut;
+      const outB = b.hops[b.hops.length - 1].simulation.amountOut;
+      return outA === outB ? a.hops.length - b.hops.length : (outB > outA ? 1 : -1);
+    })
+    .slice(0, maxResults);
+}
@@ -0,0 +1,63 @@
+/**
+ * RPC Client Module
+ *
+ * Shared viem public clients for on-chain reads. The endpoint for a chain is
+ * RPC_URL_<chainId> when set (e.g. a local Hardhat node), then the app's
+ * NEXT_PUBLIC_*_RPC_URL, then the chain's public default.
+ */
+
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { arbitrum, avalanche, base, blast, bsc, celo, mainnet, optimism, polygon } from 'viem/chains';
+import { chainConfig } from '@/config/chains';
+
+/**
+ * Chains with a public default RPC, matching the chains with Uniswap subgraphs
+ */
+const DEFAULT_CHAINS = {
+  1: mainnet,
+  10: optimism,
+  56: bsc,
+  137: polygon,
+  8453: base,
+  42161: arbitrum,
+  42220: celo,
+  43114: avalanche,
+  81457: blast,
+} as const;
+
+const clients = new Map<number, PublicClient>();
+
+/**
+ * Get the RPC endpoint for a chain
+ * @returns The URL, or null if none is configured or known
+ */
+export function getRpcUrl(chainId: number): string | null {
+  const override = process.env[`RPC_URL_${chainId}`];
+  if (override) {
+    return override;
+  }
+
+  const configured = chainConfig[chainId as keyof typeof chainConfig]?.rpcUrl;
+  if (configured) {
+    return configured;
+  }
+
+  return DEFAULT_CHAINS[chainId as keyof typeof DEFAULT_CHAINS]?.rpcUrls.default.http[0] ?? null;
+}
+
+/**
+ * Get the shared public client for a chain
+ * @throws Error if the chain has no RPC endpoint
+ */
+export function getRpcClient(chainId: number): PublicClient {
+  let client = clients.get(chainId);
+  if (!client) {
+    const url = getRpcUrl(chainId);
+    if (!url) {
+      throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+    }
+    client = createPublicClient({ transport: http(url, { timeout: 10_000 }) });
+    clients.set(chainId, client);
+  }
+  return client;
+}
@@ -0,0 +1,340 @@
+/**
+ * Subgraph Response Schemas
+ *
+ * Zod schemas for every row shape the Uniswap queries read. Rows are validated one
+ * at a time so a single malformed entity (a null token0, a renamed field) is dropped
+ * and counted instead of throwing inside the mapping and failing the whole request.
+ *
+ * Identifiers, token references and timestamps are required. Numeric fields the
+ * mappers already default to 0 may be null or missing, but must be numeric when present.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Maximum issue messages kept per report, so a fully broken response stays readable
+ */
+const MAX_VALIDATION_ISSUES = 20;
+
+/**
+ * Rows dropped while validating subgraph responses
+ */
+export interface SubgraphValidationReport {
+  droppedRows: number;
+  issues: string[]; // e.g. "pools[3].token0: Expected object, received null" (capped)
+}
+
+/**
+ * BigInt/BigDecimal serialized as a string (graph-node) or number (some mirrors),
+ * normalized to a string so precision is left to the mapper
+ */
+const numeric = z
+  .union([
+    z.string().regex(/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i, 'Expected a numeric string'),
+    z.number().finite(),
+  ])
+  .transform(String);
+
+/**
+ * Numeric field the mapping defaults to 0 when absent
+ */
+const optionalNumeric = numeric.nullish();
+
+/**
+ * Integer timestamp, serialized as a number or string depending on the field type
+ */
+const timestamp = z.coerce.number().int().nonnegative();
+
+/**
+ * Entity id (address, pool id or composite id)
+ */
+const entityId = z.string().min(1);
+
+/**
+ * `_meta` block info
+ */
+export const metaSchema = z.object({
+  block: z.object({
+    number: z.coerce.number().int().nonnegative(),
+    timestamp: z.coerce.number().int().nullable(),
+  }),
+});
+
+/**
+ * Token as nested in pool and pair rows
+ */
+const poolTokenSchema = z.object({
+  id: entityId,
+  symbol: z.string(),
+  name: z.string(),
+  decimals: numeric,
+});
+
+/**
+ * v3/v4 token search row
+ */
+export const tokenSearchRowSchema = poolTokenSchema.extend({
+  volumeUSD: optionalNumeric,
+  totalValueLockedUSD: optionalNumeric,
+  tokenDayData: z.array(z.object({ volumeUSD: optionalNumeric })).nullish(),
+});
+
+/**
+ * Day data nested under a v3/v4 pool
+ */
+const nestedPoolDayDataSchema = z.array(z.object({
+  date: timestamp,
+  volumeUSD: optionalNumeric,
+  tvlUSD: optionalNumeric,
+  feesUSD: optionalNumeric,
+})).nullish();
+
+/**
+ * v3/v4 pool row
+ */
+export const poolRowSchema = z.object({
+  id: entityId,
+  feeTier: optionalNumeric,
+  liquidity: optionalNumeric,
+  sqrtPrice: optionalNumeric,
+  tick: numeric.nullable(), // Null until the pool is initialized
+  totalValueLockedUSD: optionalNumeric,
+  volumeUSD: optionalNumeric,
+  token0: poolTokenSchema,
+  token1: poolTokenSchema,
+  poolDayData: nestedPoolDayDataSchema,
+});
+
+/**
+ * v3/v4 pool with only its day data, for fee APR
+ */
+export const poolFeeDayDataRowSchema = z.object({
+  id: entityId,
+  poolDayData: nestedPoolDayDataSchema,
+});
+
+/**
+ * v2 token search row
+ */
+export const v2TokenSearchRowSchema = poolTokenSchema.extend({
+  tokenDayData: z.array(z.object({
+    dailyVolumeUSD: optionalNumeric,
+    totalLiquidityUSD: optionalNumeric,
+  })).nullish(),
+});
+
+/**
+ * v2 pair row
+ */
+export const v2PairRowSchema = z.object({
+  id: entityId,
+  reserveUSD: optionalNumeric,
+  token0: poolTokenSchema,
+  token1: poolTokenSchema,
+});
+
+/**
+ * v2 pair day data row
+ */
+export const v2PairDayDataRowSchema = z.object({
+  pairAddress: entityId,
+  date: timestamp,
+  dailyVolumeUSD: optionalNumeric,
+  reserveUSD: optionalNumeric,
+});
+
+/**
+ * Initialized tick row
+ */
+export const tickRowSchema = z.object({
+  tickIdx: z.string().regex(/^-?\d+$/, 'Expected an integer string'),
+  liquidityNet: z.string().regex(/^-?\d+$/, 'Expected an integer string'),
+  liquidityGross: z.string().regex(/^\d+$/, 'Expected a non-negative integer string'),
+});
+
+/**
+ * Swap row
+ */
+export const swapRowSchema = z.object({
+  id: entityId,
+  timestamp: timestamp,
+  transaction: z.object({ id: entityId }),
+  pool: z.object({ id: entityId }),
+  token0: poolTokenSchema.pick({ id: true, symbol: true }),
+  token1: poolTokenSchema.pick({ id: true, symbol: true }),
+  origin: z.string(),
+  amount0: numeric, // Signed, from the pool's perspective: positive flowed into the pool
+  amount1: numeric,
+  amountUSD: optionalNumeric,
+});
+
+/**
+ * Unsigned integer serialized as a string (liquidity, Q128 fee growth), kept exact for bigint math
+ */
+const uintString = z.string().regex(/^\d+$/, 'Expected a non-negative integer string');
+
+/**
+ * Tick bound of a position, with the fee growth recorded outside it
+ */
+const positionTickSchema = z.object({
+  tickIdx: z.string().regex(/^-?\d+$/, 'Expected an integer string'),
+  feeGrowthOutside0X128: uintString.nullish(),
+  feeGrowthOutside1X128: uintString.nullish(),
+});
+
+/**
+ * v3 liquidity position row
+ */
+export const positionRowSchema = z.object({
+  id: entityId, // NFT token id
+  liquidity: uintString,
+  tickLower: positionTickSchema,
+  tickUpper: positionTickSchema,
+  feeGrowthInside0LastX128: uintString.nullish(),
+  feeGrowthInside1LastX128: uintString.nullish(),
+  pool: z.object({
+    id: entityId,
+    feeTier: optionalNumeric,
+    sqrtPrice: uintString,
+    tick: numeric.nullable(), // Null until the pool is initialized
+    feeGrowthGlobal0X128: uintString.nullish(),
+    feeGrowthGlobal1X128: uintString.nullish(),
+    token0: poolTokenSchema.extend({ derivedETH: optionalNumeric }),
+    token1: poolTokenSchema.extend({ derivedETH: optionalNumeric }),
+  }),
+});
+
+/**
+ * Pool day data row
+ */
+export const poolDayDataRowSchema = z.object({
+  date: timestamp,
+  tvlUSD: optionalNumeric,
+  volumeUSD: optionalNumeric,
+  feesUSD: optionalNumeric,
+  token1Price: optionalNumeric,
+});
+
+/**
+ * Pool hour data row
+ */
+export const poolHourDataRowSchema = z.object({
+  periodStartUnix: timestamp,
+  tvlUSD: optionalNumeric,
+  volumeUSD: optionalNumeric,
+  feesUSD: optionalNumeric,
+  token1Price: optionalNumeric,
+});
+
+/**
+ * Token day data row
+ */
+export const tokenDayDataRowSchema = z.object({
+  date: timestamp,
+  totalValueLockedUSD: optionalNumeric,
+  volumeUSD: optionalNumeric,
+  feesUSD: optionalNumeric,
+  priceUSD: optionalNumeric,
+});
+
+/**
+ * Token hour data row
+ */
+export const tokenHourDataRowSchema = z.object({
+  periodStartUnix: timestamp,
+  totalValueLockedUSD: optionalNumeric,
+  volumeUSD: optionalNumeric,
+  feesUSD: optionalNumeric,
+  priceUSD: optionalNumeric,
+});
+
+/**
+ * Token price row: derivedETH plus the two latest day closes for the 24h change
+ */
+export const tokenPriceRowSchema = z.object({
+  id: entityId,
+  symbol: z.string(),
+  derivedETH: optionalNumeric,
+  tokenDayData: z.array(z.object({ date: timestamp, priceUSD: optionalNumeric })).nullish(),
+});
+
+/**
+ * Format a zod issue with the row's position, e.g. "pools[3].token0: Expected object, received null"
+ */
+function formatIssue(collection: string, index: number, issue: z.ZodIssue): string {
+  const path = issue.path.map((part) => (typeof part === 'number' ? `[${part}]` : `.${part}`)).join('');
+  return `${collection}[${index}]${path}: ${issue.message}`;
+}
+
+/**
+ * Validate a collection from a subgraph response row by row.
+ *
+ * Invalid rows are dropped and logged; a missing collection is treated as empty.
+ *
+ * @param schema - Schema for one row
+ * @param rows - The collection from the response (e.g. `response.pools`)
+ * @param context - Chain and collection name, for logs and issue messages
+ * @returns The valid rows in their original order, plus a report if anything was dropped
+ */
+export function validateRows<S extends z.ZodTypeAny>(
+  schema: S,
+  rows: unknown,
+  context: { chainId: number; collection: string }
+): { rows: Array<z.output<S>>; validation?: SubgraphValidationReport } {
+  if (rows === undefined || rows === null) {
+    return { rows: [] };
+  }
+
+  if (!Array.isArray(rows)) {
+    const validation = { droppedRows: 0, issues: [`${context.collection}: Expected array, received ${typeof rows}`] };
+    console.warn(`Invalid ${context.collection} in subgraph response for chain ${context.chainId}:`, validation.issues[0]);
+    return { rows: [], validation };
+  }
+
+  const valid: Array<z.output<S>> = [];
+  const issues: string[] = [];
+  let droppedRows = 0;
+
+  rows.forEach((row, index) => {
+    const result = schema.safeParse(row);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+    droppedRows++;
+    for (const issue of result.error.issues) {
+      if (issues.length < MAX_VALIDATION_ISSUES) {
+        issues.push(formatIssue(context.collection, index, issue));
+      }
+    }
+  });
+
+  if (droppedRows === 0) {
+    return { rows: valid };
+  }
+
+  console.warn(
+    `Dropped ${droppedRows} of ${rows.length} malformed ${context.collection} rows from chain ${context.chainId} subgraph:`,
+    issues
+  );
+  return { rows: valid, validation: { droppedRows, issues } };
+}
+
+/**
+ * Combine validation reports from the queries behind one response.
+ *
+ * @param reports - Reports from each query (undefined when nothing was dropped)
+ * @returns The combined report, or undefined if no rows were dropped anywhere
+ */
+export function mergeValidationReports(
+  reports: Array<SubgraphValidationReport | undefined>
+): SubgraphValidationReport | undefined {
+  const present = reports.filter((report): report is SubgraphValidationReport => report !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+  return {
+    droppedRows: present.reduce((sum, report) => sum + report.droppedRows, 0),
+    issues: present.flatMap((report) => report.issues).slice(0, MAX_VALIDATION_ISSUES),
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Uniswap Subgraph IDs
+ *
+ * Subgraph IDs on The Graph Network by chain, for each Uniswap protocol. Kept free of
+ * runtime imports so config/subgraphEnv.ts can derive its per-chain overrides from
+ * them without an import cycle through lib/uniswap/subgraphs.ts.
+ */
+
+import type { VaultoChainId } from './subgraphs';
+
+/**
+ * Map of chain IDs to Uniswap v3 subgraph IDs from The Graph Network.
+ * Subgraph IDs are used to construct the endpoint URL.
+ * 
+ * Get your API key from: https://thegraph.com/studio/apikeys/
+ */
+export const UNISWAP_V3_SUBGRAPH_IDS: Record<VaultoChainId, string> = {
+  [1]: "5zvR82QoaXYFyDEKLZ9t6v9adgnptxYpKpSbxtgVENFV",      // Ethereum
+  [10]: "Cghf4LfVqPiFw6fp6Y5X5Ubc8UpmUhSfJL82zwiBFLaj",    // Optimism
+  [56]: "F85MNzUGYqgSHSHRGgeVMNsdnW1KtZSVgFULumXRZTw2",    // BSC
+  [137]: "3hCPRGf4z88VC5rsBKU5AA9FBBq5nF3jbKJG7VZCbhjm",   // Polygon
+  [42161]: "3V7ZY6muhxaQL5qvntX1CFXJ32W7BxXZTGTwmpH5J4t3", // Arbitrum
+  [43114]: "GVH9h9KZ9CqheUEL93qMbq7QwgoBu32QXQDPR6bev4Eo", // Avalanche
+  [8453]: "43Hwfi3dJSoGpyas9VwNoDAv55yjgGrPpNSmbQZArzMG",  // Base
+  [42220]: "ESdrTJ3twMwWVoQ1hUE2u7PugEHX3QkenudD6aXCkDQ4", // Celo
+  [81457]: "2LHovKznvo8YmKC9ZprPjsYAZDCc4K5q4AYz8s3cnQn1", // Blast
+  [11155111]: "",  // Sepolia - no subgraph
+  [421614]: "",    // Arbitrum Sepolia - no subgraph
+};
+
+/**
+ * Map of chain IDs to Uniswap v2 subgraph IDs.
+ * Chains not listed can still be enabled with UNISWAP_V2_SUBGRAPH_URL_<chainId>.
+ */
+export const UNISWAP_V2_SUBGRAPH_IDS: Partial<Record<VaultoChainId, string>> = {
+  [1]: "A3Np3RQbaBA6oKJgiwDJeo5T3zrYfGHPWFYayMwtNDum",      // Ethereum
+  [8453]: "4jGhpKjW4prWoyt5Bwk1ZHUwdEmNWveJcjEyjoTZWCY9",   // Base
+};
+
+/**
+ * Map of chain IDs to Uniswap v4 subgraph IDs.
+ * Chains not listed can still be enabled with UNISWAP_V4_SUBGRAPH_URL_<chainId>.
+ */
+export const UNISWAP_V4_SUBGRAPH_IDS: Partial<Record<VaultoChainId, string>> = {
+  [1]: "DiYPVdygkfjDWhbxGSqAQxwBKmfKnkWQojqeM2rkLb3G",      // Ethereum
+  [8453]: "HNCFA9TyBqpo5qpe6QreQABAA1kV8g46mhkCcicu6v2R",   // Base
+};
@@ -1,10 +1,18 @@
 /**
- * Uniswap v3 Subgraph Configuration
+ * Uniswap Subgraph Configuration
  * 
- * Maps chain IDs to Uniswap v3 subgraph IDs from The Graph Network.
+ * Maps chain IDs to Uniswap v2, v3 and v4 subgraph IDs from The Graph Network.
  * Subgraph IDs are used to query liquidity, pools, and token data.
  */
 
+import { getSubgraphEndpointOverride, type SubgraphProtocol } from '@/config/subgraphEnv';
+import { UNISWAP_V2_SUBGRAPH_IDS, UNISWAP_V3_SUBGRAPH_IDS, UNISWAP_V4_SUBGRAPH_IDS } from './subgraphIds';
+
+/**
+ * Uniswap protocol version
+ */
+export type UniswapProtocol = SubgraphProtocol;
+
 // Chain IDs from wagmi - using number type to match wagmi Chain.id
 export type VaultoChainId = 
   | 1      // Ethereum Mainnet
@@ -20,23 +28,29 @@ export type VaultoChainId =
   | 421614;    // Arbitrum Sepolia (testnet - no subgraph)
 
 /**
- * Map of chain IDs to Uniswap v3 subgraph IDs from The Graph Network.
- * Subgraph IDs are used to construct the endpoint URL.
- * 
- * Get your API key from: https://thegraph.com/studio/apikeys/
+ * Display names for chains, used when results span several chains
  */
-const UNISWAP_V3_SUBGRAPH_IDS: Record<VaultoChainId, string> = {
-  [1]: "5zvR82QoaXYFyDEKLZ9t6v9adgnptxYpKpSbxtgVENFV",      // Ethereum
-  [10]: "Cghf4LfVqPiFw6fp6Y5X5Ubc8UpmUhSfJL82zwiBFLaj",    // Optimism
-  [56]: "F85MNzUGYqgSHSHRGgeVMNsdnW1KtZSVgFULumXRZTw2",    // BSC
-  [137]: "3hCPRGf4z88VC5rsBKU5AA9FBBq5nF3jbKJG7VZCbhjm",   // Polygon
-  [42161]: "3V7ZY6muhxaQL5qvntX1CFXJ32W7BxXZTGTwmpH5J4t3", // Arbitrum
-  [43114]: "GVH9h9KZ9CqheUEL93qMbq7QwgoBu32QXQDPR6bev4Eo", // Avalanche
-  [8453]: "43Hwfi3dJSoGpyas9VwNoDAv55yjgGrPpNSmbQZArzMG",  // Base
-  [42220]: "ESdrTJ3twMwWVoQ1hUE2u7PugEHX3QkenudD6aXCkDQ4", // Celo
-  [81457]: "2LHovKznvo8YmKC9ZprPjsYAZDCc4K5q4AYz8s3cnQn1", // Blast
-  [11155111]: "",  // Sepolia - no subgraph
-  [421614]: "",    // Arbitrum Sepolia - no subgraph
+const CHAIN_NAMES: Record<VaultoChainId, string> = {
+  [1]: "Ethereum",
+  [10]: "Optimism",
+  [56]: "BNB Chain",
+  [137]: "Polygon",
+  [42161]: "Arbitrum",
+  [43114]: "Avalanche",
+  [8453]: "Base",
+  [42220]: "Celo",
+  [81457]: "Blast",
+  [11155111]: "Sepolia",
+  [421614]: "Arbitrum Sepolia",
+};
+
+/**
+ * Subgraph IDs by protocol
+ */
+const SUBGRAPH_IDS: Record<UniswapProtocol, Partial<Record<VaultoChainId, string>>> = {
+  v2: UNISWAP_V2_SUBGRAPH_IDS,
+  v3: UNISWAP_V3_SUBGRAPH_IDS,
+  v4: UNISWAP_V4_SUBGRAPH_IDS,
 };
 
 /**
@@ -55,15 +69,75 @@ export function isChainSupported(chainId: number): chainId is VaultoChainId {
 }
 
 /**
- * Get the Uniswap v3 subgraph endpoint URL for a given chain ID.
+ * Get every chain ID with Uniswap v3 subgraph support.
+ * 
+ * @returns Supported chain IDs
+ */
+export function getSupportedChainIds(): VaultoChainId[] {
+  return Object.keys(UNISWAP_V3_SUBGRAPH_IDS)
+    .map(Number)
+    .filter(isChainSupported);
+}
+
+/**
+ * Get a display name for a chain.
+ * 
+ * @param chainId - The chain ID
+ * @returns The chain name, or "Chain <id>" for unknown chains
+ */
+export function getChainName(chainId: number): string {
+  return CHAIN_NAMES[chainId as VaultoChainId] || `Chain ${chainId}`;
+}
+
+/**
+ * Check if a chain has a subgraph for a given Uniswap protocol.
+ * 
+ * v3 is the base requirement: v2 and v4 are only used on chains that also have v3.
+ * An endpoint override counts as support for v2 and v4.
+ * 
+ * @param chainId - The chain ID to check
+ * @param protocol - The Uniswap protocol version
+ * @returns True if the protocol can be queried on the chain
+ */
+export function isProtocolSupported(chainId: number, protocol: UniswapProtocol): boolean {
+  if (!isChainSupported(chainId)) {
+    return false;
+  }
+  if (protocol === 'v3') {
+    return true;
+  }
+  return Boolean(SUBGRAPH_IDS[protocol][chainId]) || Boolean(getSubgraphEndpointOverride(chainId, protocol));
+}
+
+/**
+ * Get the Uniswap protocols that can be queried on a chain.
+ * 
+ * @param chainId - The chain ID to check
+ * @returns Supported protocols, v3 first; empty if the chain is unsupported
+ */
+export function getSupportedProtocols(chainId: number): UniswapProtocol[] {
+  return (['v3', 'v2', 'v4'] as UniswapProtocol[]).filter((protocol) => isProtocolSupported(chainId, protocol));
+}
+
+/**
+ * Get the subgraph endpoint URL for a chain and Uniswap protocol.
+ * 
+ * Uses UNISWAP_<V2|V3|V4>_SUBGRAPH_URL_<chainId> or UNISWAP_<V2|V3|V4>_SUBGRAPH_URL
+ * when set (self-hosted graph-node or the local mock server), otherwise The Graph gateway.
  * 
  * @param chainId - The chain ID to get the endpoint for
+ * @param protocol - The Uniswap protocol version
  * @returns The subgraph endpoint URL
- * @throws Error if chain is not supported or API key is missing
+ * @throws Error if the protocol is not supported on the chain, an override is invalid, or API key is missing
  */
-export function getUniswapV3SubgraphEndpoint(chainId: number): string {
-  if (!isChainSupported(chainId)) {
-    throw new Error(`Chain ${chainId} is not supported or does not have a Uniswap v3 subgraph`);
+export function getUniswapSubgraphEndpoint(chainId: number, protocol: UniswapProtocol): string {
+  if (!isProtocolSupported(chainId, protocol)) {
+    throw new Error(`Chain ${chainId} is not supported or does not have a Uniswap ${protocol} subgraph`);
+  }
+
+  const override = getSubgraphEndpointOverride(chainId, protocol);
+  if (override) {
+    return override;
   }
 
   const apiKey = process.env.THE_GRAPH_API_KEY;
@@ -71,10 +145,21 @@ export function getUniswapV3SubgraphEndpoint(chainId: number): string {
     throw new Error('THE_GRAPH_API_KEY environment variable is not set. Get your API key from: https://thegraph.com/studio/apikeys/');
   }
 
-  const subgraphId = UNISWAP_V3_SUBGRAPH_IDS[chainId];
+  const subgraphId = SUBGRAPH_IDS[protocol][chainId as VaultoChainId];
   return `https://gateway.thegraph.com/api/${apiKey}/subgraphs/id/${subgraphId}`;
 }
 
+/**
+ * Get the Uniswap v3 subgraph endpoint URL for a given chain ID.
+ * 
+ * @param chainId - The chain ID to get the endpoint for
+ * @returns The subgraph endpoint URL
+ * @throws Error if chain is not supported, an override is invalid, or API key is missing
+ */
+export function getUniswapV3SubgraphEndpoint(chainId: number): string {
+  return getUniswapSubgraphEndpoint(chainId, 'v3');
+}
+
 
 
 
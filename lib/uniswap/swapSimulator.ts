@@ -0,0 +1,336 @@
+/**
+ * Swap Simulator Module
+ *
+ * Simulates exact-in and exact-out swaps against a Uniswap v3 pool locally,
+ * using pool state from the subgraph and the v3 math in `v3Math.ts`.
+ * test-swap-simulator.ts checks it against QuoterV2 on a local Hardhat node.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+import type { SwapQuote, SwapQuoteHop } from '@/lib/types/swap';
+import type { AddressablePoolResult } from './pools';
+import { getInitializedTicks, type TickData } from './ticks';
+import {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  computeSwapStep,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  sqrtPriceX96ToPrice,
+} from './v3Math';
+
+/**
+ * Pool state needed to simulate a swap
+ */
+export interface V3PoolState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint; // In-range liquidity
+  feePips: number; // Fee in hundredths of a bip (e.g., 3000 = 0.3%)
+  ticks: TickData[]; // Initialized ticks sorted by tickIdx ascending
+}
+
+/**
+ * Raw swap parameters
+ */
+export interface SimulateSwapParams {
+  zeroForOne: boolean; // true to swap token0 for token1
+  amount: bigint; // Positive raw amount of the input (exact in) or output (exact out) token
+  exactInput: boolean;
+  sqrtPriceLimitX96?: bigint; // Price the swap may not cross, defaults to the tick bounds
+}
+
+/**
+ * Raw swap simulation result
+ */
+export interface SwapSimulation {
+  amountIn: bigint; // Includes fee
+  amountOut: bigint;
+  feeAmount: bigint; // Paid in the input token
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  liquidityAfter: bigint;
+  ticksCrossed: number;
+  filled: boolean; // false when liquidity or the price limit ran out first
+}
+
+/**
+ * Token leg of a quote
+ */
+export interface QuoteToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Decimal-adjusted quote for a single pool
+ */
+export interface V3PoolQuote {
+  poolAddress: string;
+  feeTierBps: number;
+  tokenIn: QuoteToken;
+  tokenOut: QuoteToken;
+  amountIn: string; // Decimal string, includes fee
+  amountOut: string; // Decimal string
+  feeAmount: string; // Decimal string in tokenIn
+  executionPrice: number; // tokenOut received per tokenIn spent
+  midPrice: number; // tokenOut per tokenIn before the swap
+  priceImpact: number; // Percentage (e.g., 0.42 = 0.42%), including the LP fee
+  filled: boolean;
+  simulation: SwapSimulation;
+}
+
+/**
+ * Build simulator state from a subgraph pool and its initialized ticks.
+ *
+ * @param pool - The pool as returned by getPoolsForToken
+ * @param ticks - Initialized ticks for the pool
+ * @returns Pool state for simulateSwap
+ * @throws Error if the pool has no price or tick yet
+ */
+export function poolStateFromPoolResult(pool: AddressablePoolResult, ticks: TickData[]): V3PoolState {
+  const sqrtPriceX96 = BigInt(pool.sqrtPrice || '0');
+  if (sqrtPriceX96 === 0n || pool.tick === null) {
+    throw new Error(`Pool ${pool.poolAddress} is not initialized`);
+  }
+
+  return {
+    sqrtPriceX96,
+    tick: pool.tick,
+    liquidity: BigInt(pool.liquidity || '0'),
+    feePips: pool.feeTierBps,
+    ticks: [...ticks].sort((a, b) => a.tickIdx - b.tickIdx),
+  };
+}
+
+/**
+ * Find the next initialized tick in the swap direction.
+ * Searching down includes the current tick; searching up excludes it.
+ */
+function nextInitializedTick(
+  ticks: TickData[],
+  tick: number,
+  lte: boolean
+): { tickNext: number; initialized: boolean; liquidityNet: bigint } {
+  if (lte) {
+    for (let i = ticks.length - 1; i >= 0; i--) {
+      if (ticks[i].tickIdx <= tick) {
+        return { tickNext: ticks[i].tickIdx, initialized: true, liquidityNet: ticks[i].liquidityNet };
+      }
+    }
+    return { tickNext: MIN_TICK, initialized: false, liquidityNet: 0n };
+  }
+
+  for (const candidate of ticks) {
+    if (candidate.tickIdx > tick) {
+      return { tickNext: candidate.tickIdx, initialized: true, liquidityNet: candidate.liquidityNet };
+    }
+  }
+  return { tickNext: MAX_TICK, initialized: false, liquidityNet: 0n };
+}
+
+/**
+ * Simulate a swap against pool state, crossing initialized ticks as needed.
+ * Mirrors the loop in UniswapV3Pool.swap.
+ *
+ * @param state - Pool state
+ * @param params - Direction, amount and exact-in/out
+ * @returns Amounts swapped and the pool state after the swap
+ * @throws Error if the amount or price limit is invalid
+ */
+export function simulateSwap(state: V3PoolState, params: SimulateSwapParams): SwapSimulation {
+  const { zeroForOne, amount, exactInput } = params;
+
+  if (amount <= 0n) {
+    throw new Error('Swap amount must be greater than zero');
+  }
+
+  const sqrtPriceLimitX96 = params.sqrtPriceLimitX96 ?? (zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n);
+
+  if (zeroForOne
+    ? sqrtPriceLimitX96 >= state.sqrtPriceX96 || sqrtPriceLimitX96 <= MIN_SQRT_RATIO
+    : sqrtPriceLimitX96 <= state.sqrtPriceX96 || sqrtPriceLimitX96 >= MAX_SQRT_RATIO) {
+    throw new Error('Invalid sqrtPriceLimitX96 for swap direction');
+  }
+
+  // Positive while exact input remains, negative while exact output remains
+  let amountSpecifiedRemaining = exactInput ? amount : -amount;
+  let amountCalculated = 0n;
+  let feeAmount = 0n;
+  let sqrtPriceX96 = state.sqrtPriceX96;
+  let tick = state.tick;
+  let liquidity = state.liquidity;
+  let ticksCrossed = 0;
+
+  while (amountSpecifiedRemaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const sqrtPriceStartX96 = sqrtPriceX96;
+    const { tickNext, initialized, liquidityNet } = nextInitializedTick(state.ticks, tick, zeroForOne);
+    const clampedTick = Math.max(MIN_TICK, Math.min(MAX_TICK, tickNext));
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(clampedTick);
+
+    const sqrtPriceTargetX96 = (zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96)
+      ? sqrtPriceLimitX96
+      : sqrtPriceNextX96;
+
+    const step = computeSwapStep(
+      sqrtPriceX96,
+      sqrtPriceTargetX96,
+      liquidity,
+      amountSpecifiedRemaining,
+      state.feePips
+    );
+    sqrtPriceX96 = step.sqrtRatioNextX96;
+    feeAmount += step.feeAmount;
+
+    if (exactInput) {
+      amountSpecifiedRemaining -= step.amountIn + step.feeAmount;
+      amountCalculated += step.amountOut;
+    } else {
+      amountSpecifiedRemaining += step.amountOut;
+      amountCalculated += step.amountIn + step.feeAmount;
+    }
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      // Crossed into the next range: apply its liquidity change
+      if (initialized) {
+        liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+        ticksCrossed++;
+      }
+      tick = zeroForOne ? clampedTick - 1 : clampedTick;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  const filledAmount = exactInput ? amount - amountSpecifiedRemaining : amount + amountSpecifiedRemaining;
+
+  return {
+    amountIn: exactInput ? filledAmount : amountCalculated,
+    amountOut: exactInput ? amountCalculated : filledAmount,
+    feeAmount,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    liquidityAfter: liquidity,
+    ticksCrossed,
+    filled: amountSpecifiedRemaining === 0n,
+  };
+}
+
+/**
+ * Quote a swap through a pool with decimal amounts.
+ *
+ * @param pool - The pool as returned by getPoolsForToken
+ * @param ticks - Initialized ticks for the pool
+ * @param tokenInAddress - Address of the token being sold
+ * @param amount - Decimal amount of tokenIn (exact in) or tokenOut (exact out)
+ * @param exactInput - Whether `amount` is the input or the desired output
+ * @returns Decimal-adjusted quote with execution price and price impact
+ * @throws Error if the token is not in the pool or the amount is invalid
+ */
+export function quotePoolSwap(
+  pool: AddressablePoolResult,
+  ticks: TickData[],
+  tokenInAddress: string,
+  amount: string,
+  exactInput: boolean = true
+): V3PoolQuote {
+  const normalizedTokenIn = tokenInAddress.toLowerCase();
+  if (normalizedTokenIn !== pool.token0.address && normalizedTokenIn !== pool.token1.address) {
+    throw new Error(`Token ${tokenInAddress} is not in pool ${pool.poolAddress}`);
+  }
+
+  const zeroForOne = normalizedTokenIn === pool.token0.address;
+  const tokenIn = zeroForOne ? pool.token0 : pool.token1;
+  const tokenOut = zeroForOne ? pool.token1 : pool.token0;
+
+  const state = poolStateFromPoolResult(pool, ticks);
+  const simulation = simulateSwap(state, {
+    zeroForOne,
+    amount: parseUnits(amount, exactInput ? tokenIn.decimals : tokenOut.decimals),
+    exactInput,
+  });
+
+  const amountIn = formatUnits(simulation.amountIn, tokenIn.decimals);
+  const amountOut = formatUnits(simulation.amountOut, tokenOut.decimals);
+
+  // Price of token0 in token1, flipped when selling token1
+  const price0In1 = sqrtPriceX96ToPrice(state.sqrtPriceX96, pool.token0.decimals, pool.token1.decimals);
+  const midPrice = zeroForOne ? price0In1 : (price0In1 > 0 ? 1 / price0In1 : 0);
+  const executionPrice = parseFloat(amountIn) > 0 ? parseFloat(amountOut) / parseFloat(amountIn) : 0;
+  const priceImpact = midPrice > 0 && executionPrice > 0
+    ? Math.max(0, (1 - executionPrice / midPrice) * 100)
+    : 0;
+
+  return {
+    poolAddress: pool.poolAddress,
+    feeTierBps: pool.feeTierBps,
+    tokenIn: { address: tokenIn.address, symbol: tokenIn.symbol, decimals: tokenIn.decimals },
+    tokenOut: { address: tokenOut.address, symbol: tokenOut.symbol, decimals: tokenOut.decimals },
+    amountIn,
+    amountOut,
+    feeAmount: formatUnits(simulation.feeAmount, tokenIn.decimals),
+    executionPrice,
+    midPrice,
+    priceImpact,
+    filled: simulation.filled,
+    simulation,
+  };
+}
+
+/**
+ * Fetch a pool's ticks from the subgraph and quote a swap through it.
+ *
+ * @param pool - The pool as returned by getPoolsForToken
+ * @param tokenInAddress - Address of the token being sold
+ * @param amount - Decimal amount of tokenIn (exact in) or tokenOut (exact out)
+ * @param exactInput - Whether `amount` is the input or the desired output
+ * @returns Decimal-adjusted quote
+ * @throws Error if ticks can't be fetched or the quote is invalid
+ */
+export async function fetchPoolQuote(
+  pool: AddressablePoolResult,
+  tokenInAddress: string,
+  amount: string,
+  exactInput: boolean = true
+): Promise<V3PoolQuote> {
+  const ticks = await getInitializedTicks(pool.chainId, pool.poolAddress);
+  return quotePoolSwap(pool, ticks, tokenInAddress, amount, exactInput);
+}
+
+/**
+ * Convert a pool quote into a single hop of a SwapQuote route.
+ */
+export function toSwapQuoteHop(quote: V3PoolQuote): SwapQuoteHop {
+  return {
+    poolAddress: quote.poolAddress,
+    feeTierBps: quote.feeTierBps,
+    tokenIn: { address: quote.tokenIn.address, symbol: quote.tokenIn.symbol },
+    tokenOut: { address: quote.tokenOut.address, symbol: quote.tokenOut.symbol },
+    amountIn: quote.amountIn,
+    amountOut: quote.amountOut,
+    priceImpact: quote.priceImpact.toFixed(2),
+  };
+}
+
+/**
+ * Convert a pool quote into the app-wide SwapQuote shape.
+ *
+ * @param quote - The pool quote
+ * @param slippageBps - Allowed slippage in basis points (default: 50 = 0.5%)
+ * @returns SwapQuote sourced from Uniswap V3
+ */
+export function toSwapQuote(quote: V3PoolQuote, slippageBps: number = 50): SwapQuote {
+  const minimumReceived = (quote.simulation.amountOut * BigInt(10_000 - slippageBps)) / 10_000n;
+
+  return {
+    rate: quote.executionPrice.toString(),
+    outputAmount: quote.amountOut,
+    source: 'Uniswap V3',
+    priceImpact: quote.priceImpact.toFixed(2),
+    minimumReceived: formatUnits(minimumReceived, quote.tokenOut.decimals),
+    route: [toSwapQuoteHop(quote)],
+  };
+}
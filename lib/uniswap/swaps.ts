@@ -0,0 +1,239 @@
+/**
+ * Swaps Module
+ *
+ * Fetches recent swaps for a pool or token from Uniswap v3 subgraphs, newest first,
+ * with cursor pagination.
+ */
+
+import { queryUniswapV3Subgraph } from './client';
+import { META_SELECTION, toSubgraphMeta, type GraphQLMeta, type SubgraphMeta } from './meta';
+import { swapRowSchema, validateRows, type SubgraphValidationReport } from './schemas';
+import { isChainSupported, type VaultoChainId } from './subgraphs';
+
+/**
+ * What the swaps are for
+ */
+export type SwapSubject = 'pool' | 'token';
+
+/**
+ * Trade direction from the trader's point of view, for the base token
+ */
+export type SwapSide = 'buy' | 'sell';
+
+/**
+ * A single normalized swap
+ */
+export interface SwapResult {
+  id: string;
+  chainId: VaultoChainId;
+  poolAddress: string; // Lowercased
+  txHash: string;
+  timestamp: number; // Unix seconds
+  side: SwapSide;
+  baseToken: { address: string; symbol: string }; // The queried token, or token0 for pool queries
+  quoteToken: { address: string; symbol: string };
+  baseAmount: number; // Absolute amount of the base token
+  quoteAmount: number; // Absolute amount of the quote token
+  amountUSD: number;
+  trader: string; // Transaction origin (lowercased)
+}
+
+/**
+ * A page of swaps
+ */
+export interface SwapsPageResult {
+  chainId: VaultoChainId;
+  subject: SwapSubject;
+  address: string; // Pool or token address (lowercased)
+  swaps: SwapResult[]; // Newest first
+  nextCursor: string | null; // Pass back to load older swaps, null when exhausted
+  meta?: SubgraphMeta; // Indexed block the swaps were read at
+  validation?: SubgraphValidationReport; // Malformed swap rows that were dropped
+}
+
+/**
+ * GraphQL response structure for swap queries; rows are validated with swapRowSchema
+ */
+interface SwapsResponse {
+  swaps?: unknown;
+  _meta?: GraphQLMeta;
+}
+
+/**
+ * Default and maximum swaps per page
+ */
+export const DEFAULT_SWAPS_PAGE_SIZE = 25;
+export const MAX_SWAPS_PAGE_SIZE = 100;
+
+/**
+ * Fields selected for every swap
+ */
+const SWAP_FIELDS = `
+      id
+      timestamp
+      transaction {
+        id
+      }
+      pool {
+        id
+      }
+      token0 {
+        id
+        symbol
+      }
+      token1 {
+        id
+        symbol
+      }
+      origin
+      amount0
+      amount1
+      amountUSD
+`;
+
+/**
+ * GraphQL query for a pool's swaps at or before a timestamp, newest first
+ */
+const POOL_SWAPS_QUERY = `
+  query PoolSwaps($address: String!, $before: BigInt!, $skip: Int!, $first: Int!) {
+    swaps(
+      where: { pool: $address, timestamp_lte: $before }
+      orderBy: timestamp
+      orderDirection: desc
+      skip: $skip
+      first: $first
+    ) {${SWAP_FIELDS}    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for a token's swaps (either side, any pool) at or before a timestamp, newest first
+ */
+const TOKEN_SWAPS_QUERY = `
+  query TokenSwaps($address: String!, $before: BigInt!, $skip: Int!, $first: Int!) {
+    swaps(
+      where: {
+        and: [
+          { timestamp_lte: $before }
+          {
+            or: [
+              { token0: $address }
+              { token1: $address }
+            ]
+          }
+        ]
+      }
+      orderBy: timestamp
+      orderDirection: desc
+      skip: $skip
+      first: $first
+    ) {${SWAP_FIELDS}    }${META_SELECTION}  }
+`;
+
+/**
+ * Parse a swaps cursor.
+ *
+ * Cursors are `<timestamp>:<skip>`: the timestamp of the oldest swap returned so far and
+ * how many swaps at exactly that timestamp have been returned, so swaps sharing a block
+ * across a page boundary are neither skipped nor repeated.
+ *
+ * @returns The parsed cursor, or null if it is malformed
+ */
+export function parseSwapsCursor(cursor: string): { before: number; skip: number } | null {
+  const match = /^(\d+):(\d+)$/.exec(cursor);
+  if (!match) {
+    return null;
+  }
+  return { before: parseInt(match[1], 10), skip: parseInt(match[2], 10) };
+}
+
+/**
+ * Get a page of recent swaps for a pool or token.
+ *
+ * @param chainId - The chain ID to query
+ * @param subject - Whether `address` is a pool or a token
+ * @param address - The pool or token address (will be lowercased)
+ * @param options - Cursor from a previous page and page size (default: 25, max: 100)
+ * @returns Swaps newest first and the cursor for older swaps
+ * @throws Error if the chain is not supported, the cursor is malformed, or the subgraph query fails
+ */
+export async function getSwaps(
+  chainId: number,
+  subject: SwapSubject,
+  address: string,
+  options: { cursor?: string; pageSize?: number } = {}
+): Promise<SwapsPageResult> {
+  if (!isChainSupported(chainId)) {
+    throw new Error(`Chain ${chainId} is not supported for swap queries`);
+  }
+
+  const normalizedAddress = address.toLowerCase();
+  const pageSize = Math.max(1, Math.min(options.pageSize ?? DEFAULT_SWAPS_PAGE_SIZE, MAX_SWAPS_PAGE_SIZE));
+  const position = options.cursor
+    ? parseSwapsCursor(options.cursor)
+    : { before: Math.floor(Date.now() / 1000), skip: 0 };
+  if (!position) {
+    throw new Error(`Invalid swaps cursor: ${options.cursor}`);
+  }
+
+  const response = await queryUniswapV3Subgraph<SwapsResponse>(
+    chainId,
+    subject === 'pool' ? POOL_SWAPS_QUERY : TOKEN_SWAPS_QUERY,
+    {
+      address: normalizedAddress,
+      before: position.before.toString(),
+      skip: position.skip,
+      first: pageSize,
+    }
+  );
+
+  const rawSwaps: unknown[] = Array.isArray(response.swaps) ? response.swaps : [];
+  const { rows, validation } = validateRows(swapRowSchema, rawSwaps, { chainId, collection: 'swaps' });
+
+  const swaps = rows.map((row): SwapResult => {
+    // The queried token is the base; pool queries use token0
+    const baseIsToken0 = subject === 'pool' || row.token0.id.toLowerCase() === normalizedAddress;
+    const base = baseIsToken0 ? row.token0 : row.token1;
+    const quote = baseIsToken0 ? row.token1 : row.token0;
+    const baseAmount = parseFloat(baseIsToken0 ? row.amount0 : row.amount1);
+    const quoteAmount = parseFloat(baseIsToken0 ? row.amount1 : row.amount0);
+
+    return {
+      id: row.id,
+      chainId,
+      poolAddress: row.pool.id.toLowerCase(),
+      txHash: row.transaction.id.toLowerCase(),
+      timestamp: row.timestamp,
+      // Amounts are from the pool's side: base leaving the pool means the trader bought it
+      side: baseAmount < 0 ? 'buy' : 'sell',
+      baseToken: { address: base.id.toLowerCase(), symbol: base.symbol },
+      quoteToken: { address: quote.id.toLowerCase(), symbol: quote.symbol },
+      baseAmount: Math.abs(baseAmount),
+      quoteAmount: Math.abs(quoteAmount),
+      amountUSD: parseFloat(row.amountUSD || '0'),
+      trader: row.origin.toLowerCase(),
+    };
+  });
+
+  // Continue from the oldest raw row so dropped rows still advance the cursor
+  let nextCursor: string | null = null;
+  if (rawSwaps.length === pageSize) {
+    const timestamps = rawSwaps.map((row) => Number((row as { timestamp?: unknown } | null)?.timestamp));
+    const oldest = timestamps[timestamps.length - 1];
+    if (Number.isFinite(oldest)) {
+      const sameTimestamp = timestamps.filter((timestamp) => timestamp === oldest).length;
+      // The whole page shared the cursor's timestamp, so keep counting from the previous skip
+      const skip = oldest === position.before ? position.skip + sameTimestamp : sameTimestamp;
+      nextCursor = `${oldest}:${skip}`;
+    }
+  }
+
+  return {
+    chainId,
+    subject,
+    address: normalizedAddress,
+    swaps,
+    nextCursor,
+    meta: toSubgraphMeta(response._meta),
+    validation,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Tick Fetching Module
+ *
+ * Fetches initialized ticks for a pool from Uniswap v3 subgraphs.
+ */
+
+import { queryUniswapV3Subgraph } from './client';
+import { tickRowSchema, validateRows } from './schemas';
+import { isChainSupported } from './subgraphs';
+
+/**
+ * GraphQL response structure for tick query; rows are validated with tickRowSchema
+ */
+interface TicksResponse {
+  ticks?: unknown;
+}
+
+/**
+ * Initialized tick with its net liquidity change
+ */
+export interface TickData {
+  tickIdx: number;
+  liquidityNet: bigint; // Liquidity added when crossing the tick left to right
+  liquidityGross: bigint;
+}
+
+/**
+ * GraphQL query for walking a pool's initialized ticks with a tickIdx cursor
+ */
+const POOL_TICKS_QUERY = `
+  query PoolTicks($pool: String!, $cursor: BigInt!, $first: Int!) {
+    ticks(
+      where: { pool: $pool, tickIdx_gt: $cursor, liquidityGross_gt: "0" }
+      orderBy: tickIdx
+      orderDirection: asc
+      first: $first
+    ) {
+      tickIdx
+      liquidityNet
+      liquidityGross
+    }
+  }
+`;
+
+/**
+ * Ticks per page (The Graph maximum)
+ */
+const TICKS_PAGE_SIZE = 1000;
+
+/**
+ * Upper bound on pages so a pathological pool can't stall a request
+ */
+const MAX_TICK_PAGES = 10;
+
+/**
+ * Get all initialized ticks for a pool, sorted by tickIdx ascending.
+ *
+ * Malformed tick rows are dropped (and logged), so liquidity between the
+ * surrounding ticks may be slightly off rather than the quote failing.
+ *
+ * @param chainId - The chain ID to query
+ * @param poolAddress - The pool address (will be lowercased)
+ * @returns Initialized ticks sorted ascending
+ * @throws Error if the chain is not supported or the subgraph query fails
+ */
+export async function getInitializedTicks(
+  chainId: number,
+  poolAddress: string
+): Promise<TickData[]> {
+  if (!isChainSupported(chainId)) {
+    throw new Error(`Chain ${chainId} is not supported for tick queries`);
+  }
+
+  const normalizedAddress = poolAddress.toLowerCase();
+  const ticks: TickData[] = [];
+  // Below MIN_TICK so the first page starts at the lowest tick
+  let cursor = '-887273';
+
+  for (let page = 0; page < MAX_TICK_PAGES; page++) {
+    const response = await queryUniswapV3Subgraph<TicksResponse>(
+      chainId,
+      POOL_TICKS_QUERY,
+      {
+        pool: normalizedAddress,
+        cursor,
+        first: TICKS_PAGE_SIZE,
+      }
+    );
+
+    const rawRows: unknown[] = Array.isArray(response.ticks) ? response.ticks : [];
+    const { rows } = validateRows(tickRowSchema, rawRows, { chainId, collection: 'ticks' });
+    for (const row of rows) {
+      ticks.push({
+        tickIdx: parseInt(row.tickIdx, 10),
+        liquidityNet: BigInt(row.liquidityNet),
+        liquidityGross: BigInt(row.liquidityGross),
+      });
+    }
+
+    // Continue from the last valid tick; a page with no valid ticks can't be walked past
+    if (rawRows.length < TICKS_PAGE_SIZE || rows.length === 0) {
+      break;
+    }
+    cursor = rows[rows.length - 1].tickIdx;
+  }
+
+  return ticks;
+}
@@ -1,32 +1,22 @@
 /**
  * Token Search Module
  * 
- * Searches for tokens in Uniswap v3 subgraphs by symbol or name.
+ * Searches for tokens in Uniswap v3 and v4 subgraphs by symbol or name.
+ * Uniswap v2 token search lives in v2.ts.
  */
 
-import { queryUniswapV3Subgraph } from './client';
-import { isChainSupported, type VaultoChainId } from './subgraphs';
+import { queryUniswapSubgraph } from './client';
+import { META_SELECTION, toSubgraphMeta, type GraphQLMeta, type SubgraphMeta } from './meta';
+import type { ConcentratedLiquidityProtocol } from './pools';
+import { tokenSearchRowSchema, validateRows, type SubgraphValidationReport } from './schemas';
+import { isChainSupported, isProtocolSupported, type VaultoChainId } from './subgraphs';
 
 /**
- * GraphQL token search result from subgraph
- */
-interface GraphQLToken {
-  id: string; // Token address (lowercase)
-  symbol: string;
-  name: string;
-  decimals: number;
-  volumeUSD: string;
-  totalValueLockedUSD: string;
-  tokenDayData: Array<{
-    volumeUSD: string;
-  }>;
-}
-
-/**
- * GraphQL response structure for token search
+ * GraphQL response structure for token search; rows are validated with tokenSearchRowSchema
  */
 interface TokenSearchResponse {
-  tokens: GraphQLToken[];
+  tokens?: unknown;
+  _meta?: GraphQLMeta;
 }
 
 /**
@@ -42,6 +32,9 @@ export interface TokenSearchResult {
     tvlUSD: number;
     volumeUSD: number;
   }>;
+  meta?: SubgraphMeta; // Indexed block the results were read at
+  validation?: SubgraphValidationReport; // Malformed token rows that were dropped
+  error?: string; // Set when the query failed; tokens is then empty
 }
 
 /**
@@ -73,26 +66,27 @@ const TOKEN_SEARCH_QUERY = `
       ) {
         volumeUSD
       }
-    }
-  }
+    }${META_SELECTION}  }
 `;
 
 /**
- * Search for tokens by symbol or name in a Uniswap v3 subgraph.
+ * Search for tokens by symbol or name in a Uniswap v3 or v4 subgraph.
  * 
  * @param chainId - The chain ID to search on
  * @param text - The search text (symbol or name)
  * @param limit - Maximum number of results (default: 10)
- * @returns Array of matching tokens sorted by TVL descending, or empty array on error
+ * @param protocol - 'v3' or 'v4' (default: 'v3')
+ * @returns Array of matching tokens sorted by TVL descending, or empty array with `error` set on failure
  */
 export async function searchTokens(
   chainId: number,
   text: string,
-  limit: number = 10
+  limit: number = 10,
+  protocol: ConcentratedLiquidityProtocol = 'v3'
 ): Promise<TokenSearchResult> {
   // Return empty result if chain is not supported
-  if (!isChainSupported(chainId)) {
-    console.debug(`Chain ${chainId} is not supported for token search`);
+  if (!isChainSupported(chainId) || !isProtocolSupported(chainId, protocol)) {
+    console.debug(`Chain ${chainId} is not supported for ${protocol} token search`);
     return {
       chainId: chainId as VaultoChainId,
       tokens: [],
@@ -107,8 +101,9 @@ export async function searchTokens(
   }
 
   try {
-    const response = await queryUniswapV3Subgraph<TokenSearchResponse>(
+    const response = await queryUniswapSubgraph<TokenSearchResponse>(
       chainId,
+      protocol,
       TOKEN_SEARCH_QUERY,
       {
         text: text.trim(),
@@ -116,7 +111,8 @@ export async function searchTokens(
       }
     );
 
-    const tokens = (response.tokens || []).map((token) => {
+    const { rows, validation } = validateRows(tokenSearchRowSchema, response.tokens, { chainId, collection: 'tokens' });
+    const tokens = rows.map((token) => {
       // Get 24h volume from most recent tokenDayData, fallback to 0
       const dayData = token.tokenDayData && token.tokenDayData.length > 0 
         ? token.tokenDayData[0] 
@@ -127,7 +123,7 @@ export async function searchTokens(
         address: token.id.toLowerCase(), // Ensure lowercase
         symbol: token.symbol || '',
         name: token.name || '',
-        decimals: token.decimals || 18,
+        decimals: Number(token.decimals) || 18,
         tvlUSD: parseFloat(token.totalValueLockedUSD || '0'),
         volumeUSD: volume24h, // Use 24h volume instead of lifetime volume
       };
@@ -136,13 +132,16 @@ export async function searchTokens(
     return {
       chainId: chainId as VaultoChainId,
       tokens,
+      meta: toSubgraphMeta(response._meta),
+      validation,
     };
   } catch (error) {
     // Log error but don't throw - return empty array for graceful degradation
-    console.error(`Error searching tokens on chain ${chainId}:`, error);
+    console.error(`Error searching ${protocol} tokens on chain ${chainId}:`, error);
     return {
       chainId: chainId as VaultoChainId,
       tokens: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
@@ -0,0 +1,209 @@
+/**
+ * TWAP Oracle Module
+ *
+ * Reads time-weighted average prices from Uniswap v3 pools on-chain. A pool's
+ * observe() returns tick accumulators; the difference over a window divided by its
+ * length is the average tick, which prices token0 in token1. Tokens are priced in USD
+ * through their deepest pool against a stablecoin, so a token is priceable as soon as
+ * it has stable liquidity, without waiting for a CoinGecko listing.
+ */
+
+import { getTokenByAddressForChain } from '../utils/token';
+import { getPoolsForToken, isAddressablePool, type AddressablePoolResult, type PoolResult } from './pools';
+import { getRpcClient } from './rpc';
+
+/**
+ * Options for the averaging window
+ */
+export interface TwapOptions {
+  windowSeconds?: number; // Averaging window (default: TWAP_WINDOW_SECONDS or 1800)
+}
+
+/**
+ * A token's TWAP in USD, read from one pool
+ */
+export interface TokenTwap {
+  chainId: number;
+  tokenAddress: string; // Lowercased
+  poolAddress: string; // Lowercased
+  feeTierBps: number;
+  quoteToken: { address: string; symbol: string }; // The stablecoin leg, taken as $1
+  windowSeconds: number;
+  averageTick: number;
+  priceUSD: number;
+}
+
+const DEFAULT_WINDOW_SECONDS = 1800;
+const MIN_WINDOW_SECONDS = 60;
+const MAX_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+// Pools fetched per token when looking for a stablecoin pair
+const POOLS_PER_TOKEN = 10;
+
+/**
+ * USD stablecoins accepted as the quote leg besides the config stablecoins, by chain and
+ * lowercased address. Symbols aren't trusted: anyone can deploy a token named "USDC".
+ */
+const KNOWN_STABLECOIN_ADDRESSES: Record<number, string[]> = {
+  1: [
+    '0xdc035d45d973e3ec169d2276ddab16f1e407384f', // USDS
+    '0x6c3ea9036406852006290770bedfcaba0e23a0e8', // PYUSD
+    '0x853d955acef822db058eb8505911ed77f175b99e', // FRAX
+    '0x5f98805a4e8be255a32880fdec7f6728c6568ba0', // LUSD
+    '0x40d16fc0246ad3160ccc09b8d0d3a2cd28ae6c2f', // GHO
+    '0x4c9edd5852cd905f086c759e8383e09bff1e68b3', // USDe
+    '0x8292bb45bf1ee4d140127049757c2e0ff06317ed', // RLUSD
+  ],
+  10: [
+    '0x7f5c764cbc14f9669b88837ca1490cca17c31607', // USDC.e
+  ],
+  137: [
+    '0x2791bca1f2de4661ed88a30c99a7a9449aa84174', // USDC.e
+  ],
+  8453: [
+    '0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca', // USDbC
+  ],
+  42161: [
+    '0xff970a61a04b1ca14834a43f5de4533ebddb5cc8', // USDC.e
+  ],
+};
+
+/**
+ * Minimal v3 pool ABI for observe()
+ */
+const POOL_OBSERVE_ABI = [
+  {
+    name: 'observe',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'secondsAgos', type: 'uint32[]' }],
+    outputs: [
+      { name: 'tickCumulatives', type: 'int56[]' },
+      { name: 'secondsPerLiquidityCumulativeX128s', type: 'uint160[]' },
+    ],
+  },
+] as const;
+
+/**
+ * Get the configured averaging window, clamped to 1 minute - 7 days
+ */
+export function getTwapWindowSeconds(windowSeconds?: number): number {
+  const configured = windowSeconds ?? (parseInt(process.env.TWAP_WINDOW_SECONDS || '', 10) || DEFAULT_WINDOW_SECONDS);
+  return Math.min(MAX_WINDOW_SECONDS, Math.max(MIN_WINDOW_SECONDS, Math.floor(configured)));
+}
+
+/**
+ * Whether a token is a known USD stablecoin on a chain, matched by address only
+ * @param chainId - Chain the token is on
+ * @param tokenAddress - The token address (any casing)
+ */
+export function isStablecoin(chainId: number, tokenAddress: string): boolean {
+  const normalizedAddress = tokenAddress.toLowerCase();
+  return KNOWN_STABLECOIN_ADDRESSES[chainId]?.includes(normalizedAddress) === true
+    || getTokenByAddressForChain(chainId, normalizedAddress)?.isStablecoin === true;
+}
+
+/**
+ * Average tick between two tick accumulators, rounded toward negative infinity
+ * like the Uniswap OracleLibrary
+ */
+export function getAverageTick(tickCumulativeStart: bigint, tickCumulativeEnd: bigint, windowSeconds: number): number {
+  const delta = tickCumulativeEnd - tickCumulativeStart;
+  const window = BigInt(windowSeconds);
+  let tick = delta / window;
+  if (delta < 0n && delta % window !== 0n) {
+    tick -= 1n;
+  }
+  return Number(tick);
+}
+
+/**
+ * Price of token0 in token1 at a tick, decimal-adjusted
+ */
+export function tickToPrice0(tick: number, decimals0: number, decimals1: number): number {
+  return Math.pow(1.0001, tick) * Math.pow(10, decimals0 - decimals1);
+}
+
+/**
+ * Read a pool's average tick over a window
+ * @param chainId - Chain the pool is on
+ * @param poolAddress - v3 pool address
+ * @param windowSeconds - Averaging window
+ * @returns The average tick
+ * @throws Error if the RPC call fails or the pool's observations don't cover the window
+ */
+export async function observeAverageTick(chainId: number, poolAddress: string, windowSeconds: number): Promise<number> {
+  const [tickCumulatives] = await getRpcClient(chainId).readContract({
+    address: poolAddress as `0x${string}`,
+    abi: POOL_OBSERVE_ABI,
+    functionName: 'observe',
+    args: [[windowSeconds, 0]],
+  });
+  return getAverageTick(tickCumulatives[0], tickCumulatives[1], windowSeconds);
+}
+
+/**
+ * Find a token's deepest v3 pool against a stablecoin
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @returns The pool, or null if the token has no stablecoin pool
+ */
+export async function findStablecoinPool(chainId: number, tokenAddress: string): Promise<AddressablePoolResult | null> {
+  const normalizedAddress = tokenAddress.toLowerCase();
+  const { pools } = await getPoolsForToken(chainId, normalizedAddress, POOLS_PER_TOKEN, 'v3');
+  return pools
+    .filter(isAddressablePool)
+    .filter((candidate) => {
+      const other = candidate.token0.address === normalizedAddress ? candidate.token1 : candidate.token0;
+      return candidate.tick !== null && isStablecoin(chainId, other.address);
+    })
+    .sort((a, b) => b.tvlUSD - a.tvlUSD)[0] ?? null;
+}
+
+/**
+ * USD price of a token at a tick of its stablecoin pool, taking the stablecoin as $1
+ * @param pool - Pool from findStablecoinPool
+ * @param tokenAddress - The priced token (lowercased)
+ * @param tick - Pool tick, e.g. the current tick for the mid-price or an average tick for a TWAP
+ */
+export function getStablecoinPoolPriceUSD(pool: PoolResult, tokenAddress: string, tick: number): number {
+  const price0 = tickToPrice0(tick, pool.token0.decimals, pool.token1.decimals);
+  return pool.token0.address === tokenAddress ? price0 : 1 / price0;
+}
+
+/**
+ * Get a token's USD TWAP from its deepest v3 pool against a stablecoin.
+ *
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param options - Averaging window
+ * @returns The TWAP, or null if the token has no stablecoin pool
+ * @throws Error if the on-chain read fails
+ */
+export async function getTokenTwap(
+  chainId: number,
+  tokenAddress: string,
+  options: TwapOptions = {}
+): Promise<TokenTwap | null> {
+  const normalizedAddress = tokenAddress.toLowerCase();
+  const windowSeconds = getTwapWindowSeconds(options.windowSeconds);
+
+  const pool = await findStablecoinPool(chainId, normalizedAddress);
+  if (!pool) {
+    return null;
+  }
+
+  const averageTick = await observeAverageTick(chainId, pool.poolAddress, windowSeconds);
+  const quoteToken = pool.token0.address === normalizedAddress ? pool.token1 : pool.token0;
+
+  return {
+    chainId,
+    tokenAddress: normalizedAddress,
+    poolAddress: pool.poolAddress,
+    feeTierBps: pool.feeTierBps,
+    quoteToken: { address: quoteToken.address, symbol: quoteToken.symbol },
+    windowSeconds,
+    averageTick,
+    priceUSD: getStablecoinPoolPriceUSD(pool, normalizedAddress, averageTick),
+  };
+}
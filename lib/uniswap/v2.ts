@@ -0,0 +1,478 @@
+/**
+ * Uniswap v2 Module
+ *
+ * Searches tokens and fetches pairs from Uniswap v2 subgraphs, normalising the v2
+ * schema (pairs, reserveUSD, dailyVolumeUSD) into the shared TokenSearchResult and
+ * PoolResult shapes used for v3 and v4.
+ */
+
+import type { z } from 'zod';
+import { queryUniswapSubgraph } from './client';
+import { META_SELECTION, toSubgraphMeta, type GraphQLMeta } from './meta';
+import {
+  calculateFeeAPR,
+  FEE_APR_DAY_DATA_COUNT,
+  type PoolDayStats,
+  type PoolResult,
+  type PoolsForTokenResult,
+  type PoolsPageOptions,
+  type PoolsPageResult,
+} from './pools';
+import {
+  mergeValidationReports,
+  v2PairDayDataRowSchema,
+  v2PairRowSchema,
+  v2TokenSearchRowSchema,
+  validateRows,
+  type SubgraphValidationReport,
+} from './schemas';
+import { isProtocolSupported, type VaultoChainId } from './subgraphs';
+import type { TokenSearchResult } from './tokenSearch';
+
+/**
+ * Every Uniswap v2 pair charges 0.3%, expressed like v3 fee tiers (hundredths of a bip)
+ */
+const V2_FEE_TIER = 3000;
+
+/**
+ * GraphQL pair structure from subgraph, as validated by v2PairRowSchema
+ */
+type GraphQLPair = z.infer<typeof v2PairRowSchema>;
+
+/**
+ * GraphQL response structure for v2 token search; rows are validated with v2TokenSearchRowSchema
+ */
+interface V2TokenSearchResponse {
+  tokens?: unknown;
+  _meta?: GraphQLMeta;
+}
+
+/**
+ * GraphQL response structure for v2 pairs; rows are validated with v2PairRowSchema
+ */
+interface V2PairsResponse {
+  pairs?: unknown;
+  _meta?: GraphQLMeta;
+}
+
+/**
+ * GraphQL response structure for v2 pair day data; rows are validated with v2PairDayDataRowSchema
+ */
+interface V2PairDayDatasResponse {
+  pairDayDatas?: unknown;
+}
+
+/**
+ * GraphQL query for searching v2 tokens by symbol or name.
+ * v2 tokens have no USD TVL field, so liquidity comes from the latest tokenDayData.
+ */
+const V2_TOKEN_SEARCH_QUERY = `
+  query V2TokenSearch($text: String!, $first: Int!) {
+    tokens(
+      where: {
+        or: [
+          { symbol_contains_nocase: $text }
+          { name_contains_nocase: $text }
+        ]
+      }
+      orderBy: tradeVolumeUSD
+      orderDirection: desc
+      first: $first
+    ) {
+      id
+      symbol
+      name
+      decimals
+      tokenDayData(
+        orderBy: date
+        orderDirection: desc
+        first: 1
+      ) {
+        dailyVolumeUSD
+        totalLiquidityUSD
+      }
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for fetching v2 pairs for a token
+ */
+const V2_PAIRS_FOR_TOKEN_QUERY = `
+  query V2PairsForToken($token: String!, $first: Int!) {
+    pairs(
+      where: {
+        or: [
+          { token0: $token }
+          { token1: $token }
+        ]
+      }
+      orderBy: reserveUSD
+      orderDirection: desc
+      first: $first
+    ) {
+      id
+      reserveUSD
+      token0 {
+        id
+        symbol
+        name
+        decimals
+      }
+      token1 {
+        id
+        symbol
+        name
+        decimals
+      }
+    }${META_SELECTION}  }
+`;
+
+/**
+ * GraphQL query for walking v2 pairs for a token with an id_gt cursor.
+ * Results are ordered by id so the cursor is stable across pages.
+ */
+const V2_PAIRS_FOR_TOKEN_PAGE_QUERY = `
+  query V2PairsForTokenPage($token: String!, $cursor: String!, $first: Int!) {
+    pairs(
+      where: {
+        and: [
+          { id_gt: $cursor }
+          {
+            or: [
+              { token0: $token }
+              { token1: $token }
+            ]
+          }
+        ]
+      }
+      orderBy: id
+      orderDirection: asc
+      first: $first
+    ) {
+      id
+      reserveUSD
+      token0 {
+        id
+        symbol
+        name
+        decimals
+      }
+      token1 {
+        id
+        symbol
+        name
+        decimals
+      }
+    }${META_SELECTION}  }
+`;
+
+/**
+ * Default page size when walking pairs with a cursor, matching v3 and v4
+ */
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Maximum page size accepted by The Graph for a single query
+ */
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * GraphQL query for the recent day data of a set of pairs.
+ * v2 pairs don't expose their day data as a field, so it is looked up by pairAddress.
+ * 1000 rows covers 31 days for up to 32 pairs; older rows for larger sets are cut off.
+ */
+const V2_PAIR_DAY_DATAS_QUERY = `
+  query V2PairDayDatas($pairs: [Bytes!]!, $since: Int!) {
+    pairDayDatas(
+      where: { pairAddress_in: $pairs, date_gte: $since }
+      orderBy: date
+      orderDirection: desc
+      first: 1000
+    ) {
+      pairAddress
+      date
+      dailyVolumeUSD
+      reserveUSD
+    }
+  }
+`;
+
+/**
+ * Search for tokens by symbol or name in a Uniswap v2 subgraph.
+ *
+ * @param chainId - The chain ID to search on
+ * @param text - The search text (symbol or name)
+ * @param limit - Maximum number of results (default: 10)
+ * @returns Matching tokens with liquidity and 24h volume from their latest day data, or empty array with `error` set on failure
+ */
+export async function searchV2Tokens(
+  chainId: number,
+  text: string,
+  limit: number = 10
+): Promise<TokenSearchResult> {
+  if (!isProtocolSupported(chainId, 'v2') || !text || typeof text !== 'string' || text.trim().length === 0) {
+    return {
+      chainId: chainId as VaultoChainId,
+      tokens: [],
+    };
+  }
+
+  try {
+    const response = await queryUniswapSubgraph<V2TokenSearchResponse>(
+      chainId,
+      'v2',
+      V2_TOKEN_SEARCH_QUERY,
+      {
+        text: text.trim(),
+        first: Math.min(limit, 100), // Cap at 100 for safety
+      }
+    );
+
+    const { rows, validation } = validateRows(v2TokenSearchRowSchema, response.tokens, { chainId, collection: 'tokens' });
+    const tokens = rows.map((token) => {
+      const dayData = token.tokenDayData && token.tokenDayData.length > 0
+        ? token.tokenDayData[0]
+        : null;
+
+      return {
+        address: token.id.toLowerCase(),
+        symbol: token.symbol || '',
+        name: token.name || '',
+        decimals: Number(token.decimals) || 18,
+        tvlUSD: dayData ? parseFloat(dayData.totalLiquidityUSD || '0') : 0,
+        volumeUSD: dayData ? parseFloat(dayData.dailyVolumeUSD || '0') : 0,
+      };
+    });
+
+    return {
+      chainId: chainId as VaultoChainId,
+      tokens: tokens.sort((a, b) => b.tvlUSD - a.tvlUSD),
+      meta: toSubgraphMeta(response._meta),
+      validation,
+    };
+  } catch (error) {
+    // Log error but don't throw - return empty array for graceful degradation
+    console.error(`Error searching v2 tokens on chain ${chainId}:`, error);
+    return {
+      chainId: chainId as VaultoChainId,
+      tokens: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Get recent day data for a set of v2 pairs, newest first per pair.
+ *
+ * @returns Day stats by pair address (pairs with no recent day data are absent) and any dropped rows
+ */
+async function getV2PairDayStats(
+  chainId: number,
+  pairAddresses: string[]
+): Promise<{ dayStats: Map<string, PoolDayStats[]>; validation?: SubgraphValidationReport }> {
+  const dayStats = new Map<string, PoolDayStats[]>();
+  if (pairAddresses.length === 0) {
+    return { dayStats };
+  }
+
+  // Today's row plus enough complete days for the 30-day fee APR
+  const today = Math.floor(Date.now() / 1000 / 86400) * 86400;
+  const response = await queryUniswapSubgraph<V2PairDayDatasResponse>(
+    chainId,
+    'v2',
+    V2_PAIR_DAY_DATAS_QUERY,
+    {
+      pairs: pairAddresses,
+      since: today - (FEE_APR_DAY_DATA_COUNT - 1) * 86400,
+    }
+  );
+
+  const { rows, validation } = validateRows(v2PairDayDataRowSchema, response.pairDayDatas, {
+    chainId,
+    collection: 'pairDayDatas',
+  });
+  for (const dayData of rows) {
+    const address = dayData.pairAddress.toLowerCase();
+    const stats = dayStats.get(address) ?? [];
+    stats.push({
+      date: dayData.date,
+      volumeUSD: parseFloat(dayData.dailyVolumeUSD || '0'),
+      tvlUSD: parseFloat(dayData.reserveUSD || '0'),
+    });
+    dayStats.set(address, stats);
+  }
+  return { dayStats, validation };
+}
+
+/**
+ * Normalise v2 pairs to PoolResult, with 24h volume and fee APR from their day data.
+ *
+ * @returns The pools in the order given, and any dropped day data rows
+ */
+async function toV2PoolResults(
+  chainId: number,
+  pairs: GraphQLPair[]
+): Promise<{ pools: PoolResult[]; validation?: SubgraphValidationReport }> {
+  // Volume and APR are best-effort: pairs are still useful for TVL without them
+  let dayStats = new Map<string, PoolDayStats[]>();
+  let dayStatsValidation: SubgraphValidationReport | undefined;
+  try {
+    ({ dayStats, validation: dayStatsValidation } = await getV2PairDayStats(
+      chainId,
+      pairs.map((pair) => pair.id.toLowerCase())
+    ));
+  } catch (error) {
+    console.error(`Error fetching v2 pair day data on chain ${chainId}:`, error);
+  }
+
+  // 24h volume is the latest day row: today's, or yesterday's while the pair hasn't traded
+  // today. Rows older than that mean no recent trades, so the volume is 0.
+  const yesterday = Math.floor(Date.now() / 1000 / 86400) * 86400 - 86400;
+  const pools: PoolResult[] = pairs.map((pair) => {
+    const pairDayStats = dayStats.get(pair.id.toLowerCase()) ?? [];
+    const latestDay = pairDayStats.length > 0 && pairDayStats[0].date >= yesterday ? pairDayStats[0] : null;
+    return {
+      poolId: pair.id.toLowerCase(),
+      poolAddress: pair.id.toLowerCase(),
+      chainId: chainId as VaultoChainId,
+      protocol: 'v2',
+      feeTierBps: V2_FEE_TIER,
+      liquidity: '0',
+      sqrtPrice: '0',
+      tick: null,
+      tvlUSD: parseFloat(pair.reserveUSD || '0'),
+      volumeUSD: latestDay ? latestDay.volumeUSD : 0,
+      feeAPR7d: calculateFeeAPR(pairDayStats, V2_FEE_TIER, 7),
+      feeAPR30d: calculateFeeAPR(pairDayStats, V2_FEE_TIER, 30),
+      token0: {
+        address: pair.token0.id.toLowerCase(),
+        symbol: pair.token0.symbol || '',
+        name: pair.token0.name || '',
+        decimals: Number(pair.token0.decimals) || 18,
+      },
+      token1: {
+        address: pair.token1.id.toLowerCase(),
+        symbol: pair.token1.symbol || '',
+        name: pair.token1.name || '',
+        decimals: Number(pair.token1.decimals) || 18,
+      },
+    };
+  });
+
+  return { pools, validation: dayStatsValidation };
+}
+
+/**
+ * Get Uniswap v2 pairs for a token, normalised to PoolResult.
+ *
+ * Pairs have no ticks or sqrtPrice, so `tick` is null and `liquidity`/`sqrtPrice` are '0'.
+ *
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param limit - Maximum number of pairs to return (default: 10)
+ * @returns Pairs sorted by reserveUSD descending, or empty array with `error` set on failure
+ */
+export async function getV2PairsForToken(
+  chainId: number,
+  tokenAddress: string,
+  limit: number = 10
+): Promise<PoolsForTokenResult> {
+  const normalizedAddress = tokenAddress.toLowerCase();
+
+  if (!isProtocolSupported(chainId, 'v2') || !normalizedAddress) {
+    return {
+      chainId: chainId as VaultoChainId,
+      tokenAddress: normalizedAddress,
+      pools: [],
+    };
+  }
+
+  try {
+    const response = await queryUniswapSubgraph<V2PairsResponse>(
+      chainId,
+      'v2',
+      V2_PAIRS_FOR_TOKEN_QUERY,
+      {
+        token: normalizedAddress,
+        first: Math.min(limit, 100), // Cap at 100 for safety
+      }
+    );
+
+    const { rows: pairs, validation } = validateRows(v2PairRowSchema, response.pairs, { chainId, collection: 'pairs' });
+
+    const { pools, validation: dayStatsValidation } = await toV2PoolResults(chainId, pairs);
+
+    return {
+      chainId: chainId as VaultoChainId,
+      tokenAddress: normalizedAddress,
+      pools,
+      meta: toSubgraphMeta(response._meta),
+      validation: mergeValidationReports([validation, dayStatsValidation]),
+    };
+  } catch (error) {
+    // Log error but don't throw - return empty array for graceful degradation
+    console.error(`Error fetching v2 pairs for token ${normalizedAddress} on chain ${chainId}:`, error);
+    return {
+      chainId: chainId as VaultoChainId,
+      tokenAddress: normalizedAddress,
+      pools: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Fetch a single cursor page of v2 pairs for a token.
+ *
+ * Pages are ordered by pair id, not reserveUSD. Pass the returned `nextCursor`
+ * back in to continue; a null cursor means there are no more pairs.
+ *
+ * @param chainId - The chain ID to query
+ * @param tokenAddress - The token address (will be lowercased)
+ * @param options - Cursor and page size; `protocol` is ignored
+ * @returns The page of pairs and the cursor for the next page
+ * @throws Error if the chain has no v2 subgraph or the subgraph query fails
+ */
+export async function getV2PairsPageForToken(
+  chainId: number,
+  tokenAddress: string,
+  options: Omit<PoolsPageOptions, 'protocol'> = {}
+): Promise<PoolsPageResult> {
+  if (!isProtocolSupported(chainId, 'v2')) {
+    throw new Error(`Chain ${chainId} is not supported for v2 pair queries`);
+  }
+
+  const normalizedAddress = tokenAddress.toLowerCase();
+  const pageSize = Math.max(1, Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE));
+
+  const response = await queryUniswapSubgraph<V2PairsResponse>(
+    chainId,
+    'v2',
+    V2_PAIRS_FOR_TOKEN_PAGE_QUERY,
+    {
+      token: normalizedAddress,
+      cursor: (options.cursor || '').toLowerCase(),
+      first: pageSize,
+    }
+  );
+
+  const rawPairs: unknown[] = Array.isArray(response.pairs) ? response.pairs : [];
+  const { rows: pairs, validation } = validateRows(v2PairRowSchema, rawPairs, { chainId, collection: 'pairs' });
+  const { pools, validation: dayStatsValidation } = await toV2PoolResults(chainId, pairs);
+
+  // As for v3 pages, the cursor comes from the raw page so a dropped last row doesn't end or repeat the walk
+  const lastRawId = (rawPairs[rawPairs.length - 1] as { id?: unknown } | null)?.id;
+  const lastId = typeof lastRawId === 'string' ? lastRawId : pairs[pairs.length - 1]?.id;
+  const nextCursor = rawPairs.length === pageSize && lastId
+    ? lastId.toLowerCase()
+    : null;
+
+  return {
+    chainId: chainId as VaultoChainId,
+    tokenAddress: normalizedAddress,
+    pools,
+    nextCursor,
+    meta: toSubgraphMeta(response._meta),
+    validation: mergeValidationReports([validation, dayStatsValidation]),
+  };
+}
@@ -0,0 +1,416 @@
+/**
+ * Uniswap v3 Math Module
+ *
+ * Pure bigint ports of the core v3 libraries (TickMath, SqrtPriceMath, SwapMath).
+ * Prices are Q64.96 fixed point square roots, matching the on-chain contracts
+ * and the `sqrtPrice` field returned by the subgraph.
+ */
+
+/**
+ * 2^96, the Q64.96 fixed point unit
+ */
+export const Q96 = 1n << 96n;
+
+/**
+ * 2^128, the Q128.128 unit used for fee growth
+ */
+export const Q128 = 1n << 128n;
+
+/**
+ * Fee denominator: fees are expressed in hundredths of a bip (e.g., 3000 = 0.3%)
+ */
+export const FEE_DENOMINATOR = 1_000_000n;
+
+/**
+ * Tick bounds supported by Uniswap v3
+ */
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+/**
+ * sqrtPriceX96 at MIN_TICK and MAX_TICK
+ */
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/**
+ * Multiply then divide, rounding down
+ */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+/**
+ * Multiply then divide, rounding up
+ */
+export function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator === 0n ? result : result + 1n;
+}
+
+/**
+ * Divide, rounding up
+ */
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  const result = a / b;
+  return a % b === 0n ? result : result + 1n;
+}
+
+// Multipliers for each bit of the absolute tick, from TickMath.sol
+const TICK_RATIO_MULTIPLIERS: Array<[number, bigint]> = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * Calculate sqrt(1.0001^tick) * 2^96.
+ *
+ * @param tick - The tick, within [MIN_TICK, MAX_TICK]
+ * @returns The Q64.96 sqrt price at the tick
+ * @throws Error if the tick is out of bounds
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} is out of bounds`);
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = (absTick & 0x1) !== 0
+    ? 0xfffcb933bd6fad37aa2d162d1a594001n
+    : 0x100000000000000000000000000000000n;
+
+  for (const [bit, multiplier] of TICK_RATIO_MULTIPLIERS) {
+    if ((absTick & bit) !== 0) {
+      ratio = (ratio * multiplier) >> 128n;
+    }
+  }
+
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
+
+  // Round up when converting from Q128.128 to Q64.96
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Calculate the greatest tick whose sqrt price is <= sqrtPriceX96.
+ *
+ * @param sqrtPriceX96 - The Q64.96 sqrt price, within [MIN_SQRT_RATIO, MAX_SQRT_RATIO)
+ * @returns The tick at or below the price
+ * @throws Error if the price is out of bounds
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`sqrtPriceX96 ${sqrtPriceX96} is out of bounds`);
+  }
+
+  // Binary search over ticks; getSqrtRatioAtTick is monotonic
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Amount of token0 between two prices for a given liquidity.
+ */
+export function getAmount0Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96
+    ? [sqrtRatioBX96, sqrtRatioAX96]
+    : [sqrtRatioAX96, sqrtRatioBX96];
+
+  if (lower === 0n) {
+    throw new Error('sqrtRatio must be greater than zero');
+  }
+
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+/**
+ * Amount of token1 between two prices for a given liquidity.
+ */
+export function getAmount1Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96
+    ? [sqrtRatioBX96, sqrtRatioAX96]
+    : [sqrtRatioAX96, sqrtRatioBX96];
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+    : mulDiv(liquidity, upper - lower, Q96);
+}
+
+/**
+ * Token amounts held by a position's liquidity at the current price, rounding down.
+ *
+ * @param sqrtPriceX96 - The pool's current Q64.96 sqrt price
+ * @param sqrtRatioAX96 - Sqrt price at the position's lower tick
+ * @param sqrtRatioBX96 - Sqrt price at the position's upper tick
+ * @param liquidity - The position's liquidity
+ * @returns Raw token0 and token1 amounts
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96
+    ? [sqrtRatioBX96, sqrtRatioAX96]
+    : [sqrtRatioAX96, sqrtRatioBX96];
+
+  if (sqrtPriceX96 <= lower) {
+    return { amount0: getAmount0Delta(lower, upper, liquidity, false), amount1: 0n };
+  }
+  if (sqrtPriceX96 < upper) {
+    return {
+      amount0: getAmount0Delta(sqrtPriceX96, upper, liquidity, false),
+      amount1: getAmount1Delta(lower, sqrtPriceX96, liquidity, false),
+    };
+  }
+  return { amount0: 0n, amount1: getAmount1Delta(lower, upper, liquidity, false) };
+}
+
+/**
+ * Fee growth per unit of liquidity inside a tick range, from Tick.getFeeGrowthInside.
+ * Subtraction wraps modulo 2^256 like the contract's unchecked math.
+ *
+ * @param tickLower - The range's lower tick
+ * @param tickUpper - The range's upper tick
+ * @param tickCurrent - The pool's current tick
+ * @param feeGrowthGlobalX128 - The pool's global fee growth for the token
+ * @param feeGrowthOutsideLowerX128 - Fee growth outside the lower tick
+ * @param feeGrowthOutsideUpperX128 - Fee growth outside the upper tick
+ * @returns Q128.128 fee growth inside the range
+ */
+export function getFeeGrowthInside(
+  tickLower: number,
+  tickUpper: number,
+  tickCurrent: number,
+  feeGrowthGlobalX128: bigint,
+  feeGrowthOutsideLowerX128: bigint,
+  feeGrowthOutsideUpperX128: bigint
+): bigint {
+  const feeGrowthBelow = tickCurrent >= tickLower
+    ? feeGrowthOutsideLowerX128
+    : feeGrowthGlobalX128 - feeGrowthOutsideLowerX128;
+  const feeGrowthAbove = tickCurrent < tickUpper
+    ? feeGrowthOutsideUpperX128
+    : feeGrowthGlobalX128 - feeGrowthOutsideUpperX128;
+
+  return (feeGrowthGlobalX128 - feeGrowthBelow - feeGrowthAbove) & MAX_UINT256;
+}
+
+/**
+ * Next sqrt price after adding or removing token0, rounding up.
+ */
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+
+  if (add) {
+    return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 + product);
+  }
+
+  if (numerator1 <= product) {
+    throw new Error('Insufficient liquidity for token0 output');
+  }
+  return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 - product);
+}
+
+/**
+ * Next sqrt price after adding or removing token1, rounding down.
+ */
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (add) {
+    return sqrtPriceX96 + (amount << 96n) / liquidity;
+  }
+
+  const quotient = divRoundingUp(amount << 96n, liquidity);
+  if (sqrtPriceX96 <= quotient) {
+    throw new Error('Insufficient liquidity for token1 output');
+  }
+  return sqrtPriceX96 - quotient;
+}
+
+/**
+ * Next sqrt price given an input amount of token0 or token1.
+ */
+export function getNextSqrtPriceFromInput(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountIn, true);
+}
+
+/**
+ * Next sqrt price given an output amount of token0 or token1.
+ */
+export function getNextSqrtPriceFromOutput(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amountOut: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountOut, false);
+}
+
+/**
+ * Result of swapping within a single tick range
+ */
+export interface SwapStepResult {
+  sqrtRatioNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+/**
+ * Compute the result of swapping some amount in or out within one tick range.
+ *
+ * @param sqrtRatioCurrentX96 - The current sqrt price
+ * @param sqrtRatioTargetX96 - The price that cannot be exceeded in this step
+ * @param liquidity - The usable liquidity in the range
+ * @param amountRemaining - Positive for exact input, negative for exact output
+ * @param feePips - The pool fee in hundredths of a bip
+ * @returns The next price and the amounts swapped in this step
+ */
+export function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number
+): SwapStepResult {
+  const fee = BigInt(feePips);
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+  const exactIn = amountRemaining >= 0n;
+
+  let sqrtRatioNextX96: bigint;
+  let amountIn = 0n;
+  let amountOut = 0n;
+
+  if (exactIn) {
+    const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - fee, FEE_DENOMINATOR);
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+    sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+      ? sqrtRatioTargetX96
+      : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false);
+    sqrtRatioNextX96 = -amountRemaining >= amountOut
+      ? sqrtRatioTargetX96
+      : getNextSqrtPriceFromOutput(sqrtRatioCurrentX96, liquidity, -amountRemaining, zeroForOne);
+  }
+
+  const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+
+  if (zeroForOne) {
+    amountIn = max && exactIn
+      ? amountIn
+      : getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+    amountOut = max && !exactIn
+      ? amountOut
+      : getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+  } else {
+    amountIn = max && exactIn
+      ? amountIn
+      : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+    amountOut = max && !exactIn
+      ? amountOut
+      : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+  }
+
+  // Cap the output amount to not exceed the remaining output amount
+  if (!exactIn && amountOut > -amountRemaining) {
+    amountOut = -amountRemaining;
+  }
+
+  // When the target isn't reached on exact input, the remainder is taken as fee
+  const feeAmount = exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, fee, FEE_DENOMINATOR - fee);
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * Convert a Q64.96 sqrt price into a decimal-adjusted price of token0 in token1.
+ *
+ * @param sqrtPriceX96 - The Q64.96 sqrt price
+ * @param decimals0 - token0 decimals
+ * @param decimals1 - token1 decimals
+ * @returns How many token1 one token0 is worth
+ */
+export function sqrtPriceX96ToPrice(
+  sqrtPriceX96: bigint,
+  decimals0: number,
+  decimals1: number
+): number {
+  const ratio = Number(sqrtPriceX96) / Number(Q96);
+  return ratio * ratio * Math.pow(10, decimals0 - decimals1);
+}
@@ -1,86 +1,275 @@
 /**
- * Client-side cache utility with 1-minute TTL
- * Provides in-memory caching for API responses and other data
+ * Cache utility with namespaces, per-key TTLs and stale-while-revalidate
+ * Provides in-memory caching for API responses and other data, on the client and server
+ *
+ * Each namespace has its own TTL and LRU size bound. Entries past their TTL stay
+ * readable as stale data for `staleTtlMs` so getOrRevalidate can serve them while
+ * a refresh runs in the background.
  */
 
+import type { PoolsCursor } from '../uniswap/protocols';
+
+/**
+ * TTL and size settings for a cache namespace
+ */
+export interface CacheNamespaceConfig {
+  ttlMs: number; // How long an entry is fresh
+  staleTtlMs: number; // How long past its TTL an entry may still be served while revalidating
+  maxEntries: number; // LRU bound; the least recently used entry is evicted beyond this
+}
+
+/**
+ * Hit/miss counters for a namespace
+ */
+export interface CacheStats {
+  namespace: string;
+  size: number;
+  hits: number; // Fresh reads
+  staleHits: number; // Stale reads served while revalidating
+  misses: number;
+  evictions: number; // Entries dropped by the LRU bound
+  revalidations: number; // Background refreshes started
+}
+
+/**
+ * Options for writing an entry
+ */
+export interface SetCachedOptions {
+  namespace?: string; // Default: 'default'
+  ttlMs?: number; // Overrides the namespace TTL for this key
+}
+
 interface CacheEntry<T> {
   data: T;
-  timestamp: number;
+  expiresAt: number; // Fresh until
+  staleUntil: number; // Served as stale until, then dropped
+}
+
+interface CacheNamespace {
+  config: CacheNamespaceConfig;
+  entries: Map<string, CacheEntry<any>>; // Insertion order is recency order
+  stats: Omit<CacheStats, 'namespace' | 'size'>;
 }
 
-// In-memory cache store
-const cacheStore = new Map<string, CacheEntry<any>>();
+/**
+ * Built-in namespaces; unknown namespaces are created with the default settings
+ */
+export const CACHE_NAMESPACE_DEFAULTS: Record<string, CacheNamespaceConfig> = {
+  default: { ttlMs: 60 * 1000, staleTtlMs: 5 * 60 * 1000, maxEntries: 500 },
+  'token-list': { ttlMs: 6 * 60 * 60 * 1000, staleTtlMs: 24 * 60 * 60 * 1000, maxEntries: 50 },
+  liquidity: { ttlMs: 60 * 1000, staleTtlMs: 5 * 60 * 1000, maxEntries: 200 },
+  'token-data': { ttlMs: 60 * 1000, staleTtlMs: 5 * 60 * 1000, maxEntries: 200 },
+  price: { ttlMs: 15 * 1000, staleTtlMs: 60 * 1000, maxEntries: 1000 },
+};
+
+const DEFAULT_NAMESPACE = 'default';
 
-// Cache TTL: 1 minute (60,000 milliseconds)
-const CACHE_TTL_MS = 60 * 1000;
+// In-memory cache store, one LRU map per namespace
+const namespaces = new Map<string, CacheNamespace>();
+
+// Background refreshes keyed by namespace and key, so concurrent stale reads share one
+const inFlightRevalidations = new Map<string, Promise<unknown>>();
 
 /**
- * Check if a cache entry is expired based on its timestamp
+ * Get a namespace, creating it from its defaults on first use
  */
-function isExpired(timestamp: number): boolean {
-  return Date.now() - timestamp > CACHE_TTL_MS;
+function getNamespace(name: string): CacheNamespace {
+  let namespace = namespaces.get(name);
+  if (!namespace) {
+    namespace = {
+      config: { ...(CACHE_NAMESPACE_DEFAULTS[name] ?? CACHE_NAMESPACE_DEFAULTS[DEFAULT_NAMESPACE]) },
+      entries: new Map(),
+      stats: { hits: 0, staleHits: 0, misses: 0, evictions: 0, revalidations: 0 },
+    };
+    namespaces.set(name, namespace);
+  }
+  return namespace;
 }
 
 /**
- * Get cached data if it exists and is not expired
- * @param key - Cache key
- * @returns Cached data or null if not found or expired
+ * Look up an entry, dropping it once past its stale window and marking it most recently used
  */
-export function getCached<T>(key: string): T | null {
-  const entry = cacheStore.get(key);
-  
+function readEntry<T>(namespace: CacheNamespace, key: string): CacheEntry<T> | null {
+  const entry = namespace.entries.get(key);
   if (!entry) {
     return null;
   }
-  
-  if (isExpired(entry.timestamp)) {
-    // Remove expired entry
-    cacheStore.delete(key);
+
+  if (Date.now() > entry.staleUntil) {
+    namespace.entries.delete(key);
     return null;
   }
-  
-  return entry.data as T;
+
+  namespace.entries.delete(key);
+  namespace.entries.set(key, entry);
+  return entry as CacheEntry<T>;
 }
 
 /**
- * Store data in cache with current timestamp
+ * Evict least recently used entries beyond the namespace's bound
+ */
+function evictOverflow(namespace: CacheNamespace): void {
+  while (namespace.entries.size > namespace.config.maxEntries) {
+    const oldestKey = namespace.entries.keys().next().value as string;
+    namespace.entries.delete(oldestKey);
+    namespace.stats.evictions++;
+  }
+}
+
+/**
+ * Override the settings of a namespace; the LRU bound is applied immediately
+ * @param name - Namespace name
+ * @param config - Settings to change
+ */
+export function configureCacheNamespace(name: string, config: Partial<CacheNamespaceConfig>): void {
+  const namespace = getNamespace(name);
+  namespace.config = { ...namespace.config, ...config };
+  evictOverflow(namespace);
+}
+
+/**
+ * Get cached data if it exists and is fresh
+ * @param key - Cache key
+ * @param namespace - Cache namespace (default: 'default')
+ * @returns Cached data or null if not found or expired
+ */
+export function getCached<T>(key: string, namespace: string = DEFAULT_NAMESPACE): T | null {
+  const store = getNamespace(namespace);
+  const entry = readEntry<T>(store, key);
+
+  if (!entry || Date.now() > entry.expiresAt) {
+    store.stats.misses++;
+    return null;
+  }
+
+  store.stats.hits++;
+  return entry.data;
+}
+
+/**
+ * Store data in cache
  * @param key - Cache key
  * @param data - Data to cache
+ * @param options - Namespace and per-key TTL
  */
-export function setCached<T>(key: string, data: T): void {
-  cacheStore.set(key, {
+export function setCached<T>(key: string, data: T, options: SetCachedOptions = {}): void {
+  const store = getNamespace(options.namespace ?? DEFAULT_NAMESPACE);
+  const now = Date.now();
+  const expiresAt = now + (options.ttlMs ?? store.config.ttlMs);
+
+  store.entries.delete(key);
+  store.entries.set(key, {
     data,
-    timestamp: Date.now(),
+    expiresAt,
+    staleUntil: expiresAt + store.config.staleTtlMs,
   });
+  evictOverflow(store);
+}
+
+/**
+ * Get cached data, fetching it on a miss. Stale data is returned immediately while
+ * `fetcher` refreshes it in the background; a failed refresh keeps the stale entry.
+ * @param key - Cache key
+ * @param fetcher - Loads fresh data; errors propagate only on a miss
+ * @param options - Namespace and per-key TTL
+ * @returns Fresh or stale cached data, or the fetched data
+ */
+export async function getOrRevalidate<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: SetCachedOptions = {}
+): Promise<T> {
+  const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+  const store = getNamespace(namespace);
+  const entry = readEntry<T>(store, key);
+  const inFlightKey = `${namespace}:${key}`;
+
+  const revalidate = (): Promise<T> => {
+    const existing = inFlightRevalidations.get(inFlightKey);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const request = fetcher()
+      .then((data) => {
+        setCached(key, data, options);
+        return data;
+      })
+      .finally(() => {
+        inFlightRevalidations.delete(inFlightKey);
+      });
+    inFlightRevalidations.set(inFlightKey, request);
+    return request;
+  };
+
+  if (entry && Date.now() <= entry.expiresAt) {
+    store.stats.hits++;
+    return entry.data;
+  }
+
+  if (entry) {
+    store.stats.staleHits++;
+    if (!inFlightRevalidations.has(inFlightKey)) {
+      store.stats.revalidations++;
+    }
+    revalidate().catch((error) => {
+      console.warn(`Cache revalidation failed for ${inFlightKey}:`, error);
+    });
+    return entry.data;
+  }
+
+  store.stats.misses++;
+  return revalidate();
 }
 
 /**
  * Remove a specific cache entry
  * @param key - Cache key to remove
+ * @param namespace - Cache namespace (default: 'default')
  */
-export function clearCached(key: string): void {
-  cacheStore.delete(key);
+export function clearCached(key: string, namespace: string = DEFAULT_NAMESPACE): void {
+  namespaces.get(namespace)?.entries.delete(key);
 }
 
 /**
- * Clear all expired entries from cache
+ * Clear all entries past their stale window from every namespace
  * Useful for periodic cleanup to prevent memory bloat
  */
 export function clearExpiredEntries(): void {
   const now = Date.now();
-  const entries = Array.from(cacheStore.entries());
-  for (const [key, entry] of entries) {
-    if (isExpired(entry.timestamp)) {
-      cacheStore.delete(key);
+  for (const namespace of Array.from(namespaces.values())) {
+    for (const [key, entry] of Array.from(namespace.entries.entries())) {
+      if (now > entry.staleUntil) {
+        namespace.entries.delete(key);
+      }
     }
   }
 }
 
 /**
- * Clear all cache entries
+ * Clear all cache entries, or only those of one namespace
+ * @param namespace - Namespace to clear; all namespaces if omitted
+ */
+export function clearAllCache(namespace?: string): void {
+  if (namespace) {
+    namespaces.get(namespace)?.entries.clear();
+    return;
+  }
+  for (const store of Array.from(namespaces.values())) {
+    store.entries.clear();
+  }
+}
+
+/**
+ * Hit/miss statistics for every namespace used so far
+ * @returns One entry per namespace
  */
-export function clearAllCache(): void {
-  cacheStore.clear();
+export function getCacheStats(): CacheStats[] {
+  return Array.from(namespaces.entries()).map(([name, namespace]) => ({
+    namespace: name,
+    size: namespace.entries.size,
+    ...namespace.stats,
+  }));
 }
 
 /**
@@ -91,6 +280,41 @@ export function getUniswapLiquidityCacheKey(chainId: number, query: string): str
   return `uniswap-liquidity-${chainId}-${normalizedQuery}`;
 }
 
+/**
+ * Generate cache key for multi-chain Uniswap liquidity data
+ * @param chainIds - Chains searched, if not every supported chain
+ * @param tokensOnly - Whether the search skipped pools
+ */
+export function getUniswapMultiChainLiquidityCacheKey(query: string, chainIds?: number[], tokensOnly = false): string {
+  const normalizedQuery = query.trim().toLowerCase();
+  const mode = tokensOnly ? 'tokens' : 'all';
+  if (!chainIds) {
+    return `uniswap-liquidity-${mode}-${normalizedQuery}`;
+  }
+  // Sort chain IDs to ensure deterministic cache keys
+  const sortedChainIds = Array.from(new Set(chainIds)).sort((a, b) => a - b);
+  return `uniswap-liquidity-${mode}-chains-${sortedChainIds.join(',')}-${normalizedQuery}`;
+}
+
+/**
+ * Generate cache key for a page of a token's Uniswap pools
+ * @param cursor - Where each protocol's walk stands
+ */
+export function getUniswapPoolsPageCacheKey(chainId: number, tokenAddress: string, cursor: PoolsCursor): string {
+  // Sort protocols to ensure deterministic cache keys
+  const protocolCursors = Object.entries(cursor)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([protocol, poolId]) => `${protocol}:${poolId}`);
+  return `uniswap-pools-${chainId}-${tokenAddress.toLowerCase()}-${protocolCursors.join(',')}`;
+}
+
+/**
+ * Generate cache key for a token's TVL and volume summed over its Uniswap pools
+ */
+export function getTokenLiquidityCacheKey(chainId: number, tokenAddress: string): string {
+  return `uniswap-token-liquidity-${chainId}-${tokenAddress.toLowerCase()}`;
+}
+
 /**
  * Generate cache key for Solana token data
  */
@@ -108,6 +332,59 @@ export function getTokenPriceCacheKey(chainId: number, address: string): string
   return `token-price-${chainId}-${normalizedAddress}`;
 }
 
+/**
+ * Generate cache key for a server-side price quote; the source order is part of the key
+ * because it decides which source answers
+ */
+export function getPriceQuoteCacheKey(chainId: number, address: string, sources: string[]): string {
+  return `${getTokenPriceCacheKey(chainId, address)}-${sources.join(',')}`;
+}
+
+/**
+ * Generate cache key for a token's price history series
+ */
+export function getPriceHistoryCacheKey(
+  chainId: number,
+  address: string,
+  range: string,
+  interval: string,
+  source: string
+): string {
+  return `price-history-${chainId}-${address.toLowerCase()}-${range}-${interval}-${source}`;
+}
+
+/**
+ * Generate cache key for stock quote and history data
+ */
+export function getStockDataCacheKey(address: string): string {
+  const normalizedAddress = address.toLowerCase();
+  return `stock-data-${normalizedAddress}`;
+}
+
+/**
+ * Generate cache key for a tokenized stock's current premium
+ */
+export function getPremiumCacheKey(chainId: number, address: string): string {
+  const normalizedAddress = address.toLowerCase();
+  return `stock-premium-${chainId}-${normalizedAddress}`;
+}
+
+/**
+ * Generate cache key for a tokenized stock's premium series
+ */
+export function getPremiumHistoryCacheKey(chainId: number, address: string): string {
+  const normalizedAddress = address.toLowerCase();
+  return `stock-premium-history-${chainId}-${normalizedAddress}`;
+}
+
+/**
+ * Generate cache key claimed by a tokenized stock's latest premium sample, spacing samples out
+ */
+export function getPremiumSampleSlotCacheKey(chainId: number, address: string): string {
+  const normalizedAddress = address.toLowerCase();
+  return `stock-premium-sample-slot-${chainId}-${normalizedAddress}`;
+}
+
 /**
  * Generate cache key for stock percentage change data
  */
@@ -116,8 +393,14 @@ export function getStockPctChangeCacheKey(address: string): string {
   return `stock-pct-change-${normalizedAddress}`;
 }
 
-// Periodically clean up expired entries (every 5 minutes)
-if (typeof window !== 'undefined') {
-  setInterval(clearExpiredEntries, 5 * 60 * 1000);
+/**
+ * Generate cache key for FX rates from a base currency
+ */
+export function getFxRatesCacheKey(base: string): string {
+  return `fx-rates-${base.toUpperCase()}`;
 }
 
+// Periodically clean up expired entries (every 5 minutes); unref'd so the timer
+// doesn't keep a Node.js process alive
+const cleanupTimer: ReturnType<typeof setInterval> = setInterval(clearExpiredEntries, 5 * 60 * 1000);
+(cleanupTimer as { unref?: () => void }).unref?.();
@@ -0,0 +1,40 @@
+/**
+ * Display currency definitions
+ *
+ * Prices and volumes are fetched in USD everywhere; a display currency only changes
+ * how they are shown, converted with a USD -> currency rate from /api/fx.
+ */
+
+/**
+ * Currencies the app can display values in
+ */
+export type DisplayCurrency = 'USD' | 'EUR' | 'GBP' | 'CHF';
+
+export const DISPLAY_CURRENCIES: DisplayCurrency[] = ['USD', 'EUR', 'GBP', 'CHF'];
+
+/**
+ * Locale each currency is formatted with
+ */
+export const CURRENCY_LOCALES: Record<DisplayCurrency, string> = {
+  USD: 'en-US',
+  EUR: 'de-DE',
+  GBP: 'en-GB',
+  CHF: 'de-CH',
+};
+
+/**
+ * How to show a USD value
+ */
+export interface CurrencyDisplay {
+  currency: DisplayCurrency;
+  rate: number; // Units of `currency` per USD
+}
+
+export const USD_DISPLAY: CurrencyDisplay = { currency: 'USD', rate: 1 };
+
+/**
+ * Check a value is a supported display currency
+ */
+export function isDisplayCurrency(value: unknown): value is DisplayCurrency {
+  return typeof value === 'string' && (DISPLAY_CURRENCIES as string[]).includes(value);
+}
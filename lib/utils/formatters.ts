@@ -1,3 +1,5 @@
+import { CURRENCY_LOCALES, USD_DISPLAY, type CurrencyDisplay } from "./currency";
+
 /**
  * Format a number to a specific decimal place
  */
@@ -12,8 +14,16 @@ export function formatNumber(value: string | number, decimals: number = 6): stri
 
 /**
  * Format large numbers with K, M, B suffixes
+ * @param locale - Format with the locale's compact notation instead, e.g. "1,50 Mio." for de-DE
  */
-export function formatCompactNumber(value: number): string {
+export function formatCompactNumber(value: number, locale?: string): string {
+  if (locale) {
+    return value.toLocaleString(locale, {
+      notation: "compact",
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  }
   if (value >= 1_000_000_000) {
     return `${(value / 1_000_000_000).toFixed(2)}B`;
   }
@@ -66,20 +76,66 @@ export function formatTokenAmount(amount: string | number, symbol: string, decim
 /**
  * Format TVL (Total Value Locked) with $ prefix and compact notation
  * Example: formatTVL(1500000) returns "$1.50M"
+ * Example: formatTVL(1500000, { currency: "EUR", rate: 0.9 }) returns "1,35 Mio. €"
+ * @param display - Convert from USD and format in this currency's locale
  */
-export function formatTVL(value: number): string {
-  if (isNaN(value) || value < 0) {
-    return "$0.00";
+export function formatTVL(value: number, display?: CurrencyDisplay): string {
+  if (!display) {
+    if (isNaN(value) || value < 0) {
+      return "$0.00";
+    }
+    return `$${formatCompactNumber(value)}`;
   }
-  return `$${formatCompactNumber(value)}`;
+
+  const converted = isNaN(value) || value < 0 ? 0 : value * display.rate;
+  return converted.toLocaleString(CURRENCY_LOCALES[display.currency], {
+    style: "currency",
+    currency: display.currency,
+    notation: "compact",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Format a USD price in a display currency
+ * Example: formatPrice(3012.5) returns "$3,012.50"
+ * Example: formatPrice(3012.5, { currency: "EUR", rate: 0.9 }) returns "2.711,25 €"
+ * @param maxDecimals - Maximum fraction digits, for small prices
+ */
+export function formatPrice(value: number, display?: CurrencyDisplay, maxDecimals: number = 6): string {
+  const { currency, rate } = display || USD_DISPLAY;
+  const converted = isNaN(value) ? 0 : value * rate;
+  return converted.toLocaleString(CURRENCY_LOCALES[currency], {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: maxDecimals,
+  });
+}
+
+/**
+ * Format an APR given in percent
+ * Example: formatAPR(12.345) returns "12.35%"
+ * Example: formatAPR(null) returns "—"
+ */
+export function formatAPR(value: number | null | undefined): string {
+  if (value === null || value === undefined || isNaN(value)) {
+    return "—";
+  }
+  return `${value.toFixed(2)}%`;
 }
 
 /**
  * Format fee tier from basis points to percentage
  * Example: formatFeeTier(500) returns "0.05%"
  * Example: formatFeeTier(10000) returns "1.00%"
+ * Example: formatFeeTier(null) returns "Dynamic" (v4 hook-set fee)
  */
-export function formatFeeTier(feeTierBps: number): string {
+export function formatFeeTier(feeTierBps: number | null): string {
+  if (feeTierBps === null) {
+    return "Dynamic";
+  }
   if (isNaN(feeTierBps) || feeTierBps < 0) {
     return "0.00%";
   }
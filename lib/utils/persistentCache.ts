@@ -0,0 +1,311 @@
+/**
+ * Persistent cache utility backed by IndexedDB
+ * Keeps token lists and token logos across visits, so search is instant on repeat
+ * visits and keeps working offline
+ *
+ * Token lists are revalidated with ETag/Last-Modified and only replaced by a list with
+ * an equal or newer `version`. Logos store the resolved URL and, where the image host
+ * allows it, the image itself, downloaded once and shown from the stored copy. Expired
+ * logos are deleted when the store is read. Every function degrades to a no-op (or a plain network
+ * fetch) when IndexedDB is unavailable, e.g. during SSR or in private browsing.
+ */
+
+import { validateTokenList, type TokenList } from './tokenListValidation';
+
+const DB_NAME = 'vaulto-cache';
+const DB_VERSION = 1;
+const TOKEN_LIST_STORE = 'token-lists';
+const LOGO_STORE = 'logos';
+
+// Token lists are served without a request for this long, then revalidated
+const TOKEN_LIST_TTL_MS = 60 * 60 * 1000;
+
+// Logos rarely change; failed lookups are retried sooner
+const LOGO_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MISSING_LOGO_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Logo localStorage key used before logos moved to IndexedDB
+const LEGACY_LOGO_CACHE_KEY = 'vaulto_token_logo_cache';
+
+interface TokenListRecord {
+  url: string; // Key
+  list: TokenList;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number; // Last time the list was downloaded or confirmed unchanged
+}
+
+interface LogoRecord {
+  key: string; // `${chainId}-${address}`
+  url: string | null; // Null when no logo was found
+  blob?: Blob; // The image, when its host allows cross-origin reads
+  fetchedAt: number;
+}
+
+/**
+ * A stored logo
+ */
+export interface PersistedLogo {
+  url: string | null; // Null when no logo was found
+  blob?: Blob; // The image, when its host allows cross-origin reads
+}
+
+/**
+ * Where a token list came from
+ */
+export type TokenListSource = 'cache' | 'network' | 'revalidated' | 'offline';
+
+/**
+ * A token list and how it was obtained
+ */
+export interface CachedTokenListResult {
+  list: TokenList;
+  source: TokenListSource; // 'revalidated' means the server confirmed the cached copy; 'offline' means a stale copy was served after the request failed
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open (and on first use create) the database
+ * @returns The database, or null if IndexedDB is unavailable
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TOKEN_LIST_STORE)) {
+          db.createObjectStore(TOKEN_LIST_STORE, { keyPath: 'url' });
+        }
+        if (!db.objectStoreNames.contains(LOGO_STORE)) {
+          db.createObjectStore(LOGO_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.debug('Failed to open IndexedDB cache:', request.error);
+        resolve(null);
+      };
+      request.onblocked = () => resolve(null);
+    } catch (error) {
+      console.debug('IndexedDB is not available:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run a request against a store
+ * @returns The request's result, or undefined if the database is unavailable or the request fails
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) {
+    return undefined;
+  }
+
+  return new Promise((resolve) => {
+    try {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.debug(`IndexedDB ${storeName} request failed:`, request.error);
+        resolve(undefined);
+      };
+    } catch (error) {
+      console.debug(`IndexedDB ${storeName} request failed:`, error);
+      resolve(undefined);
+    }
+  });
+}
+
+/**
+ * Compare two token list versions
+ * @returns Negative if a is older than b, positive if newer, 0 if equal or either is missing
+ */
+export function compareTokenListVersions(a?: TokenList['version'], b?: TokenList['version']): number {
+  if (!a || !b) {
+    return 0;
+  }
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Load a token list, from IndexedDB when a recent copy exists.
+ *
+ * Copies older than an hour are revalidated with If-None-Match/If-Modified-Since. A
+ * downloaded list replaces the stored one only if it is valid and its version isn't
+ * older. If the request fails, the stored copy is served however old it is.
+ *
+ * @param url - Token list URL
+ * @returns The list and its source, or null if there is no stored copy and the download failed
+ */
+export async function loadTokenList(url: string): Promise<CachedTokenListResult | null> {
+  const stored = await withStore<TokenListRecord | undefined>(TOKEN_LIST_STORE, 'readonly', (store) => store.get(url));
+
+  if (stored && Date.now() - stored.fetchedAt < TOKEN_LIST_TTL_MS) {
+    return { list: stored.list, source: 'cache' };
+  }
+
+  try {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (stored?.etag) {
+      headers['If-None-Match'] = stored.etag;
+    }
+    if (stored?.lastModified) {
+      headers['If-Modified-Since'] = stored.lastModified;
+    }
+
+    const response = await fetch(url, { headers });
+
+    if (response.status === 304 && stored) {
+      await withStore(TOKEN_LIST_STORE, 'readwrite', (store) => store.put({ ...stored, fetchedAt: Date.now() }));
+      return { list: stored.list, source: 'revalidated' };
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const list = await response.json();
+    if (!validateTokenList(list)) {
+      throw new Error('Invalid token list format');
+    }
+
+    // A mirror can serve an older list; keep the newer stored copy
+    if (stored && compareTokenListVersions(list.version, stored.list.version) < 0) {
+      await withStore(TOKEN_LIST_STORE, 'readwrite', (store) => store.put({ ...stored, fetchedAt: Date.now() }));
+      return { list: stored.list, source: 'revalidated' };
+    }
+
+    const record: TokenListRecord = {
+      url,
+      list,
+      etag: response.headers.get('ETag'),
+      lastModified: response.headers.get('Last-Modified'),
+      fetchedAt: Date.now(),
+    };
+    await withStore(TOKEN_LIST_STORE, 'readwrite', (store) => store.put(record));
+    return { list, source: 'network' };
+  } catch (error) {
+    if (stored) {
+      console.debug(`Serving cached token list for ${url} after fetch failed:`, error);
+      return { list: stored.list, source: 'offline' };
+    }
+    console.warn(`Failed to load token list ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load every stored logo that hasn't expired, deleting the expired ones. Images are
+ * returned as blobs; turn the logos actually shown into URLs with toLogoDisplayUrl.
+ * @returns Stored logos by `${chainId}-${address}`
+ */
+export async function loadPersistedLogos(): Promise<Map<string, PersistedLogo>> {
+  const logos = new Map<string, PersistedLogo>();
+
+  // Logos used to live in localStorage with a 1-minute TTL; nothing there is worth migrating
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.removeItem(LEGACY_LOGO_CACHE_KEY);
+    } catch {
+      // Storage may be disabled
+    }
+  }
+
+  const records = await withStore<LogoRecord[]>(LOGO_STORE, 'readonly', (store) => store.getAll());
+  const now = Date.now();
+  const expiredKeys: string[] = [];
+  for (const record of records ?? []) {
+    const ttl = record.url ? LOGO_TTL_MS : MISSING_LOGO_TTL_MS;
+    if (now - record.fetchedAt >= ttl) {
+      expiredKeys.push(record.key);
+      continue;
+    }
+    logos.set(record.key, { url: record.url, blob: record.blob });
+  }
+
+  // Expired logos are never served again; without this the store only grows. Not awaited,
+  // since nothing read here depends on it.
+  if (expiredKeys.length > 0) {
+    withStore(LOGO_STORE, 'readwrite', (store) => {
+      // Requests in a transaction complete in order, so the last one finishing means all have
+      expiredKeys.slice(0, -1).forEach((key) => store.delete(key));
+      return store.delete(expiredKeys[expiredKeys.length - 1]);
+    });
+  }
+
+  return logos;
+}
+
+/**
+ * URL to display a stored logo with: an object URL for a stored image, else the logo's URL.
+ * Object URLs hold the image in memory until released with revokeLogoObjectUrls.
+ * @returns The URL, or null if the token has no logo
+ */
+export function toLogoDisplayUrl(logo: PersistedLogo): string | null {
+  return logo.blob ? URL.createObjectURL(logo.blob) : logo.url;
+}
+
+/**
+ * Release logo object URLs created by toLogoDisplayUrl; other URLs are ignored
+ * @param urls - Logo URLs, e.g. the values of the loaded map
+ */
+export function revokeLogoObjectUrls(urls: Iterable<string | null>): void {
+  for (const url of Array.from(urls)) {
+    if (url?.startsWith('blob:')) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+/**
+ * Store a token's logo URL, and the image itself when its host allows it. Show the
+ * returned logo with toLogoDisplayUrl so the image isn't downloaded a second time.
+ * @param key - `${chainId}-${address}`
+ * @param url - Resolved logo URL, or null if the token has no logo
+ * @returns The stored logo
+ */
+export async function persistLogo(key: string, url: string | null): Promise<PersistedLogo> {
+  let blob: Blob | undefined;
+  if (url && /^https?:\/\//.test(url)) {
+    try {
+      const response = await fetch(url, { mode: 'cors' });
+      const contentType = response.headers.get('Content-Type') || '';
+      if (response.ok && contentType.startsWith('image/')) {
+        blob = await response.blob();
+      }
+    } catch {
+      // Hosts without CORS headers can still be displayed by URL
+    }
+  }
+
+  const record: LogoRecord = { key, url, blob, fetchedAt: Date.now() };
+  await withStore(LOGO_STORE, 'readwrite', (store) => store.put(record));
+  return { url, blob };
+}
+
+/**
+ * Delete every stored token list and logo
+ */
+export async function clearPersistentCache(): Promise<void> {
+  await withStore(TOKEN_LIST_STORE, 'readwrite', (store) => store.clear());
+  await withStore(LOGO_STORE, 'readwrite', (store) => store.clear());
+}
@@ -1,4 +1,5 @@
 import { getTokenByAddress, getTokensByChain, type Token } from '@/config/tokens';
+import vaultoTokenList from '../../public/token-list.json';
 
 /**
  * Get token by address across all chains
@@ -44,6 +45,41 @@ export function getStockTicker(token: Token | undefined | null): string | null {
   return null;
 }
 
+/**
+ * Get the underlying ticker of an Ondo tokenized stock from its symbol (e.g. AAPLon -> AAPL).
+ * Only Ondo's exact casing matches, so crypto symbols like TON or MOON don't.
+ */
+export function getOndoTicker(symbol: string | undefined | null): string | null {
+  const match = symbol ? /^([A-Z][A-Z0-9.]*)on$/.exec(symbol) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * Underlying tickers of the Ondo tokens in the Vaulto token list, by chain and lowercased address.
+ * A symbol alone never makes a token a stock: anyone can deploy a contract named "NVDAon".
+ */
+const LISTED_ONDO_TICKERS = new Map(
+  vaultoTokenList.tokens.flatMap((token): Array<[string, string]> => {
+    const ticker = getOndoTicker(token.symbol);
+    return ticker ? [[`${token.chainId}:${token.address.toLowerCase()}`, ticker]] : [];
+  })
+);
+
+/**
+ * Resolve the stock ticker behind a token from its address: the configured ticker for
+ * tokenized stocks, otherwise the underlying of an Ondo token in the Vaulto token list
+ * @param chainId - Chain the token is on
+ * @param address - Token address
+ * @returns The ticker, or null if the token isn't a known stock on that chain
+ */
+export function resolveStockTicker(chainId: number, address: string): string | null {
+  const token = getTokenByAddress(chainId, address);
+  if (token && isTokenizedStock(token)) {
+    return getStockTicker(token);
+  }
+  return LISTED_ONDO_TICKERS.get(`${chainId}:${address.toLowerCase()}`) ?? null;
+}
+
 /**
  * Normalize token address to lowercase for consistent lookups
  */
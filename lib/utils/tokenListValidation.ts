@@ -32,7 +32,7 @@ export interface TokenListValidationResult {
 /**
  * Validates token list format
  */
-function validateTokenList(data: any): data is TokenList {
+export function validateTokenList(data: any): data is TokenList {
   if (!data || typeof data !== 'object') {
     return false;
   }
@@ -0,0 +1,25 @@
+/**
+ * Local stand-in for Redis, for exercising the redis server cache backend offline
+ *
+ * Usage:
+ *   npx tsx mock-redis-server.ts [port] [password]
+ *
+ * Then run the app with:
+ *   SERVER_CACHE_BACKEND=redis SERVER_CACHE_REDIS_URL=redis://localhost:6380 npm run dev
+ */
+
+import { startMockRedisServer } from './lib/caching/mock/redisServer';
+
+async function main() {
+  const port = process.argv[2] ? parseInt(process.argv[2], 10) : 6380;
+  const password = process.argv[3];
+
+  const { url } = await startMockRedisServer({ port, password });
+  console.log(`Mock Redis server listening on ${url}`);
+  console.log(`Set SERVER_CACHE_BACKEND=redis SERVER_CACHE_REDIS_URL=${url} to use it`);
+}
+
+main().catch((error) => {
+  console.error('Failed to start mock Redis server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+/**
+ * Local mock Uniswap v3 subgraph for offline development
+ *
+ * Usage:
+ *   npx tsx mock-subgraph-server.ts [port] [fixturesDir]
+ *
+ * Set MOCK_SUBGRAPH_LAG_SECONDS to report an indexed block that far behind,
+ * which exercises the "data delayed" indicators.
+ *
+ * Then run the app with every protocol pointed at it:
+ *   UNISWAP_V2_SUBGRAPH_URL=http://localhost:4350 \
+ *   UNISWAP_V3_SUBGRAPH_URL=http://localhost:4350 \
+ *   UNISWAP_V4_SUBGRAPH_URL=http://localhost:4350 npm run dev
+ *
+ * On Ethereum and Base, v2 and v4 have gateway subgraphs: left unset, their queries still
+ * go to The Graph and fail without THE_GRAPH_API_KEY, so searches there report failed
+ * protocols and are never cached.
+ */
+
+import { startMockSubgraphServer } from './lib/uniswap/mock/server';
+
+async function main() {
+  const port = process.argv[2] ? parseInt(process.argv[2], 10) : 4350;
+  const fixturesDir = process.argv[3];
+
+  const indexingLagSeconds = parseInt(process.env.MOCK_SUBGRAPH_LAG_SECONDS || '0', 10) || 0;
+
+  const { url } = await startMockSubgraphServer({ port, fixturesDir, indexingLagSeconds });
+  console.log(`Mock Uniswap v3 subgraph listening on ${url}`);
+  console.log(`Set UNISWAP_V2_SUBGRAPH_URL, UNISWAP_V3_SUBGRAPH_URL and UNISWAP_V4_SUBGRAPH_URL to ${url} to use it for every chain`);
+}
+
+main().catch((error) => {
+  console.error('Failed to start mock subgraph server:', error);
+  process.exit(1);
+});
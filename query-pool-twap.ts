@@ -0,0 +1,75 @@
+/**
+ * Read a Uniswap v3 pool's on-chain TWAP
+ *
+ * Uses the same RPC endpoint resolution and observe() read as the TWAP price source,
+ * so it doubles as a check against the local Hardhat fixture
+ * (contracts/scripts/deployTwapFixture.ts).
+ *
+ * Usage:
+ *   npx tsx query-pool-twap.ts <chainId> <poolAddress> [windowSeconds]
+ *
+ * Examples:
+ *   npx tsx query-pool-twap.ts 1 0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640
+ *   RPC_URL_31337=http://127.0.0.1:8545 npx tsx query-pool-twap.ts 31337 <fixturePool> 1800
+ */
+
+import { erc20Abi } from 'viem';
+import { getRpcClient } from './lib/uniswap/rpc';
+import { getTwapWindowSeconds, observeAverageTick, tickToPrice0 } from './lib/uniswap/twap';
+
+const POOL_TOKENS_ABI = [
+  { name: 'token0', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  { name: 'token1', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+] as const;
+
+/**
+ * Read a token's symbol and decimals
+ */
+async function getTokenInfo(chainId: number, address: `0x${string}`) {
+  const client = getRpcClient(chainId);
+  const [symbol, decimals] = await Promise.all([
+    client.readContract({ address, abi: erc20Abi, functionName: 'symbol' }),
+    client.readContract({ address, abi: erc20Abi, functionName: 'decimals' }),
+  ]);
+  return { symbol, decimals };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const chainId = parseInt(args[0] || '', 10);
+  const poolAddress = args[1] as `0x${string}` | undefined;
+
+  if (isNaN(chainId) || !poolAddress) {
+    console.log('Usage: npx tsx query-pool-twap.ts <chainId> <poolAddress> [windowSeconds]');
+    process.exit(1);
+  }
+
+  const windowSeconds = getTwapWindowSeconds(args[2] ? parseInt(args[2], 10) : undefined);
+  const client = getRpcClient(chainId);
+  const [token0Address, token1Address] = await Promise.all([
+    client.readContract({ address: poolAddress, abi: POOL_TOKENS_ABI, functionName: 'token0' }),
+    client.readContract({ address: poolAddress, abi: POOL_TOKENS_ABI, functionName: 'token1' }),
+  ]);
+  const [token0, token1] = await Promise.all([
+    getTokenInfo(chainId, token0Address),
+    getTokenInfo(chainId, token1Address),
+  ]);
+
+  const averageTick = await observeAverageTick(chainId, poolAddress, windowSeconds);
+  const price0 = tickToPrice0(averageTick, token0.decimals, token1.decimals);
+
+  console.log(`Pool: ${poolAddress} (chain ${chainId})`);
+  console.log(`Window: ${windowSeconds}s`);
+  console.log(`Average tick: ${averageTick}`);
+  console.log(`1 ${token0.symbol} = ${price0} ${token1.symbol}`);
+  console.log(`1 ${token1.symbol} = ${1 / price0} ${token0.symbol}`);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Failed to read the pool TWAP:');
+    console.error(error);
+    process.exit(1);
+  });
+}
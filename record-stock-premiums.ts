@@ -0,0 +1,53 @@
+/**
+ * Record the premium of every configured tokenized stock to its underlying
+ *
+ * The premium API records a sample whenever it computes a premium, so series only
+ * grow while someone views them. Run this on a schedule (e.g. every 5 minutes from
+ * cron) to keep them continuous. Samples go to the server cache, so the app and
+ * this script need a shared backend (SERVER_CACHE_BACKEND=filesystem or redis).
+ *
+ * Usage:
+ *   npx tsx record-stock-premiums.ts
+ */
+
+import { getTokenizedStocks, tokens } from './config/tokens';
+import { getTokenPremiums } from './lib/prices/premium';
+import type { PriceRequest } from './lib/prices/types';
+import { isChainSupported } from './lib/uniswap/subgraphs';
+
+async function main() {
+  const requests: PriceRequest[] = Object.keys(tokens)
+    .map(Number)
+    .filter(isChainSupported)
+    .flatMap((chainId) =>
+      getTokenizedStocks(chainId).map((token) => ({ chainId, address: token.address, symbol: token.symbol }))
+    );
+
+  if (requests.length === 0) {
+    console.log('No tokenized stocks on chains with a Uniswap subgraph');
+    return;
+  }
+
+  console.log(`Recording premiums for ${requests.length} tokenized stocks...`);
+  const premiums = await getTokenPremiums(requests);
+
+  requests.forEach((request, i) => {
+    const premium = premiums[i];
+    const label = `${request.symbol} (chain ${request.chainId})`;
+    if (premium) {
+      const sign = premium.premiumPercent >= 0 ? '+' : '';
+      console.log(`${label}: ${sign}${premium.premiumPercent.toFixed(2)}% vs ${premium.ticker} (${premium.method})`);
+    } else {
+      console.log(`${label}: no on-chain or reference price`);
+    }
+  });
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Failed to record stock premiums:');
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * Check the swap simulator against Uniswap's QuoterV2 on a local Hardhat node
+ *
+ * Deploys the real v3 factory, position manager and QuoterV2 (from the @uniswap
+ * packages in contracts/), creates a fixture pool with overlapping and one-sided
+ * positions, then quotes the same swaps with QuoterV2 and with simulateSwap. Amounts
+ * and the price after the swap must match exactly. Exits non-zero on any mismatch,
+ * so it can run unattended.
+ *
+ * Usage (the contracts must be compiled and a node running):
+ *   cd contracts && npm install && npx hardhat compile && npx hardhat node
+ *   RPC_URL_31337=http://127.0.0.1:8545 npx tsx test-swap-simulator.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createWalletClient, erc20Abi, http, maxUint256, zeroAddress, type Abi, type Hex } from 'viem';
+import { getRpcClient, getRpcUrl } from './lib/uniswap/rpc';
+import { simulateSwap, type V3PoolState } from './lib/uniswap/swapSimulator';
+import type { TickData } from './lib/uniswap/ticks';
+import { getSqrtRatioAtTick } from './lib/uniswap/v3Math';
+
+const CHAIN_ID = 31337;
+const CONTRACTS_DIR = path.join(process.cwd(), 'contracts');
+
+// Fixture pool: an 18-decimal stock token at about $200 against a 6-decimal stablecoin
+const STOCK_DECIMALS = 18;
+const STABLE_DECIMALS = 6;
+const FEE = 3000;
+const TICK_SPACING = 60;
+const START_PRICE_USD = 200;
+
+// Positions as tick offsets from the starting tick: wide, narrow, and one-sided on each side
+const POSITIONS: Array<[number, number]> = [
+  [-6000, 6000],
+  [-600, 600],
+  [1200, 3000],
+  [-3000, -1200],
+];
+
+// Swap sizes as fractions of the pool's balance of the input (exact in) or output (exact out) token
+const SWAP_FRACTIONS = [0.0001, 0.01, 0.3, 0.9];
+
+interface Artifact {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+/**
+ * Load a Hardhat artifact, relative to contracts/
+ */
+function loadArtifact(relativePath: string): Artifact {
+  const file = path.join(CONTRACTS_DIR, relativePath);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing artifact ${file}; run \`npm install && npx hardhat compile\` in contracts/`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Tick whose price of token0 in token1 matches a human price, in raw token units
+ */
+function priceToTick(price0: number, decimals0: number, decimals1: number): number {
+  const rawPrice = price0 * 10 ** (decimals1 - decimals0);
+  return Math.round(Math.log(rawPrice) / Math.log(1.0001));
+}
+
+/**
+ * Scale a raw amount by a fraction without going through floating point
+ */
+function scale(amount: bigint, fraction: number): bigint {
+  return (amount * BigInt(Math.round(fraction * 1_000_000))) / 1_000_000n;
+}
+
+let failures = 0;
+
+/**
+ * Log a check and count it if it failed
+ */
+function check(label: string, passed: boolean, detail: string) {
+  console.log(`${passed ? '✓' : '✗'} ${label}: ${detail}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+async function main() {
+  const rpcUrl = getRpcUrl(CHAIN_ID);
+  if (!rpcUrl) {
+    console.log(`Set RPC_URL_${CHAIN_ID} to the Hardhat node, e.g. http://127.0.0.1:8545`);
+    process.exit(1);
+  }
+
+  const erc20 = loadArtifact('artifacts/contracts/mocks/MockERC20.sol/MockERC20.json');
+  const factoryArtifact = loadArtifact('node_modules/@uniswap/v3-core/artifacts/contracts/UniswapV3Factory.sol/UniswapV3Factory.json');
+  const poolArtifact = loadArtifact('node_modules/@uniswap/v3-core/artifacts/contracts/UniswapV3Pool.sol/UniswapV3Pool.json');
+  const positionManagerArtifact = loadArtifact(
+    'node_modules/@uniswap/v3-periphery/artifacts/contracts/NonfungiblePositionManager.sol/NonfungiblePositionManager.json'
+  );
+  const quoterArtifact = loadArtifact('node_modules/@uniswap/v3-periphery/artifacts/contracts/lens/QuoterV2.sol/QuoterV2.json');
+
+  const publicClient = getRpcClient(CHAIN_ID);
+  const walletClient = createWalletClient({ transport: http(rpcUrl) });
+  const [account] = await walletClient.getAddresses();
+
+  const deploy = async (artifact: Artifact, args: unknown[] = []): Promise<Hex> => {
+    const hash = await walletClient.deployContract({ ...artifact, args, account, chain: null });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (!receipt.contractAddress) {
+      throw new Error(`Deployment ${hash} created no contract`);
+    }
+    return receipt.contractAddress;
+  };
+  const write = async (address: Hex, abi: Abi, functionName: string, args: unknown[]) => {
+    const hash = await walletClient.writeContract({ address, abi, functionName, args, account, chain: null });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`${functionName} reverted (${hash})`);
+    }
+  };
+
+  // Tokens, ordered by address like Uniswap does
+  const stock = await deploy(erc20, ['Apple (Ondo Tokenized)', 'AAPLon', STOCK_DECIMALS]);
+  const stable = await deploy(erc20, ['USD Coin', 'USDC', STABLE_DECIMALS]);
+  const stockIsToken0 = stock.toLowerCase() < stable.toLowerCase();
+  const [token0, token1] = stockIsToken0 ? [stock, stable] : [stable, stock];
+  const [decimals0, decimals1] = stockIsToken0 ? [STOCK_DECIMALS, STABLE_DECIMALS] : [STABLE_DECIMALS, STOCK_DECIMALS];
+
+  // Pool, initialized at the starting price
+  const factory = await deploy(factoryArtifact);
+  await write(factory, factoryArtifact.abi, 'createPool', [token0, token1, FEE]);
+  const pool = await publicClient.readContract({
+    address: factory,
+    abi: factoryArtifact.abi,
+    functionName: 'getPool',
+    args: [token0, token1, FEE],
+  }) as Hex;
+  const startTick = priceToTick(stockIsToken0 ? START_PRICE_USD : 1 / START_PRICE_USD, decimals0, decimals1);
+  await write(pool, poolArtifact.abi, 'initialize', [getSqrtRatioAtTick(startTick)]);
+
+  // Liquidity through the real position manager, so the ticks are set up as on mainnet
+  const positionManager = await deploy(positionManagerArtifact, [factory, zeroAddress, zeroAddress]);
+  for (const [token, decimals] of [[token0, decimals0], [token1, decimals1]] as const) {
+    await write(token, erc20.abi, 'mint', [account, 10n ** BigInt(decimals + 12)]);
+    await write(token, erc20.abi, 'approve', [positionManager, maxUint256]);
+  }
+
+  const baseTick = Math.floor(startTick / TICK_SPACING) * TICK_SPACING;
+  const tickIndexes = new Set<number>();
+  for (const [lowerOffset, upperOffset] of POSITIONS) {
+    const tickLower = baseTick + lowerOffset;
+    const tickUpper = baseTick + upperOffset;
+    tickIndexes.add(tickLower);
+    tickIndexes.add(tickUpper);
+    await write(positionManager, positionManagerArtifact.abi, 'mint', [{
+      token0,
+      token1,
+      fee: FEE,
+      tickLower,
+      tickUpper,
+      amount0Desired: 10n ** BigInt(decimals0 + 6),
+      amount1Desired: 10n ** BigInt(decimals1 + 6),
+      amount0Min: 0n,
+      amount1Min: 0n,
+      recipient: account,
+      deadline: maxUint256,
+    }]);
+  }
+
+  const quoter = await deploy(quoterArtifact, [factory, zeroAddress]);
+
+  // Simulator state read from the pool, as the app reads it from the subgraph
+  const [slot0, liquidity] = await Promise.all([
+    publicClient.readContract({ address: pool, abi: poolArtifact.abi, functionName: 'slot0' }) as Promise<readonly [bigint, number]>,
+    publicClient.readContract({ address: pool, abi: poolArtifact.abi, functionName: 'liquidity' }) as Promise<bigint>,
+  ]);
+  const ticks: TickData[] = await Promise.all(
+    Array.from(tickIndexes).sort((a, b) => a - b).map(async (tickIdx) => {
+      const [liquidityGross, liquidityNet] = await publicClient.readContract({
+        address: pool,
+        abi: poolArtifact.abi,
+        functionName: 'ticks',
+        args: [tickIdx],
+      }) as readonly [bigint, bigint];
+      return { tickIdx, liquidityNet, liquidityGross };
+    })
+  );
+  const state: V3PoolState = { sqrtPriceX96: slot0[0], tick: slot0[1], liquidity, feePips: FEE, ticks };
+  const balances = await Promise.all(
+    [token0, token1].map((token) =>
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [pool] })
+    )
+  );
+  console.log(`Pool ${pool}: tick ${state.tick}, ${ticks.length} initialized ticks\n`);
+
+  for (const zeroForOne of [true, false]) {
+    const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0];
+    const [balanceIn, balanceOut] = zeroForOne ? balances : [balances[1], balances[0]];
+
+    for (const exactInput of [true, false]) {
+      for (const fraction of SWAP_FRACTIONS) {
+        const amount = scale(exactInput ? balanceIn : balanceOut, fraction);
+        const label = `${zeroForOne ? '0→1' : '1→0'} exact ${exactInput ? 'in' : 'out'} ${amount}`;
+        const simulation = simulateSwap(state, { zeroForOne, amount, exactInput });
+
+        const { result } = await publicClient.simulateContract({
+          address: quoter,
+          abi: quoterArtifact.abi,
+          functionName: exactInput ? 'quoteExactInputSingle' : 'quoteExactOutputSingle',
+          args: [exactInput
+            ? { tokenIn, tokenOut, amountIn: amount, fee: FEE, sqrtPriceLimitX96: 0n }
+            : { tokenIn, tokenOut, amount, fee: FEE, sqrtPriceLimitX96: 0n }],
+        }) as { result: readonly [bigint, bigint, number, bigint] };
+        const [quotedAmount, quotedSqrtPriceAfter] = result;
+
+        const simulatedAmount = exactInput ? simulation.amountOut : simulation.amountIn;
+        check(
+          label,
+          simulatedAmount === quotedAmount && simulation.sqrtPriceX96After === quotedSqrtPriceAfter,
+          `simulator ${simulatedAmount}, quoter ${quotedAmount}`
+            + (simulation.sqrtPriceX96After === quotedSqrtPriceAfter ? '' : `; price after ${simulation.sqrtPriceX96After} vs ${quotedSqrtPriceAfter}`)
+            + `, ${simulation.ticksCrossed} ticks crossed`
+        );
+      }
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll checks passed');
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Swap simulator check failed:');
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * Check the TWAP price source against a local Hardhat node
+ *
+ * Deploys the mock v3 pool fixture (contracts/contracts/mocks) to the node, gives it a
+ * known tick history and checks that observeAverageTick, tickToPrice0 and the
+ * stablecoin matching return what that history implies. Exits non-zero on any
+ * mismatch, so it can run unattended.
+ *
+ * Usage (the contracts must be compiled and a node running):
+ *   cd contracts && npx hardhat compile && npx hardhat node
+ *   RPC_URL_31337=http://127.0.0.1:8545 npx tsx test-twap-fixture.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createTestClient, createWalletClient, http, type Abi, type Hex } from 'viem';
+import { getRpcClient, getRpcUrl } from './lib/uniswap/rpc';
+import { isStablecoin, observeAverageTick, tickToPrice0 } from './lib/uniswap/twap';
+
+const CHAIN_ID = 31337;
+const ARTIFACTS_DIR = path.join(process.cwd(), 'contracts', 'artifacts', 'contracts', 'mocks');
+
+// Fixture: a tokenized stock against a 6-decimal token named "USDC", moved from $200 to $220
+const STOCK_DECIMALS = 18;
+const STABLE_DECIMALS = 6;
+const FEE_TIER = 3000;
+const START_PRICE_USD = 200;
+const END_PRICE_USD = 220;
+const HISTORY_SECONDS = 2 * 60 * 60; // At the start price
+const WINDOW_SECONDS = 1800;
+
+// Mainnet USDC, which must match by address
+const MAINNET_USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+interface Artifact {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+/**
+ * Load a compiled mock contract from the Hardhat artifacts
+ */
+function loadArtifact(name: string): Artifact {
+  const file = path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing artifact ${file}; run \`npx hardhat compile\` in contracts/`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Tick whose price of token0 in token1 matches a human price, in raw token units
+ */
+function priceToTick(price0: number, decimals0: number, decimals1: number): number {
+  const rawPrice = price0 * 10 ** (decimals1 - decimals0);
+  return Math.round(Math.log(rawPrice) / Math.log(1.0001));
+}
+
+let failures = 0;
+
+/**
+ * Log a check and count it if it failed
+ */
+function check(label: string, passed: boolean, detail: string) {
+  console.log(`${passed ? '✓' : '✗'} ${label}: ${detail}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+async function main() {
+  const rpcUrl = getRpcUrl(CHAIN_ID);
+  if (!rpcUrl) {
+    console.log(`Set RPC_URL_${CHAIN_ID} to the Hardhat node, e.g. http://127.0.0.1:8545`);
+    process.exit(1);
+  }
+
+  const publicClient = getRpcClient(CHAIN_ID);
+  const walletClient = createWalletClient({ transport: http(rpcUrl) });
+  const testClient = createTestClient({ mode: 'hardhat', transport: http(rpcUrl) });
+  const [account] = await walletClient.getAddresses();
+
+  const deploy = async (artifact: Artifact, args: unknown[]): Promise<string> => {
+    const hash = await walletClient.deployContract({ ...artifact, args, account, chain: null });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (!receipt.contractAddress) {
+      throw new Error(`Deployment ${hash} created no contract`);
+    }
+    return receipt.contractAddress.toLowerCase();
+  };
+
+  const erc20 = loadArtifact('MockERC20');
+  const poolArtifact = loadArtifact('MockUniswapV3Pool');
+  const stockAddress = await deploy(erc20, ['Apple (Ondo Tokenized)', 'AAPLon', STOCK_DECIMALS]);
+  const stableAddress = await deploy(erc20, ['USD Coin', 'USDC', STABLE_DECIMALS]);
+
+  // Uniswap orders pool tokens by address
+  const stockIsToken0 = stockAddress < stableAddress;
+  const [token0, token1] = stockIsToken0 ? [stockAddress, stableAddress] : [stableAddress, stockAddress];
+  const [decimals0, decimals1] = stockIsToken0 ? [STOCK_DECIMALS, STABLE_DECIMALS] : [STABLE_DECIMALS, STOCK_DECIMALS];
+  const toTick = (priceUSD: number) => priceToTick(stockIsToken0 ? priceUSD : 1 / priceUSD, decimals0, decimals1);
+  const toPriceUSD = (tick: number) => {
+    const price0 = tickToPrice0(tick, decimals0, decimals1);
+    return stockIsToken0 ? price0 : 1 / price0;
+  };
+
+  const startTick = toTick(START_PRICE_USD);
+  const endTick = toTick(END_PRICE_USD);
+  const poolAddress = await deploy(poolArtifact, [token0, token1, FEE_TIER, startTick]);
+  console.log(`Pool ${poolAddress}: AAPLon ${stockAddress}, USDC ${stableAddress}\n`);
+
+  // A window entirely inside the start price's history
+  await testClient.increaseTime({ seconds: HISTORY_SECONDS });
+  await testClient.mine({ blocks: 1 });
+  const flatTick = await observeAverageTick(CHAIN_ID, poolAddress, WINDOW_SECONDS);
+  check('Flat history', flatTick === startTick, `average tick ${flatTick}, expected ${startTick}`);
+  const flatPrice = toPriceUSD(flatTick);
+  check(
+    'Price from tick',
+    Math.abs(flatPrice - START_PRICE_USD) / START_PRICE_USD < 0.0001,
+    `$${flatPrice.toFixed(4)}, expected $${START_PRICE_USD}`
+  );
+
+  // Move the price for the last third of the window: the average is weighted by time
+  const hash = await walletClient.writeContract({
+    address: poolAddress as Hex,
+    abi: poolArtifact.abi,
+    functionName: 'setTick',
+    args: [endTick],
+    account,
+    chain: null,
+  });
+  await publicClient.waitForTransactionReceipt({ hash });
+  await testClient.increaseTime({ seconds: WINDOW_SECONDS / 3 });
+  await testClient.mine({ blocks: 1 });
+  const movedTick = await observeAverageTick(CHAIN_ID, poolAddress, WINDOW_SECONDS);
+  const expectedTick = Math.floor((startTick * 2 + endTick) / 3);
+  // A second or two of block timestamp drift moves the average by about one tick
+  check(
+    'Price move',
+    Math.abs(movedTick - expectedTick) <= 2,
+    `average tick ${movedTick}, expected about ${expectedTick}`
+  );
+
+  // The oracle can't answer for time before its first observation
+  const tooLong = await observeAverageTick(CHAIN_ID, poolAddress, 7 * 24 * 60 * 60).then(
+    () => false,
+    () => true
+  );
+  check('Window older than history', tooLong, tooLong ? 'observe() reverted' : 'observe() returned a value');
+
+  // The fixture's "USDC" has the right symbol but an unknown address
+  check('Spoofed stablecoin', !isStablecoin(CHAIN_ID, stableAddress), `${stableAddress} on chain ${CHAIN_ID}`);
+  check('Known stablecoin', isStablecoin(1, MAINNET_USDC), `${MAINNET_USDC} on chain 1`);
+
+  if (failures > 0) {
+    console.log(`\n${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll checks passed');
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('TWAP fixture check failed:');
+    console.error(error);
+    process.exit(1);
+  });
+}